@@ -0,0 +1,105 @@
+// Caches the results of parsing each PDF (keyed by the hash of the content of the PDF) so that an
+// unchanged PDF is not parsed again.  There are three stages: the elements extracted from each page
+// (which only change when the text extraction changes), the details parsed from those elements
+// (which change when the parsing changes) and the addresses derived from the property details
+// (which change when the address stage or the reference data changes).
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.parsePdfWithCache = exports.isPdfCached = exports.getCacheKeys = exports.createMemoryCache = void 0;
+const moment = require("moment");
+const parser_1 = require("./parser");
+const councils_1 = require("./councils");
+const reference_1 = require("./reference");
+// Creates a cache that is held in memory (for a single run).
+function createMemoryCache() {
+    let pagesByKey = {};
+    let parsesByKey = {};
+    return {
+        getPages: async (contentHash, elementsKey) => pagesByKey[`${contentHash}|${elementsKey}`],
+        savePages: async (contentHash, elementsKey, pages) => {
+            pagesByKey[`${contentHash}|${elementsKey}`] = pages;
+        },
+        getParse: async (contentHash, parserKey) => parsesByKey[`${contentHash}|${parserKey}`],
+        saveParse: async (contentHash, parserKey, cachedParse) => {
+            parsesByKey[`${contentHash}|${parserKey}`] = cachedParse;
+        }
+    };
+}
+exports.createMemoryCache = createMemoryCache;
+// Gets the keys identifying the versions of the text extraction, the page parsing (including the
+// page templates of the council) and the address stage (including the reference data).
+function getCacheKeys(profile) {
+    return {
+        elementsKey: `elements-${parser_1.ElementsVersion}`,
+        parserKey: `parser-${parser_1.ParserVersion}-${profile.name}`,
+        addressKey: `address-${parser_1.AddressVersion}-${reference_1.getReferenceDataHash()}`
+    };
+}
+exports.getCacheKeys = getCacheKeys;
+// Determines whether the details parsed from the PDF with the specified content hash (or the
+// elements of its pages) are cached, so that the PDF itself is not needed to parse it again.
+async function isPdfCached(cache, contentHash, profile = councils_1.CoorongProfile) {
+    let { elementsKey, parserKey } = getCacheKeys(profile);
+    return (await cache.getParse(contentHash, parserKey)) !== undefined || (await cache.getPages(contentHash, elementsKey)) !== undefined;
+}
+exports.isPdfCached = isPdfCached;
+// Parses the development applications in the specified PDF (with the specified content hash),
+// using the cached applications or the cached elements of each page where possible (the buffer
+// may be undefined if isPdfCached indicates that the PDF is cached).  This otherwise behaves in
+// the same way as parsePdf (adding the pages that could not be fully parsed to the quarantined
+// pages array and writing the statistics).
+async function parsePdfWithCache(cache, url, buffer, contentHash, quarantinedPages = [], memoryBudget = parser_1.DefaultMemoryBudget, profile = councils_1.CoorongProfile, statistics = {}) {
+    let { elementsKey, parserKey, addressKey } = getCacheKeys(profile);
+    let startTime = Date.now();
+    // Replay the cached applications.  If the address stage or the reference data has changed
+    // since the applications were cached then only the addresses are derived again from the
+    // cached details of each page (so that an application whose address can no longer be
+    // formatted is quarantined and a page rejected because of its address is given another
+    // chance).
+    let cachedParse = await cache.getParse(contentHash, parserKey);
+    if (cachedParse !== undefined && cachedParse.addressKey !== addressKey) {
+        console.log(`Deriving the addresses of the applications parsed from ${url} again because the address formatting or reference data has changed.`);
+        // The elements of the pages are only needed for any pages that are quarantined (falling
+        // back to the elements of the pages that were quarantined before).
+        let pages = await cache.getPages(contentHash, elementsKey);
+        if (pages === undefined) {
+            pages = [];
+            for (let quarantinedPage of cachedParse.quarantinedPages)
+                pages[quarantinedPage.pageNumber - 1] = quarantinedPage.elements;
+        }
+        let parsedQuarantinedPages = [];
+        let developmentApplications = parser_1.addPdfPageAddresses(url, cachedParse.parsedPages, pages, parsedQuarantinedPages);
+        cachedParse = { ...cachedParse, addressKey: addressKey, developmentApplications: developmentApplications, quarantinedPages: parsedQuarantinedPages };
+        await cache.saveParse(contentHash, parserKey, cachedParse);
+    }
+    if (cachedParse !== undefined) {
+        let developmentApplications = cachedParse.developmentApplications;
+        console.log(`Using the ${developmentApplications.length} cached development application(s) parsed from ${url}.`);
+        quarantinedPages.push(...cachedParse.quarantinedPages.map(quarantinedPage => ({ ...quarantinedPage, url: url })));
+        Object.assign(statistics, { pageCount: cachedParse.pageCount, reloadCount: 0, peakHeapUsed: 0, duration: Date.now() - startTime });
+        let scrapeDate = moment().format("YYYY-MM-DD");
+        return developmentApplications.map(developmentApplication => ({ ...developmentApplication, informationUrl: url, scrapeDate: scrapeDate }));
+    }
+    // Otherwise parse the cached elements of each page (extracting the elements from the PDF if
+    // they are not cached).
+    let pages = await cache.getPages(contentHash, elementsKey);
+    if (pages === undefined) {
+        if (buffer === undefined)
+            throw new Error(`The elements of the pages of ${url} are not cached and the PDF was not retrieved.`);
+        console.log(`Reading development applications from ${url}.`);
+        pages = await parser_1.extractPdfPages(buffer, memoryBudget, statistics);
+        await cache.savePages(contentHash, elementsKey, pages);
+    }
+    else {
+        console.log(`Parsing the cached elements of the ${pages.length} page(s) of ${url}.`);
+        Object.assign(statistics, { pageCount: pages.length, reloadCount: 0, peakHeapUsed: 0, duration: Date.now() - startTime });
+    }
+    let parsedPages = parser_1.parsePdfPageDetails(url, pages, profile);
+    let parsedQuarantinedPages = [];
+    let developmentApplications = parser_1.addPdfPageAddresses(url, parsedPages, pages, parsedQuarantinedPages);
+    await cache.saveParse(contentHash, parserKey, { addressKey: addressKey, pageCount: pages.length, parsedPages: parsedPages, developmentApplications: developmentApplications, quarantinedPages: parsedQuarantinedPages });
+    quarantinedPages.push(...parsedQuarantinedPages);
+    return developmentApplications;
+}
+exports.parsePdfWithCache = parsePdfWithCache;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoiY2FjaGUuanMiLCJzb3VyY2VSb290IjoiIiwic291cmNlcyI6WyJjYWNoZS50cyJdLCJuYW1lcyI6W10sIm1hcHBpbmdzIjoiQUFBQSxrR0FBa0c7QUFDbEcsb0dBQW9HO0FBQ3BHLCtGQUErRjtBQUMvRiw4RkFBOEY7QUFDOUYsdUVBQXVFO0FBRXZFLFlBQVksQ0FBQzs7O0FBRWIsaUNBQWlDO0FBQ2pDLHFDQUErTTtBQUMvTSx5Q0FBNEQ7QUFDNUQsMkNBQW1EO0FBd0JuRCw2REFBNkQ7QUFFN0QsU0FBZ0IsaUJBQWlCO0lBQzdCLElBQUksVUFBVSxHQUFtQyxFQUFFLENBQUM7SUFDcEQsSUFBSSxXQUFXLEdBQW1DLEVBQUUsQ0FBQztJQUNyRCxPQUFPO1FBQ0gsUUFBUSxFQUFFLEtBQUssRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLEVBQUUsQ0FBQyxVQUFVLENBQUMsR0FBRyxXQUFXLElBQUksV0FBVyxFQUFFLENBQUM7UUFDekYsU0FBUyxFQUFFLEtBQUssRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLEtBQUssRUFBRSxFQUFFO1lBQ2pELFVBQVUsQ0FBQyxHQUFHLFdBQVcsSUFBSSxXQUFXLEVBQUUsQ0FBQyxHQUFHLEtBQUssQ0FBQztRQUN4RCxDQUFDO1FBQ0QsUUFBUSxFQUFFLEtBQUssRUFBRSxXQUFXLEVBQUUsU0FBUyxFQUFFLEVBQUUsQ0FBQyxXQUFXLENBQUMsR0FBRyxXQUFXLElBQUksU0FBUyxFQUFFLENBQUM7UUFDdEYsU0FBUyxFQUFFLEtBQUssRUFBRSxXQUFXLEVBQUUsU0FBUyxFQUFFLFdBQVcsRUFBRSxFQUFFO1lBQ3JELFdBQVcsQ0FBQyxHQUFHLFdBQVcsSUFBSSxTQUFTLEVBQUUsQ0FBQyxHQUFHLFdBQVcsQ0FBQztRQUM3RCxDQUFDO0tBQ0osQ0FBQztBQUNOLENBQUM7QUFiRCw4Q0FhQztBQUVELGlHQUFpRztBQUNqRyx1RkFBdUY7QUFFdkYsU0FBZ0IsWUFBWSxDQUFDLE9BQXVCO0lBQ2hELE9BQU87UUFDSCxXQUFXLEVBQUUsWUFBWSx3QkFBZSxFQUFFO1FBQzFDLFNBQVMsRUFBRSxVQUFVLHNCQUFhLElBQUksT0FBTyxDQUFDLElBQUksRUFBRTtRQUNwRCxVQUFVLEVBQUUsV0FBVyx1QkFBYyxJQUFJLGdDQUFvQixFQUFFLEVBQUU7S0FDcEUsQ0FBQztBQUNOLENBQUM7QUFORCxvQ0FNQztBQUVELDZGQUE2RjtBQUM3Riw2RkFBNkY7QUFFdEYsS0FBSyxVQUFVLFdBQVcsQ0FBQyxLQUFpQixFQUFFLFdBQW1CLEVBQUUsVUFBMEIseUJBQWM7SUFDOUcsSUFBSSxFQUFFLFdBQVcsRUFBRSxTQUFTLEVBQUUsR0FBRyxZQUFZLENBQUMsT0FBTyxDQUFDLENBQUM7SUFDdkQsT0FBTyxDQUFDLE1BQU0sS0FBSyxDQUFDLFFBQVEsQ0FBQyxXQUFXLEVBQUUsU0FBUyxDQUFDLENBQUMsS0FBSyxTQUFTLElBQUksQ0FBQyxNQUFNLEtBQUssQ0FBQyxRQUFRLENBQUMsV0FBVyxFQUFFLFdBQVcsQ0FBQyxDQUFDLEtBQUssU0FBUyxDQUFDO0FBQzFJLENBQUM7QUFIRCxrQ0FHQztBQUVELDhGQUE4RjtBQUM5RiwrRkFBK0Y7QUFDL0YsZ0dBQWdHO0FBQ2hHLCtGQUErRjtBQUMvRiwyQ0FBMkM7QUFFcEMsS0FBSyxVQUFVLGlCQUFpQixDQUFDLEtBQWlCLEVBQUUsR0FBVyxFQUFFLE1BQWMsRUFBRSxXQUFtQixFQUFFLG1CQUFzQyxFQUFFLEVBQUUsZUFBdUIsNEJBQW1CLEVBQUUsVUFBMEIseUJBQWMsRUFBRSxhQUEyQyxFQUFFO0lBQ3RSLElBQUksRUFBRSxXQUFXLEVBQUUsU0FBUyxFQUFFLFVBQVUsRUFBRSxHQUFHLFlBQVksQ0FBQyxPQUFPLENBQUMsQ0FBQztJQUNuRSxJQUFJLFNBQVMsR0FBRyxJQUFJLENBQUMsR0FBRyxFQUFFLENBQUM7SUFFM0IsMEZBQTBGO0lBQzFGLHdGQUF3RjtJQUN4RixxRkFBcUY7SUFDckYsdUZBQXVGO0lBQ3ZGLFdBQVc7SUFFWCxJQUFJLFdBQVcsR0FBRyxNQUFNLEtBQUssQ0FBQyxRQUFRLENBQUMsV0FBVyxFQUFFLFNBQVMsQ0FBQyxDQUFDO0lBQy9ELElBQUksV0FBVyxLQUFLLFNBQVMsSUFBSSxXQUFXLENBQUMsVUFBVSxLQUFLLFVBQVUsRUFBRTtRQUNwRSxPQUFPLENBQUMsR0FBRyxDQUFDLDBEQUEwRCxHQUFHLHNFQUFzRSxDQUFDLENBQUM7UUFFakosd0ZBQXdGO1FBQ3hGLG1FQUFtRTtRQUVuRSxJQUFJLEtBQUssR0FBRyxNQUFNLEtBQUssQ0FBQyxRQUFRLENBQUMsV0FBVyxFQUFFLFdBQVcsQ0FBQyxDQUFDO1FBQzNELElBQUksS0FBSyxLQUFLLFNBQVMsRUFBRTtZQUNyQixLQUFLLEdBQUcsRUFBRSxDQUFDO1lBQ1gsS0FBSyxJQUFJLGVBQWUsSUFBSSxXQUFXLENBQUMsZ0JBQWdCO2dCQUNwRCxLQUFLLENBQUMsZUFBZSxDQUFDLFVBQVUsR0FBRyxDQUFDLENBQUMsR0FBRyxlQUFlLENBQUMsUUFBUSxDQUFDO1NBQ3hFO1FBRUQsSUFBSSxzQkFBc0IsR0FBc0IsRUFBRSxDQUFDO1FBQ25ELElBQUksdUJBQXVCLEdBQUcsNEJBQW1CLENBQUMsR0FBRyxFQUFFLFdBQVcsQ0FBQyxXQUFXLEVBQUUsS0FBSyxFQUFFLHNCQUFzQixDQUFDLENBQUM7UUFDL0csV0FBVyxHQUFHLEVBQUUsR0FBRyxXQUFXLEVBQUUsVUFBVSxFQUFFLFVBQVUsRUFBRSx1QkFBdUIsRUFBRSx1QkFBdUIsRUFBRSxnQkFBZ0IsRUFBRSxzQkFBc0IsRUFBRSxDQUFDO1FBQ3JKLE1BQU0sS0FBSyxDQUFDLFNBQVMsQ0FBQyxXQUFXLEVBQUUsU0FBUyxFQUFFLFdBQVcsQ0FBQyxDQUFDO0tBQzlEO0lBRUQsSUFBSSxXQUFXLEtBQUssU0FBUyxFQUFFO1FBQzNCLElBQUksdUJBQXVCLEdBQUcsV0FBVyxDQUFDLHVCQUF1QixDQUFDO1FBQ2xFLE9BQU8sQ0FBQyxHQUFHLENBQUMsYUFBYSx1QkFBdUIsQ0FBQyxNQUFNLGtEQUFrRCxHQUFHLEdBQUcsQ0FBQyxDQUFDO1FBQ2pILGdCQUFnQixDQUFDLElBQUksQ0FBQyxHQUFHLFdBQVcsQ0FBQyxnQkFBZ0IsQ0FBQyxHQUFHLENBQUMsZUFBZSxDQUFDLEVBQUUsQ0FBQyxDQUFDLEVBQUUsR0FBRyxlQUFlLEVBQUUsR0FBRyxFQUFFLEdBQUcsRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDO1FBQ2xILE1BQU0sQ0FBQyxNQUFNLENBQUMsVUFBVSxFQUFFLEVBQUUsU0FBUyxFQUFFLFdBQVcsQ0FBQyxTQUFTLEVBQUUsV0FBVyxFQUFFLENBQUMsRUFBRSxZQUFZLEVBQUUsQ0FBQyxFQUFFLFFBQVEsRUFBRSxJQUFJLENBQUMsR0FBRyxFQUFFLEdBQUcsU0FBUyxFQUFFLENBQUMsQ0FBQztRQUNuSSxJQUFJLFVBQVUsR0FBRyxNQUFNLEVBQUUsQ0FBQyxNQUFNLENBQUMsWUFBWSxDQUFDLENBQUM7UUFDL0MsT0FBTyx1QkFBdUIsQ0FBQyxHQUFHLENBQUMsc0JBQXNCLENBQUMsRUFBRSxDQUFDLENBQUMsRUFBRSxHQUFHLHNCQUFzQixFQUFFLGNBQWMsRUFBRSxHQUFHLEVBQUUsVUFBVSxFQUFFLFVBQVUsRUFBRSxDQUFDLENBQUMsQ0FBQztLQUM5STtJQUVELDRGQUE0RjtJQUM1Rix3QkFBd0I7SUFFeEIsSUFBSSxLQUFLLEdBQUcsTUFBTSxLQUFLLENBQUMsUUFBUSxDQUFDLFdBQVcsRUFBRSxXQUFXLENBQUMsQ0FBQztJQUMzRCxJQUFJLEtBQUssS0FBSyxTQUFTLEVBQUU7UUFDckIsSUFBSSxNQUFNLEtBQUssU0FBUztZQUNwQixNQUFNLElBQUksS0FBSyxDQUFDLGdDQUFnQyxHQUFHLGdEQUFnRCxDQUFDLENBQUM7UUFDekcsT0FBTyxDQUFDLEdBQUcsQ0FBQyx5Q0FBeUMsR0FBRyxHQUFHLENBQUMsQ0FBQztRQUM3RCxLQUFLLEdBQUcsTUFBTSx3QkFBZSxDQUFDLE1BQU0sRUFBRSxZQUFZLEVBQUUsVUFBVSxDQUFDLENBQUM7UUFDaEUsTUFBTSxLQUFLLENBQUMsU0FBUyxDQUFDLFdBQVcsRUFBRSxXQUFXLEVBQUUsS0FBSyxDQUFDLENBQUM7S0FDMUQ7U0FBTTtRQUNILE9BQU8sQ0FBQyxHQUFHLENBQUMsc0NBQXNDLEtBQUssQ0FBQyxNQUFNLGVBQWUsR0FBRyxHQUFHLENBQUMsQ0FBQztRQUNyRixNQUFNLENBQUMsTUFBTSxDQUFDLFVBQVUsRUFBRSxFQUFFLFNBQVMsRUFBRSxLQUFLLENBQUMsTUFBTSxFQUFFLFdBQVcsRUFBRSxDQUFDLEVBQUUsWUFBWSxFQUFFLENBQUMsRUFBRSxRQUFRLEVBQUUsSUFBSSxDQUFDLEdBQUcsRUFBRSxHQUFHLFNBQVMsRUFBRSxDQUFDLENBQUM7S0FDN0g7SUFFRCxJQUFJLFdBQVcsR0FBRyw0QkFBbUIsQ0FBQyxHQUFHLEVBQUUsS0FBSyxFQUFFLE9BQU8sQ0FBQyxDQUFDO0lBQzNELElBQUksc0JBQXNCLEdBQXNCLEVBQUUsQ0FBQztJQUNuRCxJQUFJLHVCQUF1QixHQUFHLDRCQUFtQixDQUFDLEdBQUcsRUFBRSxXQUFXLEVBQUUsS0FBSyxFQUFFLHNCQUFzQixDQUFDLENBQUM7SUFDbkcsTUFBTSxLQUFLLENBQUMsU0FBUyxDQUFDLFdBQVcsRUFBRSxTQUFTLEVBQUUsRUFBRSxVQUFVLEVBQUUsVUFBVSxFQUFFLFNBQVMsRUFBRSxLQUFLLENBQUMsTUFBTSxFQUFFLFdBQVcsRUFBRSxXQUFXLEVBQUUsdUJBQXVCLEVBQUUsdUJBQXVCLEVBQUUsZ0JBQWdCLEVBQUUsc0JBQXNCLEVBQUUsQ0FBQyxDQUFDO0lBQ3pOLGdCQUFnQixDQUFDLElBQUksQ0FBQyxHQUFHLHNCQUFzQixDQUFDLENBQUM7SUFDakQsT0FBTyx1QkFBdUIsQ0FBQztBQUNuQyxDQUFDO0FBNURELDhDQTREQyJ9
\ No newline at end of file
@@ -0,0 +1,138 @@
+// Caches the results of parsing each PDF (keyed by the hash of the content of the PDF) so that an
+// unchanged PDF is not parsed again.  There are three stages: the elements extracted from each page
+// (which only change when the text extraction changes), the details parsed from those elements
+// (which change when the parsing changes) and the addresses derived from the property details
+// (which change when the address stage or the reference data changes).
+
+"use strict";
+
+import * as moment from "moment";
+import { Element, QuarantinedPage, PdfStatistics, ParsedPage, ElementsVersion, ParserVersion, AddressVersion, DefaultMemoryBudget, extractPdfPages, parsePdfPageDetails, addPdfPageAddresses } from "./parser";
+import { CouncilProfile, CoorongProfile } from "./councils";
+import { getReferenceDataHash } from "./reference";
+
+// The details parsed from each page of a PDF (before the addresses were derived) and the
+// applications (and quarantined pages) that resulted.  The address key identifies the version of
+// the address stage and the reference data used to format the addresses.
+
+export interface CachedParse {
+    addressKey: string,
+    pageCount: number,
+    parsedPages: ParsedPage[],
+    developmentApplications: any[],
+    quarantinedPages: QuarantinedPage[]
+}
+
+// The storage used by the cache (the elements key and parser key include the versions of the
+// text extraction and page parsing, so an entry saved by an earlier version is never returned).
+
+export interface ParseCache {
+    getPages(contentHash: string, elementsKey: string): Promise<Element[][]>,
+    savePages(contentHash: string, elementsKey: string, pages: Element[][]): Promise<void>,
+    getParse(contentHash: string, parserKey: string): Promise<CachedParse>,
+    saveParse(contentHash: string, parserKey: string, cachedParse: CachedParse): Promise<void>
+}
+
+// Creates a cache that is held in memory (for a single run).
+
+export function createMemoryCache(): ParseCache {
+    let pagesByKey: { [key: string]: Element[][] } = {};
+    let parsesByKey: { [key: string]: CachedParse } = {};
+    return {
+        getPages: async (contentHash, elementsKey) => pagesByKey[`${contentHash}|${elementsKey}`],
+        savePages: async (contentHash, elementsKey, pages) => {
+            pagesByKey[`${contentHash}|${elementsKey}`] = pages;
+        },
+        getParse: async (contentHash, parserKey) => parsesByKey[`${contentHash}|${parserKey}`],
+        saveParse: async (contentHash, parserKey, cachedParse) => {
+            parsesByKey[`${contentHash}|${parserKey}`] = cachedParse;
+        }
+    };
+}
+
+// Gets the keys identifying the versions of the text extraction, the page parsing (including the
+// page templates of the council) and the address stage (including the reference data).
+
+export function getCacheKeys(profile: CouncilProfile) {
+    return {
+        elementsKey: `elements-${ElementsVersion}`,
+        parserKey: `parser-${ParserVersion}-${profile.name}`,
+        addressKey: `address-${AddressVersion}-${getReferenceDataHash()}`
+    };
+}
+
+// Determines whether the details parsed from the PDF with the specified content hash (or the
+// elements of its pages) are cached, so that the PDF itself is not needed to parse it again.
+
+export async function isPdfCached(cache: ParseCache, contentHash: string, profile: CouncilProfile = CoorongProfile) {
+    let { elementsKey, parserKey } = getCacheKeys(profile);
+    return (await cache.getParse(contentHash, parserKey)) !== undefined || (await cache.getPages(contentHash, elementsKey)) !== undefined;
+}
+
+// Parses the development applications in the specified PDF (with the specified content hash),
+// using the cached applications or the cached elements of each page where possible (the buffer
+// may be undefined if isPdfCached indicates that the PDF is cached).  This otherwise behaves in
+// the same way as parsePdf (adding the pages that could not be fully parsed to the quarantined
+// pages array and writing the statistics).
+
+export async function parsePdfWithCache(cache: ParseCache, url: string, buffer: Buffer, contentHash: string, quarantinedPages: QuarantinedPage[] = [], memoryBudget: number = DefaultMemoryBudget, profile: CouncilProfile = CoorongProfile, statistics: PdfStatistics = <PdfStatistics>{}) {
+    let { elementsKey, parserKey, addressKey } = getCacheKeys(profile);
+    let startTime = Date.now();
+
+    // Replay the cached applications.  If the address stage or the reference data has changed
+    // since the applications were cached then only the addresses are derived again from the
+    // cached details of each page (so that an application whose address can no longer be
+    // formatted is quarantined and a page rejected because of its address is given another
+    // chance).
+
+    let cachedParse = await cache.getParse(contentHash, parserKey);
+    if (cachedParse !== undefined && cachedParse.addressKey !== addressKey) {
+        console.log(`Deriving the addresses of the applications parsed from ${url} again because the address formatting or reference data has changed.`);
+
+        // The elements of the pages are only needed for any pages that are quarantined (falling
+        // back to the elements of the pages that were quarantined before).
+
+        let pages = await cache.getPages(contentHash, elementsKey);
+        if (pages === undefined) {
+            pages = [];
+            for (let quarantinedPage of cachedParse.quarantinedPages)
+                pages[quarantinedPage.pageNumber - 1] = quarantinedPage.elements;
+        }
+
+        let parsedQuarantinedPages: QuarantinedPage[] = [];
+        let developmentApplications = addPdfPageAddresses(url, cachedParse.parsedPages, pages, parsedQuarantinedPages);
+        cachedParse = { ...cachedParse, addressKey: addressKey, developmentApplications: developmentApplications, quarantinedPages: parsedQuarantinedPages };
+        await cache.saveParse(contentHash, parserKey, cachedParse);
+    }
+
+    if (cachedParse !== undefined) {
+        let developmentApplications = cachedParse.developmentApplications;
+        console.log(`Using the ${developmentApplications.length} cached development application(s) parsed from ${url}.`);
+        quarantinedPages.push(...cachedParse.quarantinedPages.map(quarantinedPage => ({ ...quarantinedPage, url: url })));
+        Object.assign(statistics, { pageCount: cachedParse.pageCount, reloadCount: 0, peakHeapUsed: 0, duration: Date.now() - startTime });
+        let scrapeDate = moment().format("YYYY-MM-DD");
+        return developmentApplications.map(developmentApplication => ({ ...developmentApplication, informationUrl: url, scrapeDate: scrapeDate }));
+    }
+
+    // Otherwise parse the cached elements of each page (extracting the elements from the PDF if
+    // they are not cached).
+
+    let pages = await cache.getPages(contentHash, elementsKey);
+    if (pages === undefined) {
+        if (buffer === undefined)
+            throw new Error(`The elements of the pages of ${url} are not cached and the PDF was not retrieved.`);
+        console.log(`Reading development applications from ${url}.`);
+        pages = await extractPdfPages(buffer, memoryBudget, statistics);
+        await cache.savePages(contentHash, elementsKey, pages);
+    } else {
+        console.log(`Parsing the cached elements of the ${pages.length} page(s) of ${url}.`);
+        Object.assign(statistics, { pageCount: pages.length, reloadCount: 0, peakHeapUsed: 0, duration: Date.now() - startTime });
+    }
+
+    let parsedPages = parsePdfPageDetails(url, pages, profile);
+    let parsedQuarantinedPages: QuarantinedPage[] = [];
+    let developmentApplications = addPdfPageAddresses(url, parsedPages, pages, parsedQuarantinedPages);
+    await cache.saveParse(contentHash, parserKey, { addressKey: addressKey, pageCount: pages.length, parsedPages: parsedPages, developmentApplications: developmentApplications, quarantinedPages: parsedQuarantinedPages });
+    quarantinedPages.push(...parsedQuarantinedPages);
+    return developmentApplications;
+}
@@ -0,0 +1,39 @@
+// The council profiles: everything that differs between the South Australian councils that
+// publish their development registers as PDFs in the same style (the register page, the comment
+// URL, the reference data and the layout of the PDF pages).
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.getCouncilProfiles = exports.DefaultCouncilName = exports.CouncilProfiles = exports.CoorongProfile = exports.DefaultRegisterSelectors = void 0;
+const templates_1 = require("./templates");
+exports.DefaultRegisterSelectors = {
+    item: "li.result-item",
+    url: "div.result-item__url",
+    title: ".result-item__title",
+    date: ".result-item__date",
+    nextPage: "a[rel='next'], .pagination__next a, a.pagination__next, li.next a"
+};
+exports.CoorongProfile = {
+    name: "coorong",
+    fullName: "Coorong District Council",
+    registerUrl: "https://www.coorong.sa.gov.au/council-services/building-and-development/development-register?num_ranks=200",
+    registerSelectors: exports.DefaultRegisterSelectors,
+    commentUrl: "mailto:council@coorong.sa.gov.au",
+    referenceDataDirectory: ".",
+    pageTemplates: templates_1.CoorongPageTemplates
+};
+// All council profiles (by name).
+exports.CouncilProfiles = {
+    [exports.CoorongProfile.name]: exports.CoorongProfile
+};
+exports.DefaultCouncilName = exports.CoorongProfile.name;
+// Gets the profiles of the specified councils (a comma separated list of council names).
+function getCouncilProfiles(councilNames) {
+    return councilNames.split(",").map(councilName => councilName.trim().toLowerCase()).filter(councilName => councilName !== "").map(councilName => {
+        let profile = exports.CouncilProfiles[councilName];
+        if (profile === undefined)
+            throw new Error(`The council "${councilName}" is not supported (specify ${Object.keys(exports.CouncilProfiles).map(name => `"${name}"`).join(", ")}).`);
+        return profile;
+    });
+}
+exports.getCouncilProfiles = getCouncilProfiles;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoiY291bmNpbHMuanMiLCJzb3VyY2VSb290IjoiIiwic291cmNlcyI6WyJjb3VuY2lscy50cyJdLCJuYW1lcyI6W10sIm1hcHBpbmdzIjoiQUFBQSwyRkFBMkY7QUFDM0YsZ0dBQWdHO0FBQ2hHLDREQUE0RDtBQUU1RCxZQUFZLENBQUM7OztBQUdiLDJDQUFtRDtBQTZCdEMsUUFBQSx3QkFBd0IsR0FBc0I7SUFDdkQsSUFBSSxFQUFFLGdCQUFnQjtJQUN0QixHQUFHLEVBQUUsc0JBQXNCO0lBQzNCLEtBQUssRUFBRSxxQkFBcUI7SUFDNUIsSUFBSSxFQUFFLG9CQUFvQjtJQUMxQixRQUFRLEVBQUUsbUVBQW1FO0NBQ2hGLENBQUM7QUFFVyxRQUFBLGNBQWMsR0FBbUI7SUFDMUMsSUFBSSxFQUFFLFNBQVM7SUFDZixRQUFRLEVBQUUsMEJBQTBCO0lBQ3BDLFdBQVcsRUFBRSw0R0FBNEc7SUFDekgsaUJBQWlCLEVBQUUsZ0NBQXdCO0lBQzNDLFVBQVUsRUFBRSxrQ0FBa0M7SUFDOUMsc0JBQXNCLEVBQUUsR0FBRztJQUMzQixhQUFhLEVBQUUsZ0NBQW9CO0NBQ3RDLENBQUM7QUFFRixrQ0FBa0M7QUFFckIsUUFBQSxlQUFlLEdBQXVDO0lBQy9ELENBQUMsc0JBQWMsQ0FBQyxJQUFJLENBQUMsRUFBRSxzQkFBYztDQUN4QyxDQUFDO0FBRVcsUUFBQSxrQkFBa0IsR0FBRyxzQkFBYyxDQUFDLElBQUksQ0FBQztBQUV0RCx5RkFBeUY7QUFFekYsU0FBZ0Isa0JBQWtCLENBQUMsWUFBb0I7SUFDbkQsT0FBTyxZQUFZLENBQUMsS0FBSyxDQUFDLEdBQUcsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxXQUFXLENBQUMsRUFBRSxDQUFDLFdBQVcsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxXQUFXLEVBQUUsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxXQUFXLENBQUMsRUFBRSxDQUFDLFdBQVcsS0FBSyxFQUFFLENBQUMsQ0FBQyxHQUFHLENBQUMsV0FBVyxDQUFDLEVBQUU7UUFDNUksSUFBSSxPQUFPLEdBQUcsdUJBQWUsQ0FBQyxXQUFXLENBQUMsQ0FBQztRQUMzQyxJQUFJLE9BQU8sS0FBSyxTQUFTO1lBQ3JCLE1BQU0sSUFBSSxLQUFLLENBQUMsZ0JBQWdCLFdBQVcsK0JBQStCLE1BQU0sQ0FBQyxJQUFJLENBQUMsdUJBQWUsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxJQUFJLENBQUMsRUFBRSxDQUFDLElBQUksSUFBSSxHQUFHLENBQUMsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxDQUFDO1FBQ3BKLE9BQU8sT0FBTyxDQUFDO0lBQ25CLENBQUMsQ0FBQyxDQUFDO0FBQ1AsQ0FBQztBQVBELGdEQU9DIn0=
\ No newline at end of file
@@ -0,0 +1,72 @@
+// The council profiles: everything that differs between the South Australian councils that
+// publish their development registers as PDFs in the same style (the register page, the comment
+// URL, the reference data and the layout of the PDF pages).
+
+"use strict";
+
+import { PageTemplate } from "./layout";
+import { CoorongPageTemplates } from "./templates";
+
+// The selectors used to read the register page.  Each result item links to a PDF: the URL is the
+// text of the URL element (or, failing that, the first link in the item).  The next page selector
+// finds the link to the next page of results (links with the text "Next", "›" or "»" are also
+// followed).
+
+export interface RegisterSelectors {
+    item: string,
+    url: string,
+    title: string,
+    date: string,
+    nextPage: string
+}
+
+// A council profile.  The name identifies the council in the database (in the [council] column)
+// and on the command line.  The reference data directory contains the street name, street
+// suffix, suburb name and hundred name files for the council (see loadReferenceData).
+
+export interface CouncilProfile {
+    name: string,
+    fullName: string,
+    registerUrl: string,
+    registerSelectors: RegisterSelectors,
+    commentUrl: string,
+    referenceDataDirectory: string,
+    pageTemplates: PageTemplate[]
+}
+
+export const DefaultRegisterSelectors: RegisterSelectors = {
+    item: "li.result-item",
+    url: "div.result-item__url",
+    title: ".result-item__title",
+    date: ".result-item__date",
+    nextPage: "a[rel='next'], .pagination__next a, a.pagination__next, li.next a"
+};
+
+export const CoorongProfile: CouncilProfile = {
+    name: "coorong",
+    fullName: "Coorong District Council",
+    registerUrl: "https://www.coorong.sa.gov.au/council-services/building-and-development/development-register?num_ranks=200",
+    registerSelectors: DefaultRegisterSelectors,
+    commentUrl: "mailto:council@coorong.sa.gov.au",
+    referenceDataDirectory: ".",
+    pageTemplates: CoorongPageTemplates
+};
+
+// All council profiles (by name).
+
+export const CouncilProfiles: { [name: string]: CouncilProfile } = {
+    [CoorongProfile.name]: CoorongProfile
+};
+
+export const DefaultCouncilName = CoorongProfile.name;
+
+// Gets the profiles of the specified councils (a comma separated list of council names).
+
+export function getCouncilProfiles(councilNames: string): CouncilProfile[] {
+    return councilNames.split(",").map(councilName => councilName.trim().toLowerCase()).filter(councilName => councilName !== "").map(councilName => {
+        let profile = CouncilProfiles[councilName];
+        if (profile === undefined)
+            throw new Error(`The council "${councilName}" is not supported (specify ${Object.keys(CouncilProfiles).map(name => `"${name}"`).join(", ")}).`);
+        return profile;
+    });
+}
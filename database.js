@@ -0,0 +1,455 @@
+// Saves development applications, the PDFs they were parsed from, the parse cache and the report
+// of each run to the sqlite database (the primary sink, see saveToSinks).  The [data] table has
+// the schema that PlanningAlerts expects and the other parsed details are saved in side tables.
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.reconcileWithSavedSources = exports.updateDocument = exports.updateRegisterDocuments = exports.getExportedApplications = exports.getFallbackAddresses = exports.getDocuments = exports.insertRun = exports.createSqliteSink = exports.pruneCache = exports.createSqliteCache = exports.getSqlRow = exports.getSqlRows = exports.runSql = exports.initializeDatabase = void 0;
+const sqlite3 = require("sqlite3");
+const moment = require("moment");
+const reconcile_1 = require("./reconcile");
+const councils_1 = require("./councils");
+sqlite3.verbose();
+// The columns of each table.  The tables that hold the details of development applications are
+// keyed by both the council and the application number (because different councils may use the
+// same application numbers).
+const TableDefinitions = {
+    data: "[council_reference] text, [address] text, [description] text, [info_url] text, [comment_url] text, [date_scraped] text, [date_received] text, [legal_description] text, [council] text, primary key ([council], [council_reference])",
+    data_history: "[council_reference] text, [address] text, [description] text, [date_received] text, [legal_description] text, [source_url] text, [date_scraped] text, [council] text",
+    application_details: "[council_reference] text, [applicant] text, [total_development_cost] real, [council] text, primary key ([council], [council_reference])",
+    referrals: "[council_reference] text, [referral] text, [council] text",
+    decisions: "[council_reference] text, [decision] text, [decision_date] text, [council] text",
+    addresses: "[council_reference] text, [house_number] text, [street_name] text, [street_suffix] text, [suburb] text, [state] text, [post_code] text, [sources] text, [confidence] real, [is_low_confidence] integer, [council] text, primary key ([council], [council_reference])",
+    legal_descriptions: "[council_reference] text, [lot] text, [section] text, [allotment] text, [plan_type] text, [plan_number] text, [title_volume] text, [title_folio] text, [hundred] text, [council] text, primary key ([council], [council_reference])",
+    quarantine: "[pdf_url] text, [page_number] integer, [council_reference] text, [status] text, [reason] text, [elements] text, [date_scraped] text",
+    documents: "[url] text primary key, [content_hash] text, [date_parsed] text, [etag] text, [last_modified] text, [title] text, [publish_date] text, [period_start] text, [period_end] text, [parser_key] text, [address_key] text",
+    application_sources: "[council_reference] text, [source_url] text, [application] text, [date_scraped] text, [council] text, [application_key] text, primary key ([council], [council_reference], [source_url])",
+    conflicts: "[council_reference] text, [field] text, [kept_value] text, [kept_url] text, [discarded_value] text, [discarded_url] text, [date_detected] text, [council] text",
+    page_cache: "[content_hash] text, [elements_key] text, [page_number] integer, [elements] text, primary key ([content_hash], [page_number])",
+    parse_cache: "[content_hash] text, [parser_key] text, [address_key] text, [page_count] integer, [applications] text, [quarantined_pages] text, [date_cached] text, [parsed_pages] text, primary key ([content_hash], [parser_key])",
+    runs: "[start_time] text, [end_time] text, [duration] integer, [councils] text, [pdf_selection] text, [pdfs_discovered] integer, [pdfs_selected] integer, [pdfs_not_modified] integer, [pdfs_parsed] integer, [pdfs_not_saved] integer, [pages_parsed] integer, [pages_rejected] integer, [pages_partial] integer, [applications_parsed] integer, [applications_new] integer, [applications_changed] integer, [applications_unchanged] integer, [fallback_addresses] integer, [missing_received_dates] integer, [fallback_rate] real, [missing_received_date_rate] real, [health_problems] text, [error] text"
+};
+// The tables that were keyed by the application number alone before more than one council was
+// supported ([data] must be first because the council of the other rows is taken from it).
+const CouncilTableNames = ["data", "data_history", "application_details", "referrals", "decisions", "addresses", "legal_descriptions", "application_sources", "conflicts"];
+// Sets up an sqlite database.
+async function initializeDatabase(databasePath) {
+    return new Promise((resolve, reject) => {
+        let database = new sqlite3.Database(databasePath);
+        database.serialize(() => {
+            for (let tableName of Object.keys(TableDefinitions))
+                database.run(`create table if not exists [${tableName}] (${TableDefinitions[tableName]})`);
+            resolve(database);
+        });
+    }).then(async (database) => {
+        for (let tableName of CouncilTableNames)
+            await addCouncilColumn(database, tableName);
+        await addApplicationKeyColumn(database);
+        await addMissingColumns(database, "documents", { etag: "text", last_modified: "text", title: "text", publish_date: "text", period_start: "text", period_end: "text", parser_key: "text", address_key: "text" }); // added after the table was first created
+        await addMissingColumns(database, "parse_cache", { parsed_pages: "text" });
+        return database;
+    });
+}
+exports.initializeDatabase = initializeDatabase;
+// Adds the [council] column to a table created when only one council was supported (filling it
+// in from the [data] table or, failing that, with the default council) and rebuilds the table if
+// its primary key does not include the council (the primary key of an sqlite table cannot be
+// altered).
+async function addCouncilColumn(database, tableName) {
+    await addMissingColumns(database, tableName, { council: "text" });
+    if (tableName === "data")
+        await runSql(database, "update [data] set [council] = ? where [council] is null", [councils_1.DefaultCouncilName]);
+    else
+        await runSql(database, `update [${tableName}] set [council] = coalesce((select [data].[council] from [data] where [data].[council_reference] = [${tableName}].[council_reference] limit 1), ?) where [council] is null`, [councils_1.DefaultCouncilName]);
+    let columns = await getSqlRows(database, `pragma table_info(${tableName})`, []);
+    if (!TableDefinitions[tableName].includes("primary key") || columns.some(column => column.name === "council" && column.pk > 0))
+        return;
+    console.log(`Adding the council to the primary key of the [${tableName}] table.`);
+    let columnNames = columns.map(column => `[${column.name}]`).join(", ");
+    await runSql(database, "begin transaction", []);
+    await runSql(database, `alter table [${tableName}] rename to [${tableName}_previous]`, []);
+    await runSql(database, `create table [${tableName}] (${TableDefinitions[tableName]})`, []);
+    await runSql(database, `insert into [${tableName}] (${columnNames}) select ${columnNames} from [${tableName}_previous]`, []);
+    await runSql(database, `drop table [${tableName}_previous]`, []);
+    await runSql(database, "commit", []);
+}
+// Adds the [application_key] column (the normalised application number, see
+// normaliseApplicationNumber, that the versions of an application parsed from different PDFs are
+// matched by) to an [application_sources] table created before the column existed.
+async function addApplicationKeyColumn(database) {
+    await addMissingColumns(database, "application_sources", { application_key: "text" });
+    for (let row of await getSqlRows(database, "select distinct [council_reference] from [application_sources] where [application_key] is null", []))
+        await runSql(database, "update [application_sources] set [application_key] = ? where [council_reference] = ? and [application_key] is null", [reconcile_1.normaliseApplicationNumber(row.council_reference), row.council_reference]);
+}
+// Adds any of the specified columns that are missing from a table (so that a database created by
+// an earlier version of the scraper can still be used).
+async function addMissingColumns(database, tableName, columns) {
+    let existingColumnNames = (await getSqlRows(database, `pragma table_info(${tableName})`, [])).map(row => row.name);
+    for (let columnName of Object.keys(columns))
+        if (!existingColumnNames.includes(columnName))
+            await runSql(database, `alter table [${tableName}] add column [${columnName}] ${columns[columnName]}`, []);
+}
+// Runs an SQL statement (that does not return any rows).
+async function runSql(database, sql, parameters) {
+    return new Promise((resolve, reject) => {
+        let sqlStatement = database.prepare(sql);
+        sqlStatement.run(parameters, function (error, row) {
+            if (error) {
+                console.error(error);
+                reject(error);
+            }
+            else {
+                sqlStatement.finalize(); // releases any locks
+                resolve(row);
+            }
+        });
+    });
+}
+exports.runSql = runSql;
+// Runs an SQL query that returns any number of rows.
+async function getSqlRows(database, sql, parameters) {
+    return new Promise((resolve, reject) => {
+        database.all(sql, parameters, (error, rows) => {
+            if (error) {
+                console.error(error);
+                reject(error);
+            }
+            else
+                resolve(rows);
+        });
+    });
+}
+exports.getSqlRows = getSqlRows;
+// Runs an SQL query that returns at most one row (undefined is returned if there is no row).
+async function getSqlRow(database, sql, parameters) {
+    return new Promise((resolve, reject) => {
+        database.get(sql, parameters, (error, row) => {
+            if (error) {
+                console.error(error);
+                reject(error);
+            }
+            else
+                resolve(row);
+        });
+    });
+}
+exports.getSqlRow = getSqlRow;
+// Records a version of a development application in the history table.
+async function insertHistoryRow(database, councilName, applicationNumber, address, description, receivedDate, legalDescription, sourceUrl, scrapeDate) {
+    await runSql(database, "insert into [data_history] values (?, ?, ?, ?, ?, ?, ?, ?)", [applicationNumber, address, description, receivedDate, legalDescription, sourceUrl, scrapeDate, councilName]);
+}
+// Inserts a row in the database if the row does not already exist.  If the row exists but the
+// address, description, received date or legal description has changed then the row is updated
+// (retaining the date that the application was first scraped) and the new version is recorded in
+// the history table.
+async function insertRow(database, developmentApplication) {
+    let existingRow = await getSqlRow(database, "select * from [data] where [council] = ? and [council_reference] = ?", [developmentApplication.council, developmentApplication.applicationNumber]);
+    if (existingRow === undefined) {
+        await runSql(database, "insert into [data] ([council_reference], [address], [description], [info_url], [comment_url], [date_scraped], [date_received], [legal_description], [council]) values (?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+            developmentApplication.applicationNumber,
+            developmentApplication.address,
+            developmentApplication.description,
+            developmentApplication.informationUrl,
+            developmentApplication.commentUrl,
+            developmentApplication.scrapeDate,
+            developmentApplication.receivedDate,
+            developmentApplication.legalDescription,
+            developmentApplication.council
+        ]);
+        await insertHistoryRow(database, developmentApplication.council, developmentApplication.applicationNumber, developmentApplication.address, developmentApplication.description, developmentApplication.receivedDate, developmentApplication.legalDescription, developmentApplication.informationUrl, developmentApplication.scrapeDate);
+        console.log(`    Saved new application \"${developmentApplication.applicationNumber}\" with address \"${developmentApplication.address}\", description \"${developmentApplication.description}\", legal description \"${developmentApplication.legalDescription}\" and received date \"${developmentApplication.receivedDate}\" to the database.`);
+        return "new";
+    }
+    if (existingRow.address === developmentApplication.address &&
+        existingRow.description === developmentApplication.description &&
+        existingRow.date_received === developmentApplication.receivedDate &&
+        existingRow.legal_description === developmentApplication.legalDescription) {
+        console.log(`    Application \"${developmentApplication.applicationNumber}\" is unchanged.`);
+        return "unchanged";
+    }
+    // Rows saved before the history table existed have no history, so record the earlier version
+    // first (otherwise it would be lost).
+    let historyRow = await getSqlRow(database, "select 1 from [data_history] where [council] = ? and [council_reference] = ?", [developmentApplication.council, developmentApplication.applicationNumber]);
+    if (historyRow === undefined)
+        await insertHistoryRow(database, existingRow.council, existingRow.council_reference, existingRow.address, existingRow.description, existingRow.date_received, existingRow.legal_description, existingRow.info_url, existingRow.date_scraped);
+    await runSql(database, "update [data] set [address] = ?, [description] = ?, [info_url] = ?, [comment_url] = ?, [date_received] = ?, [legal_description] = ? where [council] = ? and [council_reference] = ?", [
+        developmentApplication.address,
+        developmentApplication.description,
+        developmentApplication.informationUrl,
+        developmentApplication.commentUrl,
+        developmentApplication.receivedDate,
+        developmentApplication.legalDescription,
+        developmentApplication.council,
+        developmentApplication.applicationNumber
+    ]);
+    await insertHistoryRow(database, developmentApplication.council, developmentApplication.applicationNumber, developmentApplication.address, developmentApplication.description, developmentApplication.receivedDate, developmentApplication.legalDescription, developmentApplication.informationUrl, developmentApplication.scrapeDate);
+    console.log(`    Updated changed application \"${developmentApplication.applicationNumber}\" with address \"${developmentApplication.address}\", description \"${developmentApplication.description}\", legal description \"${developmentApplication.legalDescription}\" and received date \"${developmentApplication.receivedDate}\" in the database (first scraped on ${existingRow.date_scraped}).`);
+    return "changed";
+}
+// Saves the version of a development application parsed from a single PDF (before it was merged
+// with the versions from other PDFs) and replaces the recorded conflicts between the versions.
+async function insertSourceRows(database, developmentApplication) {
+    if (developmentApplication.source === undefined)
+        return;
+    let source = developmentApplication.source;
+    await runSql(database, "insert or replace into [application_sources] values (?, ?, ?, ?, ?, ?)", [source.applicationNumber, source.informationUrl, JSON.stringify(source), source.scrapeDate, developmentApplication.council, reconcile_1.normaliseApplicationNumber(source.applicationNumber)]);
+    await runSql(database, "delete from [conflicts] where [council] = ? and [council_reference] = ?", [developmentApplication.council, developmentApplication.applicationNumber]);
+    for (let conflict of developmentApplication.conflicts) {
+        await runSql(database, "insert into [conflicts] values (?, ?, ?, ?, ?, ?, ?, ?)", [conflict.applicationNumber, conflict.field, conflict.keptValue, conflict.keptUrl, conflict.discardedValue, conflict.discardedUrl, moment().format("YYYY-MM-DD"), developmentApplication.council]);
+        console.log(`    Application \"${conflict.applicationNumber}\" has a conflicting ${conflict.field} \"${conflict.discardedValue}\" in ${conflict.discardedUrl} (keeping \"${conflict.keptValue}\" from ${conflict.keptUrl}).`);
+    }
+}
+// Saves the applicant, total development cost, referrals and decisions of a development
+// application.  These are kept out of the [data] table so that its schema remains exactly as
+// PlanningAlerts expects.
+async function insertDetailRows(database, developmentApplication) {
+    await runSql(database, "insert or replace into [application_details] values (?, ?, ?, ?)", [
+        developmentApplication.applicationNumber,
+        developmentApplication.applicant,
+        (developmentApplication.totalDevelopmentCost === undefined) ? null : developmentApplication.totalDevelopmentCost,
+        developmentApplication.council
+    ]);
+    await runSql(database, "delete from [referrals] where [council] = ? and [council_reference] = ?", [developmentApplication.council, developmentApplication.applicationNumber]);
+    for (let referral of developmentApplication.referrals)
+        await runSql(database, "insert into [referrals] values (?, ?, ?)", [developmentApplication.applicationNumber, referral, developmentApplication.council]);
+    await runSql(database, "delete from [decisions] where [council] = ? and [council_reference] = ?", [developmentApplication.council, developmentApplication.applicationNumber]);
+    for (let decision of developmentApplication.decisions)
+        await runSql(database, "insert into [decisions] values (?, ?, ?, ?)", [developmentApplication.applicationNumber, decision.decision, decision.date, developmentApplication.council]);
+}
+// Saves the parts of the address of a development application (along with how each part was
+// determined).  Addresses with a low confidence are flagged so that they can be reviewed.
+async function insertAddressRow(database, developmentApplication) {
+    let parsedAddress = developmentApplication.parsedAddress;
+    let parts = { houseNumber: parsedAddress.houseNumber, streetName: parsedAddress.streetName, streetSuffix: parsedAddress.streetSuffix, suburb: parsedAddress.suburb, state: parsedAddress.state, postCode: parsedAddress.postCode };
+    let sources = {};
+    for (let name of Object.keys(parts))
+        sources[name] = (parts[name].editDistance === undefined) ? parts[name].source : `${parts[name].source} (edit distance ${parts[name].editDistance})`;
+    await runSql(database, "insert or replace into [addresses] values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+        developmentApplication.applicationNumber,
+        parsedAddress.houseNumber.value,
+        parsedAddress.streetName.value,
+        parsedAddress.streetSuffix.value,
+        parsedAddress.suburb.value,
+        parsedAddress.state.value,
+        parsedAddress.postCode.value,
+        JSON.stringify(sources),
+        parsedAddress.confidence,
+        parsedAddress.isLowConfidence ? 1 : 0,
+        developmentApplication.council
+    ]);
+}
+// Saves the parts of the legal description of a development application.
+async function insertLegalDescriptionRow(database, developmentApplication) {
+    let legalDescription = developmentApplication.parsedLegalDescription;
+    await runSql(database, "insert or replace into [legal_descriptions] values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+        developmentApplication.applicationNumber,
+        legalDescription.lot,
+        legalDescription.section,
+        legalDescription.allotment,
+        legalDescription.planType,
+        legalDescription.planNumber,
+        legalDescription.titleVolume,
+        legalDescription.titleFolio,
+        legalDescription.hundred,
+        developmentApplication.council
+    ]);
+}
+// Saves a page that could not be fully parsed to the quarantine table (replacing any earlier
+// record of the same page) so that it can be reviewed.
+async function insertQuarantineRow(database, quarantinedPage) {
+    await runSql(database, "delete from [quarantine] where [pdf_url] = ? and [page_number] = ?", [quarantinedPage.url, quarantinedPage.pageNumber]);
+    await runSql(database, "insert into [quarantine] values (?, ?, ?, ?, ?, ?, ?)", [
+        quarantinedPage.url,
+        quarantinedPage.pageNumber,
+        quarantinedPage.applicationNumber,
+        quarantinedPage.status,
+        quarantinedPage.reasons.join("  "),
+        JSON.stringify(quarantinedPage.elements),
+        moment().format("YYYY-MM-DD")
+    ]);
+}
+// Creates a cache of the elements of each page and the applications parsed from each PDF that is
+// held in the sqlite database (see parsePdfWithCache).  Only the elements extracted by the latest
+// version of the text extraction are kept for each PDF.
+function createSqliteCache(database) {
+    return {
+        getPages: async (contentHash, elementsKey) => {
+            let rows = await getSqlRows(database, "select [elements] from [page_cache] where [content_hash] = ? and [elements_key] = ? order by [page_number]", [contentHash, elementsKey]);
+            return (rows.length === 0) ? undefined : rows.map(row => JSON.parse(row.elements));
+        },
+        savePages: async (contentHash, elementsKey, pages) => {
+            await runSql(database, "delete from [page_cache] where [content_hash] = ?", [contentHash]);
+            for (let index = 0; index < pages.length; index++)
+                await runSql(database, "insert into [page_cache] values (?, ?, ?, ?)", [contentHash, elementsKey, index + 1, JSON.stringify(pages[index])]);
+        },
+        getParse: async (contentHash, parserKey) => {
+            let row = await getSqlRow(database, "select [address_key], [page_count], [parsed_pages], [applications], [quarantined_pages] from [parse_cache] where [content_hash] = ? and [parser_key] = ? and [parsed_pages] is not null", [contentHash, parserKey]);
+            return (row === undefined) ? undefined : { addressKey: row.address_key, pageCount: row.page_count, parsedPages: JSON.parse(row.parsed_pages), developmentApplications: JSON.parse(row.applications), quarantinedPages: JSON.parse(row.quarantined_pages) };
+        },
+        saveParse: async (contentHash, parserKey, cachedParse) => {
+            await runSql(database, "insert or replace into [parse_cache] values (?, ?, ?, ?, ?, ?, ?, ?)", [
+                contentHash,
+                parserKey,
+                cachedParse.addressKey,
+                cachedParse.pageCount,
+                JSON.stringify(cachedParse.developmentApplications),
+                JSON.stringify(cachedParse.quarantinedPages),
+                moment().format("YYYY-MM-DD"),
+                JSON.stringify(cachedParse.parsedPages)
+            ]);
+        }
+    };
+}
+exports.createSqliteCache = createSqliteCache;
+// Removes the cached elements and applications of PDF content that is no longer recorded for any
+// document (because the PDF has since changed, or was never successfully saved).
+async function pruneCache(database) {
+    await runSql(database, "delete from [page_cache] where [content_hash] not in (select [content_hash] from [documents] where [content_hash] is not null)", []);
+    await runSql(database, "delete from [parse_cache] where [content_hash] not in (select [content_hash] from [documents] where [content_hash] is not null)", []);
+}
+exports.pruneCache = pruneCache;
+// Creates the sink that saves development applications to the sqlite database (the primary
+// sink; see saveToSinks).
+function createSqliteSink(database) {
+    return {
+        name: "sqlite",
+        isDatabase: true,
+        open: async () => { },
+        begin: async () => {
+            await runSql(database, "begin transaction", []);
+        },
+        saveApplication: async (developmentApplication) => {
+            let status = await insertRow(database, developmentApplication);
+            await insertSourceRows(database, developmentApplication);
+            await insertDetailRows(database, developmentApplication);
+            await insertAddressRow(database, developmentApplication);
+            await insertLegalDescriptionRow(database, developmentApplication);
+            return status;
+        },
+        saveQuarantinedPage: async (quarantinedPage) => {
+            await insertQuarantineRow(database, quarantinedPage);
+        },
+        commit: async () => {
+            await runSql(database, "commit", []);
+        },
+        rollback: async () => {
+            await runSql(database, "rollback", []);
+        },
+        close: async () => { }
+    };
+}
+exports.createSqliteSink = createSqliteSink;
+// Inserts the report of a run into the database.
+async function insertRun(database, report) {
+    await runSql(database, "insert into [runs] values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+        report.startTime,
+        report.endTime,
+        report.duration,
+        report.councils.join(","),
+        report.pdfSelection,
+        report.pdfsDiscovered,
+        report.pdfsSelected,
+        report.pdfsNotModified,
+        report.pdfsParsed,
+        report.pdfsNotSaved,
+        report.pagesParsed,
+        report.pagesRejected,
+        report.pagesPartial,
+        report.applicationsParsed,
+        report.applicationsNew,
+        report.applicationsChanged,
+        report.applicationsUnchanged,
+        report.fallbackAddresses,
+        report.missingReceivedDates,
+        report.fallbackRate,
+        report.missingReceivedDateRate,
+        JSON.stringify(report.healthProblems),
+        report.error
+    ]);
+}
+exports.insertRun = insertRun;
+// Gets the URL, content hash, date last parsed and cache keys of every PDF previously parsed.
+async function getDocuments(database) {
+    return getSqlRows(database, "select [url], [content_hash], [date_parsed], [etag], [last_modified], [parser_key], [address_key] from [documents]", []);
+}
+exports.getDocuments = getDocuments;
+// Gets the addresses of a council saved in the database that could only be formatted using the
+// fallback path (because the suburb could not be matched).
+async function getFallbackAddresses(database, councilName) {
+    let rows = await getSqlRows(database, "select [data].[council_reference], [data].[address], [addresses].[sources] from [data] inner join [addresses] on [data].[council] = [addresses].[council] and [data].[council_reference] = [addresses].[council_reference] where [data].[council] = ? order by [data].[council_reference]", [councilName]);
+    return rows
+        .filter(row => JSON.parse(row.sources || "{}").suburb === "fallback")
+        .map(row => ({ councilReference: row.council_reference, address: row.address }));
+}
+exports.getFallbackAddresses = getFallbackAddresses;
+// Gets every development application saved in the database (along with the parts of its
+// address, where these are available).
+async function getExportedApplications(database) {
+    let rows = await getSqlRows(database, "select [data].*, [addresses].[council_reference] as [address_council_reference], [house_number], [street_name], [street_suffix], [suburb], [state], [post_code], [confidence], [is_low_confidence] from [data] left join [addresses] on [data].[council] = [addresses].[council] and [data].[council_reference] = [addresses].[council_reference] order by [data].[date_scraped], [data].[council], [data].[council_reference]", []);
+    return rows.map(row => {
+        let application = {
+            council_reference: row.council_reference,
+            address: row.address,
+            description: row.description,
+            info_url: row.info_url,
+            comment_url: row.comment_url,
+            date_scraped: row.date_scraped,
+            date_received: row.date_received,
+            legal_description: row.legal_description,
+            council: row.council
+        };
+        if (row.address_council_reference !== null)
+            application.address_components = {
+                house_number: row.house_number,
+                street_name: row.street_name,
+                street_suffix: row.street_suffix,
+                suburb: row.suburb,
+                state: row.state,
+                post_code: row.post_code,
+                confidence: row.confidence,
+                is_low_confidence: (row.is_low_confidence === 1)
+            };
+        return application;
+    });
+}
+exports.getExportedApplications = getExportedApplications;
+// Records the title, publish date and period of each PDF listed on the register page (without
+// affecting when the PDF was last parsed).
+async function updateRegisterDocuments(database, registerDocuments) {
+    for (let registerDocument of registerDocuments) {
+        await runSql(database, "insert or ignore into [documents] ([url]) values (?)", [registerDocument.url]);
+        await runSql(database, "update [documents] set [title] = ?, [publish_date] = ?, [period_start] = ?, [period_end] = ? where [url] = ?", [registerDocument.title, registerDocument.publishDate, registerDocument.periodStart, registerDocument.periodEnd, registerDocument.url]);
+    }
+}
+exports.updateRegisterDocuments = updateRegisterDocuments;
+// Records that a PDF has been parsed (along with the hash of its content, the validators that
+// allow a later request to skip the PDF if it is unchanged and the parser and address keys, see
+// getCacheKeys, that identify how the PDF was parsed).
+async function updateDocument(database, url, contentHash, etag, lastModified, parserKey, addressKey) {
+    await runSql(database, "insert or ignore into [documents] ([url]) values (?)", [url]);
+    await runSql(database, "update [documents] set [content_hash] = ?, [date_parsed] = ?, [etag] = ?, [last_modified] = ?, [parser_key] = ?, [address_key] = ? where [url] = ?", [contentHash, moment().format("YYYY-MM-DD HH:mm:ss"), etag, lastModified, parserKey, addressKey, url]);
+}
+exports.updateDocument = updateDocument;
+// Merges a development application parsed from a PDF with the versions of the application saved
+// from other PDFs (matched by the normalised application number, see reconcileApplication).  The
+// version parsed from the PDF and any conflicts are attached to the merged application so that the
+// sqlite sink can save them.
+async function reconcileWithSavedSources(database, pdfUrl, developmentApplication) {
+    let applicationKey = reconcile_1.normaliseApplicationNumber(developmentApplication.applicationNumber);
+    let document = await getSqlRow(database, "select [period_end], [publish_date] from [documents] where [url] = ?", [pdfUrl]);
+    let sources = [{ url: pdfUrl, periodEnd: (document === undefined) ? undefined : document.period_end, publishDate: (document === undefined) ? undefined : document.publish_date, application: developmentApplication }];
+    let rows = await getSqlRows(database, "select [application_sources].[source_url], [application_sources].[application], [documents].[period_end], [documents].[publish_date] from [application_sources] left join [documents] on [application_sources].[source_url] = [documents].[url] where [application_sources].[council] = ? and [application_sources].[application_key] = ? and [application_sources].[source_url] <> ?", [developmentApplication.council, applicationKey, pdfUrl]);
+    for (let row of rows)
+        sources.push({ url: row.source_url, periodEnd: row.period_end, publishDate: row.publish_date, application: JSON.parse(row.application) });
+    let { application, conflicts } = reconcile_1.reconcileApplication(sources);
+    // Keep the application number that the application was first saved with (when another PDF
+    // prints the same application number differently) so that the saved row is updated rather
+    // than a second row being added.
+    let savedRow = await getSqlRow(database, "select [data].[council_reference] from [data] inner join [application_sources] on [data].[council] = [application_sources].[council] and [data].[council_reference] = [application_sources].[council_reference] where [application_sources].[council] = ? and [application_sources].[application_key] = ? limit 1", [developmentApplication.council, applicationKey]);
+    if (savedRow !== undefined) {
+        application.applicationNumber = savedRow.council_reference;
+        conflicts = conflicts.map(conflict => ({ ...conflict, applicationNumber: savedRow.council_reference }));
+    }
+    return { ...application, source: developmentApplication, conflicts: conflicts };
+}
+exports.reconcileWithSavedSources = reconcileWithSavedSources;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoiZGF0YWJhc2UuanMiLCJzb3VyY2VSb290IjoiIiwic291cmNlcyI6WyJkYXRhYmFzZS50cyJdLCJuYW1lcyI6W10sIm1hcHBpbmdzIjoiQUFBQSxpR0FBaUc7QUFDakcsZ0dBQWdHO0FBQ2hHLGdHQUFnRztBQUVoRyxZQUFZLENBQUM7OztBQUViLG1DQUFtQztBQUNuQyxpQ0FBaUM7QUFHakMsMkNBQXVIO0FBR3ZILHlDQUFnRDtBQUloRCxPQUFPLENBQUMsT0FBTyxFQUFFLENBQUM7QUFFbEIsK0ZBQStGO0FBQy9GLCtGQUErRjtBQUMvRiw2QkFBNkI7QUFFN0IsTUFBTSxnQkFBZ0IsR0FBb0M7SUFDdEQsSUFBSSxFQUFFLHNPQUFzTztJQUM1TyxZQUFZLEVBQUUsc0tBQXNLO0lBQ3BMLG1CQUFtQixFQUFFLHlJQUF5STtJQUM5SixTQUFTLEVBQUUsMkRBQTJEO0lBQ3RFLFNBQVMsRUFBRSxpRkFBaUY7SUFDNUYsU0FBUyxFQUFFLHNRQUFzUTtJQUNqUixrQkFBa0IsRUFBRSxxT0FBcU87SUFDelAsVUFBVSxFQUFFLHFJQUFxSTtJQUNqSixTQUFTLEVBQUUsc05BQXNOO0lBQ2pPLG1CQUFtQixFQUFFLDBMQUEwTDtJQUMvTSxTQUFTLEVBQUUsZ0tBQWdLO0lBQzNLLFVBQVUsRUFBRSwrSEFBK0g7SUFDM0ksV0FBVyxFQUFFLHNOQUFzTjtJQUNuTyxJQUFJLEVBQUUsd2tCQUF3a0I7Q0FDamxCLENBQUM7QUFFRiw4RkFBOEY7QUFDOUYsMkZBQTJGO0FBRTNGLE1BQU0saUJBQWlCLEdBQUcsQ0FBRSxNQUFNLEVBQUUsY0FBYyxFQUFFLHFCQUFxQixFQUFFLFdBQVcsRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLG9CQUFvQixFQUFFLHFCQUFxQixFQUFFLFdBQVcsQ0FBRSxDQUFDO0FBRTdLLDhCQUE4QjtBQUV2QixLQUFLLFVBQVUsa0JBQWtCLENBQUMsWUFBb0I7SUFDekQsT0FBTyxJQUFJLE9BQU8sQ0FBQyxDQUFDLE9BQU8sRUFBRSxNQUFNLEVBQUUsRUFBRTtRQUNuQyxJQUFJLFFBQVEsR0FBRyxJQUFJLE9BQU8sQ0FBQyxRQUFRLENBQUMsWUFBWSxDQUFDLENBQUM7UUFDbEQsUUFBUSxDQUFDLFNBQVMsQ0FBQyxHQUFHLEVBQUU7WUFDcEIsS0FBSyxJQUFJLFNBQVMsSUFBSSxNQUFNLENBQUMsSUFBSSxDQUFDLGdCQUFnQixDQUFDO2dCQUMvQyxRQUFRLENBQUMsR0FBRyxDQUFDLCtCQUErQixTQUFTLE1BQU0sZ0JBQWdCLENBQUMsU0FBUyxDQUFDLEdBQUcsQ0FBQyxDQUFDO1lBQy9GLE9BQU8sQ0FBQyxRQUFRLENBQUMsQ0FBQztRQUN0QixDQUFDLENBQUMsQ0FBQztJQUNQLENBQUMsQ0FBQyxDQUFDLElBQUksQ0FBQyxLQUFLLEVBQUMsUUFBUSxFQUFDLEVBQUU7UUFDckIsS0FBSyxJQUFJLFNBQVMsSUFBSSxpQkFBaUI7WUFDbkMsTUFBTSxnQkFBZ0IsQ0FBQyxRQUFRLEVBQUUsU0FBUyxDQUFDLENBQUM7UUFDaEQsTUFBTSx1QkFBdUIsQ0FBQyxRQUFRLENBQUMsQ0FBQztRQUN4QyxNQUFNLGlCQUFpQixDQUFDLFFBQVEsRUFBRSxXQUFXLEVBQUUsRUFBRSxJQUFJLEVBQUUsTUFBTSxFQUFFLGFBQWEsRUFBRSxNQUFNLEVBQUUsS0FBSyxFQUFFLE1BQU0sRUFBRSxZQUFZLEVBQUUsTUFBTSxFQUFFLFlBQVksRUFBRSxNQUFNLEVBQUUsVUFBVSxFQUFFLE1BQU0sRUFBRSxVQUFVLEVBQUUsTUFBTSxFQUFFLFdBQVcsRUFBRSxNQUFNLEVBQUUsQ0FBQyxDQUFDLENBQUUsMENBQTBDO1FBQzVQLE1BQU0saUJBQWlCLENBQUMsUUFBUSxFQUFFLGFBQWEsRUFBRSxFQUFFLFlBQVksRUFBRSxNQUFNLEVBQUUsQ0FBQyxDQUFDO1FBQzNFLE9BQU8sUUFBUSxDQUFDO0lBQ3BCLENBQUMsQ0FBQyxDQUFDO0FBQ1AsQ0FBQztBQWhCRCxnREFnQkM7QUFFRCwrRkFBK0Y7QUFDL0YsaUdBQWlHO0FBQ2pHLDZGQUE2RjtBQUM3RixZQUFZO0FBRVosS0FBSyxVQUFVLGdCQUFnQixDQUFDLFFBQVEsRUFBRSxTQUFpQjtJQUN2RCxNQUFNLGlCQUFpQixDQUFDLFFBQVEsRUFBRSxTQUFTLEVBQUUsRUFBRSxPQUFPLEVBQUUsTUFBTSxFQUFFLENBQUMsQ0FBQztJQUNsRSxJQUFJLFNBQVMsS0FBSyxNQUFNO1FBQ3BCLE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSx5REFBeUQsRUFBRSxDQUFFLDZCQUFrQixDQUFFLENBQUMsQ0FBQzs7UUFFMUcsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLFdBQVcsU0FBUyx1R0FBdUcsU0FBUyw0REFBNEQsRUFBRSxDQUFFLDZCQUFrQixDQUFFLENBQUMsQ0FBQztJQUVyUCxJQUFJLE9BQU8sR0FBRyxNQUFNLFVBQVUsQ0FBQyxRQUFRLEVBQUUscUJBQXFCLFNBQVMsR0FBRyxFQUFFLEVBQUUsQ0FBQyxDQUFDO0lBQ2hGLElBQUksQ0FBQyxnQkFBZ0IsQ0FBQyxTQUFTLENBQUMsQ0FBQyxRQUFRLENBQUMsYUFBYSxDQUFDLElBQUksT0FBTyxDQUFDLElBQUksQ0FBQyxNQUFNLENBQUMsRUFBRSxDQUFDLE1BQU0sQ0FBQyxJQUFJLEtBQUssU0FBUyxJQUFJLE1BQU0sQ0FBQyxFQUFFLEdBQUcsQ0FBQyxDQUFDO1FBQzFILE9BQU87SUFFWCxPQUFPLENBQUMsR0FBRyxDQUFDLGlEQUFpRCxTQUFTLFVBQVUsQ0FBQyxDQUFDO0lBQ2xGLElBQUksV0FBVyxHQUFHLE9BQU8sQ0FBQyxHQUFHLENBQUMsTUFBTSxDQUFDLEVBQUUsQ0FBQyxJQUFJLE1BQU0sQ0FBQyxJQUFJLEdBQUcsQ0FBQyxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUMsQ0FBQztJQUN2RSxNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsbUJBQW1CLEVBQUUsRUFBRSxDQUFDLENBQUM7SUFDaEQsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLGdCQUFnQixTQUFTLGdCQUFnQixTQUFTLFlBQVksRUFBRSxFQUFFLENBQUMsQ0FBQztJQUMzRixNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsaUJBQWlCLFNBQVMsTUFBTSxnQkFBZ0IsQ0FBQyxTQUFTLENBQUMsR0FBRyxFQUFFLEVBQUUsQ0FBQyxDQUFDO0lBQzNGLE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSxnQkFBZ0IsU0FBUyxNQUFNLFdBQVcsWUFBWSxXQUFXLFVBQVUsU0FBUyxZQUFZLEVBQUUsRUFBRSxDQUFDLENBQUM7SUFDN0gsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLGVBQWUsU0FBUyxZQUFZLEVBQUUsRUFBRSxDQUFDLENBQUM7SUFDakUsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLFFBQVEsRUFBRSxFQUFFLENBQUMsQ0FBQztBQUN6QyxDQUFDO0FBRUQsNEVBQTRFO0FBQzVFLGlHQUFpRztBQUNqRyxtRkFBbUY7QUFFbkYsS0FBSyxVQUFVLHVCQUF1QixDQUFDLFFBQVE7SUFDM0MsTUFBTSxpQkFBaUIsQ0FBQyxRQUFRLEVBQUUscUJBQXFCLEVBQUUsRUFBRSxlQUFlLEVBQUUsTUFBTSxFQUFFLENBQUMsQ0FBQztJQUN0RixLQUFLLElBQUksR0FBRyxJQUFJLE1BQU0sVUFBVSxDQUFDLFFBQVEsRUFBRSxnR0FBZ0csRUFBRSxFQUFFLENBQUM7UUFDNUksTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLG9IQUFvSCxFQUFFLENBQUUsc0NBQTBCLENBQUMsR0FBRyxDQUFDLGlCQUFpQixDQUFDLEVBQUUsR0FBRyxDQUFDLGlCQUFpQixDQUFFLENBQUMsQ0FBQztBQUNuTyxDQUFDO0FBRUQsaUdBQWlHO0FBQ2pHLHdEQUF3RDtBQUV4RCxLQUFLLFVBQVUsaUJBQWlCLENBQUMsUUFBUSxFQUFFLFNBQWlCLEVBQUUsT0FBeUM7SUFDbkcsSUFBSSxtQkFBbUIsR0FBRyxDQUFDLE1BQU0sVUFBVSxDQUFDLFFBQVEsRUFBRSxxQkFBcUIsU0FBUyxHQUFHLEVBQUUsRUFBRSxDQUFDLENBQUMsQ0FBQyxHQUFHLENBQUMsR0FBRyxDQUFDLEVBQUUsQ0FBQyxHQUFHLENBQUMsSUFBSSxDQUFDLENBQUM7SUFDbkgsS0FBSyxJQUFJLFVBQVUsSUFBSSxNQUFNLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQztRQUN2QyxJQUFJLENBQUMsbUJBQW1CLENBQUMsUUFBUSxDQUFDLFVBQVUsQ0FBQztZQUN6QyxNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsZ0JBQWdCLFNBQVMsaUJBQWlCLFVBQVUsS0FBSyxPQUFPLENBQUMsVUFBVSxDQUFDLEVBQUUsRUFBRSxFQUFFLENBQUMsQ0FBQztBQUN2SCxDQUFDO0FBRUQseURBQXlEO0FBRWxELEtBQUssVUFBVSxNQUFNLENBQUMsUUFBUSxFQUFFLEdBQVcsRUFBRSxVQUFpQjtJQUNqRSxPQUFPLElBQUksT0FBTyxDQUFDLENBQUMsT0FBTyxFQUFFLE1BQU0sRUFBRSxFQUFFO1FBQ25DLElBQUksWUFBWSxHQUFHLFFBQVEsQ0FBQyxPQUFPLENBQUMsR0FBRyxDQUFDLENBQUM7UUFDekMsWUFBWSxDQUFDLEdBQUcsQ0FBQyxVQUFVLEVBQUUsVUFBUyxLQUFLLEVBQUUsR0FBRztZQUM1QyxJQUFJLEtBQUssRUFBRTtnQkFDUCxPQUFPLENBQUMsS0FBSyxDQUFDLEtBQUssQ0FBQyxDQUFDO2dCQUNyQixNQUFNLENBQUMsS0FBSyxDQUFDLENBQUM7YUFDakI7aUJBQU07Z0JBQ0gsWUFBWSxDQUFDLFFBQVEsRUFBRSxDQUFDLENBQUUscUJBQXFCO2dCQUMvQyxPQUFPLENBQUMsR0FBRyxDQUFDLENBQUM7YUFDaEI7UUFDTCxDQUFDLENBQUMsQ0FBQztJQUNQLENBQUMsQ0FBQyxDQUFDO0FBQ1AsQ0FBQztBQWJELHdCQWFDO0FBRUQscURBQXFEO0FBRTlDLEtBQUssVUFBVSxVQUFVLENBQUMsUUFBUSxFQUFFLEdBQVcsRUFBRSxVQUFpQjtJQUNyRSxPQUFPLElBQUksT0FBTyxDQUFDLENBQUMsT0FBTyxFQUFFLE1BQU0sRUFBRSxFQUFFO1FBQ25DLFFBQVEsQ0FBQyxHQUFHLENBQUMsR0FBRyxFQUFFLFVBQVUsRUFBRSxDQUFDLEtBQUssRUFBRSxJQUFJLEVBQUUsRUFBRTtZQUMxQyxJQUFJLEtBQUssRUFBRTtnQkFDUCxPQUFPLENBQUMsS0FBSyxDQUFDLEtBQUssQ0FBQyxDQUFDO2dCQUNyQixNQUFNLENBQUMsS0FBSyxDQUFDLENBQUM7YUFDakI7O2dCQUNHLE9BQU8sQ0FBQyxJQUFJLENBQUMsQ0FBQztRQUN0QixDQUFDLENBQUMsQ0FBQztJQUNQLENBQUMsQ0FBQyxDQUFDO0FBQ1AsQ0FBQztBQVZELGdDQVVDO0FBRUQsNkZBQTZGO0FBRXRGLEtBQUssVUFBVSxTQUFTLENBQUMsUUFBUSxFQUFFLEdBQVcsRUFBRSxVQUFpQjtJQUNwRSxPQUFPLElBQUksT0FBTyxDQUFDLENBQUMsT0FBTyxFQUFFLE1BQU0sRUFBRSxFQUFFO1FBQ25DLFFBQVEsQ0FBQyxHQUFHLENBQUMsR0FBRyxFQUFFLFVBQVUsRUFBRSxDQUFDLEtBQUssRUFBRSxHQUFHLEVBQUUsRUFBRTtZQUN6QyxJQUFJLEtBQUssRUFBRTtnQkFDUCxPQUFPLENBQUMsS0FBSyxDQUFDLEtBQUssQ0FBQyxDQUFDO2dCQUNyQixNQUFNLENBQUMsS0FBSyxDQUFDLENBQUM7YUFDakI7O2dCQUNHLE9BQU8sQ0FBQyxHQUFHLENBQUMsQ0FBQztRQUNyQixDQUFDLENBQUMsQ0FBQztJQUNQLENBQUMsQ0FBQyxDQUFDO0FBQ1AsQ0FBQztBQVZELDhCQVVDO0FBRUQsdUVBQXVFO0FBRXZFLEtBQUssVUFBVSxnQkFBZ0IsQ0FBQyxRQUFRLEVBQUUsV0FBbUIsRUFBRSxpQkFBeUIsRUFBRSxPQUFlLEVBQUUsV0FBbUIsRUFBRSxZQUFvQixFQUFFLGdCQUF3QixFQUFFLFNBQWlCLEVBQUUsVUFBa0I7SUFDak4sTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLDREQUE0RCxFQUFFLENBQUUsaUJBQWlCLEVBQUUsT0FBTyxFQUFFLFdBQVcsRUFBRSxZQUFZLEVBQUUsZ0JBQWdCLEVBQUUsU0FBUyxFQUFFLFVBQVUsRUFBRSxXQUFXLENBQUUsQ0FBQyxDQUFDO0FBQzFNLENBQUM7QUFFRCw4RkFBOEY7QUFDOUYsK0ZBQStGO0FBQy9GLGlHQUFpRztBQUNqRyxxQkFBcUI7QUFFckIsS0FBSyxVQUFVLFNBQVMsQ0FBQyxRQUFRLEVBQUUsc0JBQXNCO0lBQ3JELElBQUksV0FBVyxHQUFHLE1BQU0sU0FBUyxDQUFDLFFBQVEsRUFBRSxzRUFBc0UsRUFBRSxDQUFFLHNCQUFzQixDQUFDLE9BQU8sRUFBRSxzQkFBc0IsQ0FBQyxpQkFBaUIsQ0FBRSxDQUFDLENBQUM7SUFFbE0sSUFBSSxXQUFXLEtBQUssU0FBUyxFQUFFO1FBQzNCLE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSxtTUFBbU0sRUFBRTtZQUN4TixzQkFBc0IsQ0FBQyxpQkFBaUI7WUFDeEMsc0JBQXNCLENBQUMsT0FBTztZQUM5QixzQkFBc0IsQ0FBQyxXQUFXO1lBQ2xDLHNCQUFzQixDQUFDLGNBQWM7WUFDckMsc0JBQXNCLENBQUMsVUFBVTtZQUNqQyxzQkFBc0IsQ0FBQyxVQUFVO1lBQ2pDLHNCQUFzQixDQUFDLFlBQVk7WUFDbkMsc0JBQXNCLENBQUMsZ0JBQWdCO1lBQ3ZDLHNCQUFzQixDQUFDLE9BQU87U0FDakMsQ0FBQyxDQUFDO1FBQ0gsTUFBTSxnQkFBZ0IsQ0FBQyxRQUFRLEVBQUUsc0JBQXNCLENBQUMsT0FBTyxFQUFFLHNCQUFzQixDQUFDLGlCQUFpQixFQUFFLHNCQUFzQixDQUFDLE9BQU8sRUFBRSxzQkFBc0IsQ0FBQyxXQUFXLEVBQUUsc0JBQXNCLENBQUMsWUFBWSxFQUFFLHNCQUFzQixDQUFDLGdCQUFnQixFQUFFLHNCQUFzQixDQUFDLGNBQWMsRUFBRSxzQkFBc0IsQ0FBQyxVQUFVLENBQUMsQ0FBQztRQUN2VSxPQUFPLENBQUMsR0FBRyxDQUFDLCtCQUErQixzQkFBc0IsQ0FBQyxpQkFBaUIscUJBQXFCLHNCQUFzQixDQUFDLE9BQU8scUJBQXFCLHNCQUFzQixDQUFDLFdBQVcsMkJBQTJCLHNCQUFzQixDQUFDLGdCQUFnQiwwQkFBMEIsc0JBQXNCLENBQUMsWUFBWSxxQkFBcUIsQ0FBQyxDQUFDO1FBQ25WLE9BQU8sS0FBSyxDQUFDO0tBQ2hCO0lBRUQsSUFBSSxXQUFXLENBQUMsT0FBTyxLQUFLLHNCQUFzQixDQUFDLE9BQU87UUFDdEQsV0FBVyxDQUFDLFdBQVcsS0FBSyxzQkFBc0IsQ0FBQyxXQUFXO1FBQzlELFdBQVcsQ0FBQyxhQUFhLEtBQUssc0JBQXNCLENBQUMsWUFBWTtRQUNqRSxXQUFXLENBQUMsaUJBQWlCLEtBQUssc0JBQXNCLENBQUMsZ0JBQWdCLEVBQUU7UUFDM0UsT0FBTyxDQUFDLEdBQUcsQ0FBQyxxQkFBcUIsc0JBQXNCLENBQUMsaUJBQWlCLGtCQUFrQixDQUFDLENBQUM7UUFDN0YsT0FBTyxXQUFXLENBQUM7S0FDdEI7SUFFRCw2RkFBNkY7SUFDN0Ysc0NBQXNDO0lBRXRDLElBQUksVUFBVSxHQUFHLE1BQU0sU0FBUyxDQUFDLFFBQVEsRUFBRSw4RUFBOEUsRUFBRSxDQUFFLHNCQUFzQixDQUFDLE9BQU8sRUFBRSxzQkFBc0IsQ0FBQyxpQkFBaUIsQ0FBRSxDQUFDLENBQUM7SUFDek0sSUFBSSxVQUFVLEtBQUssU0FBUztRQUN4QixNQUFNLGdCQUFnQixDQUFDLFFBQVEsRUFBRSxXQUFXLENBQUMsT0FBTyxFQUFFLFdBQVcsQ0FBQyxpQkFBaUIsRUFBRSxXQUFXLENBQUMsT0FBTyxFQUFFLFdBQVcsQ0FBQyxXQUFXLEVBQUUsV0FBVyxDQUFDLGFBQWEsRUFBRSxXQUFXLENBQUMsaUJBQWlCLEVBQUUsV0FBVyxDQUFDLFFBQVEsRUFBRSxXQUFXLENBQUMsWUFBWSxDQUFDLENBQUM7SUFFalAsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLHFMQUFxTCxFQUFFO1FBQzFNLHNCQUFzQixDQUFDLE9BQU87UUFDOUIsc0JBQXNCLENBQUMsV0FBVztRQUNsQyxzQkFBc0IsQ0FBQyxjQUFjO1FBQ3JDLHNCQUFzQixDQUFDLFVBQVU7UUFDakMsc0JBQXNCLENBQUMsWUFBWTtRQUNuQyxzQkFBc0IsQ0FBQyxnQkFBZ0I7UUFDdkMsc0JBQXNCLENBQUMsT0FBTztRQUM5QixzQkFBc0IsQ0FBQyxpQkFBaUI7S0FDM0MsQ0FBQyxDQUFDO0lBQ0gsTUFBTSxnQkFBZ0IsQ0FBQyxRQUFRLEVBQUUsc0JBQXNCLENBQUMsT0FBTyxFQUFFLHNCQUFzQixDQUFDLGlCQUFpQixFQUFFLHNCQUFzQixDQUFDLE9BQU8sRUFBRSxzQkFBc0IsQ0FBQyxXQUFXLEVBQUUsc0JBQXNCLENBQUMsWUFBWSxFQUFFLHNCQUFzQixDQUFDLGdCQUFnQixFQUFFLHNCQUFzQixDQUFDLGNBQWMsRUFBRSxzQkFBc0IsQ0FBQyxVQUFVLENBQUMsQ0FBQztJQUN2VSxPQUFPLENBQUMsR0FBRyxDQUFDLHFDQUFxQyxzQkFBc0IsQ0FBQyxpQkFBaUIscUJBQXFCLHNCQUFzQixDQUFDLE9BQU8scUJBQXFCLHNCQUFzQixDQUFDLFdBQVcsMkJBQTJCLHNCQUFzQixDQUFDLGdCQUFnQiwwQkFBMEIsc0JBQXNCLENBQUMsWUFBWSx3Q0FBd0MsV0FBVyxDQUFDLFlBQVksSUFBSSxDQUFDLENBQUM7SUFDeFksT0FBTyxTQUFTLENBQUM7QUFDckIsQ0FBQztBQUVELGdHQUFnRztBQUNoRywrRkFBK0Y7QUFFL0YsS0FBSyxVQUFVLGdCQUFnQixDQUFDLFFBQVEsRUFBRSxzQkFBc0I7SUFDNUQsSUFBSSxzQkFBc0IsQ0FBQyxNQUFNLEtBQUssU0FBUztRQUMzQyxPQUFPO0lBQ1gsSUFBSSxNQUFNLEdBQUcsc0JBQXNCLENBQUMsTUFBTSxDQUFDO0lBQzNDLE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSx3RUFBd0UsRUFBRSxDQUFFLE1BQU0sQ0FBQyxpQkFBaUIsRUFBRSxNQUFNLENBQUMsY0FBYyxFQUFFLElBQUksQ0FBQyxTQUFTLENBQUMsTUFBTSxDQUFDLEVBQUUsTUFBTSxDQUFDLFVBQVUsRUFBRSxzQkFBc0IsQ0FBQyxPQUFPLEVBQUUsc0NBQTBCLENBQUMsTUFBTSxDQUFDLGlCQUFpQixDQUFDLENBQUUsQ0FBQyxDQUFDO0lBRXZSLE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSx5RUFBeUUsRUFBRSxDQUFFLHNCQUFzQixDQUFDLE9BQU8sRUFBRSxzQkFBc0IsQ0FBQyxpQkFBaUIsQ0FBRSxDQUFDLENBQUM7SUFDaEwsS0FBSyxJQUFJLFFBQVEsSUFBMkIsc0JBQXNCLENBQUMsU0FBUyxFQUFFO1FBQzFFLE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSx5REFBeUQsRUFBRSxDQUFFLFFBQVEsQ0FBQyxpQkFBaUIsRUFBRSxRQUFRLENBQUMsS0FBSyxFQUFFLFFBQVEsQ0FBQyxTQUFTLEVBQUUsUUFBUSxDQUFDLE9BQU8sRUFBRSxRQUFRLENBQUMsY0FBYyxFQUFFLFFBQVEsQ0FBQyxZQUFZLEVBQUUsTUFBTSxFQUFFLENBQUMsTUFBTSxDQUFDLFlBQVksQ0FBQyxFQUFFLHNCQUFzQixDQUFDLE9BQU8sQ0FBRSxDQUFDLENBQUM7UUFDdlIsT0FBTyxDQUFDLEdBQUcsQ0FBQyxxQkFBcUIsUUFBUSxDQUFDLGlCQUFpQix3QkFBd0IsUUFBUSxDQUFDLEtBQUssTUFBTSxRQUFRLENBQUMsY0FBYyxTQUFTLFFBQVEsQ0FBQyxZQUFZLGVBQWUsUUFBUSxDQUFDLFNBQVMsV0FBVyxRQUFRLENBQUMsT0FBTyxJQUFJLENBQUMsQ0FBQztLQUNqTztBQUNMLENBQUM7QUFFRCx3RkFBd0Y7QUFDeEYsNkZBQTZGO0FBQzdGLDBCQUEwQjtBQUUxQixLQUFLLFVBQVUsZ0JBQWdCLENBQUMsUUFBUSxFQUFFLHNCQUFzQjtJQUM1RCxNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsa0VBQWtFLEVBQUU7UUFDdkYsc0JBQXNCLENBQUMsaUJBQWlCO1FBQ3hDLHNCQUFzQixDQUFDLFNBQVM7UUFDaEMsQ0FBQyxzQkFBc0IsQ0FBQyxvQkFBb0IsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsSUFBSSxDQUFDLENBQUMsQ0FBQyxzQkFBc0IsQ0FBQyxvQkFBb0I7UUFDaEgsc0JBQXNCLENBQUMsT0FBTztLQUNqQyxDQUFDLENBQUM7SUFFSCxNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUseUVBQXlFLEVBQUUsQ0FBRSxzQkFBc0IsQ0FBQyxPQUFPLEVBQUUsc0JBQXNCLENBQUMsaUJBQWlCLENBQUUsQ0FBQyxDQUFDO0lBQ2hMLEtBQUssSUFBSSxRQUFRLElBQUksc0JBQXNCLENBQUMsU0FBUztRQUNqRCxNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsMENBQTBDLEVBQUUsQ0FBRSxzQkFBc0IsQ0FBQyxpQkFBaUIsRUFBRSxRQUFRLEVBQUUsc0JBQXNCLENBQUMsT0FBTyxDQUFFLENBQUMsQ0FBQztJQUUvSixNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUseUVBQXlFLEVBQUUsQ0FBRSxzQkFBc0IsQ0FBQyxPQUFPLEVBQUUsc0JBQXNCLENBQUMsaUJBQWlCLENBQUUsQ0FBQyxDQUFDO0lBQ2hMLEtBQUssSUFBSSxRQUFRLElBQUksc0JBQXNCLENBQUMsU0FBUztRQUNqRCxNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsNkNBQTZDLEVBQUUsQ0FBRSxzQkFBc0IsQ0FBQyxpQkFBaUIsRUFBRSxRQUFRLENBQUMsUUFBUSxFQUFFLFFBQVEsQ0FBQyxJQUFJLEVBQUUsc0JBQXNCLENBQUMsT0FBTyxDQUFFLENBQUMsQ0FBQztBQUM5TCxDQUFDO0FBRUQsNEZBQTRGO0FBQzVGLDBGQUEwRjtBQUUxRixLQUFLLFVBQVUsZ0JBQWdCLENBQUMsUUFBUSxFQUFFLHNCQUFzQjtJQUM1RCxJQUFJLGFBQWEsR0FBa0Isc0JBQXNCLENBQUMsYUFBYSxDQUFDO0lBQ3hFLElBQUksS0FBSyxHQUFHLEVBQUUsV0FBVyxFQUFFLGFBQWEsQ0FBQyxXQUFXLEVBQUUsVUFBVSxFQUFFLGFBQWEsQ0FBQyxVQUFVLEVBQUUsWUFBWSxFQUFFLGFBQWEsQ0FBQyxZQUFZLEVBQUUsTUFBTSxFQUFFLGFBQWEsQ0FBQyxNQUFNLEVBQUUsS0FBSyxFQUFFLGFBQWEsQ0FBQyxLQUFLLEVBQUUsUUFBUSxFQUFFLGFBQWEsQ0FBQyxRQUFRLEVBQUUsQ0FBQztJQUNuTyxJQUFJLE9BQU8sR0FBRyxFQUFFLENBQUM7SUFDakIsS0FBSyxJQUFJLElBQUksSUFBSSxNQUFNLENBQUMsSUFBSSxDQUFDLEtBQUssQ0FBQztRQUMvQixPQUFPLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDLENBQUMsWUFBWSxLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxHQUFHLEtBQUssQ0FBQyxJQUFJLENBQUMsQ0FBQyxNQUFNLG1CQUFtQixLQUFLLENBQUMsSUFBSSxDQUFDLENBQUMsWUFBWSxHQUFHLENBQUM7SUFFeEosTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLDZFQUE2RSxFQUFFO1FBQ2xHLHNCQUFzQixDQUFDLGlCQUFpQjtRQUN4QyxhQUFhLENBQUMsV0FBVyxDQUFDLEtBQUs7UUFDL0IsYUFBYSxDQUFDLFVBQVUsQ0FBQyxLQUFLO1FBQzlCLGFBQWEsQ0FBQyxZQUFZLENBQUMsS0FBSztRQUNoQyxhQUFhLENBQUMsTUFBTSxDQUFDLEtBQUs7UUFDMUIsYUFBYSxDQUFDLEtBQUssQ0FBQyxLQUFLO1FBQ3pCLGFBQWEsQ0FBQyxRQUFRLENBQUMsS0FBSztRQUM1QixJQUFJLENBQUMsU0FBUyxDQUFDLE9BQU8sQ0FBQztRQUN2QixhQUFhLENBQUMsVUFBVTtRQUN4QixhQUFhLENBQUMsZUFBZSxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUM7UUFDckMsc0JBQXNCLENBQUMsT0FBTztLQUNqQyxDQUFDLENBQUM7QUFDUCxDQUFDO0FBRUQseUVBQXlFO0FBRXpFLEtBQUssVUFBVSx5QkFBeUIsQ0FBQyxRQUFRLEVBQUUsc0JBQXNCO0lBQ3JFLElBQUksZ0JBQWdCLEdBQXFCLHNCQUFzQixDQUFDLHNCQUFzQixDQUFDO0lBQ3ZGLE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSxtRkFBbUYsRUFBRTtRQUN4RyxzQkFBc0IsQ0FBQyxpQkFBaUI7UUFDeEMsZ0JBQWdCLENBQUMsR0FBRztRQUNwQixnQkFBZ0IsQ0FBQyxPQUFPO1FBQ3hCLGdCQUFnQixDQUFDLFNBQVM7UUFDMUIsZ0JBQWdCLENBQUMsUUFBUTtRQUN6QixnQkFBZ0IsQ0FBQyxVQUFVO1FBQzNCLGdCQUFnQixDQUFDLFdBQVc7UUFDNUIsZ0JBQWdCLENBQUMsVUFBVTtRQUMzQixnQkFBZ0IsQ0FBQyxPQUFPO1FBQ3hCLHNCQUFzQixDQUFDLE9BQU87S0FDakMsQ0FBQyxDQUFDO0FBQ1AsQ0FBQztBQUVELDZGQUE2RjtBQUM3Rix1REFBdUQ7QUFFdkQsS0FBSyxVQUFVLG1CQUFtQixDQUFDLFFBQVEsRUFBRSxlQUFnQztJQUN6RSxNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsb0VBQW9FLEVBQUUsQ0FBRSxlQUFlLENBQUMsR0FBRyxFQUFFLGVBQWUsQ0FBQyxVQUFVLENBQUUsQ0FBQyxDQUFDO0lBQ2xKLE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSx1REFBdUQsRUFBRTtRQUM1RSxlQUFlLENBQUMsR0FBRztRQUNuQixlQUFlLENBQUMsVUFBVTtRQUMxQixlQUFlLENBQUMsaUJBQWlCO1FBQ2pDLGVBQWUsQ0FBQyxNQUFNO1FBQ3RCLGVBQWUsQ0FBQyxPQUFPLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQztRQUNsQyxJQUFJLENBQUMsU0FBUyxDQUFDLGVBQWUsQ0FBQyxRQUFRLENBQUM7UUFDeEMsTUFBTSxFQUFFLENBQUMsTUFBTSxDQUFDLFlBQVksQ0FBQztLQUNoQyxDQUFDLENBQUM7QUFDUCxDQUFDO0FBRUQsaUdBQWlHO0FBQ2pHLGtHQUFrRztBQUNsRyx3REFBd0Q7QUFFeEQsU0FBZ0IsaUJBQWlCLENBQUMsUUFBUTtJQUN0QyxPQUFPO1FBQ0gsUUFBUSxFQUFFLEtBQUssRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLEVBQUU7WUFDekMsSUFBSSxJQUFJLEdBQUcsTUFBTSxVQUFVLENBQUMsUUFBUSxFQUFFLDRHQUE0RyxFQUFFLENBQUUsV0FBVyxFQUFFLFdBQVcsQ0FBRSxDQUFDLENBQUM7WUFDbEwsT0FBTyxDQUFDLElBQUksQ0FBQyxNQUFNLEtBQUssQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxHQUFHLENBQUMsRUFBRSxDQUFDLElBQUksQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLFFBQVEsQ0FBQyxDQUFDLENBQUM7UUFDdkYsQ0FBQztRQUVELFNBQVMsRUFBRSxLQUFLLEVBQUUsV0FBVyxFQUFFLFdBQVcsRUFBRSxLQUFLLEVBQUUsRUFBRTtZQUNqRCxNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsbURBQW1ELEVBQUUsQ0FBRSxXQUFXLENBQUUsQ0FBQyxDQUFDO1lBQzdGLEtBQUssSUFBSSxLQUFLLEdBQUcsQ0FBQyxFQUFFLEtBQUssR0FBRyxLQUFLLENBQUMsTUFBTSxFQUFFLEtBQUssRUFBRTtnQkFDN0MsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLDhDQUE4QyxFQUFFLENBQUUsV0FBVyxFQUFFLFdBQVcsRUFBRSxLQUFLLEdBQUcsQ0FBQyxFQUFFLElBQUksQ0FBQyxTQUFTLENBQUMsS0FBSyxDQUFDLEtBQUssQ0FBQyxDQUFDLENBQUUsQ0FBQyxDQUFDO1FBQ3RKLENBQUM7UUFFRCxRQUFRLEVBQUUsS0FBSyxFQUFFLFdBQVcsRUFBRSxTQUFTLEVBQUUsRUFBRTtZQUN2QyxJQUFJLEdBQUcsR0FBRyxNQUFNLFNBQVMsQ0FBQyxRQUFRLEVBQUUseUxBQXlMLEVBQUUsQ0FBRSxXQUFXLEVBQUUsU0FBUyxDQUFFLENBQUMsQ0FBQztZQUMzUCxPQUFPLENBQUMsR0FBRyxLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxTQUFTLENBQUMsQ0FBQyxDQUFDLEVBQUUsVUFBVSxFQUFFLEdBQUcsQ0FBQyxXQUFXLEVBQUUsU0FBUyxFQUFFLEdBQUcsQ0FBQyxVQUFVLEVBQUUsV0FBVyxFQUFFLElBQUksQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLFlBQVksQ0FBQyxFQUFFLHVCQUF1QixFQUFFLElBQUksQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLFlBQVksQ0FBQyxFQUFFLGdCQUFnQixFQUFFLElBQUksQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLGlCQUFpQixDQUFDLEVBQUUsQ0FBQztRQUMvUCxDQUFDO1FBRUQsU0FBUyxFQUFFLEtBQUssRUFBRSxXQUFXLEVBQUUsU0FBUyxFQUFFLFdBQVcsRUFBRSxFQUFFO1lBQ3JELE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSxzRUFBc0UsRUFBRTtnQkFDM0YsV0FBVztnQkFDWCxTQUFTO2dCQUNULFdBQVcsQ0FBQyxVQUFVO2dCQUN0QixXQUFXLENBQUMsU0FBUztnQkFDckIsSUFBSSxDQUFDLFNBQVMsQ0FBQyxXQUFXLENBQUMsdUJBQXVCLENBQUM7Z0JBQ25ELElBQUksQ0FBQyxTQUFTLENBQUMsV0FBVyxDQUFDLGdCQUFnQixDQUFDO2dCQUM1QyxNQUFNLEVBQUUsQ0FBQyxNQUFNLENBQUMsWUFBWSxDQUFDO2dCQUM3QixJQUFJLENBQUMsU0FBUyxDQUFDLFdBQVcsQ0FBQyxXQUFXLENBQUM7YUFDMUMsQ0FBQyxDQUFDO1FBQ1AsQ0FBQztLQUNKLENBQUM7QUFDTixDQUFDO0FBL0JELDhDQStCQztBQUVELGlHQUFpRztBQUNqRyxpRkFBaUY7QUFFMUUsS0FBSyxVQUFVLFVBQVUsQ0FBQyxRQUFRO0lBQ3JDLE1BQU0sTUFBTSxDQUFDLFFBQVEsRUFBRSxnSUFBZ0ksRUFBRSxFQUFFLENBQUMsQ0FBQztJQUM3SixNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsaUlBQWlJLEVBQUUsRUFBRSxDQUFDLENBQUM7QUFDbEssQ0FBQztBQUhELGdDQUdDO0FBRUQsMkZBQTJGO0FBQzNGLDBCQUEwQjtBQUUxQixTQUFnQixnQkFBZ0IsQ0FBQyxRQUFRO0lBQ3JDLE9BQU87UUFDSCxJQUFJLEVBQUUsUUFBUTtRQUNkLFVBQVUsRUFBRSxJQUFJO1FBQ2hCLElBQUksRUFBRSxLQUFLLElBQUksRUFBRSxHQUFFLENBQUM7UUFDcEIsS0FBSyxFQUFFLEtBQUssSUFBSSxFQUFFO1lBQ2QsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLG1CQUFtQixFQUFFLEVBQUUsQ0FBQyxDQUFDO1FBQ3BELENBQUM7UUFDRCxlQUFlLEVBQUUsS0FBSyxFQUFDLHNCQUFzQixFQUFDLEVBQUU7WUFDNUMsSUFBSSxNQUFNLEdBQUcsTUFBTSxTQUFTLENBQUMsUUFBUSxFQUFFLHNCQUFzQixDQUFDLENBQUM7WUFDL0QsTUFBTSxnQkFBZ0IsQ0FBQyxRQUFRLEVBQUUsc0JBQXNCLENBQUMsQ0FBQztZQUN6RCxNQUFNLGdCQUFnQixDQUFDLFFBQVEsRUFBRSxzQkFBc0IsQ0FBQyxDQUFDO1lBQ3pELE1BQU0sZ0JBQWdCLENBQUMsUUFBUSxFQUFFLHNCQUFzQixDQUFDLENBQUM7WUFDekQsTUFBTSx5QkFBeUIsQ0FBQyxRQUFRLEVBQUUsc0JBQXNCLENBQUMsQ0FBQztZQUNsRSxPQUFPLE1BQU0sQ0FBQztRQUNsQixDQUFDO1FBQ0QsbUJBQW1CLEVBQUUsS0FBSyxFQUFDLGVBQWUsRUFBQyxFQUFFO1lBQ3pDLE1BQU0sbUJBQW1CLENBQUMsUUFBUSxFQUFFLGVBQWUsQ0FBQyxDQUFDO1FBQ3pELENBQUM7UUFDRCxNQUFNLEVBQUUsS0FBSyxJQUFJLEVBQUU7WUFDZixNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsUUFBUSxFQUFFLEVBQUUsQ0FBQyxDQUFDO1FBQ3pDLENBQUM7UUFDRCxRQUFRLEVBQUUsS0FBSyxJQUFJLEVBQUU7WUFDakIsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLFVBQVUsRUFBRSxFQUFFLENBQUMsQ0FBQztRQUMzQyxDQUFDO1FBQ0QsS0FBSyxFQUFFLEtBQUssSUFBSSxFQUFFLEdBQUUsQ0FBQztLQUN4QixDQUFDO0FBQ04sQ0FBQztBQTNCRCw0Q0EyQkM7QUFFRCxpREFBaUQ7QUFFMUMsS0FBSyxVQUFVLFNBQVMsQ0FBQyxRQUFRLEVBQUUsTUFBaUI7SUFDdkQsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLGlHQUFpRyxFQUFFO1FBQ3RILE1BQU0sQ0FBQyxTQUFTO1FBQ2hCLE1BQU0sQ0FBQyxPQUFPO1FBQ2QsTUFBTSxDQUFDLFFBQVE7UUFDZixNQUFNLENBQUMsUUFBUSxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUM7UUFDekIsTUFBTSxDQUFDLFlBQVk7UUFDbkIsTUFBTSxDQUFDLGNBQWM7UUFDckIsTUFBTSxDQUFDLFlBQVk7UUFDbkIsTUFBTSxDQUFDLGVBQWU7UUFDdEIsTUFBTSxDQUFDLFVBQVU7UUFDakIsTUFBTSxDQUFDLFlBQVk7UUFDbkIsTUFBTSxDQUFDLFdBQVc7UUFDbEIsTUFBTSxDQUFDLGFBQWE7UUFDcEIsTUFBTSxDQUFDLFlBQVk7UUFDbkIsTUFBTSxDQUFDLGtCQUFrQjtRQUN6QixNQUFNLENBQUMsZUFBZTtRQUN0QixNQUFNLENBQUMsbUJBQW1CO1FBQzFCLE1BQU0sQ0FBQyxxQkFBcUI7UUFDNUIsTUFBTSxDQUFDLGlCQUFpQjtRQUN4QixNQUFNLENBQUMsb0JBQW9CO1FBQzNCLE1BQU0sQ0FBQyxZQUFZO1FBQ25CLE1BQU0sQ0FBQyx1QkFBdUI7UUFDOUIsSUFBSSxDQUFDLFNBQVMsQ0FBQyxNQUFNLENBQUMsY0FBYyxDQUFDO1FBQ3JDLE1BQU0sQ0FBQyxLQUFLO0tBQ2YsQ0FBQyxDQUFDO0FBQ1AsQ0FBQztBQTFCRCw4QkEwQkM7QUFFRCw4RkFBOEY7QUFFdkYsS0FBSyxVQUFVLFlBQVksQ0FBQyxRQUFRO0lBQ3ZDLE9BQU8sVUFBVSxDQUFDLFFBQVEsRUFBRSxvSEFBb0gsRUFBRSxFQUFFLENBQUMsQ0FBQztBQUMxSixDQUFDO0FBRkQsb0NBRUM7QUFFRCwrRkFBK0Y7QUFDL0YsMkRBQTJEO0FBRXBELEtBQUssVUFBVSxvQkFBb0IsQ0FBQyxRQUFRLEVBQUUsV0FBbUI7SUFDcEUsSUFBSSxJQUFJLEdBQUcsTUFBTSxVQUFVLENBQUMsUUFBUSxFQUFFLDJSQUEyUixFQUFFLENBQUUsV0FBVyxDQUFFLENBQUMsQ0FBQztJQUNwVixPQUFPLElBQUk7U0FDTixNQUFNLENBQUMsR0FBRyxDQUFDLEVBQUUsQ0FBQyxJQUFJLENBQUMsS0FBSyxDQUFDLEdBQUcsQ0FBQyxPQUFPLElBQUksSUFBSSxDQUFDLENBQUMsTUFBTSxLQUFLLFVBQVUsQ0FBQztTQUNwRSxHQUFHLENBQUMsR0FBRyxDQUFDLEVBQUUsQ0FBQyxDQUFDLEVBQUUsZ0JBQWdCLEVBQUUsR0FBRyxDQUFDLGlCQUFpQixFQUFFLE9BQU8sRUFBRSxHQUFHLENBQUMsT0FBTyxFQUFFLENBQUMsQ0FBQyxDQUFDO0FBQ3pGLENBQUM7QUFMRCxvREFLQztBQUVELHdGQUF3RjtBQUN4Rix1Q0FBdUM7QUFFaEMsS0FBSyxVQUFVLHVCQUF1QixDQUFDLFFBQVE7SUFDbEQsSUFBSSxJQUFJLEdBQUcsTUFBTSxVQUFVLENBQUMsUUFBUSxFQUFFLGdhQUFnYSxFQUFFLEVBQUUsQ0FBQyxDQUFDO0lBQzVjLE9BQU8sSUFBSSxDQUFDLEdBQUcsQ0FBQyxHQUFHLENBQUMsRUFBRTtRQUNsQixJQUFJLFdBQVcsR0FBd0I7WUFDbkMsaUJBQWlCLEVBQUUsR0FBRyxDQUFDLGlCQUFpQjtZQUN4QyxPQUFPLEVBQUUsR0FBRyxDQUFDLE9BQU87WUFDcEIsV0FBVyxFQUFFLEdBQUcsQ0FBQyxXQUFXO1lBQzVCLFFBQVEsRUFBRSxHQUFHLENBQUMsUUFBUTtZQUN0QixXQUFXLEVBQUUsR0FBRyxDQUFDLFdBQVc7WUFDNUIsWUFBWSxFQUFFLEdBQUcsQ0FBQyxZQUFZO1lBQzlCLGFBQWEsRUFBRSxHQUFHLENBQUMsYUFBYTtZQUNoQyxpQkFBaUIsRUFBRSxHQUFHLENBQUMsaUJBQWlCO1lBQ3hDLE9BQU8sRUFBRSxHQUFHLENBQUMsT0FBTztTQUN2QixDQUFDO1FBQ0YsSUFBSSxHQUFHLENBQUMseUJBQXlCLEtBQUssSUFBSTtZQUN0QyxXQUFXLENBQUMsa0JBQWtCLEdBQUc7Z0JBQzdCLFlBQVksRUFBRSxHQUFHLENBQUMsWUFBWTtnQkFDOUIsV0FBVyxFQUFFLEdBQUcsQ0FBQyxXQUFXO2dCQUM1QixhQUFhLEVBQUUsR0FBRyxDQUFDLGFBQWE7Z0JBQ2hDLE1BQU0sRUFBRSxHQUFHLENBQUMsTUFBTTtnQkFDbEIsS0FBSyxFQUFFLEdBQUcsQ0FBQyxLQUFLO2dCQUNoQixTQUFTLEVBQUUsR0FBRyxDQUFDLFNBQVM7Z0JBQ3hCLFVBQVUsRUFBRSxHQUFHLENBQUMsVUFBVTtnQkFDMUIsaUJBQWlCLEVBQUUsQ0FBQyxHQUFHLENBQUMsaUJBQWlCLEtBQUssQ0FBQyxDQUFDO2FBQ25ELENBQUM7UUFDTixPQUFPLFdBQVcsQ0FBQztJQUN2QixDQUFDLENBQUMsQ0FBQztBQUNQLENBQUM7QUEzQkQsMERBMkJDO0FBRUQsOEZBQThGO0FBQzlGLDJDQUEyQztBQUVwQyxLQUFLLFVBQVUsdUJBQXVCLENBQUMsUUFBUSxFQUFFLGlCQUFxQztJQUN6RixLQUFLLElBQUksZ0JBQWdCLElBQUksaUJBQWlCLEVBQUU7UUFDNUMsTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLHNEQUFzRCxFQUFFLENBQUUsZ0JBQWdCLENBQUMsR0FBRyxDQUFFLENBQUMsQ0FBQztRQUN6RyxNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsOEdBQThHLEVBQUUsQ0FBRSxnQkFBZ0IsQ0FBQyxLQUFLLEVBQUUsZ0JBQWdCLENBQUMsV0FBVyxFQUFFLGdCQUFnQixDQUFDLFdBQVcsRUFBRSxnQkFBZ0IsQ0FBQyxTQUFTLEVBQUUsZ0JBQWdCLENBQUMsR0FBRyxDQUFFLENBQUMsQ0FBQztLQUNwUjtBQUNMLENBQUM7QUFMRCwwREFLQztBQUVELDhGQUE4RjtBQUM5RixnR0FBZ0c7QUFDaEcsdURBQXVEO0FBRWhELEtBQUssVUFBVSxjQUFjLENBQUMsUUFBUSxFQUFFLEdBQVcsRUFBRSxXQUFtQixFQUFFLElBQVksRUFBRSxZQUFvQixFQUFFLFNBQWlCLEVBQUUsVUFBa0I7SUFDdEosTUFBTSxNQUFNLENBQUMsUUFBUSxFQUFFLHNEQUFzRCxFQUFFLENBQUUsR0FBRyxDQUFFLENBQUMsQ0FBQztJQUN4RixNQUFNLE1BQU0sQ0FBQyxRQUFRLEVBQUUsb0pBQW9KLEVBQUUsQ0FBRSxXQUFXLEVBQUUsTUFBTSxFQUFFLENBQUMsTUFBTSxDQUFDLHFCQUFxQixDQUFDLEVBQUUsSUFBSSxFQUFFLFlBQVksRUFBRSxTQUFTLEVBQUUsVUFBVSxFQUFFLEdBQUcsQ0FBRSxDQUFDLENBQUM7QUFDMVIsQ0FBQztBQUhELHdDQUdDO0FBRUQsZ0dBQWdHO0FBQ2hHLGlHQUFpRztBQUNqRyxtR0FBbUc7QUFDbkcsNkJBQTZCO0FBRXRCLEtBQUssVUFBVSx5QkFBeUIsQ0FBQyxRQUFRLEVBQUUsTUFBYyxFQUFFLHNCQUFzQjtJQUM1RixJQUFJLGNBQWMsR0FBRyxzQ0FBMEIsQ0FBQyxzQkFBc0IsQ0FBQyxpQkFBaUIsQ0FBQyxDQUFDO0lBQzFGLElBQUksUUFBUSxHQUFHLE1BQU0sU0FBUyxDQUFDLFFBQVEsRUFBRSxzRUFBc0UsRUFBRSxDQUFFLE1BQU0sQ0FBRSxDQUFDLENBQUM7SUFDN0gsSUFBSSxPQUFPLEdBQXdCLENBQUUsRUFBRSxHQUFHLEVBQUUsTUFBTSxFQUFFLFNBQVMsRUFBRSxDQUFDLFFBQVEsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQyxRQUFRLENBQUMsVUFBVSxFQUFFLFdBQVcsRUFBRSxDQUFDLFFBQVEsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQyxRQUFRLENBQUMsWUFBWSxFQUFFLFdBQVcsRUFBRSxzQkFBc0IsRUFBRSxDQUFFLENBQUM7SUFFOU8sSUFBSSxJQUFJLEdBQUcsTUFBTSxVQUFVLENBQUMsUUFBUSxFQUFFLHVYQUF1WCxFQUFFLENBQUUsc0JBQXNCLENBQUMsT0FBTyxFQUFFLGNBQWMsRUFBRSxNQUFNLENBQUUsQ0FBQyxDQUFDO0lBQzNkLEtBQUssSUFBSSxHQUFHLElBQUksSUFBSTtRQUNoQixPQUFPLENBQUMsSUFBSSxDQUFDLEVBQUUsR0FBRyxFQUFFLEdBQUcsQ0FBQyxVQUFVLEVBQUUsU0FBUyxFQUFFLEdBQUcsQ0FBQyxVQUFVLEVBQUUsV0FBVyxFQUFFLEdBQUcsQ0FBQyxZQUFZLEVBQUUsV0FBVyxFQUFFLElBQUksQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLFdBQVcsQ0FBQyxFQUFFLENBQUMsQ0FBQztJQUU5SSxJQUFJLEVBQUUsV0FBVyxFQUFFLFNBQVMsRUFBRSxHQUFHLGdDQUFvQixDQUFDLE9BQU8sQ0FBQyxDQUFDO0lBRS9ELDBGQUEwRjtJQUMxRiwwRkFBMEY7SUFDMUYsaUNBQWlDO0lBRWpDLElBQUksUUFBUSxHQUFHLE1BQU0sU0FBUyxDQUFDLFFBQVEsRUFBRSxtVEFBbVQsRUFBRSxDQUFFLHNCQUFzQixDQUFDLE9BQU8sRUFBRSxjQUFjLENBQUUsQ0FBQyxDQUFDO0lBQ2xaLElBQUksUUFBUSxLQUFLLFNBQVMsRUFBRTtRQUN4QixXQUFXLENBQUMsaUJBQWlCLEdBQUcsUUFBUSxDQUFDLGlCQUFpQixDQUFDO1FBQzNELFNBQVMsR0FBRyxTQUFTLENBQUMsR0FBRyxDQUFDLFFBQVEsQ0FBQyxFQUFFLENBQUMsQ0FBQyxFQUFFLEdBQUcsUUFBUSxFQUFFLGlCQUFpQixFQUFFLFFBQVEsQ0FBQyxpQkFBaUIsRUFBRSxDQUFDLENBQUMsQ0FBQztLQUMzRztJQUNELE9BQU8sRUFBRSxHQUFHLFdBQVcsRUFBRSxNQUFNLEVBQUUsc0JBQXNCLEVBQUUsU0FBUyxFQUFFLFNBQVMsRUFBRSxDQUFDO0FBQ3BGLENBQUM7QUFyQkQsOERBcUJDIn0=
\ No newline at end of file
@@ -0,0 +1,514 @@
+// Saves development applications, the PDFs they were parsed from, the parse cache and the report
+// of each run to the sqlite database (the primary sink, see saveToSinks).  The [data] table has
+// the schema that PlanningAlerts expects and the other parsed details are saved in side tables.
+
+"use strict";
+
+import * as sqlite3 from "sqlite3";
+import * as moment from "moment";
+import { ParsedAddress, LegalDescription, QuarantinedPage } from "./parser";
+import { ParseCache } from "./cache";
+import { ApplicationSource, ApplicationConflict, normaliseApplicationNumber, reconcileApplication } from "./reconcile";
+import { ExportedApplication } from "./exporter";
+import { InsertStatus, Sink } from "./sinks";
+import { DefaultCouncilName } from "./councils";
+import { RunReport } from "./report";
+import { RegisterDocument } from "./register";
+
+sqlite3.verbose();
+
+// The columns of each table.  The tables that hold the details of development applications are
+// keyed by both the council and the application number (because different councils may use the
+// same application numbers).
+
+const TableDefinitions: { [tableName: string]: string } = {
+    data: "[council_reference] text, [address] text, [description] text, [info_url] text, [comment_url] text, [date_scraped] text, [date_received] text, [legal_description] text, [council] text, primary key ([council], [council_reference])",
+    data_history: "[council_reference] text, [address] text, [description] text, [date_received] text, [legal_description] text, [source_url] text, [date_scraped] text, [council] text",
+    application_details: "[council_reference] text, [applicant] text, [total_development_cost] real, [council] text, primary key ([council], [council_reference])",
+    referrals: "[council_reference] text, [referral] text, [council] text",
+    decisions: "[council_reference] text, [decision] text, [decision_date] text, [council] text",
+    addresses: "[council_reference] text, [house_number] text, [street_name] text, [street_suffix] text, [suburb] text, [state] text, [post_code] text, [sources] text, [confidence] real, [is_low_confidence] integer, [council] text, primary key ([council], [council_reference])",
+    legal_descriptions: "[council_reference] text, [lot] text, [section] text, [allotment] text, [plan_type] text, [plan_number] text, [title_volume] text, [title_folio] text, [hundred] text, [council] text, primary key ([council], [council_reference])",
+    quarantine: "[pdf_url] text, [page_number] integer, [council_reference] text, [status] text, [reason] text, [elements] text, [date_scraped] text",
+    documents: "[url] text primary key, [content_hash] text, [date_parsed] text, [etag] text, [last_modified] text, [title] text, [publish_date] text, [period_start] text, [period_end] text, [parser_key] text, [address_key] text",
+    application_sources: "[council_reference] text, [source_url] text, [application] text, [date_scraped] text, [council] text, [application_key] text, primary key ([council], [council_reference], [source_url])",
+    conflicts: "[council_reference] text, [field] text, [kept_value] text, [kept_url] text, [discarded_value] text, [discarded_url] text, [date_detected] text, [council] text",
+    page_cache: "[content_hash] text, [elements_key] text, [page_number] integer, [elements] text, primary key ([content_hash], [page_number])",
+    parse_cache: "[content_hash] text, [parser_key] text, [address_key] text, [page_count] integer, [applications] text, [quarantined_pages] text, [date_cached] text, [parsed_pages] text, primary key ([content_hash], [parser_key])",
+    runs: "[start_time] text, [end_time] text, [duration] integer, [councils] text, [pdf_selection] text, [pdfs_discovered] integer, [pdfs_selected] integer, [pdfs_not_modified] integer, [pdfs_parsed] integer, [pdfs_not_saved] integer, [pages_parsed] integer, [pages_rejected] integer, [pages_partial] integer, [applications_parsed] integer, [applications_new] integer, [applications_changed] integer, [applications_unchanged] integer, [fallback_addresses] integer, [missing_received_dates] integer, [fallback_rate] real, [missing_received_date_rate] real, [health_problems] text, [error] text"
+};
+
+// The tables that were keyed by the application number alone before more than one council was
+// supported ([data] must be first because the council of the other rows is taken from it).
+
+const CouncilTableNames = [ "data", "data_history", "application_details", "referrals", "decisions", "addresses", "legal_descriptions", "application_sources", "conflicts" ];
+
+// Sets up an sqlite database.
+
+export async function initializeDatabase(databasePath: string) {
+    return new Promise((resolve, reject) => {
+        let database = new sqlite3.Database(databasePath);
+        database.serialize(() => {
+            for (let tableName of Object.keys(TableDefinitions))
+                database.run(`create table if not exists [${tableName}] (${TableDefinitions[tableName]})`);
+            resolve(database);
+        });
+    }).then(async database => {
+        for (let tableName of CouncilTableNames)
+            await addCouncilColumn(database, tableName);
+        await addApplicationKeyColumn(database);
+        await addMissingColumns(database, "documents", { etag: "text", last_modified: "text", title: "text", publish_date: "text", period_start: "text", period_end: "text", parser_key: "text", address_key: "text" });  // added after the table was first created
+        await addMissingColumns(database, "parse_cache", { parsed_pages: "text" });
+        return database;
+    });
+}
+
+// Adds the [council] column to a table created when only one council was supported (filling it
+// in from the [data] table or, failing that, with the default council) and rebuilds the table if
+// its primary key does not include the council (the primary key of an sqlite table cannot be
+// altered).
+
+async function addCouncilColumn(database, tableName: string) {
+    await addMissingColumns(database, tableName, { council: "text" });
+    if (tableName === "data")
+        await runSql(database, "update [data] set [council] = ? where [council] is null", [ DefaultCouncilName ]);
+    else
+        await runSql(database, `update [${tableName}] set [council] = coalesce((select [data].[council] from [data] where [data].[council_reference] = [${tableName}].[council_reference] limit 1), ?) where [council] is null`, [ DefaultCouncilName ]);
+
+    let columns = await getSqlRows(database, `pragma table_info(${tableName})`, []);
+    if (!TableDefinitions[tableName].includes("primary key") || columns.some(column => column.name === "council" && column.pk > 0))
+        return;
+
+    console.log(`Adding the council to the primary key of the [${tableName}] table.`);
+    let columnNames = columns.map(column => `[${column.name}]`).join(", ");
+    await runSql(database, "begin transaction", []);
+    await runSql(database, `alter table [${tableName}] rename to [${tableName}_previous]`, []);
+    await runSql(database, `create table [${tableName}] (${TableDefinitions[tableName]})`, []);
+    await runSql(database, `insert into [${tableName}] (${columnNames}) select ${columnNames} from [${tableName}_previous]`, []);
+    await runSql(database, `drop table [${tableName}_previous]`, []);
+    await runSql(database, "commit", []);
+}
+
+// Adds the [application_key] column (the normalised application number, see
+// normaliseApplicationNumber, that the versions of an application parsed from different PDFs are
+// matched by) to an [application_sources] table created before the column existed.
+
+async function addApplicationKeyColumn(database) {
+    await addMissingColumns(database, "application_sources", { application_key: "text" });
+    for (let row of await getSqlRows(database, "select distinct [council_reference] from [application_sources] where [application_key] is null", []))
+        await runSql(database, "update [application_sources] set [application_key] = ? where [council_reference] = ? and [application_key] is null", [ normaliseApplicationNumber(row.council_reference), row.council_reference ]);
+}
+
+// Adds any of the specified columns that are missing from a table (so that a database created by
+// an earlier version of the scraper can still be used).
+
+async function addMissingColumns(database, tableName: string, columns: { [columnName: string]: string }) {
+    let existingColumnNames = (await getSqlRows(database, `pragma table_info(${tableName})`, [])).map(row => row.name);
+    for (let columnName of Object.keys(columns))
+        if (!existingColumnNames.includes(columnName))
+            await runSql(database, `alter table [${tableName}] add column [${columnName}] ${columns[columnName]}`, []);
+}
+
+// Runs an SQL statement (that does not return any rows).
+
+export async function runSql(database, sql: string, parameters: any[]) {
+    return new Promise((resolve, reject) => {
+        let sqlStatement = database.prepare(sql);
+        sqlStatement.run(parameters, function(error, row) {
+            if (error) {
+                console.error(error);
+                reject(error);
+            } else {
+                sqlStatement.finalize();  // releases any locks
+                resolve(row);
+            }
+        });
+    });
+}
+
+// Runs an SQL query that returns any number of rows.
+
+export async function getSqlRows(database, sql: string, parameters: any[]): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+        database.all(sql, parameters, (error, rows) => {
+            if (error) {
+                console.error(error);
+                reject(error);
+            } else
+                resolve(rows);
+        });
+    });
+}
+
+// Runs an SQL query that returns at most one row (undefined is returned if there is no row).
+
+export async function getSqlRow(database, sql: string, parameters: any[]): Promise<any> {
+    return new Promise((resolve, reject) => {
+        database.get(sql, parameters, (error, row) => {
+            if (error) {
+                console.error(error);
+                reject(error);
+            } else
+                resolve(row);
+        });
+    });
+}
+
+// Records a version of a development application in the history table.
+
+async function insertHistoryRow(database, councilName: string, applicationNumber: string, address: string, description: string, receivedDate: string, legalDescription: string, sourceUrl: string, scrapeDate: string) {
+    await runSql(database, "insert into [data_history] values (?, ?, ?, ?, ?, ?, ?, ?)", [ applicationNumber, address, description, receivedDate, legalDescription, sourceUrl, scrapeDate, councilName ]);
+}
+
+// Inserts a row in the database if the row does not already exist.  If the row exists but the
+// address, description, received date or legal description has changed then the row is updated
+// (retaining the date that the application was first scraped) and the new version is recorded in
+// the history table.
+
+async function insertRow(database, developmentApplication): Promise<InsertStatus> {
+    let existingRow = await getSqlRow(database, "select * from [data] where [council] = ? and [council_reference] = ?", [ developmentApplication.council, developmentApplication.applicationNumber ]);
+
+    if (existingRow === undefined) {
+        await runSql(database, "insert into [data] ([council_reference], [address], [description], [info_url], [comment_url], [date_scraped], [date_received], [legal_description], [council]) values (?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+            developmentApplication.applicationNumber,
+            developmentApplication.address,
+            developmentApplication.description,
+            developmentApplication.informationUrl,
+            developmentApplication.commentUrl,
+            developmentApplication.scrapeDate,
+            developmentApplication.receivedDate,
+            developmentApplication.legalDescription,
+            developmentApplication.council
+        ]);
+        await insertHistoryRow(database, developmentApplication.council, developmentApplication.applicationNumber, developmentApplication.address, developmentApplication.description, developmentApplication.receivedDate, developmentApplication.legalDescription, developmentApplication.informationUrl, developmentApplication.scrapeDate);
+        console.log(`    Saved new application \"${developmentApplication.applicationNumber}\" with address \"${developmentApplication.address}\", description \"${developmentApplication.description}\", legal description \"${developmentApplication.legalDescription}\" and received date \"${developmentApplication.receivedDate}\" to the database.`);
+        return "new";
+    }
+
+    if (existingRow.address === developmentApplication.address &&
+        existingRow.description === developmentApplication.description &&
+        existingRow.date_received === developmentApplication.receivedDate &&
+        existingRow.legal_description === developmentApplication.legalDescription) {
+        console.log(`    Application \"${developmentApplication.applicationNumber}\" is unchanged.`);
+        return "unchanged";
+    }
+
+    // Rows saved before the history table existed have no history, so record the earlier version
+    // first (otherwise it would be lost).
+
+    let historyRow = await getSqlRow(database, "select 1 from [data_history] where [council] = ? and [council_reference] = ?", [ developmentApplication.council, developmentApplication.applicationNumber ]);
+    if (historyRow === undefined)
+        await insertHistoryRow(database, existingRow.council, existingRow.council_reference, existingRow.address, existingRow.description, existingRow.date_received, existingRow.legal_description, existingRow.info_url, existingRow.date_scraped);
+
+    await runSql(database, "update [data] set [address] = ?, [description] = ?, [info_url] = ?, [comment_url] = ?, [date_received] = ?, [legal_description] = ? where [council] = ? and [council_reference] = ?", [
+        developmentApplication.address,
+        developmentApplication.description,
+        developmentApplication.informationUrl,
+        developmentApplication.commentUrl,
+        developmentApplication.receivedDate,
+        developmentApplication.legalDescription,
+        developmentApplication.council,
+        developmentApplication.applicationNumber
+    ]);
+    await insertHistoryRow(database, developmentApplication.council, developmentApplication.applicationNumber, developmentApplication.address, developmentApplication.description, developmentApplication.receivedDate, developmentApplication.legalDescription, developmentApplication.informationUrl, developmentApplication.scrapeDate);
+    console.log(`    Updated changed application \"${developmentApplication.applicationNumber}\" with address \"${developmentApplication.address}\", description \"${developmentApplication.description}\", legal description \"${developmentApplication.legalDescription}\" and received date \"${developmentApplication.receivedDate}\" in the database (first scraped on ${existingRow.date_scraped}).`);
+    return "changed";
+}
+
+// Saves the version of a development application parsed from a single PDF (before it was merged
+// with the versions from other PDFs) and replaces the recorded conflicts between the versions.
+
+async function insertSourceRows(database, developmentApplication) {
+    if (developmentApplication.source === undefined)
+        return;
+    let source = developmentApplication.source;
+    await runSql(database, "insert or replace into [application_sources] values (?, ?, ?, ?, ?, ?)", [ source.applicationNumber, source.informationUrl, JSON.stringify(source), source.scrapeDate, developmentApplication.council, normaliseApplicationNumber(source.applicationNumber) ]);
+
+    await runSql(database, "delete from [conflicts] where [council] = ? and [council_reference] = ?", [ developmentApplication.council, developmentApplication.applicationNumber ]);
+    for (let conflict of <ApplicationConflict[]>developmentApplication.conflicts) {
+        await runSql(database, "insert into [conflicts] values (?, ?, ?, ?, ?, ?, ?, ?)", [ conflict.applicationNumber, conflict.field, conflict.keptValue, conflict.keptUrl, conflict.discardedValue, conflict.discardedUrl, moment().format("YYYY-MM-DD"), developmentApplication.council ]);
+        console.log(`    Application \"${conflict.applicationNumber}\" has a conflicting ${conflict.field} \"${conflict.discardedValue}\" in ${conflict.discardedUrl} (keeping \"${conflict.keptValue}\" from ${conflict.keptUrl}).`);
+    }
+}
+
+// Saves the applicant, total development cost, referrals and decisions of a development
+// application.  These are kept out of the [data] table so that its schema remains exactly as
+// PlanningAlerts expects.
+
+async function insertDetailRows(database, developmentApplication) {
+    await runSql(database, "insert or replace into [application_details] values (?, ?, ?, ?)", [
+        developmentApplication.applicationNumber,
+        developmentApplication.applicant,
+        (developmentApplication.totalDevelopmentCost === undefined) ? null : developmentApplication.totalDevelopmentCost,
+        developmentApplication.council
+    ]);
+
+    await runSql(database, "delete from [referrals] where [council] = ? and [council_reference] = ?", [ developmentApplication.council, developmentApplication.applicationNumber ]);
+    for (let referral of developmentApplication.referrals)
+        await runSql(database, "insert into [referrals] values (?, ?, ?)", [ developmentApplication.applicationNumber, referral, developmentApplication.council ]);
+
+    await runSql(database, "delete from [decisions] where [council] = ? and [council_reference] = ?", [ developmentApplication.council, developmentApplication.applicationNumber ]);
+    for (let decision of developmentApplication.decisions)
+        await runSql(database, "insert into [decisions] values (?, ?, ?, ?)", [ developmentApplication.applicationNumber, decision.decision, decision.date, developmentApplication.council ]);
+}
+
+// Saves the parts of the address of a development application (along with how each part was
+// determined).  Addresses with a low confidence are flagged so that they can be reviewed.
+
+async function insertAddressRow(database, developmentApplication) {
+    let parsedAddress: ParsedAddress = developmentApplication.parsedAddress;
+    let parts = { houseNumber: parsedAddress.houseNumber, streetName: parsedAddress.streetName, streetSuffix: parsedAddress.streetSuffix, suburb: parsedAddress.suburb, state: parsedAddress.state, postCode: parsedAddress.postCode };
+    let sources = {};
+    for (let name of Object.keys(parts))
+        sources[name] = (parts[name].editDistance === undefined) ? parts[name].source : `${parts[name].source} (edit distance ${parts[name].editDistance})`;
+
+    await runSql(database, "insert or replace into [addresses] values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+        developmentApplication.applicationNumber,
+        parsedAddress.houseNumber.value,
+        parsedAddress.streetName.value,
+        parsedAddress.streetSuffix.value,
+        parsedAddress.suburb.value,
+        parsedAddress.state.value,
+        parsedAddress.postCode.value,
+        JSON.stringify(sources),
+        parsedAddress.confidence,
+        parsedAddress.isLowConfidence ? 1 : 0,
+        developmentApplication.council
+    ]);
+}
+
+// Saves the parts of the legal description of a development application.
+
+async function insertLegalDescriptionRow(database, developmentApplication) {
+    let legalDescription: LegalDescription = developmentApplication.parsedLegalDescription;
+    await runSql(database, "insert or replace into [legal_descriptions] values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+        developmentApplication.applicationNumber,
+        legalDescription.lot,
+        legalDescription.section,
+        legalDescription.allotment,
+        legalDescription.planType,
+        legalDescription.planNumber,
+        legalDescription.titleVolume,
+        legalDescription.titleFolio,
+        legalDescription.hundred,
+        developmentApplication.council
+    ]);
+}
+
+// Saves a page that could not be fully parsed to the quarantine table (replacing any earlier
+// record of the same page) so that it can be reviewed.
+
+async function insertQuarantineRow(database, quarantinedPage: QuarantinedPage) {
+    await runSql(database, "delete from [quarantine] where [pdf_url] = ? and [page_number] = ?", [ quarantinedPage.url, quarantinedPage.pageNumber ]);
+    await runSql(database, "insert into [quarantine] values (?, ?, ?, ?, ?, ?, ?)", [
+        quarantinedPage.url,
+        quarantinedPage.pageNumber,
+        quarantinedPage.applicationNumber,
+        quarantinedPage.status,
+        quarantinedPage.reasons.join("  "),
+        JSON.stringify(quarantinedPage.elements),
+        moment().format("YYYY-MM-DD")
+    ]);
+}
+
+// Creates a cache of the elements of each page and the applications parsed from each PDF that is
+// held in the sqlite database (see parsePdfWithCache).  Only the elements extracted by the latest
+// version of the text extraction are kept for each PDF.
+
+export function createSqliteCache(database): ParseCache {
+    return {
+        getPages: async (contentHash, elementsKey) => {
+            let rows = await getSqlRows(database, "select [elements] from [page_cache] where [content_hash] = ? and [elements_key] = ? order by [page_number]", [ contentHash, elementsKey ]);
+            return (rows.length === 0) ? undefined : rows.map(row => JSON.parse(row.elements));
+        },
+
+        savePages: async (contentHash, elementsKey, pages) => {
+            await runSql(database, "delete from [page_cache] where [content_hash] = ?", [ contentHash ]);
+            for (let index = 0; index < pages.length; index++)
+                await runSql(database, "insert into [page_cache] values (?, ?, ?, ?)", [ contentHash, elementsKey, index + 1, JSON.stringify(pages[index]) ]);
+        },
+
+        getParse: async (contentHash, parserKey) => {
+            let row = await getSqlRow(database, "select [address_key], [page_count], [parsed_pages], [applications], [quarantined_pages] from [parse_cache] where [content_hash] = ? and [parser_key] = ? and [parsed_pages] is not null", [ contentHash, parserKey ]);
+            return (row === undefined) ? undefined : { addressKey: row.address_key, pageCount: row.page_count, parsedPages: JSON.parse(row.parsed_pages), developmentApplications: JSON.parse(row.applications), quarantinedPages: JSON.parse(row.quarantined_pages) };
+        },
+
+        saveParse: async (contentHash, parserKey, cachedParse) => {
+            await runSql(database, "insert or replace into [parse_cache] values (?, ?, ?, ?, ?, ?, ?, ?)", [
+                contentHash,
+                parserKey,
+                cachedParse.addressKey,
+                cachedParse.pageCount,
+                JSON.stringify(cachedParse.developmentApplications),
+                JSON.stringify(cachedParse.quarantinedPages),
+                moment().format("YYYY-MM-DD"),
+                JSON.stringify(cachedParse.parsedPages)
+            ]);
+        }
+    };
+}
+
+// Removes the cached elements and applications of PDF content that is no longer recorded for any
+// document (because the PDF has since changed, or was never successfully saved).
+
+export async function pruneCache(database) {
+    await runSql(database, "delete from [page_cache] where [content_hash] not in (select [content_hash] from [documents] where [content_hash] is not null)", []);
+    await runSql(database, "delete from [parse_cache] where [content_hash] not in (select [content_hash] from [documents] where [content_hash] is not null)", []);
+}
+
+// Creates the sink that saves development applications to the sqlite database (the primary
+// sink; see saveToSinks).
+
+export function createSqliteSink(database): Sink {
+    return {
+        name: "sqlite",
+        isDatabase: true,
+        open: async () => {},
+        begin: async () => {
+            await runSql(database, "begin transaction", []);
+        },
+        saveApplication: async developmentApplication => {
+            let status = await insertRow(database, developmentApplication);
+            await insertSourceRows(database, developmentApplication);
+            await insertDetailRows(database, developmentApplication);
+            await insertAddressRow(database, developmentApplication);
+            await insertLegalDescriptionRow(database, developmentApplication);
+            return status;
+        },
+        saveQuarantinedPage: async quarantinedPage => {
+            await insertQuarantineRow(database, quarantinedPage);
+        },
+        commit: async () => {
+            await runSql(database, "commit", []);
+        },
+        rollback: async () => {
+            await runSql(database, "rollback", []);
+        },
+        close: async () => {}
+    };
+}
+
+// Inserts the report of a run into the database.
+
+export async function insertRun(database, report: RunReport) {
+    await runSql(database, "insert into [runs] values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+        report.startTime,
+        report.endTime,
+        report.duration,
+        report.councils.join(","),
+        report.pdfSelection,
+        report.pdfsDiscovered,
+        report.pdfsSelected,
+        report.pdfsNotModified,
+        report.pdfsParsed,
+        report.pdfsNotSaved,
+        report.pagesParsed,
+        report.pagesRejected,
+        report.pagesPartial,
+        report.applicationsParsed,
+        report.applicationsNew,
+        report.applicationsChanged,
+        report.applicationsUnchanged,
+        report.fallbackAddresses,
+        report.missingReceivedDates,
+        report.fallbackRate,
+        report.missingReceivedDateRate,
+        JSON.stringify(report.healthProblems),
+        report.error
+    ]);
+}
+
+// Gets the URL, content hash, date last parsed and cache keys of every PDF previously parsed.
+
+export async function getDocuments(database): Promise<{ url: string, content_hash: string, date_parsed: string, etag: string, last_modified: string, parser_key: string, address_key: string }[]> {
+    return getSqlRows(database, "select [url], [content_hash], [date_parsed], [etag], [last_modified], [parser_key], [address_key] from [documents]", []);
+}
+
+// Gets the addresses of a council saved in the database that could only be formatted using the
+// fallback path (because the suburb could not be matched).
+
+export async function getFallbackAddresses(database, councilName: string): Promise<{ councilReference: string, address: string }[]> {
+    let rows = await getSqlRows(database, "select [data].[council_reference], [data].[address], [addresses].[sources] from [data] inner join [addresses] on [data].[council] = [addresses].[council] and [data].[council_reference] = [addresses].[council_reference] where [data].[council] = ? order by [data].[council_reference]", [ councilName ]);
+    return rows
+        .filter(row => JSON.parse(row.sources || "{}").suburb === "fallback")
+        .map(row => ({ councilReference: row.council_reference, address: row.address }));
+}
+
+// Gets every development application saved in the database (along with the parts of its
+// address, where these are available).
+
+export async function getExportedApplications(database): Promise<ExportedApplication[]> {
+    let rows = await getSqlRows(database, "select [data].*, [addresses].[council_reference] as [address_council_reference], [house_number], [street_name], [street_suffix], [suburb], [state], [post_code], [confidence], [is_low_confidence] from [data] left join [addresses] on [data].[council] = [addresses].[council] and [data].[council_reference] = [addresses].[council_reference] order by [data].[date_scraped], [data].[council], [data].[council_reference]", []);
+    return rows.map(row => {
+        let application: ExportedApplication = {
+            council_reference: row.council_reference,
+            address: row.address,
+            description: row.description,
+            info_url: row.info_url,
+            comment_url: row.comment_url,
+            date_scraped: row.date_scraped,
+            date_received: row.date_received,
+            legal_description: row.legal_description,
+            council: row.council
+        };
+        if (row.address_council_reference !== null)
+            application.address_components = {
+                house_number: row.house_number,
+                street_name: row.street_name,
+                street_suffix: row.street_suffix,
+                suburb: row.suburb,
+                state: row.state,
+                post_code: row.post_code,
+                confidence: row.confidence,
+                is_low_confidence: (row.is_low_confidence === 1)
+            };
+        return application;
+    });
+}
+
+// Records the title, publish date and period of each PDF listed on the register page (without
+// affecting when the PDF was last parsed).
+
+export async function updateRegisterDocuments(database, registerDocuments: RegisterDocument[]) {
+    for (let registerDocument of registerDocuments) {
+        await runSql(database, "insert or ignore into [documents] ([url]) values (?)", [ registerDocument.url ]);
+        await runSql(database, "update [documents] set [title] = ?, [publish_date] = ?, [period_start] = ?, [period_end] = ? where [url] = ?", [ registerDocument.title, registerDocument.publishDate, registerDocument.periodStart, registerDocument.periodEnd, registerDocument.url ]);
+    }
+}
+
+// Records that a PDF has been parsed (along with the hash of its content, the validators that
+// allow a later request to skip the PDF if it is unchanged and the parser and address keys, see
+// getCacheKeys, that identify how the PDF was parsed).
+
+export async function updateDocument(database, url: string, contentHash: string, etag: string, lastModified: string, parserKey: string, addressKey: string) {
+    await runSql(database, "insert or ignore into [documents] ([url]) values (?)", [ url ]);
+    await runSql(database, "update [documents] set [content_hash] = ?, [date_parsed] = ?, [etag] = ?, [last_modified] = ?, [parser_key] = ?, [address_key] = ? where [url] = ?", [ contentHash, moment().format("YYYY-MM-DD HH:mm:ss"), etag, lastModified, parserKey, addressKey, url ]);
+}
+
+// Merges a development application parsed from a PDF with the versions of the application saved
+// from other PDFs (matched by the normalised application number, see reconcileApplication).  The
+// version parsed from the PDF and any conflicts are attached to the merged application so that the
+// sqlite sink can save them.
+
+export async function reconcileWithSavedSources(database, pdfUrl: string, developmentApplication) {
+    let applicationKey = normaliseApplicationNumber(developmentApplication.applicationNumber);
+    let document = await getSqlRow(database, "select [period_end], [publish_date] from [documents] where [url] = ?", [ pdfUrl ]);
+    let sources: ApplicationSource[] = [ { url: pdfUrl, periodEnd: (document === undefined) ? undefined : document.period_end, publishDate: (document === undefined) ? undefined : document.publish_date, application: developmentApplication } ];
+
+    let rows = await getSqlRows(database, "select [application_sources].[source_url], [application_sources].[application], [documents].[period_end], [documents].[publish_date] from [application_sources] left join [documents] on [application_sources].[source_url] = [documents].[url] where [application_sources].[council] = ? and [application_sources].[application_key] = ? and [application_sources].[source_url] <> ?", [ developmentApplication.council, applicationKey, pdfUrl ]);
+    for (let row of rows)
+        sources.push({ url: row.source_url, periodEnd: row.period_end, publishDate: row.publish_date, application: JSON.parse(row.application) });
+
+    let { application, conflicts } = reconcileApplication(sources);
+
+    // Keep the application number that the application was first saved with (when another PDF
+    // prints the same application number differently) so that the saved row is updated rather
+    // than a second row being added.
+
+    let savedRow = await getSqlRow(database, "select [data].[council_reference] from [data] inner join [application_sources] on [data].[council] = [application_sources].[council] and [data].[council_reference] = [application_sources].[council_reference] where [application_sources].[council] = ? and [application_sources].[application_key] = ? limit 1", [ developmentApplication.council, applicationKey ]);
+    if (savedRow !== undefined) {
+        application.applicationNumber = savedRow.council_reference;
+        conflicts = conflicts.map(conflict => ({ ...conflict, applicationNumber: savedRow.council_reference }));
+    }
+    return { ...application, source: developmentApplication, conflicts: conflicts };
+}
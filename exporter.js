@@ -0,0 +1,65 @@
+// Exports the development applications saved in the database as newline-delimited JSON, CSV or
+// a PlanningAlerts compatible JSON feed.
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.formatApplications = exports.formatAsPlanningAlertsFeed = exports.formatAsCsv = exports.formatAsNdjson = exports.filterByDateScraped = exports.ExportFormats = void 0;
+// The supported export formats.
+exports.ExportFormats = ["ndjson", "csv", "planningalerts"];
+// The columns of the [data] table that PlanningAlerts reads.
+const PlanningAlertsColumns = ["council_reference", "address", "description", "info_url", "comment_url", "date_scraped", "date_received"];
+// Selects the development applications scraped within the specified date range (inclusive, in
+// "YYYY-MM-DD" format; either end of the range may be omitted).
+function filterByDateScraped(applications, fromDate, toDate) {
+    return applications.filter(application => (fromDate === undefined || application.date_scraped >= fromDate) &&
+        (toDate === undefined || application.date_scraped <= toDate));
+}
+exports.filterByDateScraped = filterByDateScraped;
+// Formats the development applications as newline-delimited JSON (one application per line).
+function formatAsNdjson(applications) {
+    return applications.map(application => JSON.stringify(application) + "\n").join("");
+}
+exports.formatAsNdjson = formatAsNdjson;
+// Quotes a CSV value (if necessary).
+function quoteCsvValue(value) {
+    let text = (value === undefined || value === null) ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+// Formats the development applications as CSV (with the parts of the address flattened into
+// separate columns).
+function formatAsCsv(applications) {
+    let addressColumns = ["house_number", "street_name", "street_suffix", "suburb", "state", "post_code", "confidence", "is_low_confidence"];
+    let lines = [[...PlanningAlertsColumns, "legal_description", "council", ...addressColumns.map(column => `address_${column}`)].join(",")];
+    for (let application of applications) {
+        let values = [...PlanningAlertsColumns, "legal_description", "council"].map(column => application[column]);
+        for (let column of addressColumns)
+            values.push((application.address_components === undefined) ? "" : application.address_components[column]);
+        lines.push(values.map(quoteCsvValue).join(","));
+    }
+    return lines.map(line => line + "\r\n").join("");
+}
+exports.formatAsCsv = formatAsCsv;
+// Formats the development applications as a PlanningAlerts compatible JSON feed (an array of
+// applications with exactly the fields that PlanningAlerts expects).
+function formatAsPlanningAlertsFeed(applications) {
+    let feed = applications.map(application => {
+        let feedApplication = {};
+        for (let column of PlanningAlertsColumns)
+            feedApplication[column] = application[column];
+        return feedApplication;
+    });
+    return JSON.stringify(feed, null, 4) + "\n";
+}
+exports.formatAsPlanningAlertsFeed = formatAsPlanningAlertsFeed;
+// Formats the development applications in the specified format.
+function formatApplications(applications, format) {
+    if (format === "ndjson")
+        return formatAsNdjson(applications);
+    else if (format === "csv")
+        return formatAsCsv(applications);
+    else if (format === "planningalerts")
+        return formatAsPlanningAlertsFeed(applications);
+    else
+        throw new Error(`The export format "${format}" is not supported (specify ${exports.ExportFormats.map(format => `"${format}"`).join(", ")}).`);
+}
+exports.formatApplications = formatApplications;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoiZXhwb3J0ZXIuanMiLCJzb3VyY2VSb290IjoiIiwic291cmNlcyI6WyJleHBvcnRlci50cyJdLCJuYW1lcyI6W10sIm1hcHBpbmdzIjoiQUFBQSwrRkFBK0Y7QUFDL0YseUNBQXlDO0FBRXpDLFlBQVksQ0FBQzs7O0FBMkJiLGdDQUFnQztBQUVuQixRQUFBLGFBQWEsR0FBRyxDQUFFLFFBQVEsRUFBRSxLQUFLLEVBQUUsZ0JBQWdCLENBQUUsQ0FBQztBQUVuRSw2REFBNkQ7QUFFN0QsTUFBTSxxQkFBcUIsR0FBRyxDQUFFLG1CQUFtQixFQUFFLFNBQVMsRUFBRSxhQUFhLEVBQUUsVUFBVSxFQUFFLGFBQWEsRUFBRSxjQUFjLEVBQUUsZUFBZSxDQUFFLENBQUM7QUFFNUksOEZBQThGO0FBQzlGLGdFQUFnRTtBQUVoRSxTQUFnQixtQkFBbUIsQ0FBQyxZQUFtQyxFQUFFLFFBQWdCLEVBQUUsTUFBYztJQUNyRyxPQUFPLFlBQVksQ0FBQyxNQUFNLENBQUMsV0FBVyxDQUFDLEVBQUUsQ0FDckMsQ0FBQyxRQUFRLEtBQUssU0FBUyxJQUFJLFdBQVcsQ0FBQyxZQUFZLElBQUksUUFBUSxDQUFDO1FBQ2hFLENBQUMsTUFBTSxLQUFLLFNBQVMsSUFBSSxXQUFXLENBQUMsWUFBWSxJQUFJLE1BQU0sQ0FBQyxDQUFDLENBQUM7QUFDdEUsQ0FBQztBQUpELGtEQUlDO0FBRUQsNkZBQTZGO0FBRTdGLFNBQWdCLGNBQWMsQ0FBQyxZQUFtQztJQUM5RCxPQUFPLFlBQVksQ0FBQyxHQUFHLENBQUMsV0FBVyxDQUFDLEVBQUUsQ0FBQyxJQUFJLENBQUMsU0FBUyxDQUFDLFdBQVcsQ0FBQyxHQUFHLElBQUksQ0FBQyxDQUFDLElBQUksQ0FBQyxFQUFFLENBQUMsQ0FBQztBQUN4RixDQUFDO0FBRkQsd0NBRUM7QUFFRCxxQ0FBcUM7QUFFckMsU0FBUyxhQUFhLENBQUMsS0FBVTtJQUM3QixJQUFJLElBQUksR0FBRyxDQUFDLEtBQUssS0FBSyxTQUFTLElBQUksS0FBSyxLQUFLLElBQUksQ0FBQyxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQztJQUN4RSxPQUFPLFVBQVUsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLENBQUMsQ0FBQyxDQUFDLElBQUksSUFBSSxDQUFDLE9BQU8sQ0FBQyxJQUFJLEVBQUUsTUFBTSxDQUFDLEdBQUcsQ0FBQyxDQUFDLENBQUMsSUFBSSxDQUFDO0FBQzVFLENBQUM7QUFFRCw0RkFBNEY7QUFDNUYscUJBQXFCO0FBRXJCLFNBQWdCLFdBQVcsQ0FBQyxZQUFtQztJQUMzRCxJQUFJLGNBQWMsR0FBRyxDQUFFLGNBQWMsRUFBRSxhQUFhLEVBQUUsZUFBZSxFQUFFLFFBQVEsRUFBRSxPQUFPLEVBQUUsV0FBVyxFQUFFLFlBQVksRUFBRSxtQkFBbUIsQ0FBRSxDQUFDO0lBQzNJLElBQUksS0FBSyxHQUFHLENBQUUsQ0FBRSxHQUFHLHFCQUFxQixFQUFFLG1CQUFtQixFQUFFLFNBQVMsRUFBRSxHQUFHLGNBQWMsQ0FBQyxHQUFHLENBQUMsTUFBTSxDQUFDLEVBQUUsQ0FBQyxXQUFXLE1BQU0sRUFBRSxDQUFDLENBQUUsQ0FBQyxJQUFJLENBQUMsR0FBRyxDQUFDLENBQUUsQ0FBQztJQUM3SSxLQUFLLElBQUksV0FBVyxJQUFJLFlBQVksRUFBRTtRQUNsQyxJQUFJLE1BQU0sR0FBRyxDQUFFLEdBQUcscUJBQXFCLEVBQUUsbUJBQW1CLEVBQUUsU0FBUyxDQUFFLENBQUMsR0FBRyxDQUFDLE1BQU0sQ0FBQyxFQUFFLENBQUMsV0FBVyxDQUFDLE1BQU0sQ0FBQyxDQUFDLENBQUM7UUFDN0csS0FBSyxJQUFJLE1BQU0sSUFBSSxjQUFjO1lBQzdCLE1BQU0sQ0FBQyxJQUFJLENBQUMsQ0FBQyxXQUFXLENBQUMsa0JBQWtCLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLEVBQUUsQ0FBQyxDQUFDLENBQUMsV0FBVyxDQUFDLGtCQUFrQixDQUFDLE1BQU0sQ0FBQyxDQUFDLENBQUM7UUFDOUcsS0FBSyxDQUFDLElBQUksQ0FBQyxNQUFNLENBQUMsR0FBRyxDQUFDLGFBQWEsQ0FBQyxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsQ0FBQyxDQUFDO0tBQ25EO0lBQ0QsT0FBTyxLQUFLLENBQUMsR0FBRyxDQUFDLElBQUksQ0FBQyxFQUFFLENBQUMsSUFBSSxHQUFHLE1BQU0sQ0FBQyxDQUFDLElBQUksQ0FBQyxFQUFFLENBQUMsQ0FBQztBQUNyRCxDQUFDO0FBVkQsa0NBVUM7QUFFRCw2RkFBNkY7QUFDN0YscUVBQXFFO0FBRXJFLFNBQWdCLDBCQUEwQixDQUFDLFlBQW1DO0lBQzFFLElBQUksSUFBSSxHQUFHLFlBQVksQ0FBQyxHQUFHLENBQUMsV0FBVyxDQUFDLEVBQUU7UUFDdEMsSUFBSSxlQUFlLEdBQUcsRUFBRSxDQUFDO1FBQ3pCLEtBQUssSUFBSSxNQUFNLElBQUkscUJBQXFCO1lBQ3BDLGVBQWUsQ0FBQyxNQUFNLENBQUMsR0FBRyxXQUFXLENBQUMsTUFBTSxDQUFDLENBQUM7UUFDbEQsT0FBTyxlQUFlLENBQUM7SUFDM0IsQ0FBQyxDQUFDLENBQUM7SUFDSCxPQUFPLElBQUksQ0FBQyxTQUFTLENBQUMsSUFBSSxFQUFFLElBQUksRUFBRSxDQUFDLENBQUMsR0FBRyxJQUFJLENBQUM7QUFDaEQsQ0FBQztBQVJELGdFQVFDO0FBRUQsZ0VBQWdFO0FBRWhFLFNBQWdCLGtCQUFrQixDQUFDLFlBQW1DLEVBQUUsTUFBYztJQUNsRixJQUFJLE1BQU0sS0FBSyxRQUFRO1FBQ25CLE9BQU8sY0FBYyxDQUFDLFlBQVksQ0FBQyxDQUFDO1NBQ25DLElBQUksTUFBTSxLQUFLLEtBQUs7UUFDckIsT0FBTyxXQUFXLENBQUMsWUFBWSxDQUFDLENBQUM7U0FDaEMsSUFBSSxNQUFNLEtBQUssZ0JBQWdCO1FBQ2hDLE9BQU8sMEJBQTBCLENBQUMsWUFBWSxDQUFDLENBQUM7O1FBRWhELE1BQU0sSUFBSSxLQUFLLENBQUMsc0JBQXNCLE1BQU0sK0JBQStCLHFCQUFhLENBQUMsR0FBRyxDQUFDLE1BQU0sQ0FBQyxFQUFFLENBQUMsSUFBSSxNQUFNLEdBQUcsQ0FBQyxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLENBQUM7QUFDOUksQ0FBQztBQVRELGdEQVNDIn0=
\ No newline at end of file
@@ -0,0 +1,100 @@
+// Exports the development applications saved in the database as newline-delimited JSON, CSV or
+// a PlanningAlerts compatible JSON feed.
+
+"use strict";
+
+// A development application as exported (the columns of the [data] table along with the parts of
+// the address, where these are available).
+
+export interface ExportedApplication {
+    council_reference: string,
+    address: string,
+    description: string,
+    info_url: string,
+    comment_url: string,
+    date_scraped: string,
+    date_received: string,
+    legal_description: string,
+    council?: string,
+    address_components?: {
+        house_number: string,
+        street_name: string,
+        street_suffix: string,
+        suburb: string,
+        state: string,
+        post_code: string,
+        confidence: number,
+        is_low_confidence: boolean
+    }
+}
+
+// The supported export formats.
+
+export const ExportFormats = [ "ndjson", "csv", "planningalerts" ];
+
+// The columns of the [data] table that PlanningAlerts reads.
+
+const PlanningAlertsColumns = [ "council_reference", "address", "description", "info_url", "comment_url", "date_scraped", "date_received" ];
+
+// Selects the development applications scraped within the specified date range (inclusive, in
+// "YYYY-MM-DD" format; either end of the range may be omitted).
+
+export function filterByDateScraped(applications: ExportedApplication[], fromDate: string, toDate: string) {
+    return applications.filter(application =>
+        (fromDate === undefined || application.date_scraped >= fromDate) &&
+        (toDate === undefined || application.date_scraped <= toDate));
+}
+
+// Formats the development applications as newline-delimited JSON (one application per line).
+
+export function formatAsNdjson(applications: ExportedApplication[]) {
+    return applications.map(application => JSON.stringify(application) + "\n").join("");
+}
+
+// Quotes a CSV value (if necessary).
+
+function quoteCsvValue(value: any) {
+    let text = (value === undefined || value === null) ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+// Formats the development applications as CSV (with the parts of the address flattened into
+// separate columns).
+
+export function formatAsCsv(applications: ExportedApplication[]) {
+    let addressColumns = [ "house_number", "street_name", "street_suffix", "suburb", "state", "post_code", "confidence", "is_low_confidence" ];
+    let lines = [ [ ...PlanningAlertsColumns, "legal_description", "council", ...addressColumns.map(column => `address_${column}`) ].join(",") ];
+    for (let application of applications) {
+        let values = [ ...PlanningAlertsColumns, "legal_description", "council" ].map(column => application[column]);
+        for (let column of addressColumns)
+            values.push((application.address_components === undefined) ? "" : application.address_components[column]);
+        lines.push(values.map(quoteCsvValue).join(","));
+    }
+    return lines.map(line => line + "\r\n").join("");
+}
+
+// Formats the development applications as a PlanningAlerts compatible JSON feed (an array of
+// applications with exactly the fields that PlanningAlerts expects).
+
+export function formatAsPlanningAlertsFeed(applications: ExportedApplication[]) {
+    let feed = applications.map(application => {
+        let feedApplication = {};
+        for (let column of PlanningAlertsColumns)
+            feedApplication[column] = application[column];
+        return feedApplication;
+    });
+    return JSON.stringify(feed, null, 4) + "\n";
+}
+
+// Formats the development applications in the specified format.
+
+export function formatApplications(applications: ExportedApplication[], format: string) {
+    if (format === "ndjson")
+        return formatAsNdjson(applications);
+    else if (format === "csv")
+        return formatAsCsv(applications);
+    else if (format === "planningalerts")
+        return formatAsPlanningAlertsFeed(applications);
+    else
+        throw new Error(`The export format "${format}" is not supported (specify ${ExportFormats.map(format => `"${format}"`).join(", ")}).`);
+}
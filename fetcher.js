@@ -0,0 +1,141 @@
+// Retrieves the register page and PDFs from the council web site (with retries, timeouts and
+// polite rate limiting), or from a local snapshot directory.
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.fetchUrl = exports.readSnapshotIndex = exports.sleep = exports.getRandom = exports.DefaultFetchOptions = void 0;
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+const request = require("request-promise-native");
+const register_1 = require("./register");
+exports.DefaultFetchOptions = {
+    retries: 3,
+    retryDelay: 5000,
+    timeout: 60000,
+    politenessDelay: 2000,
+    politenessJitter: 5000,
+    proxy: undefined,
+    rejectUnauthorized: true,
+    snapshotMode: undefined,
+    snapshotDirectory: "snapshot"
+};
+const SnapshotIndexFileName = "index.json";
+// The time that the most recent request completed (used to rate limit requests).
+let lastRequestTime = 0;
+// Gets a random integer in the specified range: [minimum, maximum).
+function getRandom(minimum, maximum) {
+    return Math.floor(Math.random() * (Math.floor(maximum) - Math.ceil(minimum))) + Math.ceil(minimum);
+}
+exports.getRandom = getRandom;
+// Pauses for the specified number of milliseconds.
+function sleep(milliseconds) {
+    return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+exports.sleep = sleep;
+// Reads the snapshot index (which maps each URL to the name of the file in the snapshot directory
+// that contains the content of that URL).
+function readSnapshotIndex(snapshotDirectory) {
+    let indexPath = path.join(snapshotDirectory, SnapshotIndexFileName);
+    return fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath).toString()) : {};
+}
+exports.readSnapshotIndex = readSnapshotIndex;
+// Saves the content of a URL to the snapshot directory (and records the URL in the index).
+function writeSnapshot(snapshotDirectory, url, content) {
+    if (!fs.existsSync(snapshotDirectory))
+        fs.mkdirSync(snapshotDirectory);
+    // Use a hash of the URL to make the file name unique (but retain the last part of the URL
+    // so that the files are still recognisable when browsing the snapshot directory).
+    let hash = crypto.createHash("sha1").update(url).digest("hex").substring(0, 12);
+    let baseName = register_1.decodeUrlPath(url).split("/").pop().replace(/[^A-Za-z0-9._-]/g, "_");
+    let fileName = `${hash}-${baseName || "index.html"}`;
+    fs.writeFileSync(path.join(snapshotDirectory, fileName), content);
+    let index = readSnapshotIndex(snapshotDirectory);
+    index[url] = fileName;
+    fs.writeFileSync(path.join(snapshotDirectory, SnapshotIndexFileName), JSON.stringify(index, null, 4));
+    console.log(`    Saved ${url} to the snapshot file ${fileName}.`);
+}
+// Reads the content of a URL from the snapshot directory.
+function readSnapshot(snapshotDirectory, url, isBinary) {
+    let fileName = readSnapshotIndex(snapshotDirectory)[url];
+    if (fileName === undefined)
+        throw new Error(`The URL ${url} is not present in the snapshot directory "${snapshotDirectory}".`);
+    let buffer = fs.readFileSync(path.join(snapshotDirectory, fileName));
+    return isBinary ? buffer : buffer.toString();
+}
+// The codes of the network errors that are likely to be transient (and so worth retrying).
+const RetryableErrorCodes = ["ETIMEDOUT", "ESOCKETTIMEDOUT", "ECONNRESET", "ECONNREFUSED", "EAI_AGAIN", "EPIPE"];
+// Determines whether a failed request is worth retrying (transient network errors, time outs,
+// server errors and "too many requests" responses are retried; anything else, such as a client
+// error or an invalid URL, is not).
+function isRetryable(error) {
+    if (error.statusCode !== undefined)
+        return error.statusCode >= 500 || error.statusCode === 429;
+    return error.cause !== undefined && RetryableErrorCodes.includes(error.cause.code);
+}
+// Makes a single request (waiting first, if necessary, so that requests are not made too often).
+async function makeRequest(url, isBinary, options, validators) {
+    let politenessDelay = options.politenessDelay + ((options.politenessJitter > 0) ? getRandom(0, options.politenessJitter) : 0);
+    let waitTime = lastRequestTime + politenessDelay - Date.now();
+    if (waitTime > 0)
+        await sleep(waitTime);
+    validators = validators || {};
+    let headers = {};
+    if (validators.etag)
+        headers["If-None-Match"] = validators.etag;
+    if (validators.lastModified)
+        headers["If-Modified-Since"] = validators.lastModified;
+    try {
+        let response = await request({
+            url: url,
+            encoding: isBinary ? null : undefined,
+            proxy: options.proxy,
+            rejectUnauthorized: options.rejectUnauthorized,
+            timeout: options.timeout,
+            headers: headers,
+            resolveWithFullResponse: true,
+            simple: false
+        });
+        if (response.statusCode === 304)
+            return { content: undefined, isNotModified: true, etag: response.headers["etag"] || validators.etag, lastModified: response.headers["last-modified"] || validators.lastModified };
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+            let error = new Error(`The request for ${url} failed with the status code ${response.statusCode}.`);
+            error.statusCode = response.statusCode;
+            throw error;
+        }
+        return { content: response.body, isNotModified: false, etag: response.headers["etag"], lastModified: response.headers["last-modified"] };
+    }
+    finally {
+        lastRequestTime = Date.now();
+    }
+}
+// Retrieves the content of a URL (either from the council web site or, in replay mode, from the
+// snapshot directory).  Failed requests are retried with exponential backoff.
+async function fetchUrl(url, isBinary, options, validators) {
+    if (options.snapshotMode === "replay") {
+        console.log(`    Replaying ${url} from the snapshot directory.`);
+        return { content: readSnapshot(options.snapshotDirectory, url, isBinary), isNotModified: false, etag: undefined, lastModified: undefined };
+    }
+    // Everything must be downloaded when recording a snapshot (so no conditional request).
+    if (options.snapshotMode === "record")
+        validators = undefined;
+    let result = undefined;
+    for (let attempt = 0; result === undefined; attempt++) {
+        try {
+            result = await makeRequest(url, isBinary, options, validators);
+        }
+        catch (error) {
+            if (attempt >= options.retries || !isRetryable(error))
+                throw error;
+            let retryDelay = options.retryDelay * Math.pow(2, attempt);
+            console.log(`    Retrying ${url} in ${retryDelay} ms (attempt ${attempt + 2} of ${options.retries + 1}) because of the error: ${error.message}`);
+            await sleep(retryDelay);
+        }
+    }
+    // Save the snapshot only once the content has been retrieved (so that a failure to write the
+    // snapshot is not mistaken for a failed request and the content is not downloaded again).
+    if (options.snapshotMode === "record")
+        writeSnapshot(options.snapshotDirectory, url, result.content);
+    return result;
+}
+exports.fetchUrl = fetchUrl;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoiZmV0Y2hlci5qcyIsInNvdXJjZVJvb3QiOiIiLCJzb3VyY2VzIjpbImZldGNoZXIudHMiXSwibmFtZXMiOltdLCJtYXBwaW5ncyI6IkFBQUEsNkZBQTZGO0FBQzdGLDZEQUE2RDtBQUU3RCxZQUFZLENBQUM7OztBQUViLHlCQUF5QjtBQUN6Qiw2QkFBNkI7QUFDN0IsaUNBQWlDO0FBQ2pDLGtEQUFrRDtBQUNsRCx5Q0FBMkM7QUFxQjlCLFFBQUEsbUJBQW1CLEdBQWlCO0lBQzdDLE9BQU8sRUFBRSxDQUFDO0lBQ1YsVUFBVSxFQUFFLElBQUk7SUFDaEIsT0FBTyxFQUFFLEtBQUs7SUFDZCxlQUFlLEVBQUUsSUFBSTtJQUNyQixnQkFBZ0IsRUFBRSxJQUFJO0lBQ3RCLEtBQUssRUFBRSxTQUFTO0lBQ2hCLGtCQUFrQixFQUFFLElBQUk7SUFDeEIsWUFBWSxFQUFFLFNBQVM7SUFDdkIsaUJBQWlCLEVBQUUsVUFBVTtDQUNoQyxDQUFDO0FBcUJGLE1BQU0scUJBQXFCLEdBQUcsWUFBWSxDQUFDO0FBRTNDLGlGQUFpRjtBQUVqRixJQUFJLGVBQWUsR0FBRyxDQUFDLENBQUM7QUFFeEIsb0VBQW9FO0FBRXBFLFNBQWdCLFNBQVMsQ0FBQyxPQUFlLEVBQUUsT0FBZTtJQUN0RCxPQUFPLElBQUksQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDLE1BQU0sRUFBRSxHQUFHLENBQUMsSUFBSSxDQUFDLEtBQUssQ0FBQyxPQUFPLENBQUMsR0FBRyxJQUFJLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQyxDQUFDLENBQUMsR0FBRyxJQUFJLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQyxDQUFDO0FBQ3ZHLENBQUM7QUFGRCw4QkFFQztBQUVELG1EQUFtRDtBQUVuRCxTQUFnQixLQUFLLENBQUMsWUFBb0I7SUFDdEMsT0FBTyxJQUFJLE9BQU8sQ0FBQyxPQUFPLENBQUMsRUFBRSxDQUFDLFVBQVUsQ0FBQyxPQUFPLEVBQUUsWUFBWSxDQUFDLENBQUMsQ0FBQztBQUNyRSxDQUFDO0FBRkQsc0JBRUM7QUFFRCxrR0FBa0c7QUFDbEcsMENBQTBDO0FBRTFDLFNBQWdCLGlCQUFpQixDQUFDLGlCQUF5QjtJQUN2RCxJQUFJLFNBQVMsR0FBRyxJQUFJLENBQUMsSUFBSSxDQUFDLGlCQUFpQixFQUFFLHFCQUFxQixDQUFDLENBQUM7SUFDcEUsT0FBTyxFQUFFLENBQUMsVUFBVSxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxJQUFJLENBQUMsS0FBSyxDQUFDLEVBQUUsQ0FBQyxZQUFZLENBQUMsU0FBUyxDQUFDLENBQUMsUUFBUSxFQUFFLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDO0FBQzdGLENBQUM7QUFIRCw4Q0FHQztBQUVELDJGQUEyRjtBQUUzRixTQUFTLGFBQWEsQ0FBQyxpQkFBeUIsRUFBRSxHQUFXLEVBQUUsT0FBd0I7SUFDbkYsSUFBSSxDQUFDLEVBQUUsQ0FBQyxVQUFVLENBQUMsaUJBQWlCLENBQUM7UUFDakMsRUFBRSxDQUFDLFNBQVMsQ0FBQyxpQkFBaUIsQ0FBQyxDQUFDO0lBRXBDLDBGQUEwRjtJQUMxRixrRkFBa0Y7SUFFbEYsSUFBSSxJQUFJLEdBQUcsTUFBTSxDQUFDLFVBQVUsQ0FBQyxNQUFNLENBQUMsQ0FBQyxNQUFNLENBQUMsR0FBRyxDQUFDLENBQUMsTUFBTSxDQUFDLEtBQUssQ0FBQyxDQUFDLFNBQVMsQ0FBQyxDQUFDLEVBQUUsRUFBRSxDQUFDLENBQUM7SUFDaEYsSUFBSSxRQUFRLEdBQUcsd0JBQWEsQ0FBQyxHQUFHLENBQUMsQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLENBQUMsR0FBRyxFQUFFLENBQUMsT0FBTyxDQUFDLGtCQUFrQixFQUFFLEdBQUcsQ0FBQyxDQUFDO0lBQ3BGLElBQUksUUFBUSxHQUFHLEdBQUcsSUFBSSxJQUFJLFFBQVEsSUFBSSxZQUFZLEVBQUUsQ0FBQztJQUNyRCxFQUFFLENBQUMsYUFBYSxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUMsaUJBQWlCLEVBQUUsUUFBUSxDQUFDLEVBQUUsT0FBTyxDQUFDLENBQUM7SUFFbEUsSUFBSSxLQUFLLEdBQUcsaUJBQWlCLENBQUMsaUJBQWlCLENBQUMsQ0FBQztJQUNqRCxLQUFLLENBQUMsR0FBRyxDQUFDLEdBQUcsUUFBUSxDQUFDO0lBQ3RCLEVBQUUsQ0FBQyxhQUFhLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxpQkFBaUIsRUFBRSxxQkFBcUIsQ0FBQyxFQUFFLElBQUksQ0FBQyxTQUFTLENBQUMsS0FBSyxFQUFFLElBQUksRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDO0lBQ3RHLE9BQU8sQ0FBQyxHQUFHLENBQUMsYUFBYSxHQUFHLHlCQUF5QixRQUFRLEdBQUcsQ0FBQyxDQUFDO0FBQ3RFLENBQUM7QUFFRCwwREFBMEQ7QUFFMUQsU0FBUyxZQUFZLENBQUMsaUJBQXlCLEVBQUUsR0FBVyxFQUFFLFFBQWlCO0lBQzNFLElBQUksUUFBUSxHQUFHLGlCQUFpQixDQUFDLGlCQUFpQixDQUFDLENBQUMsR0FBRyxDQUFDLENBQUM7SUFDekQsSUFBSSxRQUFRLEtBQUssU0FBUztRQUN0QixNQUFNLElBQUksS0FBSyxDQUFDLFdBQVcsR0FBRyw4Q0FBOEMsaUJBQWlCLElBQUksQ0FBQyxDQUFDO0lBQ3ZHLElBQUksTUFBTSxHQUFHLEVBQUUsQ0FBQyxZQUFZLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxpQkFBaUIsRUFBRSxRQUFRLENBQUMsQ0FBQyxDQUFDO0lBQ3JFLE9BQU8sUUFBUSxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxRQUFRLEVBQUUsQ0FBQztBQUNqRCxDQUFDO0FBVUQsMkZBQTJGO0FBRTNGLE1BQU0sbUJBQW1CLEdBQUcsQ0FBRSxXQUFXLEVBQUUsaUJBQWlCLEVBQUUsWUFBWSxFQUFFLGNBQWMsRUFBRSxXQUFXLEVBQUUsT0FBTyxDQUFFLENBQUM7QUFFbkgsOEZBQThGO0FBQzlGLCtGQUErRjtBQUMvRixvQ0FBb0M7QUFFcEMsU0FBUyxXQUFXLENBQUMsS0FBaUI7SUFDbEMsSUFBSSxLQUFLLENBQUMsVUFBVSxLQUFLLFNBQVM7UUFDOUIsT0FBTyxLQUFLLENBQUMsVUFBVSxJQUFJLEdBQUcsSUFBSSxLQUFLLENBQUMsVUFBVSxLQUFLLEdBQUcsQ0FBQztJQUMvRCxPQUFPLEtBQUssQ0FBQyxLQUFLLEtBQUssU0FBUyxJQUFJLG1CQUFtQixDQUFDLFFBQVEsQ0FBQyxLQUFLLENBQUMsS0FBSyxDQUFDLElBQUksQ0FBQyxDQUFDO0FBQ3ZGLENBQUM7QUFFRCxpR0FBaUc7QUFFakcsS0FBSyxVQUFVLFdBQVcsQ0FBQyxHQUFXLEVBQUUsUUFBaUIsRUFBRSxPQUFxQixFQUFFLFVBQTJCO0lBQ3pHLElBQUksZUFBZSxHQUFHLE9BQU8sQ0FBQyxlQUFlLEdBQUcsQ0FBQyxDQUFDLE9BQU8sQ0FBQyxnQkFBZ0IsR0FBRyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsU0FBUyxDQUFDLENBQUMsRUFBRSxPQUFPLENBQUMsZ0JBQWdCLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUM7SUFDOUgsSUFBSSxRQUFRLEdBQUcsZUFBZSxHQUFHLGVBQWUsR0FBRyxJQUFJLENBQUMsR0FBRyxFQUFFLENBQUM7SUFDOUQsSUFBSSxRQUFRLEdBQUcsQ0FBQztRQUNaLE1BQU0sS0FBSyxDQUFDLFFBQVEsQ0FBQyxDQUFDO0lBRTFCLFVBQVUsR0FBRyxVQUFVLElBQUksRUFBRSxDQUFDO0lBQzlCLElBQUksT0FBTyxHQUFHLEVBQUUsQ0FBQztJQUNqQixJQUFJLFVBQVUsQ0FBQyxJQUFJO1FBQ2YsT0FBTyxDQUFDLGVBQWUsQ0FBQyxHQUFHLFVBQVUsQ0FBQyxJQUFJLENBQUM7SUFDL0MsSUFBSSxVQUFVLENBQUMsWUFBWTtRQUN2QixPQUFPLENBQUMsbUJBQW1CLENBQUMsR0FBRyxVQUFVLENBQUMsWUFBWSxDQUFDO0lBRTNELElBQUk7UUFDQSxJQUFJLFFBQVEsR0FBRyxNQUFNLE9BQU8sQ0FBQztZQUN6QixHQUFHLEVBQUUsR0FBRztZQUNSLFFBQVEsRUFBRSxRQUFRLENBQUMsQ0FBQyxDQUFDLElBQUksQ0FBQyxDQUFDLENBQUMsU0FBUztZQUNyQyxLQUFLLEVBQUUsT0FBTyxDQUFDLEtBQUs7WUFDcEIsa0JBQWtCLEVBQUUsT0FBTyxDQUFDLGtCQUFrQjtZQUM5QyxPQUFPLEVBQUUsT0FBTyxDQUFDLE9BQU87WUFDeEIsT0FBTyxFQUFFLE9BQU87WUFDaEIsdUJBQXVCLEVBQUUsSUFBSTtZQUM3QixNQUFNLEVBQUUsS0FBSztTQUNoQixDQUFDLENBQUM7UUFFSCxJQUFJLFFBQVEsQ0FBQyxVQUFVLEtBQUssR0FBRztZQUMzQixPQUFPLEVBQUUsT0FBTyxFQUFFLFNBQVMsRUFBRSxhQUFhLEVBQUUsSUFBSSxFQUFFLElBQUksRUFBRSxRQUFRLENBQUMsT0FBTyxDQUFDLE1BQU0sQ0FBQyxJQUFJLFVBQVUsQ0FBQyxJQUFJLEVBQUUsWUFBWSxFQUFFLFFBQVEsQ0FBQyxPQUFPLENBQUMsZUFBZSxDQUFDLElBQUksVUFBVSxDQUFDLFlBQVksRUFBRSxDQUFDO1FBQ3RMLElBQUksUUFBUSxDQUFDLFVBQVUsR0FBRyxHQUFHLElBQUksUUFBUSxDQUFDLFVBQVUsSUFBSSxHQUFHLEVBQUU7WUFDekQsSUFBSSxLQUFLLEdBQWUsSUFBSSxLQUFLLENBQUMsbUJBQW1CLEdBQUcsZ0NBQWdDLFFBQVEsQ0FBQyxVQUFVLEdBQUcsQ0FBQyxDQUFDO1lBQ2hILEtBQUssQ0FBQyxVQUFVLEdBQUcsUUFBUSxDQUFDLFVBQVUsQ0FBQztZQUN2QyxNQUFNLEtBQUssQ0FBQztTQUNmO1FBQ0QsT0FBTyxFQUFFLE9BQU8sRUFBRSxRQUFRLENBQUMsSUFBSSxFQUFFLGFBQWEsRUFBRSxLQUFLLEVBQUUsSUFBSSxFQUFFLFFBQVEsQ0FBQyxPQUFPLENBQUMsTUFBTSxDQUFDLEVBQUUsWUFBWSxFQUFFLFFBQVEsQ0FBQyxPQUFPLENBQUMsZUFBZSxDQUFDLEVBQUUsQ0FBQztLQUM1STtZQUFTO1FBQ04sZUFBZSxHQUFHLElBQUksQ0FBQyxHQUFHLEVBQUUsQ0FBQztLQUNoQztBQUNMLENBQUM7QUFFRCxnR0FBZ0c7QUFDaEcsOEVBQThFO0FBRXZFLEtBQUssVUFBVSxRQUFRLENBQUMsR0FBVyxFQUFFLFFBQWlCLEVBQUUsT0FBcUIsRUFBRSxVQUE0QjtJQUM5RyxJQUFJLE9BQU8sQ0FBQyxZQUFZLEtBQUssUUFBUSxFQUFFO1FBQ25DLE9BQU8sQ0FBQyxHQUFHLENBQUMsaUJBQWlCLEdBQUcsK0JBQStCLENBQUMsQ0FBQztRQUNqRSxPQUFPLEVBQUUsT0FBTyxFQUFFLFlBQVksQ0FBQyxPQUFPLENBQUMsaUJBQWlCLEVBQUUsR0FBRyxFQUFFLFFBQVEsQ0FBQyxFQUFFLGFBQWEsRUFBRSxLQUFLLEVBQUUsSUFBSSxFQUFFLFNBQVMsRUFBRSxZQUFZLEVBQUUsU0FBUyxFQUFFLENBQUM7S0FDOUk7SUFFRCx1RkFBdUY7SUFFdkYsSUFBSSxPQUFPLENBQUMsWUFBWSxLQUFLLFFBQVE7UUFDakMsVUFBVSxHQUFHLFNBQVMsQ0FBQztJQUUzQixJQUFJLE1BQU0sR0FBZ0IsU0FBUyxDQUFDO0lBQ3BDLEtBQUssSUFBSSxPQUFPLEdBQUcsQ0FBQyxFQUFFLE1BQU0sS0FBSyxTQUFTLEVBQUUsT0FBTyxFQUFFLEVBQUU7UUFDbkQsSUFBSTtZQUNBLE1BQU0sR0FBRyxNQUFNLFdBQVcsQ0FBQyxHQUFHLEVBQUUsUUFBUSxFQUFFLE9BQU8sRUFBRSxVQUFVLENBQUMsQ0FBQztTQUNsRTtRQUFDLE9BQU8sS0FBSyxFQUFFO1lBQ1osSUFBSSxPQUFPLElBQUksT0FBTyxDQUFDLE9BQU8sSUFBSSxDQUFDLFdBQVcsQ0FBQyxLQUFLLENBQUM7Z0JBQ2pELE1BQU0sS0FBSyxDQUFDO1lBQ2hCLElBQUksVUFBVSxHQUFHLE9BQU8sQ0FBQyxVQUFVLEdBQUcsSUFBSSxDQUFDLEdBQUcsQ0FBQyxDQUFDLEVBQUUsT0FBTyxDQUFDLENBQUM7WUFDM0QsT0FBTyxDQUFDLEdBQUcsQ0FBQyxnQkFBZ0IsR0FBRyxPQUFPLFVBQVUsZ0JBQWdCLE9BQU8sR0FBRyxDQUFDLE9BQU8sT0FBTyxDQUFDLE9BQU8sR0FBRyxDQUFDLDJCQUEyQixLQUFLLENBQUMsT0FBTyxFQUFFLENBQUMsQ0FBQztZQUNqSixNQUFNLEtBQUssQ0FBQyxVQUFVLENBQUMsQ0FBQztTQUMzQjtLQUNKO0lBRUQsNkZBQTZGO0lBQzdGLDBGQUEwRjtJQUUxRixJQUFJLE9BQU8sQ0FBQyxZQUFZLEtBQUssUUFBUTtRQUNqQyxhQUFhLENBQUMsT0FBTyxDQUFDLGlCQUFpQixFQUFFLEdBQUcsRUFBRSxNQUFNLENBQUMsT0FBTyxDQUFDLENBQUM7SUFDbEUsT0FBTyxNQUFNLENBQUM7QUFDbEIsQ0FBQztBQTlCRCw0QkE4QkMifQ==
\ No newline at end of file
@@ -0,0 +1,213 @@
+// Retrieves the register page and PDFs from the council web site (with retries, timeouts and
+// polite rate limiting), or from a local snapshot directory.
+
+"use strict";
+
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import * as request from "request-promise-native";
+import { decodeUrlPath } from "./register";
+
+// The options that control how URLs are retrieved.
+//
+// The snapshot mode is either "replay" (the content is read from the snapshot directory instead
+// of being downloaded), "record" (everything that is downloaded is also saved to the snapshot
+// directory so that the same run can later be replayed without any network access) or
+// undefined.
+
+export interface FetchOptions {
+    retries: number,  // the number of times a failed request is retried
+    retryDelay: number,  // the delay before the first retry (in milliseconds), doubled for each subsequent retry
+    timeout: number,  // the time to wait for a response (in milliseconds)
+    politenessDelay: number,  // the minimum delay between requests (in milliseconds)
+    politenessJitter: number,  // the maximum random delay added to the politeness delay (in milliseconds)
+    proxy: string,
+    rejectUnauthorized: boolean,  // false relaxes TLS certificate verification
+    snapshotMode: string,
+    snapshotDirectory: string
+}
+
+export const DefaultFetchOptions: FetchOptions = {
+    retries: 3,
+    retryDelay: 5000,
+    timeout: 60000,
+    politenessDelay: 2000,
+    politenessJitter: 5000,
+    proxy: undefined,
+    rejectUnauthorized: true,
+    snapshotMode: undefined,
+    snapshotDirectory: "snapshot"
+};
+
+// The validators from an earlier response (used to make a conditional request so that unchanged
+// content is not downloaded again).
+
+export interface FetchValidators {
+    etag?: string,
+    lastModified?: string
+}
+
+// The result of retrieving a URL.  Binary content (such as a PDF) is a buffer.  If the server
+// indicated that the content has not changed since the earlier response (identified by the
+// validators) then the content is undefined.
+
+export interface FetchResult {
+    content: Buffer | string,
+    isNotModified: boolean,
+    etag: string,
+    lastModified: string
+}
+
+const SnapshotIndexFileName = "index.json";
+
+// The time that the most recent request completed (used to rate limit requests).
+
+let lastRequestTime = 0;
+
+// Gets a random integer in the specified range: [minimum, maximum).
+
+export function getRandom(minimum: number, maximum: number) {
+    return Math.floor(Math.random() * (Math.floor(maximum) - Math.ceil(minimum))) + Math.ceil(minimum);
+}
+
+// Pauses for the specified number of milliseconds.
+
+export function sleep(milliseconds: number) {
+    return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+// Reads the snapshot index (which maps each URL to the name of the file in the snapshot directory
+// that contains the content of that URL).
+
+export function readSnapshotIndex(snapshotDirectory: string): { [url: string]: string } {
+    let indexPath = path.join(snapshotDirectory, SnapshotIndexFileName);
+    return fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath).toString()) : {};
+}
+
+// Saves the content of a URL to the snapshot directory (and records the URL in the index).
+
+function writeSnapshot(snapshotDirectory: string, url: string, content: Buffer | string) {
+    if (!fs.existsSync(snapshotDirectory))
+        fs.mkdirSync(snapshotDirectory);
+
+    // Use a hash of the URL to make the file name unique (but retain the last part of the URL
+    // so that the files are still recognisable when browsing the snapshot directory).
+
+    let hash = crypto.createHash("sha1").update(url).digest("hex").substring(0, 12);
+    let baseName = decodeUrlPath(url).split("/").pop().replace(/[^A-Za-z0-9._-]/g, "_");
+    let fileName = `${hash}-${baseName || "index.html"}`;
+    fs.writeFileSync(path.join(snapshotDirectory, fileName), content);
+
+    let index = readSnapshotIndex(snapshotDirectory);
+    index[url] = fileName;
+    fs.writeFileSync(path.join(snapshotDirectory, SnapshotIndexFileName), JSON.stringify(index, null, 4));
+    console.log(`    Saved ${url} to the snapshot file ${fileName}.`);
+}
+
+// Reads the content of a URL from the snapshot directory.
+
+function readSnapshot(snapshotDirectory: string, url: string, isBinary: boolean) {
+    let fileName = readSnapshotIndex(snapshotDirectory)[url];
+    if (fileName === undefined)
+        throw new Error(`The URL ${url} is not present in the snapshot directory "${snapshotDirectory}".`);
+    let buffer = fs.readFileSync(path.join(snapshotDirectory, fileName));
+    return isBinary ? buffer : buffer.toString();
+}
+
+// An error from a failed request.  The status code is present when the server responded (with an
+// unsuccessful status) and the cause is the underlying network error when it did not.
+
+interface FetchError extends Error {
+    statusCode?: number,
+    cause?: { code?: string }
+}
+
+// The codes of the network errors that are likely to be transient (and so worth retrying).
+
+const RetryableErrorCodes = [ "ETIMEDOUT", "ESOCKETTIMEDOUT", "ECONNRESET", "ECONNREFUSED", "EAI_AGAIN", "EPIPE" ];
+
+// Determines whether a failed request is worth retrying (transient network errors, time outs,
+// server errors and "too many requests" responses are retried; anything else, such as a client
+// error or an invalid URL, is not).
+
+function isRetryable(error: FetchError) {
+    if (error.statusCode !== undefined)
+        return error.statusCode >= 500 || error.statusCode === 429;
+    return error.cause !== undefined && RetryableErrorCodes.includes(error.cause.code);
+}
+
+// Makes a single request (waiting first, if necessary, so that requests are not made too often).
+
+async function makeRequest(url: string, isBinary: boolean, options: FetchOptions, validators: FetchValidators) {
+    let politenessDelay = options.politenessDelay + ((options.politenessJitter > 0) ? getRandom(0, options.politenessJitter) : 0);
+    let waitTime = lastRequestTime + politenessDelay - Date.now();
+    if (waitTime > 0)
+        await sleep(waitTime);
+
+    validators = validators || {};
+    let headers = {};
+    if (validators.etag)
+        headers["If-None-Match"] = validators.etag;
+    if (validators.lastModified)
+        headers["If-Modified-Since"] = validators.lastModified;
+
+    try {
+        let response = await request({
+            url: url,
+            encoding: isBinary ? null : undefined,
+            proxy: options.proxy,
+            rejectUnauthorized: options.rejectUnauthorized,
+            timeout: options.timeout,
+            headers: headers,
+            resolveWithFullResponse: true,
+            simple: false
+        });
+
+        if (response.statusCode === 304)
+            return { content: undefined, isNotModified: true, etag: response.headers["etag"] || validators.etag, lastModified: response.headers["last-modified"] || validators.lastModified };
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+            let error: FetchError = new Error(`The request for ${url} failed with the status code ${response.statusCode}.`);
+            error.statusCode = response.statusCode;
+            throw error;
+        }
+        return { content: response.body, isNotModified: false, etag: response.headers["etag"], lastModified: response.headers["last-modified"] };
+    } finally {
+        lastRequestTime = Date.now();
+    }
+}
+
+// Retrieves the content of a URL (either from the council web site or, in replay mode, from the
+// snapshot directory).  Failed requests are retried with exponential backoff.
+
+export async function fetchUrl(url: string, isBinary: boolean, options: FetchOptions, validators?: FetchValidators): Promise<FetchResult> {
+    if (options.snapshotMode === "replay") {
+        console.log(`    Replaying ${url} from the snapshot directory.`);
+        return { content: readSnapshot(options.snapshotDirectory, url, isBinary), isNotModified: false, etag: undefined, lastModified: undefined };
+    }
+
+    // Everything must be downloaded when recording a snapshot (so no conditional request).
+
+    if (options.snapshotMode === "record")
+        validators = undefined;
+
+    let result: FetchResult = undefined;
+    for (let attempt = 0; result === undefined; attempt++) {
+        try {
+            result = await makeRequest(url, isBinary, options, validators);
+        } catch (error) {
+            if (attempt >= options.retries || !isRetryable(error))
+                throw error;
+            let retryDelay = options.retryDelay * Math.pow(2, attempt);
+            console.log(`    Retrying ${url} in ${retryDelay} ms (attempt ${attempt + 2} of ${options.retries + 1}) because of the error: ${error.message}`);
+            await sleep(retryDelay);
+        }
+    }
+
+    // Save the snapshot only once the content has been retrieved (so that a failure to write the
+    // snapshot is not mistaken for a failed request and the content is not downloaded again).
+
+    if (options.snapshotMode === "record")
+        writeSnapshot(options.snapshotDirectory, url, result.content);
+    return result;
+}
@@ -0,0 +1,150 @@
+// Locates the fields on a page of a PDF using a declarative page template (each field is found by
+// its heading, read in a given direction from that heading and terminated by other headings).
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.selectTemplate = exports.getField = exports.applyTemplate = exports.getText = exports.groupIntoRows = exports.getPercentageOfElementInRectangle = void 0;
+// Constructs a rectangle based on the intersection of the two specified rectangles.
+function intersect(rectangle1, rectangle2) {
+    let x1 = Math.max(rectangle1.x, rectangle2.x);
+    let y1 = Math.max(rectangle1.y, rectangle2.y);
+    let x2 = Math.min(rectangle1.x + rectangle1.width, rectangle2.x + rectangle2.width);
+    let y2 = Math.min(rectangle1.y + rectangle1.height, rectangle2.y + rectangle2.height);
+    if (x2 >= x1 && y2 >= y1)
+        return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+    else
+        return { x: 0, y: 0, width: 0, height: 0 };
+}
+// Calculates the fraction of an element that lies within a rectangle (as a percentage).  For
+// example, if a quarter of the specifed element lies within the specified rectangle then this
+// would return 25.
+function getPercentageOfElementInRectangle(element, rectangle) {
+    let elementArea = getArea(element);
+    let intersectionArea = getArea(intersect(rectangle, element));
+    return (elementArea === 0) ? 0 : ((intersectionArea * 100) / elementArea);
+}
+exports.getPercentageOfElementInRectangle = getPercentageOfElementInRectangle;
+// Calculates the area of a rectangle.
+function getArea(rectangle) {
+    return rectangle.width * rectangle.height;
+}
+// Groups elements into rows (elements with approximately the same Y co-ordinate are placed in the
+// same row).
+function groupIntoRows(elements) {
+    let rows = [];
+    for (let element of elements) {
+        let row = rows.find(row => Math.abs(row[0].y - element.y) < 5); // approximate Y co-ordinate match
+        if (row === undefined)
+            rows.push([element]); // start a new row
+        else
+            row.push(element); // add to an existing row
+    }
+    return rows;
+}
+exports.groupIntoRows = groupIntoRows;
+// Joins the text of elements (collapsing any repeated white space).
+function getText(elements) {
+    return elements.map(element => element.text).join(" ").trim().replace(/\s\s+/g, " ");
+}
+exports.getText = getText;
+// Normalises heading text so that it can be compared with the heading aliases.
+function normaliseHeading(text) {
+    return text.toLowerCase().replace(/\s/g, "");
+}
+// Finds the elements that match the heading aliases of a field (all of the matching elements if
+// the field is repeated, otherwise only the element matching the earliest alias).
+function findHeadings(elements, fieldTemplate) {
+    let headings = [];
+    for (let alias of fieldTemplate.headings || []) {
+        let isMatch = (alias instanceof RegExp) ?
+            ((element) => alias.test(normaliseHeading(element.text))) :
+            ((element) => normaliseHeading(element.text) === normaliseHeading(alias));
+        for (let element of elements.filter(isMatch))
+            if (!headings.includes(element))
+                headings.push(element);
+        if (headings.length > 0 && !fieldTemplate.isRepeated)
+            return headings.slice(0, 1);
+    }
+    return headings;
+}
+// Calculates the region read from an anchor element.
+function getReadBounds(anchor, read, terminatorHeadings) {
+    let x = (read.direction === "right") ? (anchor.x + anchor.width) : anchor.x;
+    let y = (read.direction === "right") ? anchor.y : (anchor.y + anchor.height);
+    if (read.extent === "element")
+        return { x: x, y: y, width: anchor.width, height: anchor.height };
+    // The nearest terminator heading in a column to the right (starting beyond the right edge of
+    // the anchor) bounds the width and the nearest terminator heading below the anchor in the
+    // same column bounds the height.
+    let rightTerminator = terminatorHeadings.filter(heading => heading.x > anchor.x + anchor.width).sort((a, b) => a.x - b.x)[0];
+    let belowTerminator = terminatorHeadings.filter(heading => heading.x <= anchor.x + anchor.width && heading.y > anchor.y).sort((a, b) => a.y - b.y)[0];
+    let height;
+    if (belowTerminator !== undefined)
+        height = belowTerminator.y - y - (read.padding || 0) * anchor.height;
+    else if (read.lines !== undefined)
+        height = read.lines * anchor.height;
+    else
+        height = (read.direction === "right") ? anchor.height : Number.MAX_VALUE;
+    return {
+        x: x,
+        y: y,
+        width: (rightTerminator === undefined) ? Number.MAX_VALUE : (rightTerminator.x - x),
+        height: height
+    };
+}
+// Reads the elements of a field from its anchor element (trying each read in turn).
+function readField(elements, anchor, fieldTemplate, headingsByField) {
+    for (let read of fieldTemplate.reads) {
+        let terminatorHeadings = [];
+        for (let terminator of read.terminators || [])
+            terminatorHeadings = terminatorHeadings.concat(headingsByField[terminator] || []);
+        let bounds = getReadBounds(anchor, read, terminatorHeadings);
+        let fieldElements = elements.filter(element => element !== anchor && getPercentageOfElementInRectangle(element, bounds) > 10);
+        if (read.extent === "element")
+            fieldElements = fieldElements.slice(0, 1);
+        if (fieldElements.length > 0)
+            return fieldElements;
+    }
+    return [];
+}
+// Locates the fields of a page template amongst the elements of a page.
+function applyTemplate(elements, template) {
+    // Find the headings first (because the heading of any field may terminate another field).
+    let headingsByField = {};
+    for (let fieldName of Object.keys(template.fields))
+        headingsByField[fieldName] = findHeadings(elements, template.fields[fieldName]);
+    let fields = {};
+    for (let fieldName of Object.keys(template.fields)) {
+        let fieldTemplate = template.fields[fieldName];
+        if (fieldTemplate.anchor !== undefined) {
+            let anchorField = getField({ template: template, fields: fields }, fieldTemplate.anchor);
+            if (anchorField !== undefined && anchorField.elements.length > 0)
+                fields[fieldName] = [{ heading: undefined, elements: readField(elements, anchorField.elements[0], fieldTemplate, headingsByField) }];
+        }
+        else if (headingsByField[fieldName].length > 0)
+            fields[fieldName] = headingsByField[fieldName].map(heading => ({ heading: heading, elements: readField(elements, heading, fieldTemplate, headingsByField) }));
+    }
+    return { template: template, fields: fields };
+}
+exports.applyTemplate = applyTemplate;
+// Gets the first occurrence of a field (undefined if the heading of the field was not found).
+function getField(layout, fieldName) {
+    let fields = layout.fields[fieldName];
+    return (fields === undefined) ? undefined : fields[0];
+}
+exports.getField = getField;
+// Selects the page template that best matches the elements of a page (the template for which
+// the most field headings are found; the earliest template is preferred when there is a tie).
+function selectTemplate(elements, templates) {
+    let bestTemplate = undefined;
+    let bestHeadingCount = -1;
+    for (let template of templates) {
+        let headingCount = Object.keys(template.fields).filter(fieldName => findHeadings(elements, template.fields[fieldName]).length > 0).length;
+        if (headingCount > bestHeadingCount) {
+            bestTemplate = template;
+            bestHeadingCount = headingCount;
+        }
+    }
+    return bestTemplate;
+}
+exports.selectTemplate = selectTemplate;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoibGF5b3V0LmpzIiwic291cmNlUm9vdCI6IiIsInNvdXJjZXMiOlsibGF5b3V0LnRzIl0sIm5hbWVzIjpbXSwibWFwcGluZ3MiOiJBQUFBLGtHQUFrRztBQUNsRyw4RkFBOEY7QUFFOUYsWUFBWSxDQUFDOzs7QUF5RWIsb0ZBQW9GO0FBRXBGLFNBQVMsU0FBUyxDQUFDLFVBQXFCLEVBQUUsVUFBcUI7SUFDM0QsSUFBSSxFQUFFLEdBQUcsSUFBSSxDQUFDLEdBQUcsQ0FBQyxVQUFVLENBQUMsQ0FBQyxFQUFFLFVBQVUsQ0FBQyxDQUFDLENBQUMsQ0FBQztJQUM5QyxJQUFJLEVBQUUsR0FBRyxJQUFJLENBQUMsR0FBRyxDQUFDLFVBQVUsQ0FBQyxDQUFDLEVBQUUsVUFBVSxDQUFDLENBQUMsQ0FBQyxDQUFDO0lBQzlDLElBQUksRUFBRSxHQUFHLElBQUksQ0FBQyxHQUFHLENBQUMsVUFBVSxDQUFDLENBQUMsR0FBRyxVQUFVLENBQUMsS0FBSyxFQUFFLFVBQVUsQ0FBQyxDQUFDLEdBQUcsVUFBVSxDQUFDLEtBQUssQ0FBQyxDQUFDO0lBQ3BGLElBQUksRUFBRSxHQUFHLElBQUksQ0FBQyxHQUFHLENBQUMsVUFBVSxDQUFDLENBQUMsR0FBRyxVQUFVLENBQUMsTUFBTSxFQUFFLFVBQVUsQ0FBQyxDQUFDLEdBQUcsVUFBVSxDQUFDLE1BQU0sQ0FBQyxDQUFDO0lBQ3RGLElBQUksRUFBRSxJQUFJLEVBQUUsSUFBSSxFQUFFLElBQUksRUFBRTtRQUNwQixPQUFPLEVBQUUsQ0FBQyxFQUFFLEVBQUUsRUFBRSxDQUFDLEVBQUUsRUFBRSxFQUFFLEtBQUssRUFBRSxFQUFFLEdBQUcsRUFBRSxFQUFFLE1BQU0sRUFBRSxFQUFFLEdBQUcsRUFBRSxFQUFFLENBQUM7O1FBRXpELE9BQU8sRUFBRSxDQUFDLEVBQUUsQ0FBQyxFQUFFLENBQUMsRUFBRSxDQUFDLEVBQUUsS0FBSyxFQUFFLENBQUMsRUFBRSxNQUFNLEVBQUUsQ0FBQyxFQUFFLENBQUM7QUFDbkQsQ0FBQztBQUVELDZGQUE2RjtBQUM3Riw4RkFBOEY7QUFDOUYsbUJBQW1CO0FBRW5CLFNBQWdCLGlDQUFpQyxDQUFDLE9BQWdCLEVBQUUsU0FBb0I7SUFDcEYsSUFBSSxXQUFXLEdBQUcsT0FBTyxDQUFDLE9BQU8sQ0FBQyxDQUFDO0lBQ25DLElBQUksZ0JBQWdCLEdBQUcsT0FBTyxDQUFDLFNBQVMsQ0FBQyxTQUFTLEVBQUUsT0FBTyxDQUFDLENBQUMsQ0FBQztJQUM5RCxPQUFPLENBQUMsV0FBVyxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxnQkFBZ0IsR0FBRyxHQUFHLENBQUMsR0FBRyxXQUFXLENBQUMsQ0FBQztBQUM5RSxDQUFDO0FBSkQsOEVBSUM7QUFFRCxzQ0FBc0M7QUFFdEMsU0FBUyxPQUFPLENBQUMsU0FBb0I7SUFDakMsT0FBTyxTQUFTLENBQUMsS0FBSyxHQUFHLFNBQVMsQ0FBQyxNQUFNLENBQUM7QUFDOUMsQ0FBQztBQUVELGtHQUFrRztBQUNsRyxhQUFhO0FBRWIsU0FBZ0IsYUFBYSxDQUFDLFFBQW1CO0lBQzdDLElBQUksSUFBSSxHQUFnQixFQUFFLENBQUM7SUFDM0IsS0FBSyxJQUFJLE9BQU8sSUFBSSxRQUFRLEVBQUU7UUFDMUIsSUFBSSxHQUFHLEdBQUcsSUFBSSxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsRUFBRSxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsR0FBRyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsR0FBRyxPQUFPLENBQUMsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxDQUFDLENBQUMsQ0FBRSxrQ0FBa0M7UUFDbkcsSUFBSSxHQUFHLEtBQUssU0FBUztZQUNqQixJQUFJLENBQUMsSUFBSSxDQUFDLENBQUUsT0FBTyxDQUFFLENBQUMsQ0FBQyxDQUFFLGtCQUFrQjs7WUFFM0MsR0FBRyxDQUFDLElBQUksQ0FBQyxPQUFPLENBQUMsQ0FBQyxDQUFFLHlCQUF5QjtLQUNwRDtJQUNELE9BQU8sSUFBSSxDQUFDO0FBQ2hCLENBQUM7QUFWRCxzQ0FVQztBQUVELG9FQUFvRTtBQUVwRSxTQUFnQixPQUFPLENBQUMsUUFBbUI7SUFDdkMsT0FBTyxRQUFRLENBQUMsR0FBRyxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUMsT0FBTyxDQUFDLElBQUksQ0FBQyxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxPQUFPLENBQUMsUUFBUSxFQUFFLEdBQUcsQ0FBQyxDQUFDO0FBQ3pGLENBQUM7QUFGRCwwQkFFQztBQUVELCtFQUErRTtBQUUvRSxTQUFTLGdCQUFnQixDQUFDLElBQVk7SUFDbEMsT0FBTyxJQUFJLENBQUMsV0FBVyxFQUFFLENBQUMsT0FBTyxDQUFDLEtBQUssRUFBRSxFQUFFLENBQUMsQ0FBQztBQUNqRCxDQUFDO0FBRUQsZ0dBQWdHO0FBQ2hHLGtGQUFrRjtBQUVsRixTQUFTLFlBQVksQ0FBQyxRQUFtQixFQUFFLGFBQTRCO0lBQ25FLElBQUksUUFBUSxHQUFjLEVBQUUsQ0FBQztJQUM3QixLQUFLLElBQUksS0FBSyxJQUFJLGFBQWEsQ0FBQyxRQUFRLElBQUksRUFBRSxFQUFFO1FBQzVDLElBQUksT0FBTyxHQUFHLENBQUMsS0FBSyxZQUFZLE1BQU0sQ0FBQyxDQUFDLENBQUM7WUFDckMsQ0FBQyxDQUFDLE9BQWdCLEVBQUUsRUFBRSxDQUFVLEtBQU0sQ0FBQyxJQUFJLENBQUMsZ0JBQWdCLENBQUMsT0FBTyxDQUFDLElBQUksQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO1lBQzlFLENBQUMsQ0FBQyxPQUFnQixFQUFFLEVBQUUsQ0FBQyxnQkFBZ0IsQ0FBQyxPQUFPLENBQUMsSUFBSSxDQUFDLEtBQUssZ0JBQWdCLENBQVMsS0FBSyxDQUFDLENBQUMsQ0FBQztRQUMvRixLQUFLLElBQUksT0FBTyxJQUFJLFFBQVEsQ0FBQyxNQUFNLENBQUMsT0FBTyxDQUFDO1lBQ3hDLElBQUksQ0FBQyxRQUFRLENBQUMsUUFBUSxDQUFDLE9BQU8sQ0FBQztnQkFDM0IsUUFBUSxDQUFDLElBQUksQ0FBQyxPQUFPLENBQUMsQ0FBQztRQUMvQixJQUFJLFFBQVEsQ0FBQyxNQUFNLEdBQUcsQ0FBQyxJQUFJLENBQUMsYUFBYSxDQUFDLFVBQVU7WUFDaEQsT0FBTyxRQUFRLENBQUMsS0FBSyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsQ0FBQztLQUNuQztJQUNELE9BQU8sUUFBUSxDQUFDO0FBQ3BCLENBQUM7QUFFRCxxREFBcUQ7QUFFckQsU0FBUyxhQUFhLENBQUMsTUFBZSxFQUFFLElBQWUsRUFBRSxrQkFBNkI7SUFDbEYsSUFBSSxDQUFDLEdBQUcsQ0FBQyxJQUFJLENBQUMsU0FBUyxLQUFLLE9BQU8sQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxDQUFDLEdBQUcsTUFBTSxDQUFDLEtBQUssQ0FBQyxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDO0lBQzVFLElBQUksQ0FBQyxHQUFHLENBQUMsSUFBSSxDQUFDLFNBQVMsS0FBSyxPQUFPLENBQUMsQ0FBQyxDQUFDLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsQ0FBQyxHQUFHLE1BQU0sQ0FBQyxNQUFNLENBQUMsQ0FBQztJQUU3RSxJQUFJLElBQUksQ0FBQyxNQUFNLEtBQUssU0FBUztRQUN6QixPQUFPLEVBQUUsQ0FBQyxFQUFFLENBQUMsRUFBRSxDQUFDLEVBQUUsQ0FBQyxFQUFFLEtBQUssRUFBRSxNQUFNLENBQUMsS0FBSyxFQUFFLE1BQU0sRUFBRSxNQUFNLENBQUMsTUFBTSxFQUFFLENBQUM7SUFFdEUsNkZBQTZGO0lBQzdGLDBGQUEwRjtJQUMxRixpQ0FBaUM7SUFFakMsSUFBSSxlQUFlLEdBQUcsa0JBQWtCLENBQUMsTUFBTSxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUMsT0FBTyxDQUFDLENBQUMsR0FBRyxNQUFNLENBQUMsQ0FBQyxHQUFHLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQyxJQUFJLENBQUMsQ0FBQyxDQUFDLEVBQUUsQ0FBQyxFQUFFLEVBQUUsQ0FBQyxDQUFDLENBQUMsQ0FBQyxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQztJQUM3SCxJQUFJLGVBQWUsR0FBRyxrQkFBa0IsQ0FBQyxNQUFNLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxPQUFPLENBQUMsQ0FBQyxJQUFJLE1BQU0sQ0FBQyxDQUFDLEdBQUcsTUFBTSxDQUFDLEtBQUssSUFBSSxPQUFPLENBQUMsQ0FBQyxHQUFHLE1BQU0sQ0FBQyxDQUFDLENBQUMsQ0FBQyxJQUFJLENBQUMsQ0FBQyxDQUFDLEVBQUUsQ0FBQyxFQUFFLEVBQUUsQ0FBQyxDQUFDLENBQUMsQ0FBQyxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQztJQUV0SixJQUFJLE1BQWMsQ0FBQztJQUNuQixJQUFJLGVBQWUsS0FBSyxTQUFTO1FBQzdCLE1BQU0sR0FBRyxlQUFlLENBQUMsQ0FBQyxHQUFHLENBQUMsR0FBRyxDQUFDLElBQUksQ0FBQyxPQUFPLElBQUksQ0FBQyxDQUFDLEdBQUcsTUFBTSxDQUFDLE1BQU0sQ0FBQztTQUNwRSxJQUFJLElBQUksQ0FBQyxLQUFLLEtBQUssU0FBUztRQUM3QixNQUFNLEdBQUcsSUFBSSxDQUFDLEtBQUssR0FBRyxNQUFNLENBQUMsTUFBTSxDQUFDOztRQUVwQyxNQUFNLEdBQUcsQ0FBQyxJQUFJLENBQUMsU0FBUyxLQUFLLE9BQU8sQ0FBQyxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsU0FBUyxDQUFDO0lBRTdFLE9BQU87UUFDSCxDQUFDLEVBQUUsQ0FBQztRQUNKLENBQUMsRUFBRSxDQUFDO1FBQ0osS0FBSyxFQUFFLENBQUMsZUFBZSxLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLGVBQWUsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxDQUFDO1FBQ25GLE1BQU0sRUFBRSxNQUFNO0tBQ2pCLENBQUM7QUFDTixDQUFDO0FBRUQsb0ZBQW9GO0FBRXBGLFNBQVMsU0FBUyxDQUFDLFFBQW1CLEVBQUUsTUFBZSxFQUFFLGFBQTRCLEVBQUUsZUFBbUQ7SUFDdEksS0FBSyxJQUFJLElBQUksSUFBSSxhQUFhLENBQUMsS0FBSyxFQUFFO1FBQ2xDLElBQUksa0JBQWtCLEdBQWMsRUFBRSxDQUFDO1FBQ3ZDLEtBQUssSUFBSSxVQUFVLElBQUksSUFBSSxDQUFDLFdBQVcsSUFBSSxFQUFFO1lBQ3pDLGtCQUFrQixHQUFHLGtCQUFrQixDQUFDLE1BQU0sQ0FBQyxlQUFlLENBQUMsVUFBVSxDQUFDLElBQUksRUFBRSxDQUFDLENBQUM7UUFFdEYsSUFBSSxNQUFNLEdBQUcsYUFBYSxDQUFDLE1BQU0sRUFBRSxJQUFJLEVBQUUsa0JBQWtCLENBQUMsQ0FBQztRQUM3RCxJQUFJLGFBQWEsR0FBRyxRQUFRLENBQUMsTUFBTSxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUMsT0FBTyxLQUFLLE1BQU0sSUFBSSxpQ0FBaUMsQ0FBQyxPQUFPLEVBQUUsTUFBTSxDQUFDLEdBQUcsRUFBRSxDQUFDLENBQUM7UUFDOUgsSUFBSSxJQUFJLENBQUMsTUFBTSxLQUFLLFNBQVM7WUFDekIsYUFBYSxHQUFHLGFBQWEsQ0FBQyxLQUFLLENBQUMsQ0FBQyxFQUFFLENBQUMsQ0FBQyxDQUFDO1FBQzlDLElBQUksYUFBYSxDQUFDLE1BQU0sR0FBRyxDQUFDO1lBQ3hCLE9BQU8sYUFBYSxDQUFDO0tBQzVCO0lBQ0QsT0FBTyxFQUFFLENBQUM7QUFDZCxDQUFDO0FBRUQsd0VBQXdFO0FBRXhFLFNBQWdCLGFBQWEsQ0FBQyxRQUFtQixFQUFFLFFBQXNCO0lBQ3JFLDBGQUEwRjtJQUUxRixJQUFJLGVBQWUsR0FBdUMsRUFBRSxDQUFDO0lBQzdELEtBQUssSUFBSSxTQUFTLElBQUksTUFBTSxDQUFDLElBQUksQ0FBQyxRQUFRLENBQUMsTUFBTSxDQUFDO1FBQzlDLGVBQWUsQ0FBQyxTQUFTLENBQUMsR0FBRyxZQUFZLENBQUMsUUFBUSxFQUFFLFFBQVEsQ0FBQyxNQUFNLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQztJQUVwRixJQUFJLE1BQU0sR0FBMkMsRUFBRSxDQUFDO0lBQ3hELEtBQUssSUFBSSxTQUFTLElBQUksTUFBTSxDQUFDLElBQUksQ0FBQyxRQUFRLENBQUMsTUFBTSxDQUFDLEVBQUU7UUFDaEQsSUFBSSxhQUFhLEdBQUcsUUFBUSxDQUFDLE1BQU0sQ0FBQyxTQUFTLENBQUMsQ0FBQztRQUMvQyxJQUFJLGFBQWEsQ0FBQyxNQUFNLEtBQUssU0FBUyxFQUFFO1lBQ3BDLElBQUksV0FBVyxHQUFHLFFBQVEsQ0FBQyxFQUFFLFFBQVEsRUFBRSxRQUFRLEVBQUUsTUFBTSxFQUFFLE1BQU0sRUFBRSxFQUFFLGFBQWEsQ0FBQyxNQUFNLENBQUMsQ0FBQztZQUN6RixJQUFJLFdBQVcsS0FBSyxTQUFTLElBQUksV0FBVyxDQUFDLFFBQVEsQ0FBQyxNQUFNLEdBQUcsQ0FBQztnQkFDNUQsTUFBTSxDQUFDLFNBQVMsQ0FBQyxHQUFHLENBQUUsRUFBRSxPQUFPLEVBQUUsU0FBUyxFQUFFLFFBQVEsRUFBRSxTQUFTLENBQUMsUUFBUSxFQUFFLFdBQVcsQ0FBQyxRQUFRLENBQUMsQ0FBQyxDQUFDLEVBQUUsYUFBYSxFQUFFLGVBQWUsQ0FBQyxFQUFFLENBQUUsQ0FBQztTQUM5STthQUFNLElBQUksZUFBZSxDQUFDLFNBQVMsQ0FBQyxDQUFDLE1BQU0sR0FBRyxDQUFDO1lBQzVDLE1BQU0sQ0FBQyxTQUFTLENBQUMsR0FBRyxlQUFlLENBQUMsU0FBUyxDQUFDLENBQUMsR0FBRyxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUMsQ0FBQyxFQUFFLE9BQU8sRUFBRSxPQUFPLEVBQUUsUUFBUSxFQUFFLFNBQVMsQ0FBQyxRQUFRLEVBQUUsT0FBTyxFQUFFLGFBQWEsRUFBRSxlQUFlLENBQUMsRUFBRSxDQUFDLENBQUMsQ0FBQztLQUNySztJQUVELE9BQU8sRUFBRSxRQUFRLEVBQUUsUUFBUSxFQUFFLE1BQU0sRUFBRSxNQUFNLEVBQUUsQ0FBQztBQUNsRCxDQUFDO0FBbkJELHNDQW1CQztBQUVELDhGQUE4RjtBQUU5RixTQUFnQixRQUFRLENBQUMsTUFBa0IsRUFBRSxTQUFpQjtJQUMxRCxJQUFJLE1BQU0sR0FBRyxNQUFNLENBQUMsTUFBTSxDQUFDLFNBQVMsQ0FBQyxDQUFDO0lBQ3RDLE9BQU8sQ0FBQyxNQUFNLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxDQUFDO0FBQzFELENBQUM7QUFIRCw0QkFHQztBQUVELDZGQUE2RjtBQUM3Riw4RkFBOEY7QUFFOUYsU0FBZ0IsY0FBYyxDQUFDLFFBQW1CLEVBQUUsU0FBeUI7SUFDekUsSUFBSSxZQUFZLEdBQWlCLFNBQVMsQ0FBQztJQUMzQyxJQUFJLGdCQUFnQixHQUFHLENBQUMsQ0FBQyxDQUFDO0lBQzFCLEtBQUssSUFBSSxRQUFRLElBQUksU0FBUyxFQUFFO1FBQzVCLElBQUksWUFBWSxHQUFHLE1BQU0sQ0FBQyxJQUFJLENBQUMsUUFBUSxDQUFDLE1BQU0sQ0FBQyxDQUFDLE1BQU0sQ0FBQyxTQUFTLENBQUMsRUFBRSxDQUFDLFlBQVksQ0FBQyxRQUFRLEVBQUUsUUFBUSxDQUFDLE1BQU0sQ0FBQyxTQUFTLENBQUMsQ0FBQyxDQUFDLE1BQU0sR0FBRyxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUM7UUFDMUksSUFBSSxZQUFZLEdBQUcsZ0JBQWdCLEVBQUU7WUFDakMsWUFBWSxHQUFHLFFBQVEsQ0FBQztZQUN4QixnQkFBZ0IsR0FBRyxZQUFZLENBQUM7U0FDbkM7S0FDSjtJQUNELE9BQU8sWUFBWSxDQUFDO0FBQ3hCLENBQUM7QUFYRCx3Q0FXQyJ9
\ No newline at end of file
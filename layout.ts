@@ -0,0 +1,245 @@
+// Locates the fields on a page of a PDF using a declarative page template (each field is found by
+// its heading, read in a given direction from that heading and terminated by other headings).
+
+"use strict";
+
+// A bounding rectangle.
+
+export interface Rectangle {
+    x: number,
+    y: number,
+    width: number,
+    height: number
+}
+
+// An element (consisting of text and a bounding rectangle) in a PDF document.
+
+export interface Element extends Rectangle {
+    text: string
+}
+
+// How a field is read from its anchor (the heading of the field, or the value of another field).
+//
+// A "right" read starts at the right edge of the anchor and a "below" read starts at the bottom
+// edge of the anchor.  An "element" extent takes the first element that starts within one anchor
+// width of the anchor (ie. a single value beside or under a heading) and a "region" extent takes
+// every element in the region.  The region is bounded by the headings of the terminator fields
+// (a terminator heading in a column to the right of the anchor bounds the width of the region
+// and one further down in the same column bounds the height, less the padding).  Without a
+// terminator below it, the region is the specified number of lines high (in multiples of the
+// anchor height); a "right" region otherwise defaults to one line and a "below" region to the
+// rest of the page.
+
+export interface FieldRead {
+    direction: "right" | "below",
+    extent: "element" | "region",
+    terminators?: string[],
+    lines?: number,
+    padding?: number  // the number of lines left empty above a terminator below the anchor
+}
+
+// A field of a page template.  The headings are the aliases of the heading text: a string is
+// compared ignoring case and white space (earlier aliases are preferred) and a regular expression
+// is tested against the heading text after it has been converted to lower case with all white
+// space removed.  A field may instead be anchored on the value of an earlier field (in which case
+// it has no headings).  The reads are tried in order until one finds some elements.  A repeated
+// field is read once for every matching heading.
+
+export interface FieldTemplate {
+    headings?: (string | RegExp)[],
+    anchor?: string,
+    reads: FieldRead[],
+    isRepeated?: boolean
+}
+
+// A page template (the fields are located in the order that they are defined).
+
+export interface PageTemplate {
+    name: string,
+    fields: { [fieldName: string]: FieldTemplate }
+}
+
+// A located field: the heading (undefined for a field anchored on another field) and the
+// elements that make up the value.
+
+export interface LayoutField {
+    heading: Element,
+    elements: Element[]
+}
+
+// The located fields of a page.  A field whose heading is not found on the page is absent.
+
+export interface PageLayout {
+    template: PageTemplate,
+    fields: { [fieldName: string]: LayoutField[] }
+}
+
+// Constructs a rectangle based on the intersection of the two specified rectangles.
+
+function intersect(rectangle1: Rectangle, rectangle2: Rectangle): Rectangle {
+    let x1 = Math.max(rectangle1.x, rectangle2.x);
+    let y1 = Math.max(rectangle1.y, rectangle2.y);
+    let x2 = Math.min(rectangle1.x + rectangle1.width, rectangle2.x + rectangle2.width);
+    let y2 = Math.min(rectangle1.y + rectangle1.height, rectangle2.y + rectangle2.height);
+    if (x2 >= x1 && y2 >= y1)
+        return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+    else
+        return { x: 0, y: 0, width: 0, height: 0 };
+}
+
+// Calculates the fraction of an element that lies within a rectangle (as a percentage).  For
+// example, if a quarter of the specifed element lies within the specified rectangle then this
+// would return 25.
+
+export function getPercentageOfElementInRectangle(element: Element, rectangle: Rectangle) {
+    let elementArea = getArea(element);
+    let intersectionArea = getArea(intersect(rectangle, element));
+    return (elementArea === 0) ? 0 : ((intersectionArea * 100) / elementArea);
+}
+
+// Calculates the area of a rectangle.
+
+function getArea(rectangle: Rectangle) {
+    return rectangle.width * rectangle.height;
+}
+
+// Groups elements into rows (elements with approximately the same Y co-ordinate are placed in the
+// same row).
+
+export function groupIntoRows(elements: Element[]): Element[][] {
+    let rows: Element[][] = [];
+    for (let element of elements) {
+        let row = rows.find(row => Math.abs(row[0].y - element.y) < 5);  // approximate Y co-ordinate match
+        if (row === undefined)
+            rows.push([ element ]);  // start a new row
+        else
+            row.push(element);  // add to an existing row
+    }
+    return rows;
+}
+
+// Joins the text of elements (collapsing any repeated white space).
+
+export function getText(elements: Element[]) {
+    return elements.map(element => element.text).join(" ").trim().replace(/\s\s+/g, " ");
+}
+
+// Normalises heading text so that it can be compared with the heading aliases.
+
+function normaliseHeading(text: string) {
+    return text.toLowerCase().replace(/\s/g, "");
+}
+
+// Finds the elements that match the heading aliases of a field (all of the matching elements if
+// the field is repeated, otherwise only the element matching the earliest alias).
+
+function findHeadings(elements: Element[], fieldTemplate: FieldTemplate) {
+    let headings: Element[] = [];
+    for (let alias of fieldTemplate.headings || []) {
+        let isMatch = (alias instanceof RegExp) ?
+            ((element: Element) => (<RegExp>alias).test(normaliseHeading(element.text))) :
+            ((element: Element) => normaliseHeading(element.text) === normaliseHeading(<string>alias));
+        for (let element of elements.filter(isMatch))
+            if (!headings.includes(element))
+                headings.push(element);
+        if (headings.length > 0 && !fieldTemplate.isRepeated)
+            return headings.slice(0, 1);
+    }
+    return headings;
+}
+
+// Calculates the region read from an anchor element.
+
+function getReadBounds(anchor: Element, read: FieldRead, terminatorHeadings: Element[]): Rectangle {
+    let x = (read.direction === "right") ? (anchor.x + anchor.width) : anchor.x;
+    let y = (read.direction === "right") ? anchor.y : (anchor.y + anchor.height);
+
+    if (read.extent === "element")
+        return { x: x, y: y, width: anchor.width, height: anchor.height };
+
+    // The nearest terminator heading in a column to the right (starting beyond the right edge of
+    // the anchor) bounds the width and the nearest terminator heading below the anchor in the
+    // same column bounds the height.
+
+    let rightTerminator = terminatorHeadings.filter(heading => heading.x > anchor.x + anchor.width).sort((a, b) => a.x - b.x)[0];
+    let belowTerminator = terminatorHeadings.filter(heading => heading.x <= anchor.x + anchor.width && heading.y > anchor.y).sort((a, b) => a.y - b.y)[0];
+
+    let height: number;
+    if (belowTerminator !== undefined)
+        height = belowTerminator.y - y - (read.padding || 0) * anchor.height;
+    else if (read.lines !== undefined)
+        height = read.lines * anchor.height;
+    else
+        height = (read.direction === "right") ? anchor.height : Number.MAX_VALUE;
+
+    return {
+        x: x,
+        y: y,
+        width: (rightTerminator === undefined) ? Number.MAX_VALUE : (rightTerminator.x - x),
+        height: height
+    };
+}
+
+// Reads the elements of a field from its anchor element (trying each read in turn).
+
+function readField(elements: Element[], anchor: Element, fieldTemplate: FieldTemplate, headingsByField: { [fieldName: string]: Element[] }) {
+    for (let read of fieldTemplate.reads) {
+        let terminatorHeadings: Element[] = [];
+        for (let terminator of read.terminators || [])
+            terminatorHeadings = terminatorHeadings.concat(headingsByField[terminator] || []);
+
+        let bounds = getReadBounds(anchor, read, terminatorHeadings);
+        let fieldElements = elements.filter(element => element !== anchor && getPercentageOfElementInRectangle(element, bounds) > 10);
+        if (read.extent === "element")
+            fieldElements = fieldElements.slice(0, 1);
+        if (fieldElements.length > 0)
+            return fieldElements;
+    }
+    return [];
+}
+
+// Locates the fields of a page template amongst the elements of a page.
+
+export function applyTemplate(elements: Element[], template: PageTemplate): PageLayout {
+    // Find the headings first (because the heading of any field may terminate another field).
+
+    let headingsByField: { [fieldName: string]: Element[] } = {};
+    for (let fieldName of Object.keys(template.fields))
+        headingsByField[fieldName] = findHeadings(elements, template.fields[fieldName]);
+
+    let fields: { [fieldName: string]: LayoutField[] } = {};
+    for (let fieldName of Object.keys(template.fields)) {
+        let fieldTemplate = template.fields[fieldName];
+        if (fieldTemplate.anchor !== undefined) {
+            let anchorField = getField({ template: template, fields: fields }, fieldTemplate.anchor);
+            if (anchorField !== undefined && anchorField.elements.length > 0)
+                fields[fieldName] = [ { heading: undefined, elements: readField(elements, anchorField.elements[0], fieldTemplate, headingsByField) } ];
+        } else if (headingsByField[fieldName].length > 0)
+            fields[fieldName] = headingsByField[fieldName].map(heading => ({ heading: heading, elements: readField(elements, heading, fieldTemplate, headingsByField) }));
+    }
+
+    return { template: template, fields: fields };
+}
+
+// Gets the first occurrence of a field (undefined if the heading of the field was not found).
+
+export function getField(layout: PageLayout, fieldName: string): LayoutField {
+    let fields = layout.fields[fieldName];
+    return (fields === undefined) ? undefined : fields[0];
+}
+
+// Selects the page template that best matches the elements of a page (the template for which
+// the most field headings are found; the earliest template is preferred when there is a tie).
+
+export function selectTemplate(elements: Element[], templates: PageTemplate[]) {
+    let bestTemplate: PageTemplate = undefined;
+    let bestHeadingCount = -1;
+    for (let template of templates) {
+        let headingCount = Object.keys(template.fields).filter(fieldName => findHeadings(elements, template.fields[fieldName]).length > 0).length;
+        if (headingCount > bestHeadingCount) {
+            bestTemplate = template;
+            bestHeadingCount = headingCount;
+        }
+    }
+    return bestTemplate;
+}
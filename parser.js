@@ -0,0 +1,624 @@
+// Parses the development applications in the PDFs published by the South Australian Coorong
+// District Council and other councils with the same style of PDF (this has no dependency on the
+// database or the network so that it can be tested in isolation).
+//
+// Michael Bone
+// 25th February 2019
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.parsePdf = exports.parsePdfPages = exports.addPdfPageAddresses = exports.parsePdfPageDetails = exports.extractPdfPages = exports.DefaultReloadMargin = exports.ParserVersion = exports.ElementsVersion = exports.DefaultMemoryBudget = exports.parseApplicationElements = exports.AddressVersion = exports.parseAddressFromHundred = exports.parseLegalDescription = exports.parseAddress = exports.formatAddress = exports.getEditDistance = void 0;
+const moment = require("moment");
+const pdfjs = require("pdfjs-dist");
+const layout_1 = require("./layout");
+const councils_1 = require("./councils");
+const reconcile_1 = require("./reconcile");
+const reference_1 = require("./reference");
+var layout_2 = require("./layout");
+Object.defineProperty(exports, "getPercentageOfElementInRectangle", { enumerable: true, get: function () { return layout_2.getPercentageOfElementInRectangle; } });
+Object.defineProperty(exports, "groupIntoRows", { enumerable: true, get: function () { return layout_2.groupIntoRows; } });
+var reference_2 = require("./reference");
+Object.defineProperty(exports, "loadReferenceData", { enumerable: true, get: function () { return reference_2.loadReferenceData; } });
+// Addresses with a confidence below this are flagged for review.
+const LowAddressConfidence = 0.5;
+// Calculates the Levenshtein edit distance between two strings.
+function getEditDistance(text1, text2) {
+    let previousRow = Array.from({ length: text2.length + 1 }, (value, index) => index);
+    for (let index1 = 1; index1 <= text1.length; index1++) {
+        let row = [index1];
+        for (let index2 = 1; index2 <= text2.length; index2++) {
+            let cost = (text1[index1 - 1] === text2[index2 - 1]) ? 0 : 1;
+            row.push(Math.min(row[index2 - 1] + 1, previousRow[index2] + 1, previousRow[index2 - 1] + cost));
+        }
+        previousRow = row;
+    }
+    return previousRow[text2.length];
+}
+exports.getEditDistance = getEditDistance;
+// Formats (and corrects) an address.
+function formatAddress(address) {
+    return parseAddress(address).text;
+}
+exports.formatAddress = formatAddress;
+// Parses (and corrects) an address, recording how each part of the address was determined.
+function parseAddress(address) {
+    let none = (source) => ({ value: "", source: source });
+    address = address.trim();
+    if (address.startsWith("LOT:") || address.startsWith("No Residential Address"))
+        return { text: "", houseNumber: none("none"), streetName: none("none"), streetSuffix: none("none"), suburb: none("none"), state: none("none"), postCode: none("none"), isFallback: false, confidence: 0, isLowConfidence: true };
+    // Remove the comma in house numbers larger than 1000.  For example, the following addresses:
+    //
+    //     4,665 Princes HWY MENINGIE 5264
+    //     11,287 Princes HWY SALT CREEK 5264
+    //
+    // would be converted to the following:
+    //
+    //     4665 Princes HWY MENINGIE 5264
+    //     11287 Princes HWY SALT CREEK 5264
+    if (/^\d,\d\d\d/.test(address))
+        address = address.substring(0, 1) + address.substring(2);
+    else if (/^\d\d,\d\d\d/.test(address))
+        address = address.substring(0, 2) + address.substring(3);
+    let tokens = address.split(" ");
+    let postCode = undefined;
+    let token = tokens.pop();
+    if (/^\d\d\d\d$/.test(token))
+        postCode = token;
+    else
+        tokens.push(token);
+    // Ensure that a state code is added before the post code if a state code is not present (the
+    // address may consist of nothing more than a post code).
+    let state = "SA";
+    let stateSource = "default";
+    if (tokens.length > 0 && ["ACT", "NSW", "NT", "QLD", "SA", "TAS", "VIC", "WA"].includes(tokens[tokens.length - 1].toUpperCase())) {
+        state = tokens.pop().toUpperCase();
+        stateSource = "address";
+    }
+    // Construct a fallback address to be used if the suburb name cannot be determined later.
+    let fallbackAddress = (postCode === undefined) ? address : [...tokens, state, postCode].join(" ");
+    // Pop tokens from the end of the array until a valid suburb name is encountered (allowing
+    // for a few spelling errors).  Note that this starts by examining for longer matches
+    // (consisting of four tokens) before examining shorter matches.  This approach ensures
+    // that the following address:
+    //
+    //     2,800 Woods Well RD COLEBATCH 5266
+    //
+    // is correctly converted to the following address:
+    //
+    //     2800 WOODS WELL ROAD, COLEBATCH SA 5266
+    //
+    // rather than (incorrectly) to the following address (notice that the street name has "BELL"
+    // instead of "WELL" because there actually is a street named "BELL ROAD").
+    //
+    //     2800 Woods BELL ROAD, COLEBATCH SA 5266
+    let suburbName = undefined;
+    let suburb = none("fallback");
+    for (let index = 4; index >= 1; index--) {
+        let suburbNameText = tokens.slice(-index).join(" ");
+        let suburbNameMatch = reference_1.findSuburbName(suburbNameText);
+        if (suburbNameMatch !== undefined) {
+            suburbName = reference_1.getSuburbLocality(suburbNameMatch);
+            suburb = { value: suburbNameMatch, source: "suburb-name-match", editDistance: getEditDistance(suburbNameText.trim().toUpperCase(), suburbNameMatch) };
+            tokens.splice(-index, index); // remove elements from the end of the array           
+            break;
+        }
+    }
+    // Expand any street suffix (for example, this converts "ST" to "STREET").  There may be no
+    // tokens left (for example, if the address is only a suburb name).
+    let streetSuffix = (tokens.length === 0) ? undefined : reference_1.expandStreetSuffix(tokens[tokens.length - 1]);
+    let streetSuffixPart = none("unrecognised");
+    if (streetSuffix !== undefined) {
+        streetSuffixPart = { value: streetSuffix.value, source: streetSuffix.isAbbreviation ? "suffix-abbreviation" : "suffix-expanded" };
+        tokens.splice(-1, 1, streetSuffix.value); // replace the street suffix with the expanded street suffix
+    }
+    // Pop tokens from the end of the array until a valid street name is encountered (allowing
+    // for a few spelling errors).  Similar to the examination of suburb names, this examines
+    // longer matches before examining shorter matches (for the same reason).
+    let streetName = undefined;
+    let street = none("unmatched");
+    for (let index = 5; index >= 1; index--) {
+        let streetNameText = tokens.slice(-index).join(" ");
+        let streetNameMatch = reference_1.findStreetName(streetNameText);
+        if (streetNameMatch !== undefined) {
+            streetName = streetNameMatch;
+            street = { value: streetNameMatch, source: "street-name-match", editDistance: getEditDistance(streetNameText.trim().toUpperCase(), streetNameMatch) };
+            let suburbNames = reference_1.getStreetSuburbNames(streetNameMatch);
+            tokens.splice(-index, index); // remove elements from the end of the array           
+            // If the suburb was not determined earlier then attempt to obtain the suburb based
+            // on the street (ie. if there is only one suburb associated with the street).  For
+            // example, this would automatically add the suburb to "22 Jefferson CT 5263",
+            // producing the address "22 JEFFERSON COURT, WELLINGTON EAST SA 5263".
+            if (suburbName === undefined && suburbNames.length === 1) {
+                suburbName = reference_1.getSuburbLocality(suburbNames[0]);
+                suburb = { value: suburbNames[0], source: "street-single-suburb" };
+            }
+            break;
+        }
+    }
+    // If a post code was included in the original address then use it to override the post code
+    // included in the suburb name (because the post code in the original address is more likely
+    // to be correct).
+    let postCodePart = (postCode === undefined) ? none("none") : { value: postCode, source: "address" };
+    if (suburbName !== undefined) {
+        let suburbPostCode = (/\s(\d\d\d\d)$/.exec(suburbName) || [])[1];
+        if (postCode !== undefined)
+            suburbName = suburbName.replace(/\s+\d\d\d\d$/, " " + postCode);
+        else if (suburbPostCode !== undefined)
+            postCodePart = { value: suburbPostCode, source: "suburb-name" };
+    }
+    // Reconstruct the address with a comma between the street address and the suburb.
+    let isFallback = (suburbName === undefined || suburbName.trim() === "");
+    let houseNumber = "";
+    if (isFallback)
+        address = fallbackAddress;
+    else {
+        houseNumber = tokens.join(" ").trim();
+        if (streetName !== undefined && streetName.trim() !== "")
+            tokens.push(streetName);
+        let streetAddress = tokens.join(" ").trim();
+        address = streetAddress + (streetAddress === "" ? "" : ", ") + suburbName;
+    }
+    // Estimate the confidence that the address is correct (each guess or correction reduces the
+    // confidence).
+    let confidence = 1;
+    if (isFallback)
+        confidence -= 0.6;
+    else if (suburb.source === "street-single-suburb")
+        confidence -= 0.15;
+    if (street.source === "unmatched")
+        confidence -= 0.3;
+    if (streetSuffixPart.source === "unrecognised")
+        confidence -= 0.1;
+    if (postCode === undefined)
+        confidence -= 0.1;
+    confidence -= 0.1 * ((suburb.editDistance || 0) + (street.editDistance || 0));
+    confidence = Math.max(0, Math.round(confidence * 100) / 100);
+    return {
+        text: address,
+        houseNumber: { value: houseNumber, source: (houseNumber === "") ? "none" : "address" },
+        streetName: street,
+        streetSuffix: streetSuffixPart,
+        suburb: suburb,
+        state: { value: state, source: stateSource },
+        postCode: postCodePart,
+        isFallback: isFallback,
+        confidence: confidence,
+        isLowConfidence: confidence < LowAddressConfidence
+    };
+}
+exports.parseAddress = parseAddress;
+// Parses (and normalises) a legal description.  For example, the following legal description:
+//
+//     LOT: 12 DP: 34567 CT: 5432/123 Hundred: COLEBACH
+//
+// would be converted to the following (notice that the hundred name is corrected):
+//
+//     Lot 12 DP 34567 CT 5432/123 Hundred of COLEBATCH
+function parseLegalDescription(legalDescription) {
+    let text = legalDescription.toUpperCase().replace(/\s\s+/g, " ").trim();
+    let match = (pattern) => (pattern.exec(text) || [])[1] || "";
+    let lot = match(/\b(?:LOT|LT)\b\s*:?\s*([A-Z]?\d+[A-Z]?)\b/);
+    let section = match(/\b(?:SECTION|SECT|SEC)\b\s*:?\s*([A-Z]?\d+[A-Z]?)\b/);
+    let allotment = match(/\b(?:ALLOTMENT|ALLOT|ALT|AL)\b\s*:?\s*([A-Z]?\d+[A-Z]?)\b/);
+    // Plans may be abbreviated (for example, "DP 1234") or spelt out ("Deposited Plan 1234").
+    let planType = "";
+    let planNumber = "";
+    let planMatch = /\b(DP|FP|CP|DEPOSITED PLAN|FILED PLAN|COMMUNITY PLAN)\b\s*:?\s*(\d+)\b/.exec(text);
+    if (planMatch !== null) {
+        planType = { "DEPOSITED PLAN": "DP", "FILED PLAN": "FP", "COMMUNITY PLAN": "CP" }[planMatch[1]] || planMatch[1];
+        planNumber = planMatch[2];
+    }
+    // The certificate of title is a volume and folio (for example, "CT 5432/123" or "Volume 5432
+    // Folio 123").
+    let titleVolume = "";
+    let titleFolio = "";
+    let titleMatch = /\b(?:CT|C\/T|CERTIFICATE OF TITLE|VOLUME|VOL)\b\s*:?\s*(\d+)\s*(?:\/|\s)\s*(?:(?:FOLIO|FOL)\b\s*:?\s*)?(\d+)\b/.exec(text);
+    if (titleMatch !== null) {
+        titleVolume = titleMatch[1];
+        titleFolio = titleMatch[2];
+    }
+    // Correct the hundred name (allowing for a few spelling errors), examining longer names
+    // before shorter names (as is done for suburb names in formatAddress).
+    let hundred = "";
+    let hundredMatch = /\b(?:HUNDRED OF|HUNDRED|HD OF|HD|HUN)\b\s*:?\s*([A-Z][A-Z ]*)/.exec(text);
+    if (hundredMatch !== null) {
+        let tokens = hundredMatch[1].trim().split(" ");
+        for (let index = Math.min(3, tokens.length); index >= 1; index--) {
+            let hundredNameMatch = reference_1.findHundredName(tokens.slice(0, index).join(" "));
+            if (hundredNameMatch !== undefined) {
+                hundred = hundredNameMatch;
+                break;
+            }
+        }
+    }
+    // Construct the normalised legal description (retaining the original text if nothing could
+    // be recognised).
+    let parts = [];
+    if (lot !== "")
+        parts.push(`Lot ${lot}`);
+    if (allotment !== "")
+        parts.push(`Allotment ${allotment}`);
+    if (section !== "")
+        parts.push(`Section ${section}`);
+    if (planType !== "")
+        parts.push(`${planType} ${planNumber}`);
+    if (titleVolume !== "")
+        parts.push(`CT ${titleVolume}/${titleFolio}`);
+    if (hundred !== "")
+        parts.push(`Hundred of ${hundred}`);
+    return {
+        text: (parts.length === 0) ? legalDescription.trim().replace(/\s\s+/g, " ") : parts.join(" "),
+        lot: lot,
+        section: section,
+        allotment: allotment,
+        planType: planType,
+        planNumber: planNumber,
+        titleVolume: titleVolume,
+        titleFolio: titleFolio,
+        hundred: hundred
+    };
+}
+exports.parseLegalDescription = parseLegalDescription;
+// Derives an address from a hundred name (for use when a development application has no street
+// address).  Where the hundred shares its name with a suburb the suburb is used, otherwise the
+// hundred itself is used (for example, "HUNDRED OF GLYDE, SA").  Such an address is only a rough
+// location and so always has a low confidence.
+function parseAddressFromHundred(hundred) {
+    let none = (source) => ({ value: "", source: source });
+    let suburbName = reference_1.getSuburbLocality(hundred);
+    let postCode = (suburbName === undefined) ? "" : ((/\s(\d\d\d\d)$/.exec(suburbName) || [])[1] || "");
+    return {
+        text: (suburbName === undefined) ? `HUNDRED OF ${hundred}, SA` : suburbName,
+        houseNumber: none("none"),
+        streetName: none("none"),
+        streetSuffix: none("none"),
+        suburb: { value: (suburbName === undefined) ? "" : hundred, source: "hundred" },
+        state: { value: "SA", source: "default" },
+        postCode: (postCode === "") ? none("none") : { value: postCode, source: "suburb-name" },
+        isFallback: false,
+        confidence: (suburbName === undefined) ? 0.2 : 0.4,
+        isLowConfidence: true
+    };
+}
+exports.parseAddressFromHundred = parseAddressFromHundred;
+// The version of the address stage (formatAddress, parseLegalDescription and the other functions
+// used by parsePropertyDetails).  Increment this whenever the address stage changes so that the
+// addresses of the cached applications are derived again.
+exports.AddressVersion = 1;
+// Derives the address and legal description from the text of the property details.  When there
+// is no street address (the first row then starts with "LOT:" or is "No Residential Address") the
+// first row may also contain part of the legal description, and the address is instead derived
+// from the hundred.
+function parsePropertyDetails(propertyDetails) {
+    let address = propertyDetails.address;
+    let legalDescriptionText = propertyDetails.legalDescription;
+    let hasStreetAddress = !(address.startsWith("LOT:") || address.startsWith("No Residential Address"));
+    if (address.startsWith("LOT:"))
+        legalDescriptionText = (address + " " + legalDescriptionText).trim();
+    let legalDescription = parseLegalDescription(legalDescriptionText);
+    let parsedAddress = parseAddress(address);
+    if (!hasStreetAddress && legalDescription.hundred !== "")
+        parsedAddress = parseAddressFromHundred(legalDescription.hundred);
+    return { parsedAddress: parsedAddress, legalDescription: legalDescription };
+}
+// Parses the details other than the address from the elements associated with a single page of
+// the PDF (corresponding to a single development application) using the page template of the
+// council that best matches the page.  The text of the property details is returned so that the
+// address can be derived separately (see addAddress).  The reasons that the page could not be
+// fully parsed are added to the specified problems array (undefined is returned if the page was
+// rejected).
+function parsePageDetails(elements, informationUrl, problems, profile) {
+    let layout = layout_1.applyTemplate(elements, layout_1.selectTemplate(elements, profile.pageTemplates));
+    let applicationNumberField = layout_1.getField(layout, "applicationNumber");
+    if (applicationNumberField === undefined) {
+        problems.push(`The "Dev App No." heading is missing.`);
+        console.log(`Ignoring the page because the "Dev App No." text is missing.`);
+        return undefined;
+    }
+    // Get the application number (as printed, other than any whitespace; see
+    // normaliseApplicationNumber for how the application numbers are matched).
+    let applicationNumber = layout_1.getText(applicationNumberField.elements).replace(/\s/g, "");
+    if (applicationNumber === "") {
+        problems.push(`The application number is missing.`);
+        console.log(`Could not find the application number on the PDF page for the current development application.  The development application will be ignored.`);
+        return undefined;
+    }
+    console.log(`    Found \"${applicationNumber}\".`);
+    // Get the received date.
+    let receivedDate = moment.invalid();
+    let receivedDateField = layout_1.getField(layout, "receivedDate");
+    if (receivedDateField === undefined)
+        problems.push(`The "Application Received Date:" heading is missing.`);
+    else if (receivedDateField.elements.length === 0)
+        problems.push(`The received date is missing.`);
+    else {
+        let receivedDateText = layout_1.getText(receivedDateField.elements);
+        receivedDate = moment(receivedDateText, "D/MM/YYYY", true); // allows the leading zero of the day to be omitted
+        if (!receivedDate.isValid())
+            problems.push(`The received date "${receivedDateText}" is not a valid date.`);
+    }
+    // Get the description.
+    let applicantField = layout_1.getField(layout, "applicant");
+    if (applicantField === undefined) {
+        problems.push(`The "Applicant" heading is missing (so the description may be truncated).`);
+        console.log(`Could not find the "Applicant" heading on the page and so the development application description may be truncated.`);
+    }
+    let descriptionField = layout_1.getField(layout, "description");
+    let description = (descriptionField === undefined) ? "" : layout_1.getText(descriptionField.elements);
+    // Get the address and legal description.
+    let propertyDetailsField = layout_1.getField(layout, "propertyDetails");
+    if (propertyDetailsField === undefined) {
+        problems.push(`The "Property Details:" heading is missing.`);
+        console.log(`Could not find the "Property Details:" heading on the page.  The development application will be ignored.`);
+        return undefined;
+    }
+    // Group the address and legal description elements into rows.
+    let addressRows = layout_1.groupIntoRows(propertyDetailsField.elements);
+    let propertyDetails = {
+        address: (addressRows.length < 1) ? "" : layout_1.getText(addressRows[0]),
+        legalDescription: (addressRows.length < 2) ? "" : layout_1.getText([].concat(...addressRows.slice(1)))
+    };
+    // Get the applicant (either to the right of the "Applicant" heading or, if there is nothing
+    // there, on the row immediately below the heading).
+    let applicant = "";
+    if (applicantField !== undefined) {
+        let applicantRows = layout_1.groupIntoRows(applicantField.elements);
+        if (applicantRows.length > 0)
+            applicant = layout_1.getText(applicantRows[0]);
+    }
+    // Get the total development cost (for example, "$1,250,000.00" is converted to 1250000).
+    let totalDevelopmentCost = undefined;
+    let totalDevelopmentCostsField = layout_1.getField(layout, "totalDevelopmentCosts");
+    if (totalDevelopmentCostsField !== undefined) {
+        let text = layout_1.getText(totalDevelopmentCostsField.elements).replace(/[$,\s]/g, "");
+        if (/^\d+(\.\d+)?$/.test(text))
+            totalDevelopmentCost = Number(text);
+    }
+    // Get the referral bodies (one per row below the "Referrals" heading).
+    let referrals = [];
+    let referralsField = layout_1.getField(layout, "referrals");
+    if (referralsField !== undefined)
+        referrals = layout_1.groupIntoRows(referralsField.elements)
+            .map(row => layout_1.getText(row))
+            .filter(referral => referral !== "" && !/^n\/?a$/i.test(referral));
+    // Get any decision or approval dates (for example, "Development Approval: 12/03/2019").
+    let decisions = [];
+    for (let decisionField of layout.fields["decisions"] || []) {
+        let decisionDate = moment(layout_1.getText(decisionField.elements), "D/MM/YYYY", true);
+        if (decisionDate.isValid())
+            decisions.push({ decision: decisionField.heading.text.trim().replace(/\s*:$/, "").replace(/\s\s+/g, " "), date: decisionDate.format("YYYY-MM-DD") });
+    }
+    return {
+        council: profile.name,
+        applicationNumber: applicationNumber,
+        description: (description === "") ? "No description provided" : description,
+        informationUrl: informationUrl,
+        commentUrl: profile.commentUrl,
+        scrapeDate: moment().format("YYYY-MM-DD"),
+        receivedDate: receivedDate.isValid() ? receivedDate.format("YYYY-MM-DD") : "",
+        propertyDetails: propertyDetails,
+        applicant: applicant,
+        totalDevelopmentCost: totalDevelopmentCost,
+        referrals: referrals,
+        decisions: decisions
+    };
+}
+// Derives the address and legal description of an application from the text of its property
+// details (as returned by parsePageDetails).  If there is no address then the reason is added to
+// the specified problems array and undefined is returned (the page is then rejected).
+function addAddress(pageDetails, problems) {
+    let { parsedAddress, legalDescription } = parsePropertyDetails(pageDetails.propertyDetails);
+    let address = parsedAddress.text;
+    if (parsedAddress.isLowConfidence && address !== "")
+        console.log(`    The address \"${address}\" has a low confidence of ${parsedAddress.confidence} and has been flagged for review.`);
+    if (address === "") {
+        problems.push(`The address is missing.`);
+        console.log(`Could not find an address for the current development application.  The development application will be ignored.`);
+        return undefined;
+    }
+    return {
+        council: pageDetails.council,
+        applicationNumber: pageDetails.applicationNumber,
+        address: address,
+        description: pageDetails.description,
+        informationUrl: pageDetails.informationUrl,
+        commentUrl: pageDetails.commentUrl,
+        scrapeDate: pageDetails.scrapeDate,
+        receivedDate: pageDetails.receivedDate,
+        legalDescription: pageDetails.propertyDetails.legalDescription,
+        parsedLegalDescription: legalDescription,
+        applicant: pageDetails.applicant,
+        totalDevelopmentCost: pageDetails.totalDevelopmentCost,
+        referrals: pageDetails.referrals,
+        decisions: pageDetails.decisions,
+        parsedAddress: parsedAddress
+    };
+}
+// Parses the details from the elements associated with a single page of the PDF (corresponding
+// to a single development application) using the page template of the council that best matches
+// the page.  The reasons that the page could not be fully parsed are added to the specified
+// problems array (undefined is returned if the page was rejected).
+function parseApplicationElements(elements, informationUrl, problems = [], profile = councils_1.CoorongProfile) {
+    let pageDetails = parsePageDetails(elements, informationUrl, problems, profile);
+    return (pageDetails === undefined) ? undefined : addAddress(pageDetails, problems);
+}
+exports.parseApplicationElements = parseApplicationElements;
+// The default memory budget for parsing a PDF (in bytes).  This is comfortably below the 512 MB
+// that morph.io allows.
+exports.DefaultMemoryBudget = 384 * 1024 * 1024;
+// Loads a PDF from a buffer.
+async function loadPdf(buffer) {
+    return await pdfjs.getDocument({ data: new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength), disableFontFace: true, ignoreErrors: true }); // a small buffer may share its memory with other buffers (which pdf.js does not allow for)
+}
+// Gets the elements (text and bounding rectangles) on a page of a PDF, sorted by Y co-ordinate
+// and then by X co-ordinate.
+async function getPageElements(page) {
+    let textContent = await page.getTextContent();
+    let viewport = await page.getViewport(1.0);
+    let elements = textContent.items.map(item => {
+        let transform = pdfjs.Util.transform(viewport.transform, item.transform);
+        // Work around the issue https://github.com/mozilla/pdf.js/issues/8276 (heights are
+        // exaggerated).  The problem seems to be that the height value is too large in some
+        // PDFs.  Provide an alternative, more accurate height value by using a calculation
+        // based on the transform matrix.
+        let workaroundHeight = Math.sqrt(transform[2] * transform[2] + transform[3] * transform[3]);
+        return { text: item.str, x: transform[4], y: transform[5], width: item.width, height: workaroundHeight };
+    });
+    let elementComparer = (a, b) => (a.y > b.y) ? 1 : ((a.y < b.y) ? -1 : ((a.x > b.x) ? 1 : ((a.x < b.x) ? -1 : 0)));
+    elements.sort(elementComparer);
+    return elements;
+}
+// Formats a number of bytes as megabytes.
+function formatMegabytes(bytes) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+// The version of the text extraction (getPageElements).  Increment this whenever the extraction
+// changes (including when pdf.js is upgraded) so that the cached elements of each page are
+// extracted again.
+exports.ElementsVersion = 1;
+// The version of the page parsing (the layout engine, the page templates and parsePageDetails,
+// other than the address stage).  Increment this whenever the parsing changes so that the cached
+// applications are parsed again (from the cached elements).
+exports.ParserVersion = 6;
+// The amount by which the heap must grow (in bytes) after the PDF is loaded before the PDF is
+// reloaded.  If reloading does not bring the heap back below the memory budget (because the
+// memory is used by something other than the PDF) then reloading again only helps once the heap
+// has grown by this much more.
+exports.DefaultReloadMargin = 32 * 1024 * 1024;
+// Extracts the elements of every page of the specified PDF (the number of pages, along with the
+// time and memory used, is written to the specified statistics).
+async function extractPdfPages(buffer, memoryBudget = exports.DefaultMemoryBudget, statistics = {}, reloadMargin = exports.DefaultReloadMargin) {
+    let pages = [];
+    // Each page has the details of a single application.  The PDF is loaded once and the
+    // resources used by each page are released after the elements of the page are extracted.  If
+    // memory usage still grows beyond the budget (calling page.cleanup() does not always release
+    // all memory used by the PDF parsing) then the PDF is destroyed and loaded again before
+    // extracting the next page.
+    let pdf = await loadPdf(buffer);
+    let pageCount = pdf.numPages;
+    let startTime = Date.now();
+    let peakHeapUsed = 0;
+    let reloadCount = 0;
+    let loadHeapUsed = process.memoryUsage().heapUsed;
+    let isOverBudgetReported = false;
+    try {
+        for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+            let pageStartTime = Date.now();
+            let page = await pdf.getPage(pageNumber);
+            pages.push(await getPageElements(page));
+            page.cleanup();
+            // Report the time and memory used by the page.
+            let heapUsed = process.memoryUsage().heapUsed;
+            peakHeapUsed = Math.max(peakHeapUsed, heapUsed);
+            console.log(`Read page ${pageNumber} of ${pageCount} in ${Date.now() - pageStartTime} ms (heap used ${formatMegabytes(heapUsed)}).`);
+            if (heapUsed <= memoryBudget || pageNumber === pageCount)
+                continue;
+            // Only reload the PDF if the heap has grown since the PDF was last loaded (otherwise
+            // the memory is not being used by the PDF and reloading would not release it).
+            if (heapUsed - loadHeapUsed > reloadMargin) {
+                console.log(`The heap used exceeds the memory budget of ${formatMegabytes(memoryBudget)} so the PDF will be reloaded.`);
+                await pdf.destroy();
+                pdf = undefined;
+                if (global.gc)
+                    global.gc();
+                pdf = await loadPdf(buffer);
+                loadHeapUsed = process.memoryUsage().heapUsed;
+                reloadCount++;
+            }
+            else if (!isOverBudgetReported) {
+                console.log(`Warning: The heap used (${formatMegabytes(heapUsed)}) exceeds the memory budget of ${formatMegabytes(memoryBudget)} but has grown by less than ${formatMegabytes(reloadMargin)} since the PDF was loaded, so the PDF will not be reloaded.`);
+                isOverBudgetReported = true;
+            }
+        }
+    }
+    finally {
+        if (pdf !== undefined)
+            await pdf.destroy();
+    }
+    Object.assign(statistics, { pageCount: pageCount, reloadCount: reloadCount, peakHeapUsed: peakHeapUsed, duration: Date.now() - startTime });
+    console.log(`Read ${pageCount} page(s) in ${statistics.duration} ms (peak heap used ${formatMegabytes(peakHeapUsed)}, reloaded ${reloadCount} time(s)).`);
+    return pages;
+}
+exports.extractPdfPages = extractPdfPages;
+// Parses the details other than the addresses from the elements of each page of a PDF (the page
+// stage of parsePdfPages, which does not depend on the reference data used to format addresses).
+// An unexpected error only causes that page to be rejected rather than the whole PDF.
+function parsePdfPageDetails(url, pages, profile = councils_1.CoorongProfile) {
+    return pages.map((elements, index) => {
+        let pageNumber = index + 1;
+        let problems = [];
+        let pageDetails = undefined;
+        try {
+            pageDetails = parsePageDetails(elements, url, problems, profile);
+        }
+        catch (error) {
+            problems.push(`An error occurred while parsing the page: ${error.message}`);
+            console.log(`Could not parse page ${pageNumber}: ${error.message}`);
+        }
+        return { pageNumber: pageNumber, pageDetails: pageDetails, problems: problems };
+    });
+}
+exports.parsePdfPageDetails = parsePdfPageDetails;
+// Derives the address of the application parsed from each page of a PDF (the address stage of
+// parsePdfPages) and merges any application that appears on several pages.  The pages that could
+// not be fully parsed are added to the specified quarantined pages array (along with their
+// elements, if the elements of the pages are specified).
+function addPdfPageAddresses(url, parsedPages, pages, quarantinedPages = []) {
+    let developmentApplications = [];
+    for (let parsedPage of parsedPages) {
+        let pageNumber = parsedPage.pageNumber;
+        let problems = [...parsedPage.problems];
+        let developmentApplication = undefined;
+        if (parsedPage.pageDetails !== undefined) {
+            try {
+                developmentApplication = addAddress(parsedPage.pageDetails, problems);
+            }
+            catch (error) {
+                problems.push(`An error occurred while parsing the address: ${error.message}`);
+                console.log(`Could not parse the address on page ${pageNumber}: ${error.message}`);
+            }
+        }
+        if (problems.length > 0)
+            quarantinedPages.push({
+                url: url,
+                pageNumber: pageNumber,
+                applicationNumber: (developmentApplication === undefined) ? "" : developmentApplication.applicationNumber,
+                status: (developmentApplication === undefined) ? "rejected" : "partial",
+                reasons: problems,
+                elements: (pages === undefined) ? [] : (pages[pageNumber - 1] || [])
+            });
+        if (developmentApplication === undefined)
+            continue;
+        let applicationKey = reconcile_1.normaliseApplicationNumber(developmentApplication.applicationNumber);
+        let existingIndex = developmentApplications.findIndex(otherDevelopmentApplication => reconcile_1.normaliseApplicationNumber(otherDevelopmentApplication.applicationNumber) === applicationKey);
+        if (existingIndex < 0) {
+            developmentApplications.push(developmentApplication);
+            continue;
+        }
+        let { application, conflicts } = reconcile_1.reconcileApplication([developmentApplications[existingIndex], developmentApplication].map(otherDevelopmentApplication => ({ url: url, periodEnd: undefined, publishDate: undefined, application: otherDevelopmentApplication })));
+        for (let conflict of conflicts)
+            console.log(`    Page ${pageNumber} repeats application \"${conflict.applicationNumber}\" with a different ${conflict.field} \"${conflict.discardedValue}\" (keeping \"${conflict.keptValue}\").`);
+        developmentApplications[existingIndex] = application;
+    }
+    return developmentApplications;
+}
+exports.addPdfPageAddresses = addPdfPageAddresses;
+// Parses the development applications from the elements of each page of a PDF (previously
+// extracted from the PDF at the specified URL) published by the specified council.  Any pages
+// that could not be fully parsed are added to the specified quarantined pages array.  When an
+// application appears on several pages the versions are merged (the first page is preferred, but
+// an empty field is filled from a later page).
+function parsePdfPages(url, pages, quarantinedPages = [], profile = councils_1.CoorongProfile) {
+    return addPdfPageAddresses(url, parsePdfPageDetails(url, pages, profile), pages, quarantinedPages);
+}
+exports.parsePdfPages = parsePdfPages;
+// Parses the development applications in the specified PDF (the content of which has already
+// been retrieved from the specified URL) published by the specified council.  Any pages that
+// could not be fully parsed are added to the specified quarantined pages array (and the number of
+// pages parsed, along with the time and memory used, is written to the specified statistics).
+async function parsePdf(url, buffer, quarantinedPages = [], memoryBudget = exports.DefaultMemoryBudget, profile = councils_1.CoorongProfile, statistics = {}) {
+    console.log(`Reading development applications from ${url}.`);
+    let pages = await extractPdfPages(buffer, memoryBudget, statistics);
+    return parsePdfPages(url, pages, quarantinedPages, profile);
+}
+exports.parsePdf = parsePdf;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoicGFyc2VyLmpzIiwic291cmNlUm9vdCI6IiIsInNvdXJjZXMiOlsicGFyc2VyLnRzIl0sIm5hbWVzIjpbXSwibWFwcGluZ3MiOiJBQUFBLDRGQUE0RjtBQUM1RixnR0FBZ0c7QUFDaEcsa0VBQWtFO0FBQ2xFLEVBQUU7QUFDRixlQUFlO0FBQ2YscUJBQXFCO0FBRXJCLFlBQVksQ0FBQzs7O0FBRWIsaUNBQWlDO0FBQ2pDLG9DQUFvQztBQUNwQyxxQ0FBb0c7QUFDcEcseUNBQTREO0FBQzVELDJDQUErRTtBQUMvRSwyQ0FBMkk7QUFFM0ksbUNBQWdHO0FBQW5FLDJIQUFBLGlDQUFpQyxPQUFBO0FBQUUsdUdBQUEsYUFBYSxPQUFBO0FBQzdFLHlDQUFnRDtBQUF2Qyw4R0FBQSxpQkFBaUIsT0FBQTtBQTJCMUIsaUVBQWlFO0FBRWpFLE1BQU0sb0JBQW9CLEdBQUcsR0FBRyxDQUFDO0FBRWpDLGdFQUFnRTtBQUVoRSxTQUFnQixlQUFlLENBQUMsS0FBYSxFQUFFLEtBQWE7SUFDeEQsSUFBSSxXQUFXLEdBQUcsS0FBSyxDQUFDLElBQUksQ0FBQyxFQUFFLE1BQU0sRUFBRSxLQUFLLENBQUMsTUFBTSxHQUFHLENBQUMsRUFBRSxFQUFFLENBQUMsS0FBSyxFQUFFLEtBQUssRUFBRSxFQUFFLENBQUMsS0FBSyxDQUFDLENBQUM7SUFDcEYsS0FBSyxJQUFJLE1BQU0sR0FBRyxDQUFDLEVBQUUsTUFBTSxJQUFJLEtBQUssQ0FBQyxNQUFNLEVBQUUsTUFBTSxFQUFFLEVBQUU7UUFDbkQsSUFBSSxHQUFHLEdBQUcsQ0FBRSxNQUFNLENBQUUsQ0FBQztRQUNyQixLQUFLLElBQUksTUFBTSxHQUFHLENBQUMsRUFBRSxNQUFNLElBQUksS0FBSyxDQUFDLE1BQU0sRUFBRSxNQUFNLEVBQUUsRUFBRTtZQUNuRCxJQUFJLElBQUksR0FBRyxDQUFDLEtBQUssQ0FBQyxNQUFNLEdBQUcsQ0FBQyxDQUFDLEtBQUssS0FBSyxDQUFDLE1BQU0sR0FBRyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQztZQUM3RCxHQUFHLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsR0FBRyxDQUFDLE1BQU0sR0FBRyxDQUFDLENBQUMsR0FBRyxDQUFDLEVBQUUsV0FBVyxDQUFDLE1BQU0sQ0FBQyxHQUFHLENBQUMsRUFBRSxXQUFXLENBQUMsTUFBTSxHQUFHLENBQUMsQ0FBQyxHQUFHLElBQUksQ0FBQyxDQUFDLENBQUM7U0FDcEc7UUFDRCxXQUFXLEdBQUcsR0FBRyxDQUFDO0tBQ3JCO0lBQ0QsT0FBTyxXQUFXLENBQUMsS0FBSyxDQUFDLE1BQU0sQ0FBQyxDQUFDO0FBQ3JDLENBQUM7QUFYRCwwQ0FXQztBQUVELHFDQUFxQztBQUVyQyxTQUFnQixhQUFhLENBQUMsT0FBZTtJQUN6QyxPQUFPLFlBQVksQ0FBQyxPQUFPLENBQUMsQ0FBQyxJQUFJLENBQUM7QUFDdEMsQ0FBQztBQUZELHNDQUVDO0FBRUQsMkZBQTJGO0FBRTNGLFNBQWdCLFlBQVksQ0FBQyxPQUFlO0lBQ3hDLElBQUksSUFBSSxHQUFHLENBQUMsTUFBYyxFQUFFLEVBQUUsQ0FBQyxDQUFDLEVBQUUsS0FBSyxFQUFFLEVBQUUsRUFBRSxNQUFNLEVBQUUsTUFBTSxFQUFFLENBQUMsQ0FBQztJQUUvRCxPQUFPLEdBQUcsT0FBTyxDQUFDLElBQUksRUFBRSxDQUFDO0lBQ3pCLElBQUksT0FBTyxDQUFDLFVBQVUsQ0FBQyxNQUFNLENBQUMsSUFBSSxPQUFPLENBQUMsVUFBVSxDQUFDLHdCQUF3QixDQUFDO1FBQzFFLE9BQU8sRUFBRSxJQUFJLEVBQUUsRUFBRSxFQUFFLFdBQVcsRUFBRSxJQUFJLENBQUMsTUFBTSxDQUFDLEVBQUUsVUFBVSxFQUFFLElBQUksQ0FBQyxNQUFNLENBQUMsRUFBRSxZQUFZLEVBQUUsSUFBSSxDQUFDLE1BQU0sQ0FBQyxFQUFFLE1BQU0sRUFBRSxJQUFJLENBQUMsTUFBTSxDQUFDLEVBQUUsS0FBSyxFQUFFLElBQUksQ0FBQyxNQUFNLENBQUMsRUFBRSxRQUFRLEVBQUUsSUFBSSxDQUFDLE1BQU0sQ0FBQyxFQUFFLFVBQVUsRUFBRSxLQUFLLEVBQUUsVUFBVSxFQUFFLENBQUMsRUFBRSxlQUFlLEVBQUUsSUFBSSxFQUFFLENBQUM7SUFFck8sNkZBQTZGO0lBQzdGLEVBQUU7SUFDRixzQ0FBc0M7SUFDdEMseUNBQXlDO0lBQ3pDLEVBQUU7SUFDRix1Q0FBdUM7SUFDdkMsRUFBRTtJQUNGLHFDQUFxQztJQUNyQyx3Q0FBd0M7SUFFeEMsSUFBSSxZQUFZLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQztRQUMxQixPQUFPLEdBQUcsT0FBTyxDQUFDLFNBQVMsQ0FBQyxDQUFDLEVBQUUsQ0FBQyxDQUFDLEdBQUcsT0FBTyxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQztTQUN4RCxJQUFJLGNBQWMsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDO1FBQ2pDLE9BQU8sR0FBRyxPQUFPLENBQUMsU0FBUyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsR0FBRyxPQUFPLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDO0lBRTdELElBQUksTUFBTSxHQUFHLE9BQU8sQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLENBQUM7SUFFaEMsSUFBSSxRQUFRLEdBQUcsU0FBUyxDQUFDO0lBQ3pCLElBQUksS0FBSyxHQUFHLE1BQU0sQ0FBQyxHQUFHLEVBQUUsQ0FBQztJQUN6QixJQUFJLFlBQVksQ0FBQyxJQUFJLENBQUMsS0FBSyxDQUFDO1FBQ3hCLFFBQVEsR0FBRyxLQUFLLENBQUM7O1FBRWpCLE1BQU0sQ0FBQyxJQUFJLENBQUMsS0FBSyxDQUFDLENBQUM7SUFFdkIsNkZBQTZGO0lBQzdGLHlEQUF5RDtJQUV6RCxJQUFJLEtBQUssR0FBRyxJQUFJLENBQUM7SUFDakIsSUFBSSxXQUFXLEdBQUcsU0FBUyxDQUFDO0lBQzVCLElBQUksTUFBTSxDQUFDLE1BQU0sR0FBRyxDQUFDLElBQUksQ0FBRSxLQUFLLEVBQUUsS0FBSyxFQUFFLElBQUksRUFBRSxLQUFLLEVBQUUsSUFBSSxFQUFFLEtBQUssRUFBRSxLQUFLLEVBQUUsSUFBSSxDQUFFLENBQUMsUUFBUSxDQUFDLE1BQU0sQ0FBQyxNQUFNLENBQUMsTUFBTSxHQUFHLENBQUMsQ0FBQyxDQUFDLFdBQVcsRUFBRSxDQUFDLEVBQUU7UUFDaEksS0FBSyxHQUFHLE1BQU0sQ0FBQyxHQUFHLEVBQUUsQ0FBQyxXQUFXLEVBQUUsQ0FBQztRQUNuQyxXQUFXLEdBQUcsU0FBUyxDQUFDO0tBQzNCO0lBRUQseUZBQXlGO0lBRXpGLElBQUksZUFBZSxHQUFHLENBQUMsUUFBUSxLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxPQUFPLENBQUMsQ0FBQyxDQUFDLENBQUUsR0FBRyxNQUFNLEVBQUUsS0FBSyxFQUFFLFFBQVEsQ0FBQyxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsQ0FBQztJQUVuRywwRkFBMEY7SUFDMUYscUZBQXFGO0lBQ3JGLHVGQUF1RjtJQUN2Riw4QkFBOEI7SUFDOUIsRUFBRTtJQUNGLHlDQUF5QztJQUN6QyxFQUFFO0lBQ0YsbURBQW1EO0lBQ25ELEVBQUU7SUFDRiw4Q0FBOEM7SUFDOUMsRUFBRTtJQUNGLDZGQUE2RjtJQUM3RiwyRUFBMkU7SUFDM0UsRUFBRTtJQUNGLDhDQUE4QztJQUU5QyxJQUFJLFVBQVUsR0FBRyxTQUFTLENBQUM7SUFDM0IsSUFBSSxNQUFNLEdBQWdCLElBQUksQ0FBQyxVQUFVLENBQUMsQ0FBQztJQUMzQyxLQUFLLElBQUksS0FBSyxHQUFHLENBQUMsRUFBRSxLQUFLLElBQUksQ0FBQyxFQUFFLEtBQUssRUFBRSxFQUFFO1FBQ3JDLElBQUksY0FBYyxHQUFHLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQyxLQUFLLENBQUMsQ0FBQyxJQUFJLENBQUMsR0FBRyxDQUFDLENBQUM7UUFDcEQsSUFBSSxlQUFlLEdBQUcsMEJBQWMsQ0FBQyxjQUFjLENBQUMsQ0FBQztRQUNyRCxJQUFJLGVBQWUsS0FBSyxTQUFTLEVBQUU7WUFDL0IsVUFBVSxHQUFHLDZCQUFpQixDQUFDLGVBQWUsQ0FBQyxDQUFDO1lBQ2hELE1BQU0sR0FBRyxFQUFFLEtBQUssRUFBRSxlQUFlLEVBQUUsTUFBTSxFQUFFLG1CQUFtQixFQUFFLFlBQVksRUFBRSxlQUFlLENBQUMsY0FBYyxDQUFDLElBQUksRUFBRSxDQUFDLFdBQVcsRUFBRSxFQUFFLGVBQWUsQ0FBQyxFQUFFLENBQUM7WUFDdEosTUFBTSxDQUFDLE1BQU0sQ0FBQyxDQUFDLEtBQUssRUFBRSxLQUFLLENBQUMsQ0FBQyxDQUFFLHVEQUF1RDtZQUN0RixNQUFNO1NBQ1Q7S0FDSjtJQUVELDJGQUEyRjtJQUMzRixtRUFBbUU7SUFFbkUsSUFBSSxZQUFZLEdBQUcsQ0FBQyxNQUFNLENBQUMsTUFBTSxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxTQUFTLENBQUMsQ0FBQyxDQUFDLDhCQUFrQixDQUFDLE1BQU0sQ0FBQyxNQUFNLENBQUMsTUFBTSxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUM7SUFDckcsSUFBSSxnQkFBZ0IsR0FBZ0IsSUFBSSxDQUFDLGNBQWMsQ0FBQyxDQUFDO0lBQ3pELElBQUksWUFBWSxLQUFLLFNBQVMsRUFBRTtRQUM1QixnQkFBZ0IsR0FBRyxFQUFFLEtBQUssRUFBRSxZQUFZLENBQUMsS0FBSyxFQUFFLE1BQU0sRUFBRSxZQUFZLENBQUMsY0FBYyxDQUFDLENBQUMsQ0FBQyxxQkFBcUIsQ0FBQyxDQUFDLENBQUMsaUJBQWlCLEVBQUUsQ0FBQztRQUNsSSxNQUFNLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsRUFBRSxZQUFZLENBQUMsS0FBSyxDQUFDLENBQUMsQ0FBRSw0REFBNEQ7S0FDMUc7SUFFRCwwRkFBMEY7SUFDMUYseUZBQXlGO0lBQ3pGLHlFQUF5RTtJQUV6RSxJQUFJLFVBQVUsR0FBRyxTQUFTLENBQUM7SUFDM0IsSUFBSSxNQUFNLEdBQWdCLElBQUksQ0FBQyxXQUFXLENBQUMsQ0FBQztJQUM1QyxLQUFLLElBQUksS0FBSyxHQUFHLENBQUMsRUFBRSxLQUFLLElBQUksQ0FBQyxFQUFFLEtBQUssRUFBRSxFQUFFO1FBQ3JDLElBQUksY0FBYyxHQUFHLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQyxLQUFLLENBQUMsQ0FBQyxJQUFJLENBQUMsR0FBRyxDQUFDLENBQUM7UUFDcEQsSUFBSSxlQUFlLEdBQUcsMEJBQWMsQ0FBQyxjQUFjLENBQUMsQ0FBQztRQUNyRCxJQUFJLGVBQWUsS0FBSyxTQUFTLEVBQUU7WUFDL0IsVUFBVSxHQUFHLGVBQWUsQ0FBQztZQUM3QixNQUFNLEdBQUcsRUFBRSxLQUFLLEVBQUUsZUFBZSxFQUFFLE1BQU0sRUFBRSxtQkFBbUIsRUFBRSxZQUFZLEVBQUUsZUFBZSxDQUFDLGNBQWMsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxXQUFXLEVBQUUsRUFBRSxlQUFlLENBQUMsRUFBRSxDQUFDO1lBQ3RKLElBQUksV0FBVyxHQUFHLGdDQUFvQixDQUFDLGVBQWUsQ0FBQyxDQUFDO1lBQ3hELE1BQU0sQ0FBQyxNQUFNLENBQUMsQ0FBQyxLQUFLLEVBQUUsS0FBSyxDQUFDLENBQUMsQ0FBRSx1REFBdUQ7WUFFdEYsbUZBQW1GO1lBQ25GLG1GQUFtRjtZQUNuRiw4RUFBOEU7WUFDOUUsdUVBQXVFO1lBRXZFLElBQUksVUFBVSxLQUFLLFNBQVMsSUFBSSxXQUFXLENBQUMsTUFBTSxLQUFLLENBQUMsRUFBRTtnQkFDdEQsVUFBVSxHQUFHLDZCQUFpQixDQUFDLFdBQVcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO2dCQUMvQyxNQUFNLEdBQUcsRUFBRSxLQUFLLEVBQUUsV0FBVyxDQUFDLENBQUMsQ0FBQyxFQUFFLE1BQU0sRUFBRSxzQkFBc0IsRUFBRSxDQUFDO2FBQ3RFO1lBRUQsTUFBTTtTQUNUO0tBQ0o7SUFFRCw0RkFBNEY7SUFDNUYsNEZBQTRGO0lBQzVGLGtCQUFrQjtJQUVsQixJQUFJLFlBQVksR0FBZ0IsQ0FBQyxRQUFRLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLElBQUksQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRSxLQUFLLEVBQUUsUUFBUSxFQUFFLE1BQU0sRUFBRSxTQUFTLEVBQUUsQ0FBQztJQUNqSCxJQUFJLFVBQVUsS0FBSyxTQUFTLEVBQUU7UUFDMUIsSUFBSSxjQUFjLEdBQUcsQ0FBQyxlQUFlLENBQUMsSUFBSSxDQUFDLFVBQVUsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO1FBQ2pFLElBQUksUUFBUSxLQUFLLFNBQVM7WUFDdEIsVUFBVSxHQUFHLFVBQVUsQ0FBQyxPQUFPLENBQUMsY0FBYyxFQUFFLEdBQUcsR0FBRyxRQUFRLENBQUMsQ0FBQzthQUMvRCxJQUFJLGNBQWMsS0FBSyxTQUFTO1lBQ2pDLFlBQVksR0FBRyxFQUFFLEtBQUssRUFBRSxjQUFjLEVBQUUsTUFBTSxFQUFFLGFBQWEsRUFBRSxDQUFDO0tBQ3ZFO0lBRUQsa0ZBQWtGO0lBRWxGLElBQUksVUFBVSxHQUFHLENBQUMsVUFBVSxLQUFLLFNBQVMsSUFBSSxVQUFVLENBQUMsSUFBSSxFQUFFLEtBQUssRUFBRSxDQUFDLENBQUM7SUFDeEUsSUFBSSxXQUFXLEdBQUcsRUFBRSxDQUFDO0lBQ3JCLElBQUksVUFBVTtRQUNWLE9BQU8sR0FBRyxlQUFlLENBQUM7U0FDekI7UUFDRCxXQUFXLEdBQUcsTUFBTSxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQztRQUN0QyxJQUFJLFVBQVUsS0FBSyxTQUFTLElBQUksVUFBVSxDQUFDLElBQUksRUFBRSxLQUFLLEVBQUU7WUFDcEQsTUFBTSxDQUFDLElBQUksQ0FBQyxVQUFVLENBQUMsQ0FBQztRQUM1QixJQUFJLGFBQWEsR0FBRyxNQUFNLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDO1FBQzVDLE9BQU8sR0FBRyxhQUFhLEdBQUcsQ0FBQyxhQUFhLEtBQUssRUFBRSxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsQ0FBQyxDQUFDLElBQUksQ0FBQyxHQUFHLFVBQVUsQ0FBQztLQUM3RTtJQUVELDRGQUE0RjtJQUM1RixlQUFlO0lBRWYsSUFBSSxVQUFVLEdBQUcsQ0FBQyxDQUFDO0lBQ25CLElBQUksVUFBVTtRQUNWLFVBQVUsSUFBSSxHQUFHLENBQUM7U0FDakIsSUFBSSxNQUFNLENBQUMsTUFBTSxLQUFLLHNCQUFzQjtRQUM3QyxVQUFVLElBQUksSUFBSSxDQUFDO0lBQ3ZCLElBQUksTUFBTSxDQUFDLE1BQU0sS0FBSyxXQUFXO1FBQzdCLFVBQVUsSUFBSSxHQUFHLENBQUM7SUFDdEIsSUFBSSxnQkFBZ0IsQ0FBQyxNQUFNLEtBQUssY0FBYztRQUMxQyxVQUFVLElBQUksR0FBRyxDQUFDO0lBQ3RCLElBQUksUUFBUSxLQUFLLFNBQVM7UUFDdEIsVUFBVSxJQUFJLEdBQUcsQ0FBQztJQUN0QixVQUFVLElBQUksR0FBRyxHQUFHLENBQUMsQ0FBQyxNQUFNLENBQUMsWUFBWSxJQUFJLENBQUMsQ0FBQyxHQUFHLENBQUMsTUFBTSxDQUFDLFlBQVksSUFBSSxDQUFDLENBQUMsQ0FBQyxDQUFDO0lBQzlFLFVBQVUsR0FBRyxJQUFJLENBQUMsR0FBRyxDQUFDLENBQUMsRUFBRSxJQUFJLENBQUMsS0FBSyxDQUFDLFVBQVUsR0FBRyxHQUFHLENBQUMsR0FBRyxHQUFHLENBQUMsQ0FBQztJQUU3RCxPQUFPO1FBQ0gsSUFBSSxFQUFFLE9BQU87UUFDYixXQUFXLEVBQUUsRUFBRSxLQUFLLEVBQUUsV0FBVyxFQUFFLE1BQU0sRUFBRSxDQUFDLFdBQVcsS0FBSyxFQUFFLENBQUMsQ0FBQyxDQUFDLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxTQUFTLEVBQUU7UUFDdEYsVUFBVSxFQUFFLE1BQU07UUFDbEIsWUFBWSxFQUFFLGdCQUFnQjtRQUM5QixNQUFNLEVBQUUsTUFBTTtRQUNkLEtBQUssRUFBRSxFQUFFLEtBQUssRUFBRSxLQUFLLEVBQUUsTUFBTSxFQUFFLFdBQVcsRUFBRTtRQUM1QyxRQUFRLEVBQUUsWUFBWTtRQUN0QixVQUFVLEVBQUUsVUFBVTtRQUN0QixVQUFVLEVBQUUsVUFBVTtRQUN0QixlQUFlLEVBQUUsVUFBVSxHQUFHLG9CQUFvQjtLQUNyRCxDQUFDO0FBQ04sQ0FBQztBQXpLRCxvQ0F5S0M7QUFnQkQsOEZBQThGO0FBQzlGLEVBQUU7QUFDRix1REFBdUQ7QUFDdkQsRUFBRTtBQUNGLG1GQUFtRjtBQUNuRixFQUFFO0FBQ0YsdURBQXVEO0FBRXZELFNBQWdCLHFCQUFxQixDQUFDLGdCQUF3QjtJQUMxRCxJQUFJLElBQUksR0FBRyxnQkFBZ0IsQ0FBQyxXQUFXLEVBQUUsQ0FBQyxPQUFPLENBQUMsUUFBUSxFQUFFLEdBQUcsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDO0lBQ3hFLElBQUksS0FBSyxHQUFHLENBQUMsT0FBZSxFQUFFLEVBQUUsQ0FBQyxDQUFDLE9BQU8sQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLElBQUksRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDO0lBRXJFLElBQUksR0FBRyxHQUFHLEtBQUssQ0FBQywyQ0FBMkMsQ0FBQyxDQUFDO0lBQzdELElBQUksT0FBTyxHQUFHLEtBQUssQ0FBQyxxREFBcUQsQ0FBQyxDQUFDO0lBQzNFLElBQUksU0FBUyxHQUFHLEtBQUssQ0FBQywyREFBMkQsQ0FBQyxDQUFDO0lBRW5GLDBGQUEwRjtJQUUxRixJQUFJLFFBQVEsR0FBRyxFQUFFLENBQUM7SUFDbEIsSUFBSSxVQUFVLEdBQUcsRUFBRSxDQUFDO0lBQ3BCLElBQUksU0FBUyxHQUFHLHdFQUF3RSxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUMsQ0FBQztJQUNwRyxJQUFJLFNBQVMsS0FBSyxJQUFJLEVBQUU7UUFDcEIsUUFBUSxHQUFHLEVBQUUsZ0JBQWdCLEVBQUUsSUFBSSxFQUFFLFlBQVksRUFBRSxJQUFJLEVBQUUsZ0JBQWdCLEVBQUUsSUFBSSxFQUFFLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLElBQUksU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDO1FBQ2hILFVBQVUsR0FBRyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUM7S0FDN0I7SUFFRCw2RkFBNkY7SUFDN0YsZUFBZTtJQUVmLElBQUksV0FBVyxHQUFHLEVBQUUsQ0FBQztJQUNyQixJQUFJLFVBQVUsR0FBRyxFQUFFLENBQUM7SUFDcEIsSUFBSSxVQUFVLEdBQUcsZ0hBQWdILENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxDQUFDO0lBQzdJLElBQUksVUFBVSxLQUFLLElBQUksRUFBRTtRQUNyQixXQUFXLEdBQUcsVUFBVSxDQUFDLENBQUMsQ0FBQyxDQUFDO1FBQzVCLFVBQVUsR0FBRyxVQUFVLENBQUMsQ0FBQyxDQUFDLENBQUM7S0FDOUI7SUFFRCx3RkFBd0Y7SUFDeEYsdUVBQXVFO0lBRXZFLElBQUksT0FBTyxHQUFHLEVBQUUsQ0FBQztJQUNqQixJQUFJLFlBQVksR0FBRywrREFBK0QsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLENBQUM7SUFDOUYsSUFBSSxZQUFZLEtBQUssSUFBSSxFQUFFO1FBQ3ZCLElBQUksTUFBTSxHQUFHLFlBQVksQ0FBQyxDQUFDLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLENBQUM7UUFDL0MsS0FBSyxJQUFJLEtBQUssR0FBRyxJQUFJLENBQUMsR0FBRyxDQUFDLENBQUMsRUFBRSxNQUFNLENBQUMsTUFBTSxDQUFDLEVBQUUsS0FBSyxJQUFJLENBQUMsRUFBRSxLQUFLLEVBQUUsRUFBRTtZQUM5RCxJQUFJLGdCQUFnQixHQUFHLDJCQUFlLENBQUMsTUFBTSxDQUFDLEtBQUssQ0FBQyxDQUFDLEVBQUUsS0FBSyxDQUFDLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxDQUFDLENBQUM7WUFDekUsSUFBSSxnQkFBZ0IsS0FBSyxTQUFTLEVBQUU7Z0JBQ2hDLE9BQU8sR0FBRyxnQkFBZ0IsQ0FBQztnQkFDM0IsTUFBTTthQUNUO1NBQ0o7S0FDSjtJQUVELDJGQUEyRjtJQUMzRixrQkFBa0I7SUFFbEIsSUFBSSxLQUFLLEdBQUcsRUFBRSxDQUFDO0lBQ2YsSUFBSSxHQUFHLEtBQUssRUFBRTtRQUNWLEtBQUssQ0FBQyxJQUFJLENBQUMsT0FBTyxHQUFHLEVBQUUsQ0FBQyxDQUFDO0lBQzdCLElBQUksU0FBUyxLQUFLLEVBQUU7UUFDaEIsS0FBSyxDQUFDLElBQUksQ0FBQyxhQUFhLFNBQVMsRUFBRSxDQUFDLENBQUM7SUFDekMsSUFBSSxPQUFPLEtBQUssRUFBRTtRQUNkLEtBQUssQ0FBQyxJQUFJLENBQUMsV0FBVyxPQUFPLEVBQUUsQ0FBQyxDQUFDO0lBQ3JDLElBQUksUUFBUSxLQUFLLEVBQUU7UUFDZixLQUFLLENBQUMsSUFBSSxDQUFDLEdBQUcsUUFBUSxJQUFJLFVBQVUsRUFBRSxDQUFDLENBQUM7SUFDNUMsSUFBSSxXQUFXLEtBQUssRUFBRTtRQUNsQixLQUFLLENBQUMsSUFBSSxDQUFDLE1BQU0sV0FBVyxJQUFJLFVBQVUsRUFBRSxDQUFDLENBQUM7SUFDbEQsSUFBSSxPQUFPLEtBQUssRUFBRTtRQUNkLEtBQUssQ0FBQyxJQUFJLENBQUMsY0FBYyxPQUFPLEVBQUUsQ0FBQyxDQUFDO0lBRXhDLE9BQU87UUFDSCxJQUFJLEVBQUUsQ0FBQyxLQUFLLENBQUMsTUFBTSxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxnQkFBZ0IsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxPQUFPLENBQUMsUUFBUSxFQUFFLEdBQUcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQztRQUM3RixHQUFHLEVBQUUsR0FBRztRQUNSLE9BQU8sRUFBRSxPQUFPO1FBQ2hCLFNBQVMsRUFBRSxTQUFTO1FBQ3BCLFFBQVEsRUFBRSxRQUFRO1FBQ2xCLFVBQVUsRUFBRSxVQUFVO1FBQ3RCLFdBQVcsRUFBRSxXQUFXO1FBQ3hCLFVBQVUsRUFBRSxVQUFVO1FBQ3RCLE9BQU8sRUFBRSxPQUFPO0tBQ25CLENBQUM7QUFDTixDQUFDO0FBekVELHNEQXlFQztBQUVELCtGQUErRjtBQUMvRiwrRkFBK0Y7QUFDL0YsaUdBQWlHO0FBQ2pHLCtDQUErQztBQUUvQyxTQUFnQix1QkFBdUIsQ0FBQyxPQUFlO0lBQ25ELElBQUksSUFBSSxHQUFHLENBQUMsTUFBYyxFQUFFLEVBQUUsQ0FBQyxDQUFDLEVBQUUsS0FBSyxFQUFFLEVBQUUsRUFBRSxNQUFNLEVBQUUsTUFBTSxFQUFFLENBQUMsQ0FBQztJQUMvRCxJQUFJLFVBQVUsR0FBRyw2QkFBaUIsQ0FBQyxPQUFPLENBQUMsQ0FBQztJQUM1QyxJQUFJLFFBQVEsR0FBRyxDQUFDLFVBQVUsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsZUFBZSxDQUFDLElBQUksQ0FBQyxVQUFVLENBQUMsSUFBSSxFQUFFLENBQUMsQ0FBQyxDQUFDLENBQUMsSUFBSSxFQUFFLENBQUMsQ0FBQztJQUNyRyxPQUFPO1FBQ0gsSUFBSSxFQUFFLENBQUMsVUFBVSxLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxjQUFjLE9BQU8sTUFBTSxDQUFDLENBQUMsQ0FBQyxVQUFVO1FBQzNFLFdBQVcsRUFBRSxJQUFJLENBQUMsTUFBTSxDQUFDO1FBQ3pCLFVBQVUsRUFBRSxJQUFJLENBQUMsTUFBTSxDQUFDO1FBQ3hCLFlBQVksRUFBRSxJQUFJLENBQUMsTUFBTSxDQUFDO1FBQzFCLE1BQU0sRUFBRSxFQUFFLEtBQUssRUFBRSxDQUFDLFVBQVUsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsQ0FBQyxPQUFPLEVBQUUsTUFBTSxFQUFFLFNBQVMsRUFBRTtRQUMvRSxLQUFLLEVBQUUsRUFBRSxLQUFLLEVBQUUsSUFBSSxFQUFFLE1BQU0sRUFBRSxTQUFTLEVBQUU7UUFDekMsUUFBUSxFQUFFLENBQUMsUUFBUSxLQUFLLEVBQUUsQ0FBQyxDQUFDLENBQUMsQ0FBQyxJQUFJLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxDQUFDLEVBQUUsS0FBSyxFQUFFLFFBQVEsRUFBRSxNQUFNLEVBQUUsYUFBYSxFQUFFO1FBQ3ZGLFVBQVUsRUFBRSxLQUFLO1FBQ2pCLFVBQVUsRUFBRSxDQUFDLFVBQVUsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsR0FBRyxDQUFDLENBQUMsQ0FBQyxHQUFHO1FBQ2xELGVBQWUsRUFBRSxJQUFJO0tBQ3hCLENBQUM7QUFDTixDQUFDO0FBaEJELDBEQWdCQztBQTBDRCxpR0FBaUc7QUFDakcsZ0dBQWdHO0FBQ2hHLDBEQUEwRDtBQUU3QyxRQUFBLGNBQWMsR0FBRyxDQUFDLENBQUM7QUFFaEMsK0ZBQStGO0FBQy9GLGtHQUFrRztBQUNsRywrRkFBK0Y7QUFDL0Ysb0JBQW9CO0FBRXBCLFNBQVMsb0JBQW9CLENBQUMsZUFBZ0M7SUFDMUQsSUFBSSxPQUFPLEdBQUcsZUFBZSxDQUFDLE9BQU8sQ0FBQztJQUN0QyxJQUFJLG9CQUFvQixHQUFHLGVBQWUsQ0FBQyxnQkFBZ0IsQ0FBQztJQUU1RCxJQUFJLGdCQUFnQixHQUFHLENBQUMsQ0FBQyxPQUFPLENBQUMsVUFBVSxDQUFDLE1BQU0sQ0FBQyxJQUFJLE9BQU8sQ0FBQyxVQUFVLENBQUMsd0JBQXdCLENBQUMsQ0FBQyxDQUFDO0lBQ3JHLElBQUksT0FBTyxDQUFDLFVBQVUsQ0FBQyxNQUFNLENBQUM7UUFDMUIsb0JBQW9CLEdBQUcsQ0FBQyxPQUFPLEdBQUcsR0FBRyxHQUFHLG9CQUFvQixDQUFDLENBQUMsSUFBSSxFQUFFLENBQUM7SUFDekUsSUFBSSxnQkFBZ0IsR0FBRyxxQkFBcUIsQ0FBQyxvQkFBb0IsQ0FBQyxDQUFDO0lBRW5FLElBQUksYUFBYSxHQUFHLFlBQVksQ0FBQyxPQUFPLENBQUMsQ0FBQztJQUMxQyxJQUFJLENBQUMsZ0JBQWdCLElBQUksZ0JBQWdCLENBQUMsT0FBTyxLQUFLLEVBQUU7UUFDcEQsYUFBYSxHQUFHLHVCQUF1QixDQUFDLGdCQUFnQixDQUFDLE9BQU8sQ0FBQyxDQUFDO0lBQ3RFLE9BQU8sRUFBRSxhQUFhLEVBQUUsYUFBYSxFQUFFLGdCQUFnQixFQUFFLGdCQUFnQixFQUFFLENBQUM7QUFDaEYsQ0FBQztBQUVELCtGQUErRjtBQUMvRiw2RkFBNkY7QUFDN0YsZ0dBQWdHO0FBQ2hHLDhGQUE4RjtBQUM5RixnR0FBZ0c7QUFDaEcsYUFBYTtBQUViLFNBQVMsZ0JBQWdCLENBQUMsUUFBbUIsRUFBRSxjQUFzQixFQUFFLFFBQWtCLEVBQUUsT0FBdUI7SUFDOUcsSUFBSSxNQUFNLEdBQUcsc0JBQWEsQ0FBQyxRQUFRLEVBQUUsdUJBQWMsQ0FBQyxRQUFRLEVBQUUsT0FBTyxDQUFDLGFBQWEsQ0FBQyxDQUFDLENBQUM7SUFFdEYsSUFBSSxzQkFBc0IsR0FBRyxpQkFBUSxDQUFDLE1BQU0sRUFBRSxtQkFBbUIsQ0FBQyxDQUFDO0lBQ25FLElBQUksc0JBQXNCLEtBQUssU0FBUyxFQUFFO1FBQ3RDLFFBQVEsQ0FBQyxJQUFJLENBQUMsdUNBQXVDLENBQUMsQ0FBQztRQUN2RCxPQUFPLENBQUMsR0FBRyxDQUFDLDhEQUE4RCxDQUFDLENBQUM7UUFDNUUsT0FBTyxTQUFTLENBQUM7S0FDcEI7SUFFRCx5RUFBeUU7SUFDekUsMkVBQTJFO0lBRTNFLElBQUksaUJBQWlCLEdBQUcsZ0JBQU8sQ0FBQyxzQkFBc0IsQ0FBQyxRQUFRLENBQUMsQ0FBQyxPQUFPLENBQUMsS0FBSyxFQUFFLEVBQUUsQ0FBQyxDQUFDO0lBRXBGLElBQUksaUJBQWlCLEtBQUssRUFBRSxFQUFFO1FBQzFCLFFBQVEsQ0FBQyxJQUFJLENBQUMsb0NBQW9DLENBQUMsQ0FBQztRQUNwRCxPQUFPLENBQUMsR0FBRyxDQUFDLDhJQUE4SSxDQUFDLENBQUM7UUFDNUosT0FBTyxTQUFTLENBQUM7S0FDcEI7SUFFRCxPQUFPLENBQUMsR0FBRyxDQUFDLGVBQWUsaUJBQWlCLEtBQUssQ0FBQyxDQUFDO0lBRW5ELHlCQUF5QjtJQUV6QixJQUFJLFlBQVksR0FBRyxNQUFNLENBQUMsT0FBTyxFQUFFLENBQUM7SUFDcEMsSUFBSSxpQkFBaUIsR0FBRyxpQkFBUSxDQUFDLE1BQU0sRUFBRSxjQUFjLENBQUMsQ0FBQztJQUN6RCxJQUFJLGlCQUFpQixLQUFLLFNBQVM7UUFDL0IsUUFBUSxDQUFDLElBQUksQ0FBQyxzREFBc0QsQ0FBQyxDQUFDO1NBQ3JFLElBQUksaUJBQWlCLENBQUMsUUFBUSxDQUFDLE1BQU0sS0FBSyxDQUFDO1FBQzVDLFFBQVEsQ0FBQyxJQUFJLENBQUMsK0JBQStCLENBQUMsQ0FBQztTQUM5QztRQUNELElBQUksZ0JBQWdCLEdBQUcsZ0JBQU8sQ0FBQyxpQkFBaUIsQ0FBQyxRQUFRLENBQUMsQ0FBQztRQUMzRCxZQUFZLEdBQUcsTUFBTSxDQUFDLGdCQUFnQixFQUFFLFdBQVcsRUFBRSxJQUFJLENBQUMsQ0FBQyxDQUFFLG1EQUFtRDtRQUNoSCxJQUFJLENBQUMsWUFBWSxDQUFDLE9BQU8sRUFBRTtZQUN2QixRQUFRLENBQUMsSUFBSSxDQUFDLHNCQUFzQixnQkFBZ0Isd0JBQXdCLENBQUMsQ0FBQztLQUNyRjtJQUVELHVCQUF1QjtJQUV2QixJQUFJLGNBQWMsR0FBRyxpQkFBUSxDQUFDLE1BQU0sRUFBRSxXQUFXLENBQUMsQ0FBQztJQUNuRCxJQUFJLGNBQWMsS0FBSyxTQUFTLEVBQUU7UUFDOUIsUUFBUSxDQUFDLElBQUksQ0FBQywyRUFBMkUsQ0FBQyxDQUFDO1FBQzNGLE9BQU8sQ0FBQyxHQUFHLENBQUMscUhBQXFILENBQUMsQ0FBQztLQUN0STtJQUNELElBQUksZ0JBQWdCLEdBQUcsaUJBQVEsQ0FBQyxNQUFNLEVBQUUsYUFBYSxDQUFDLENBQUM7SUFDdkQsSUFBSSxXQUFXLEdBQUcsQ0FBQyxnQkFBZ0IsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsQ0FBQyxnQkFBTyxDQUFDLGdCQUFnQixDQUFDLFFBQVEsQ0FBQyxDQUFDO0lBRTdGLHlDQUF5QztJQUV6QyxJQUFJLG9CQUFvQixHQUFHLGlCQUFRLENBQUMsTUFBTSxFQUFFLGlCQUFpQixDQUFDLENBQUM7SUFDL0QsSUFBSSxvQkFBb0IsS0FBSyxTQUFTLEVBQUU7UUFDcEMsUUFBUSxDQUFDLElBQUksQ0FBQyw2Q0FBNkMsQ0FBQyxDQUFDO1FBQzdELE9BQU8sQ0FBQyxHQUFHLENBQUMsMkdBQTJHLENBQUMsQ0FBQztRQUN6SCxPQUFPLFNBQVMsQ0FBQztLQUNwQjtJQUVELDhEQUE4RDtJQUU5RCxJQUFJLFdBQVcsR0FBRyxzQkFBYSxDQUFDLG9CQUFvQixDQUFDLFFBQVEsQ0FBQyxDQUFDO0lBRS9ELElBQUksZUFBZSxHQUFvQjtRQUNuQyxPQUFPLEVBQUUsQ0FBQyxXQUFXLENBQUMsTUFBTSxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsQ0FBQyxDQUFDLGdCQUFPLENBQUMsV0FBVyxDQUFDLENBQUMsQ0FBQyxDQUFDO1FBQ2hFLGdCQUFnQixFQUFFLENBQUMsV0FBVyxDQUFDLE1BQU0sR0FBRyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsQ0FBQyxnQkFBTyxDQUFDLEVBQUUsQ0FBQyxNQUFNLENBQUMsR0FBRyxXQUFXLENBQUMsS0FBSyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUM7S0FDaEcsQ0FBQztJQUVGLDRGQUE0RjtJQUM1RixvREFBb0Q7SUFFcEQsSUFBSSxTQUFTLEdBQUcsRUFBRSxDQUFDO0lBQ25CLElBQUksY0FBYyxLQUFLLFNBQVMsRUFBRTtRQUM5QixJQUFJLGFBQWEsR0FBRyxzQkFBYSxDQUFDLGNBQWMsQ0FBQyxRQUFRLENBQUMsQ0FBQztRQUMzRCxJQUFJLGFBQWEsQ0FBQyxNQUFNLEdBQUcsQ0FBQztZQUN4QixTQUFTLEdBQUcsZ0JBQU8sQ0FBQyxhQUFhLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQztLQUM3QztJQUVELHlGQUF5RjtJQUV6RixJQUFJLG9CQUFvQixHQUFXLFNBQVMsQ0FBQztJQUM3QyxJQUFJLDBCQUEwQixHQUFHLGlCQUFRLENBQUMsTUFBTSxFQUFFLHVCQUF1QixDQUFDLENBQUM7SUFDM0UsSUFBSSwwQkFBMEIsS0FBSyxTQUFTLEVBQUU7UUFDMUMsSUFBSSxJQUFJLEdBQUcsZ0JBQU8sQ0FBQywwQkFBMEIsQ0FBQyxRQUFRLENBQUMsQ0FBQyxPQUFPLENBQUMsU0FBUyxFQUFFLEVBQUUsQ0FBQyxDQUFDO1FBQy9FLElBQUksZUFBZSxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUM7WUFDMUIsb0JBQW9CLEdBQUcsTUFBTSxDQUFDLElBQUksQ0FBQyxDQUFDO0tBQzNDO0lBRUQsdUVBQXVFO0lBRXZFLElBQUksU0FBUyxHQUFhLEVBQUUsQ0FBQztJQUM3QixJQUFJLGNBQWMsR0FBRyxpQkFBUSxDQUFDLE1BQU0sRUFBRSxXQUFXLENBQUMsQ0FBQztJQUNuRCxJQUFJLGNBQWMsS0FBSyxTQUFTO1FBQzVCLFNBQVMsR0FBRyxzQkFBYSxDQUFDLGNBQWMsQ0FBQyxRQUFRLENBQUM7YUFDN0MsR0FBRyxDQUFDLEdBQUcsQ0FBQyxFQUFFLENBQUMsZ0JBQU8sQ0FBQyxHQUFHLENBQUMsQ0FBQzthQUN4QixNQUFNLENBQUMsUUFBUSxDQUFDLEVBQUUsQ0FBQyxRQUFRLEtBQUssRUFBRSxJQUFJLENBQUMsVUFBVSxDQUFDLElBQUksQ0FBQyxRQUFRLENBQUMsQ0FBQyxDQUFDO0lBRTNFLHdGQUF3RjtJQUV4RixJQUFJLFNBQVMsR0FBeUMsRUFBRSxDQUFDO0lBQ3pELEtBQUssSUFBSSxhQUFhLElBQUksTUFBTSxDQUFDLE1BQU0sQ0FBQyxXQUFXLENBQUMsSUFBSSxFQUFFLEVBQUU7UUFDeEQsSUFBSSxZQUFZLEdBQUcsTUFBTSxDQUFDLGdCQUFPLENBQUMsYUFBYSxDQUFDLFFBQVEsQ0FBQyxFQUFFLFdBQVcsRUFBRSxJQUFJLENBQUMsQ0FBQztRQUM5RSxJQUFJLFlBQVksQ0FBQyxPQUFPLEVBQUU7WUFDdEIsU0FBUyxDQUFDLElBQUksQ0FBQyxFQUFFLFFBQVEsRUFBRSxhQUFhLENBQUMsT0FBTyxDQUFDLElBQUksQ0FBQyxJQUFJLEVBQUUsQ0FBQyxPQUFPLENBQUMsT0FBTyxFQUFFLEVBQUUsQ0FBQyxDQUFDLE9BQU8sQ0FBQyxRQUFRLEVBQUUsR0FBRyxDQUFDLEVBQUUsSUFBSSxFQUFFLFlBQVksQ0FBQyxNQUFNLENBQUMsWUFBWSxDQUFDLEVBQUUsQ0FBQyxDQUFDO0tBQzVKO0lBRUQsT0FBTztRQUNILE9BQU8sRUFBRSxPQUFPLENBQUMsSUFBSTtRQUNyQixpQkFBaUIsRUFBRSxpQkFBaUI7UUFDcEMsV0FBVyxFQUFFLENBQUMsV0FBVyxLQUFLLEVBQUUsQ0FBQyxDQUFDLENBQUMsQ0FBQyx5QkFBeUIsQ0FBQyxDQUFDLENBQUMsV0FBVztRQUMzRSxjQUFjLEVBQUUsY0FBYztRQUM5QixVQUFVLEVBQUUsT0FBTyxDQUFDLFVBQVU7UUFDOUIsVUFBVSxFQUFFLE1BQU0sRUFBRSxDQUFDLE1BQU0sQ0FBQyxZQUFZLENBQUM7UUFDekMsWUFBWSxFQUFFLFlBQVksQ0FBQyxPQUFPLEVBQUUsQ0FBQyxDQUFDLENBQUMsWUFBWSxDQUFDLE1BQU0sQ0FBQyxZQUFZLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRTtRQUM3RSxlQUFlLEVBQUUsZUFBZTtRQUNoQyxTQUFTLEVBQUUsU0FBUztRQUNwQixvQkFBb0IsRUFBRSxvQkFBb0I7UUFDMUMsU0FBUyxFQUFFLFNBQVM7UUFDcEIsU0FBUyxFQUFFLFNBQVM7S0FDdkIsQ0FBQztBQUNOLENBQUM7QUFFRCw0RkFBNEY7QUFDNUYsaUdBQWlHO0FBQ2pHLHNGQUFzRjtBQUV0RixTQUFTLFVBQVUsQ0FBQyxXQUFXLEVBQUUsUUFBa0I7SUFDL0MsSUFBSSxFQUFFLGFBQWEsRUFBRSxnQkFBZ0IsRUFBRSxHQUFHLG9CQUFvQixDQUFDLFdBQVcsQ0FBQyxlQUFlLENBQUMsQ0FBQztJQUM1RixJQUFJLE9BQU8sR0FBRyxhQUFhLENBQUMsSUFBSSxDQUFDO0lBQ2pDLElBQUksYUFBYSxDQUFDLGVBQWUsSUFBSSxPQUFPLEtBQUssRUFBRTtRQUMvQyxPQUFPLENBQUMsR0FBRyxDQUFDLHFCQUFxQixPQUFPLDhCQUE4QixhQUFhLENBQUMsVUFBVSxtQ0FBbUMsQ0FBQyxDQUFDO0lBRXZJLElBQUksT0FBTyxLQUFLLEVBQUUsRUFBRTtRQUNoQixRQUFRLENBQUMsSUFBSSxDQUFDLHlCQUF5QixDQUFDLENBQUM7UUFDekMsT0FBTyxDQUFDLEdBQUcsQ0FBQyxrSEFBa0gsQ0FBQyxDQUFDO1FBQ2hJLE9BQU8sU0FBUyxDQUFDO0tBQ3BCO0lBRUQsT0FBTztRQUNILE9BQU8sRUFBRSxXQUFXLENBQUMsT0FBTztRQUM1QixpQkFBaUIsRUFBRSxXQUFXLENBQUMsaUJBQWlCO1FBQ2hELE9BQU8sRUFBRSxPQUFPO1FBQ2hCLFdBQVcsRUFBRSxXQUFXLENBQUMsV0FBVztRQUNwQyxjQUFjLEVBQUUsV0FBVyxDQUFDLGNBQWM7UUFDMUMsVUFBVSxFQUFFLFdBQVcsQ0FBQyxVQUFVO1FBQ2xDLFVBQVUsRUFBRSxXQUFXLENBQUMsVUFBVTtRQUNsQyxZQUFZLEVBQUUsV0FBVyxDQUFDLFlBQVk7UUFDdEMsZ0JBQWdCLEVBQUUsV0FBVyxDQUFDLGVBQWUsQ0FBQyxnQkFBZ0I7UUFDOUQsc0JBQXNCLEVBQUUsZ0JBQWdCO1FBQ3hDLFNBQVMsRUFBRSxXQUFXLENBQUMsU0FBUztRQUNoQyxvQkFBb0IsRUFBRSxXQUFXLENBQUMsb0JBQW9CO1FBQ3RELFNBQVMsRUFBRSxXQUFXLENBQUMsU0FBUztRQUNoQyxTQUFTLEVBQUUsV0FBVyxDQUFDLFNBQVM7UUFDaEMsYUFBYSxFQUFFLGFBQWE7S0FDL0IsQ0FBQztBQUNOLENBQUM7QUFFRCwrRkFBK0Y7QUFDL0YsZ0dBQWdHO0FBQ2hHLDRGQUE0RjtBQUM1RixtRUFBbUU7QUFFbkUsU0FBZ0Isd0JBQXdCLENBQUMsUUFBbUIsRUFBRSxjQUFzQixFQUFFLFdBQXFCLEVBQUUsRUFBRSxVQUEwQix5QkFBYztJQUNuSixJQUFJLFdBQVcsR0FBRyxnQkFBZ0IsQ0FBQyxRQUFRLEVBQUUsY0FBYyxFQUFFLFFBQVEsRUFBRSxPQUFPLENBQUMsQ0FBQztJQUNoRixPQUFPLENBQUMsV0FBVyxLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxTQUFTLENBQUMsQ0FBQyxDQUFDLFVBQVUsQ0FBQyxXQUFXLEVBQUUsUUFBUSxDQUFDLENBQUM7QUFDdkYsQ0FBQztBQUhELDREQUdDO0FBRUQsZ0dBQWdHO0FBQ2hHLHdCQUF3QjtBQUVYLFFBQUEsbUJBQW1CLEdBQUcsR0FBRyxHQUFHLElBQUksR0FBRyxJQUFJLENBQUM7QUFFckQsNkJBQTZCO0FBRTdCLEtBQUssVUFBVSxPQUFPLENBQUMsTUFBYztJQUNqQyxPQUFPLE1BQU0sS0FBSyxDQUFDLFdBQVcsQ0FBQyxFQUFFLElBQUksRUFBRSxJQUFJLFVBQVUsQ0FBQyxNQUFNLENBQUMsTUFBTSxFQUFFLE1BQU0sQ0FBQyxVQUFVLEVBQUUsTUFBTSxDQUFDLFVBQVUsQ0FBQyxFQUFFLGVBQWUsRUFBRSxJQUFJLEVBQUUsWUFBWSxFQUFFLElBQUksRUFBRSxDQUFDLENBQUMsQ0FBRSwyRkFBMkY7QUFDMVAsQ0FBQztBQUVELCtGQUErRjtBQUMvRiw2QkFBNkI7QUFFN0IsS0FBSyxVQUFVLGVBQWUsQ0FBQyxJQUFJO0lBQy9CLElBQUksV0FBVyxHQUFHLE1BQU0sSUFBSSxDQUFDLGNBQWMsRUFBRSxDQUFDO0lBQzlDLElBQUksUUFBUSxHQUFHLE1BQU0sSUFBSSxDQUFDLFdBQVcsQ0FBQyxHQUFHLENBQUMsQ0FBQztJQUUzQyxJQUFJLFFBQVEsR0FBYyxXQUFXLENBQUMsS0FBSyxDQUFDLEdBQUcsQ0FBQyxJQUFJLENBQUMsRUFBRTtRQUNuRCxJQUFJLFNBQVMsR0FBRyxLQUFLLENBQUMsSUFBSSxDQUFDLFNBQVMsQ0FBQyxRQUFRLENBQUMsU0FBUyxFQUFFLElBQUksQ0FBQyxTQUFTLENBQUMsQ0FBQztRQUV6RSxtRkFBbUY7UUFDbkYsb0ZBQW9GO1FBQ3BGLG1GQUFtRjtRQUNuRixpQ0FBaUM7UUFFakMsSUFBSSxnQkFBZ0IsR0FBRyxJQUFJLENBQUMsSUFBSSxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsR0FBRyxTQUFTLENBQUMsQ0FBQyxDQUFDLEdBQUcsU0FBUyxDQUFDLENBQUMsQ0FBQyxHQUFHLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO1FBQzVGLE9BQU8sRUFBRSxJQUFJLEVBQUUsSUFBSSxDQUFDLEdBQUcsRUFBRSxDQUFDLEVBQUUsU0FBUyxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsRUFBRSxTQUFTLENBQUMsQ0FBQyxDQUFDLEVBQUUsS0FBSyxFQUFFLElBQUksQ0FBQyxLQUFLLEVBQUUsTUFBTSxFQUFFLGdCQUFnQixFQUFFLENBQUM7SUFDN0csQ0FBQyxDQUFDLENBQUM7SUFFSCxJQUFJLGVBQWUsR0FBRyxDQUFDLENBQUMsRUFBRSxDQUFDLEVBQUUsRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsR0FBRyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQztJQUNsSCxRQUFRLENBQUMsSUFBSSxDQUFDLGVBQWUsQ0FBQyxDQUFDO0lBQy9CLE9BQU8sUUFBUSxDQUFDO0FBQ3BCLENBQUM7QUFFRCwwQ0FBMEM7QUFFMUMsU0FBUyxlQUFlLENBQUMsS0FBYTtJQUNsQyxPQUFPLEdBQUcsQ0FBQyxLQUFLLEdBQUcsQ0FBQyxJQUFJLEdBQUcsSUFBSSxDQUFDLENBQUMsQ0FBQyxPQUFPLENBQUMsQ0FBQyxDQUFDLEtBQUssQ0FBQztBQUN0RCxDQUFDO0FBRUQsZ0dBQWdHO0FBQ2hHLDJGQUEyRjtBQUMzRixtQkFBbUI7QUFFTixRQUFBLGVBQWUsR0FBRyxDQUFDLENBQUM7QUFFakMsK0ZBQStGO0FBQy9GLGlHQUFpRztBQUNqRyw0REFBNEQ7QUFFL0MsUUFBQSxhQUFhLEdBQUcsQ0FBQyxDQUFDO0FBRS9CLDhGQUE4RjtBQUM5Riw0RkFBNEY7QUFDNUYsZ0dBQWdHO0FBQ2hHLCtCQUErQjtBQUVsQixRQUFBLG1CQUFtQixHQUFHLEVBQUUsR0FBRyxJQUFJLEdBQUcsSUFBSSxDQUFDO0FBRXBELGdHQUFnRztBQUNoRyxpRUFBaUU7QUFFMUQsS0FBSyxVQUFVLGVBQWUsQ0FBQyxNQUFjLEVBQUUsZUFBdUIsMkJBQW1CLEVBQUUsYUFBMkMsRUFBRSxFQUFFLGVBQXVCLDJCQUFtQjtJQUN2TCxJQUFJLEtBQUssR0FBZ0IsRUFBRSxDQUFDO0lBRTVCLHFGQUFxRjtJQUNyRiw2RkFBNkY7SUFDN0YsNkZBQTZGO0lBQzdGLHdGQUF3RjtJQUN4Riw0QkFBNEI7SUFFNUIsSUFBSSxHQUFHLEdBQUcsTUFBTSxPQUFPLENBQUMsTUFBTSxDQUFDLENBQUM7SUFDaEMsSUFBSSxTQUFTLEdBQUcsR0FBRyxDQUFDLFFBQVEsQ0FBQztJQUM3QixJQUFJLFNBQVMsR0FBRyxJQUFJLENBQUMsR0FBRyxFQUFFLENBQUM7SUFDM0IsSUFBSSxZQUFZLEdBQUcsQ0FBQyxDQUFDO0lBQ3JCLElBQUksV0FBVyxHQUFHLENBQUMsQ0FBQztJQUNwQixJQUFJLFlBQVksR0FBRyxPQUFPLENBQUMsV0FBVyxFQUFFLENBQUMsUUFBUSxDQUFDO0lBQ2xELElBQUksb0JBQW9CLEdBQUcsS0FBSyxDQUFDO0lBRWpDLElBQUk7UUFDQSxLQUFLLElBQUksVUFBVSxHQUFHLENBQUMsRUFBRSxVQUFVLElBQUksU0FBUyxFQUFFLFVBQVUsRUFBRSxFQUFFO1lBQzVELElBQUksYUFBYSxHQUFHLElBQUksQ0FBQyxHQUFHLEVBQUUsQ0FBQztZQUMvQixJQUFJLElBQUksR0FBRyxNQUFNLEdBQUcsQ0FBQyxPQUFPLENBQUMsVUFBVSxDQUFDLENBQUM7WUFDekMsS0FBSyxDQUFDLElBQUksQ0FBQyxNQUFNLGVBQWUsQ0FBQyxJQUFJLENBQUMsQ0FBQyxDQUFDO1lBQ3hDLElBQUksQ0FBQyxPQUFPLEVBQUUsQ0FBQztZQUVmLCtDQUErQztZQUUvQyxJQUFJLFFBQVEsR0FBRyxPQUFPLENBQUMsV0FBVyxFQUFFLENBQUMsUUFBUSxDQUFDO1lBQzlDLFlBQVksR0FBRyxJQUFJLENBQUMsR0FBRyxDQUFDLFlBQVksRUFBRSxRQUFRLENBQUMsQ0FBQztZQUNoRCxPQUFPLENBQUMsR0FBRyxDQUFDLGFBQWEsVUFBVSxPQUFPLFNBQVMsT0FBTyxJQUFJLENBQUMsR0FBRyxFQUFFLEdBQUcsYUFBYSxrQkFBa0IsZUFBZSxDQUFDLFFBQVEsQ0FBQyxJQUFJLENBQUMsQ0FBQztZQUVySSxJQUFJLFFBQVEsSUFBSSxZQUFZLElBQUksVUFBVSxLQUFLLFNBQVM7Z0JBQ3BELFNBQVM7WUFFYixxRkFBcUY7WUFDckYsK0VBQStFO1lBRS9FLElBQUksUUFBUSxHQUFHLFlBQVksR0FBRyxZQUFZLEVBQUU7Z0JBQ3hDLE9BQU8sQ0FBQyxHQUFHLENBQUMsOENBQThDLGVBQWUsQ0FBQyxZQUFZLENBQUMsK0JBQStCLENBQUMsQ0FBQztnQkFDeEgsTUFBTSxHQUFHLENBQUMsT0FBTyxFQUFFLENBQUM7Z0JBQ3BCLEdBQUcsR0FBRyxTQUFTLENBQUM7Z0JBQ2hCLElBQUksTUFBTSxDQUFDLEVBQUU7b0JBQ1QsTUFBTSxDQUFDLEVBQUUsRUFBRSxDQUFDO2dCQUNoQixHQUFHLEdBQUcsTUFBTSxPQUFPLENBQUMsTUFBTSxDQUFDLENBQUM7Z0JBQzVCLFlBQVksR0FBRyxPQUFPLENBQUMsV0FBVyxFQUFFLENBQUMsUUFBUSxDQUFDO2dCQUM5QyxXQUFXLEVBQUUsQ0FBQzthQUNqQjtpQkFBTSxJQUFJLENBQUMsb0JBQW9CLEVBQUU7Z0JBQzlCLE9BQU8sQ0FBQyxHQUFHLENBQUMsMkJBQTJCLGVBQWUsQ0FBQyxRQUFRLENBQUMsa0NBQWtDLGVBQWUsQ0FBQyxZQUFZLENBQUMsK0JBQStCLGVBQWUsQ0FBQyxZQUFZLENBQUMsNkRBQTZELENBQUMsQ0FBQztnQkFDMVAsb0JBQW9CLEdBQUcsSUFBSSxDQUFDO2FBQy9CO1NBQ0o7S0FDSjtZQUFTO1FBQ04sSUFBSSxHQUFHLEtBQUssU0FBUztZQUNqQixNQUFNLEdBQUcsQ0FBQyxPQUFPLEVBQUUsQ0FBQztLQUMzQjtJQUVELE1BQU0sQ0FBQyxNQUFNLENBQUMsVUFBVSxFQUFFLEVBQUUsU0FBUyxFQUFFLFNBQVMsRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLFlBQVksRUFBRSxZQUFZLEVBQUUsUUFBUSxFQUFFLElBQUksQ0FBQyxHQUFHLEVBQUUsR0FBRyxTQUFTLEVBQUUsQ0FBQyxDQUFDO0lBQzVJLE9BQU8sQ0FBQyxHQUFHLENBQUMsUUFBUSxTQUFTLGVBQWUsVUFBVSxDQUFDLFFBQVEsdUJBQXVCLGVBQWUsQ0FBQyxZQUFZLENBQUMsY0FBYyxXQUFXLFlBQVksQ0FBQyxDQUFDO0lBQzFKLE9BQU8sS0FBSyxDQUFDO0FBQ2pCLENBQUM7QUExREQsMENBMERDO0FBRUQsZ0dBQWdHO0FBQ2hHLGlHQUFpRztBQUNqRyxzRkFBc0Y7QUFFdEYsU0FBZ0IsbUJBQW1CLENBQUMsR0FBVyxFQUFFLEtBQWtCLEVBQUUsVUFBMEIseUJBQWM7SUFDekcsT0FBTyxLQUFLLENBQUMsR0FBRyxDQUFDLENBQUMsUUFBUSxFQUFFLEtBQUssRUFBRSxFQUFFO1FBQ2pDLElBQUksVUFBVSxHQUFHLEtBQUssR0FBRyxDQUFDLENBQUM7UUFDM0IsSUFBSSxRQUFRLEdBQWEsRUFBRSxDQUFDO1FBQzVCLElBQUksV0FBVyxHQUFHLFNBQVMsQ0FBQztRQUM1QixJQUFJO1lBQ0EsV0FBVyxHQUFHLGdCQUFnQixDQUFDLFFBQVEsRUFBRSxHQUFHLEVBQUUsUUFBUSxFQUFFLE9BQU8sQ0FBQyxDQUFDO1NBQ3BFO1FBQUMsT0FBTyxLQUFLLEVBQUU7WUFDWixRQUFRLENBQUMsSUFBSSxDQUFDLDZDQUE2QyxLQUFLLENBQUMsT0FBTyxFQUFFLENBQUMsQ0FBQztZQUM1RSxPQUFPLENBQUMsR0FBRyxDQUFDLHdCQUF3QixVQUFVLEtBQUssS0FBSyxDQUFDLE9BQU8sRUFBRSxDQUFDLENBQUM7U0FDdkU7UUFDRCxPQUFPLEVBQUUsVUFBVSxFQUFFLFVBQVUsRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLFFBQVEsRUFBRSxRQUFRLEVBQUUsQ0FBQztJQUNwRixDQUFDLENBQUMsQ0FBQztBQUNQLENBQUM7QUFiRCxrREFhQztBQUVELDhGQUE4RjtBQUM5RixpR0FBaUc7QUFDakcsMkZBQTJGO0FBQzNGLHlEQUF5RDtBQUV6RCxTQUFnQixtQkFBbUIsQ0FBQyxHQUFXLEVBQUUsV0FBeUIsRUFBRSxLQUFrQixFQUFFLG1CQUFzQyxFQUFFO0lBQ3BJLElBQUksdUJBQXVCLEdBQUcsRUFBRSxDQUFDO0lBRWpDLEtBQUssSUFBSSxVQUFVLElBQUksV0FBVyxFQUFFO1FBQ2hDLElBQUksVUFBVSxHQUFHLFVBQVUsQ0FBQyxVQUFVLENBQUM7UUFDdkMsSUFBSSxRQUFRLEdBQUcsQ0FBRSxHQUFHLFVBQVUsQ0FBQyxRQUFRLENBQUUsQ0FBQztRQUMxQyxJQUFJLHNCQUFzQixHQUFHLFNBQVMsQ0FBQztRQUN2QyxJQUFJLFVBQVUsQ0FBQyxXQUFXLEtBQUssU0FBUyxFQUFFO1lBQ3RDLElBQUk7Z0JBQ0Esc0JBQXNCLEdBQUcsVUFBVSxDQUFDLFVBQVUsQ0FBQyxXQUFXLEVBQUUsUUFBUSxDQUFDLENBQUM7YUFDekU7WUFBQyxPQUFPLEtBQUssRUFBRTtnQkFDWixRQUFRLENBQUMsSUFBSSxDQUFDLGdEQUFnRCxLQUFLLENBQUMsT0FBTyxFQUFFLENBQUMsQ0FBQztnQkFDL0UsT0FBTyxDQUFDLEdBQUcsQ0FBQyx1Q0FBdUMsVUFBVSxLQUFLLEtBQUssQ0FBQyxPQUFPLEVBQUUsQ0FBQyxDQUFDO2FBQ3RGO1NBQ0o7UUFFRCxJQUFJLFFBQVEsQ0FBQyxNQUFNLEdBQUcsQ0FBQztZQUNuQixnQkFBZ0IsQ0FBQyxJQUFJLENBQUM7Z0JBQ2xCLEdBQUcsRUFBRSxHQUFHO2dCQUNSLFVBQVUsRUFBRSxVQUFVO2dCQUN0QixpQkFBaUIsRUFBRSxDQUFDLHNCQUFzQixLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsQ0FBQyxDQUFDLHNCQUFzQixDQUFDLGlCQUFpQjtnQkFDekcsTUFBTSxFQUFFLENBQUMsc0JBQXNCLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLFVBQVUsQ0FBQyxDQUFDLENBQUMsU0FBUztnQkFDdkUsT0FBTyxFQUFFLFFBQVE7Z0JBQ2pCLFFBQVEsRUFBRSxDQUFDLEtBQUssS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDLEtBQUssQ0FBQyxVQUFVLEdBQUcsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDO2FBQ3ZFLENBQUMsQ0FBQztRQUVQLElBQUksc0JBQXNCLEtBQUssU0FBUztZQUNwQyxTQUFTO1FBQ2IsSUFBSSxjQUFjLEdBQUcsc0NBQTBCLENBQUMsc0JBQXNCLENBQUMsaUJBQWlCLENBQUMsQ0FBQztRQUMxRixJQUFJLGFBQWEsR0FBRyx1QkFBdUIsQ0FBQyxTQUFTLENBQUMsMkJBQTJCLENBQUMsRUFBRSxDQUFDLHNDQUEwQixDQUFDLDJCQUEyQixDQUFDLGlCQUFpQixDQUFDLEtBQUssY0FBYyxDQUFDLENBQUM7UUFDbkwsSUFBSSxhQUFhLEdBQUcsQ0FBQyxFQUFFO1lBQ25CLHVCQUF1QixDQUFDLElBQUksQ0FBQyxzQkFBc0IsQ0FBQyxDQUFDO1lBQ3JELFNBQVM7U0FDWjtRQUVELElBQUksRUFBRSxXQUFXLEVBQUUsU0FBUyxFQUFFLEdBQUcsZ0NBQW9CLENBQUMsQ0FBRSx1QkFBdUIsQ0FBQyxhQUFhLENBQUMsRUFBRSxzQkFBc0IsQ0FBRSxDQUFDLEdBQUcsQ0FBQywyQkFBMkIsQ0FBQyxFQUFFLENBQUMsQ0FBQyxFQUFFLEdBQUcsRUFBRSxHQUFHLEVBQUUsU0FBUyxFQUFFLFNBQVMsRUFBRSxXQUFXLEVBQUUsU0FBUyxFQUFFLFdBQVcsRUFBRSwyQkFBMkIsRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDO1FBQ3JRLEtBQUssSUFBSSxRQUFRLElBQUksU0FBUztZQUMxQixPQUFPLENBQUMsR0FBRyxDQUFDLFlBQVksVUFBVSwwQkFBMEIsUUFBUSxDQUFDLGlCQUFpQix1QkFBdUIsUUFBUSxDQUFDLEtBQUssTUFBTSxRQUFRLENBQUMsY0FBYyxpQkFBaUIsUUFBUSxDQUFDLFNBQVMsTUFBTSxDQUFDLENBQUM7UUFDdk0sdUJBQXVCLENBQUMsYUFBYSxDQUFDLEdBQUcsV0FBVyxDQUFDO0tBQ3hEO0lBRUQsT0FBTyx1QkFBdUIsQ0FBQztBQUNuQyxDQUFDO0FBMUNELGtEQTBDQztBQUVELDBGQUEwRjtBQUMxRiw4RkFBOEY7QUFDOUYsOEZBQThGO0FBQzlGLGlHQUFpRztBQUNqRywrQ0FBK0M7QUFFL0MsU0FBZ0IsYUFBYSxDQUFDLEdBQVcsRUFBRSxLQUFrQixFQUFFLG1CQUFzQyxFQUFFLEVBQUUsVUFBMEIseUJBQWM7SUFDN0ksT0FBTyxtQkFBbUIsQ0FBQyxHQUFHLEVBQUUsbUJBQW1CLENBQUMsR0FBRyxFQUFFLEtBQUssRUFBRSxPQUFPLENBQUMsRUFBRSxLQUFLLEVBQUUsZ0JBQWdCLENBQUMsQ0FBQztBQUN2RyxDQUFDO0FBRkQsc0NBRUM7QUFFRCw2RkFBNkY7QUFDN0YsNkZBQTZGO0FBQzdGLGtHQUFrRztBQUNsRyw4RkFBOEY7QUFFdkYsS0FBSyxVQUFVLFFBQVEsQ0FBQyxHQUFXLEVBQUUsTUFBYyxFQUFFLG1CQUFzQyxFQUFFLEVBQUUsZUFBdUIsMkJBQW1CLEVBQUUsVUFBMEIseUJBQWMsRUFBRSxhQUEyQyxFQUFFO0lBQ3JPLE9BQU8sQ0FBQyxHQUFHLENBQUMseUNBQXlDLEdBQUcsR0FBRyxDQUFDLENBQUM7SUFDN0QsSUFBSSxLQUFLLEdBQUcsTUFBTSxlQUFlLENBQUMsTUFBTSxFQUFFLFlBQVksRUFBRSxVQUFVLENBQUMsQ0FBQztJQUNwRSxPQUFPLGFBQWEsQ0FBQyxHQUFHLEVBQUUsS0FBSyxFQUFFLGdCQUFnQixFQUFFLE9BQU8sQ0FBQyxDQUFDO0FBQ2hFLENBQUM7QUFKRCw0QkFJQyJ9
\ No newline at end of file
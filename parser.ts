@@ -0,0 +1,811 @@
+// Parses the development applications in the PDFs published by the South Australian Coorong
+// District Council and other councils with the same style of PDF (this has no dependency on the
+// database or the network so that it can be tested in isolation).
+//
+// Michael Bone
+// 25th February 2019
+
+"use strict";
+
+import * as moment from "moment";
+import * as pdfjs from "pdfjs-dist";
+import { Element, applyTemplate, getField, getText, groupIntoRows, selectTemplate } from "./layout";
+import { CouncilProfile, CoorongProfile } from "./councils";
+import { normaliseApplicationNumber, reconcileApplication } from "./reconcile";
+import { findSuburbName, getSuburbLocality, expandStreetSuffix, findStreetName, getStreetSuburbNames, findHundredName } from "./reference";
+
+export { Rectangle, Element, getPercentageOfElementInRectangle, groupIntoRows } from "./layout";
+export { loadReferenceData } from "./reference";
+
+// A part of an address along with the rule that produced it (and, where the part was matched
+// against the street or suburb names, the edit distance of that match).
+
+export interface AddressPart {
+    value: string,
+    source: string,
+    editDistance?: number
+}
+
+// An address broken into its parts.  The confidence is a score between 0 and 1 indicating how
+// likely it is that the formatted address is correct.
+
+export interface ParsedAddress {
+    text: string,
+    houseNumber: AddressPart,
+    streetName: AddressPart,
+    streetSuffix: AddressPart,
+    suburb: AddressPart,
+    state: AddressPart,
+    postCode: AddressPart,
+    isFallback: boolean,
+    confidence: number,
+    isLowConfidence: boolean
+}
+
+// Addresses with a confidence below this are flagged for review.
+
+const LowAddressConfidence = 0.5;
+
+// Calculates the Levenshtein edit distance between two strings.
+
+export function getEditDistance(text1: string, text2: string) {
+    let previousRow = Array.from({ length: text2.length + 1 }, (value, index) => index);
+    for (let index1 = 1; index1 <= text1.length; index1++) {
+        let row = [ index1 ];
+        for (let index2 = 1; index2 <= text2.length; index2++) {
+            let cost = (text1[index1 - 1] === text2[index2 - 1]) ? 0 : 1;
+            row.push(Math.min(row[index2 - 1] + 1, previousRow[index2] + 1, previousRow[index2 - 1] + cost));
+        }
+        previousRow = row;
+    }
+    return previousRow[text2.length];
+}
+
+// Formats (and corrects) an address.
+
+export function formatAddress(address: string) {
+    return parseAddress(address).text;
+}
+
+// Parses (and corrects) an address, recording how each part of the address was determined.
+
+export function parseAddress(address: string): ParsedAddress {
+    let none = (source: string) => ({ value: "", source: source });
+
+    address = address.trim();
+    if (address.startsWith("LOT:") || address.startsWith("No Residential Address"))
+        return { text: "", houseNumber: none("none"), streetName: none("none"), streetSuffix: none("none"), suburb: none("none"), state: none("none"), postCode: none("none"), isFallback: false, confidence: 0, isLowConfidence: true };
+
+    // Remove the comma in house numbers larger than 1000.  For example, the following addresses:
+    //
+    //     4,665 Princes HWY MENINGIE 5264
+    //     11,287 Princes HWY SALT CREEK 5264
+    //
+    // would be converted to the following:
+    //
+    //     4665 Princes HWY MENINGIE 5264
+    //     11287 Princes HWY SALT CREEK 5264
+
+    if (/^\d,\d\d\d/.test(address))
+        address = address.substring(0, 1) + address.substring(2);
+    else if (/^\d\d,\d\d\d/.test(address))
+        address = address.substring(0, 2) + address.substring(3);
+
+    let tokens = address.split(" ");
+
+    let postCode = undefined;
+    let token = tokens.pop();
+    if (/^\d\d\d\d$/.test(token))
+        postCode = token;
+    else
+        tokens.push(token);
+
+    // Ensure that a state code is added before the post code if a state code is not present (the
+    // address may consist of nothing more than a post code).
+
+    let state = "SA";
+    let stateSource = "default";
+    if (tokens.length > 0 && [ "ACT", "NSW", "NT", "QLD", "SA", "TAS", "VIC", "WA" ].includes(tokens[tokens.length - 1].toUpperCase())) {
+        state = tokens.pop().toUpperCase();
+        stateSource = "address";
+    }
+
+    // Construct a fallback address to be used if the suburb name cannot be determined later.
+
+    let fallbackAddress = (postCode === undefined) ? address : [ ...tokens, state, postCode].join(" ");
+
+    // Pop tokens from the end of the array until a valid suburb name is encountered (allowing
+    // for a few spelling errors).  Note that this starts by examining for longer matches
+    // (consisting of four tokens) before examining shorter matches.  This approach ensures
+    // that the following address:
+    //
+    //     2,800 Woods Well RD COLEBATCH 5266
+    //
+    // is correctly converted to the following address:
+    //
+    //     2800 WOODS WELL ROAD, COLEBATCH SA 5266
+    //
+    // rather than (incorrectly) to the following address (notice that the street name has "BELL"
+    // instead of "WELL" because there actually is a street named "BELL ROAD").
+    //
+    //     2800 Woods BELL ROAD, COLEBATCH SA 5266
+
+    let suburbName = undefined;
+    let suburb: AddressPart = none("fallback");
+    for (let index = 4; index >= 1; index--) {
+        let suburbNameText = tokens.slice(-index).join(" ");
+        let suburbNameMatch = findSuburbName(suburbNameText);
+        if (suburbNameMatch !== undefined) {
+            suburbName = getSuburbLocality(suburbNameMatch);
+            suburb = { value: suburbNameMatch, source: "suburb-name-match", editDistance: getEditDistance(suburbNameText.trim().toUpperCase(), suburbNameMatch) };
+            tokens.splice(-index, index);  // remove elements from the end of the array           
+            break;
+        }
+    }
+
+    // Expand any street suffix (for example, this converts "ST" to "STREET").  There may be no
+    // tokens left (for example, if the address is only a suburb name).
+
+    let streetSuffix = (tokens.length === 0) ? undefined : expandStreetSuffix(tokens[tokens.length - 1]);
+    let streetSuffixPart: AddressPart = none("unrecognised");
+    if (streetSuffix !== undefined) {
+        streetSuffixPart = { value: streetSuffix.value, source: streetSuffix.isAbbreviation ? "suffix-abbreviation" : "suffix-expanded" };
+        tokens.splice(-1, 1, streetSuffix.value);  // replace the street suffix with the expanded street suffix
+    }
+
+    // Pop tokens from the end of the array until a valid street name is encountered (allowing
+    // for a few spelling errors).  Similar to the examination of suburb names, this examines
+    // longer matches before examining shorter matches (for the same reason).
+
+    let streetName = undefined;
+    let street: AddressPart = none("unmatched");
+    for (let index = 5; index >= 1; index--) {
+        let streetNameText = tokens.slice(-index).join(" ");
+        let streetNameMatch = findStreetName(streetNameText);
+        if (streetNameMatch !== undefined) {
+            streetName = streetNameMatch;
+            street = { value: streetNameMatch, source: "street-name-match", editDistance: getEditDistance(streetNameText.trim().toUpperCase(), streetNameMatch) };
+            let suburbNames = getStreetSuburbNames(streetNameMatch);
+            tokens.splice(-index, index);  // remove elements from the end of the array           
+
+            // If the suburb was not determined earlier then attempt to obtain the suburb based
+            // on the street (ie. if there is only one suburb associated with the street).  For
+            // example, this would automatically add the suburb to "22 Jefferson CT 5263",
+            // producing the address "22 JEFFERSON COURT, WELLINGTON EAST SA 5263".
+
+            if (suburbName === undefined && suburbNames.length === 1) {
+                suburbName = getSuburbLocality(suburbNames[0]);
+                suburb = { value: suburbNames[0], source: "street-single-suburb" };
+            }
+
+            break;
+        }
+    }    
+
+    // If a post code was included in the original address then use it to override the post code
+    // included in the suburb name (because the post code in the original address is more likely
+    // to be correct).
+
+    let postCodePart: AddressPart = (postCode === undefined) ? none("none") : { value: postCode, source: "address" };
+    if (suburbName !== undefined) {
+        let suburbPostCode = (/\s(\d\d\d\d)$/.exec(suburbName) || [])[1];
+        if (postCode !== undefined)
+            suburbName = suburbName.replace(/\s+\d\d\d\d$/, " " + postCode);
+        else if (suburbPostCode !== undefined)
+            postCodePart = { value: suburbPostCode, source: "suburb-name" };
+    }
+
+    // Reconstruct the address with a comma between the street address and the suburb.
+
+    let isFallback = (suburbName === undefined || suburbName.trim() === "");
+    let houseNumber = "";
+    if (isFallback)
+        address = fallbackAddress;
+    else {
+        houseNumber = tokens.join(" ").trim();
+        if (streetName !== undefined && streetName.trim() !== "")
+            tokens.push(streetName);
+        let streetAddress = tokens.join(" ").trim();
+        address = streetAddress + (streetAddress === "" ? "" : ", ") + suburbName;
+    }
+
+    // Estimate the confidence that the address is correct (each guess or correction reduces the
+    // confidence).
+
+    let confidence = 1;
+    if (isFallback)
+        confidence -= 0.6;
+    else if (suburb.source === "street-single-suburb")
+        confidence -= 0.15;
+    if (street.source === "unmatched")
+        confidence -= 0.3;
+    if (streetSuffixPart.source === "unrecognised")
+        confidence -= 0.1;
+    if (postCode === undefined)
+        confidence -= 0.1;
+    confidence -= 0.1 * ((suburb.editDistance || 0) + (street.editDistance || 0));
+    confidence = Math.max(0, Math.round(confidence * 100) / 100);
+
+    return {
+        text: address,
+        houseNumber: { value: houseNumber, source: (houseNumber === "") ? "none" : "address" },
+        streetName: street,
+        streetSuffix: streetSuffixPart,
+        suburb: suburb,
+        state: { value: state, source: stateSource },
+        postCode: postCodePart,
+        isFallback: isFallback,
+        confidence: confidence,
+        isLowConfidence: confidence < LowAddressConfidence
+    };
+}
+
+// A legal description broken into its parts (any part that is not present is an empty string).
+
+export interface LegalDescription {
+    text: string,
+    lot: string,
+    section: string,
+    allotment: string,
+    planType: string,
+    planNumber: string,
+    titleVolume: string,
+    titleFolio: string,
+    hundred: string
+}
+
+// Parses (and normalises) a legal description.  For example, the following legal description:
+//
+//     LOT: 12 DP: 34567 CT: 5432/123 Hundred: COLEBACH
+//
+// would be converted to the following (notice that the hundred name is corrected):
+//
+//     Lot 12 DP 34567 CT 5432/123 Hundred of COLEBATCH
+
+export function parseLegalDescription(legalDescription: string): LegalDescription {
+    let text = legalDescription.toUpperCase().replace(/\s\s+/g, " ").trim();
+    let match = (pattern: RegExp) => (pattern.exec(text) || [])[1] || "";
+
+    let lot = match(/\b(?:LOT|LT)\b\s*:?\s*([A-Z]?\d+[A-Z]?)\b/);
+    let section = match(/\b(?:SECTION|SECT|SEC)\b\s*:?\s*([A-Z]?\d+[A-Z]?)\b/);
+    let allotment = match(/\b(?:ALLOTMENT|ALLOT|ALT|AL)\b\s*:?\s*([A-Z]?\d+[A-Z]?)\b/);
+
+    // Plans may be abbreviated (for example, "DP 1234") or spelt out ("Deposited Plan 1234").
+
+    let planType = "";
+    let planNumber = "";
+    let planMatch = /\b(DP|FP|CP|DEPOSITED PLAN|FILED PLAN|COMMUNITY PLAN)\b\s*:?\s*(\d+)\b/.exec(text);
+    if (planMatch !== null) {
+        planType = { "DEPOSITED PLAN": "DP", "FILED PLAN": "FP", "COMMUNITY PLAN": "CP" }[planMatch[1]] || planMatch[1];
+        planNumber = planMatch[2];
+    }
+
+    // The certificate of title is a volume and folio (for example, "CT 5432/123" or "Volume 5432
+    // Folio 123").
+
+    let titleVolume = "";
+    let titleFolio = "";
+    let titleMatch = /\b(?:CT|C\/T|CERTIFICATE OF TITLE|VOLUME|VOL)\b\s*:?\s*(\d+)\s*(?:\/|\s)\s*(?:(?:FOLIO|FOL)\b\s*:?\s*)?(\d+)\b/.exec(text);
+    if (titleMatch !== null) {
+        titleVolume = titleMatch[1];
+        titleFolio = titleMatch[2];
+    }
+
+    // Correct the hundred name (allowing for a few spelling errors), examining longer names
+    // before shorter names (as is done for suburb names in formatAddress).
+
+    let hundred = "";
+    let hundredMatch = /\b(?:HUNDRED OF|HUNDRED|HD OF|HD|HUN)\b\s*:?\s*([A-Z][A-Z ]*)/.exec(text);
+    if (hundredMatch !== null) {
+        let tokens = hundredMatch[1].trim().split(" ");
+        for (let index = Math.min(3, tokens.length); index >= 1; index--) {
+            let hundredNameMatch = findHundredName(tokens.slice(0, index).join(" "));
+            if (hundredNameMatch !== undefined) {
+                hundred = hundredNameMatch;
+                break;
+            }
+        }
+    }
+
+    // Construct the normalised legal description (retaining the original text if nothing could
+    // be recognised).
+
+    let parts = [];
+    if (lot !== "")
+        parts.push(`Lot ${lot}`);
+    if (allotment !== "")
+        parts.push(`Allotment ${allotment}`);
+    if (section !== "")
+        parts.push(`Section ${section}`);
+    if (planType !== "")
+        parts.push(`${planType} ${planNumber}`);
+    if (titleVolume !== "")
+        parts.push(`CT ${titleVolume}/${titleFolio}`);
+    if (hundred !== "")
+        parts.push(`Hundred of ${hundred}`);
+
+    return {
+        text: (parts.length === 0) ? legalDescription.trim().replace(/\s\s+/g, " ") : parts.join(" "),
+        lot: lot,
+        section: section,
+        allotment: allotment,
+        planType: planType,
+        planNumber: planNumber,
+        titleVolume: titleVolume,
+        titleFolio: titleFolio,
+        hundred: hundred
+    };
+}
+
+// Derives an address from a hundred name (for use when a development application has no street
+// address).  Where the hundred shares its name with a suburb the suburb is used, otherwise the
+// hundred itself is used (for example, "HUNDRED OF GLYDE, SA").  Such an address is only a rough
+// location and so always has a low confidence.
+
+export function parseAddressFromHundred(hundred: string): ParsedAddress {
+    let none = (source: string) => ({ value: "", source: source });
+    let suburbName = getSuburbLocality(hundred);
+    let postCode = (suburbName === undefined) ? "" : ((/\s(\d\d\d\d)$/.exec(suburbName) || [])[1] || "");
+    return {
+        text: (suburbName === undefined) ? `HUNDRED OF ${hundred}, SA` : suburbName,
+        houseNumber: none("none"),
+        streetName: none("none"),
+        streetSuffix: none("none"),
+        suburb: { value: (suburbName === undefined) ? "" : hundred, source: "hundred" },
+        state: { value: "SA", source: "default" },
+        postCode: (postCode === "") ? none("none") : { value: postCode, source: "suburb-name" },
+        isFallback: false,
+        confidence: (suburbName === undefined) ? 0.2 : 0.4,
+        isLowConfidence: true
+    };
+}
+
+// A page of a PDF that could not be parsed ("rejected") or could only be partially parsed
+// ("partial"), along with the reasons and the elements of the page (so that the page can be
+// reviewed later).
+
+export interface QuarantinedPage {
+    url: string,
+    pageNumber: number,
+    applicationNumber: string,
+    status: "rejected" | "partial",
+    reasons: string[],
+    elements: Element[]
+}
+
+// The statistics gathered while parsing a PDF.
+
+export interface PdfStatistics {
+    pageCount: number,
+    reloadCount: number,
+    peakHeapUsed: number,  // in bytes
+    duration: number  // in milliseconds
+}
+
+// The text of the property details of an application: the first row (usually the street address)
+// and the remaining rows (usually the legal description).
+
+interface PropertyDetails {
+    address: string,
+    legalDescription: string
+}
+
+// The page stage of parsing a page of a PDF (see parsePdfPageDetails): the details of the
+// application other than its address (undefined if the page was rejected) and the reasons that
+// the page could not be fully parsed.
+
+export interface ParsedPage {
+    pageNumber: number,
+    pageDetails: any,
+    problems: string[]
+}
+
+// The version of the address stage (formatAddress, parseLegalDescription and the other functions
+// used by parsePropertyDetails).  Increment this whenever the address stage changes so that the
+// addresses of the cached applications are derived again.
+
+export const AddressVersion = 1;
+
+// Derives the address and legal description from the text of the property details.  When there
+// is no street address (the first row then starts with "LOT:" or is "No Residential Address") the
+// first row may also contain part of the legal description, and the address is instead derived
+// from the hundred.
+
+function parsePropertyDetails(propertyDetails: PropertyDetails) {
+    let address = propertyDetails.address;
+    let legalDescriptionText = propertyDetails.legalDescription;
+
+    let hasStreetAddress = !(address.startsWith("LOT:") || address.startsWith("No Residential Address"));
+    if (address.startsWith("LOT:"))
+        legalDescriptionText = (address + " " + legalDescriptionText).trim();
+    let legalDescription = parseLegalDescription(legalDescriptionText);
+
+    let parsedAddress = parseAddress(address);
+    if (!hasStreetAddress && legalDescription.hundred !== "")
+        parsedAddress = parseAddressFromHundred(legalDescription.hundred);
+    return { parsedAddress: parsedAddress, legalDescription: legalDescription };
+}
+
+// Parses the details other than the address from the elements associated with a single page of
+// the PDF (corresponding to a single development application) using the page template of the
+// council that best matches the page.  The text of the property details is returned so that the
+// address can be derived separately (see addAddress).  The reasons that the page could not be
+// fully parsed are added to the specified problems array (undefined is returned if the page was
+// rejected).
+
+function parsePageDetails(elements: Element[], informationUrl: string, problems: string[], profile: CouncilProfile) {
+    let layout = applyTemplate(elements, selectTemplate(elements, profile.pageTemplates));
+
+    let applicationNumberField = getField(layout, "applicationNumber");
+    if (applicationNumberField === undefined) {
+        problems.push(`The "Dev App No." heading is missing.`);
+        console.log(`Ignoring the page because the "Dev App No." text is missing.`);
+        return undefined;
+    }
+
+    // Get the application number (as printed, other than any whitespace; see
+    // normaliseApplicationNumber for how the application numbers are matched).
+
+    let applicationNumber = getText(applicationNumberField.elements).replace(/\s/g, "");
+    
+    if (applicationNumber === "") {
+        problems.push(`The application number is missing.`);
+        console.log(`Could not find the application number on the PDF page for the current development application.  The development application will be ignored.`);
+        return undefined;
+    }
+
+    console.log(`    Found \"${applicationNumber}\".`);
+
+    // Get the received date.
+
+    let receivedDate = moment.invalid();
+    let receivedDateField = getField(layout, "receivedDate");
+    if (receivedDateField === undefined)
+        problems.push(`The "Application Received Date:" heading is missing.`);
+    else if (receivedDateField.elements.length === 0)
+        problems.push(`The received date is missing.`);
+    else {
+        let receivedDateText = getText(receivedDateField.elements);
+        receivedDate = moment(receivedDateText, "D/MM/YYYY", true);  // allows the leading zero of the day to be omitted
+        if (!receivedDate.isValid())
+            problems.push(`The received date "${receivedDateText}" is not a valid date.`);
+    }
+
+    // Get the description.
+
+    let applicantField = getField(layout, "applicant");
+    if (applicantField === undefined) {
+        problems.push(`The "Applicant" heading is missing (so the description may be truncated).`);
+        console.log(`Could not find the "Applicant" heading on the page and so the development application description may be truncated.`);
+    }
+    let descriptionField = getField(layout, "description");
+    let description = (descriptionField === undefined) ? "" : getText(descriptionField.elements);
+
+    // Get the address and legal description.
+
+    let propertyDetailsField = getField(layout, "propertyDetails");
+    if (propertyDetailsField === undefined) {
+        problems.push(`The "Property Details:" heading is missing.`);
+        console.log(`Could not find the "Property Details:" heading on the page.  The development application will be ignored.`);
+        return undefined;
+    }
+
+    // Group the address and legal description elements into rows.
+
+    let addressRows = groupIntoRows(propertyDetailsField.elements);
+    
+    let propertyDetails: PropertyDetails = {
+        address: (addressRows.length < 1) ? "" : getText(addressRows[0]),
+        legalDescription: (addressRows.length < 2) ? "" : getText([].concat(...addressRows.slice(1)))
+    };
+
+    // Get the applicant (either to the right of the "Applicant" heading or, if there is nothing
+    // there, on the row immediately below the heading).
+
+    let applicant = "";
+    if (applicantField !== undefined) {
+        let applicantRows = groupIntoRows(applicantField.elements);
+        if (applicantRows.length > 0)
+            applicant = getText(applicantRows[0]);
+    }
+
+    // Get the total development cost (for example, "$1,250,000.00" is converted to 1250000).
+
+    let totalDevelopmentCost: number = undefined;
+    let totalDevelopmentCostsField = getField(layout, "totalDevelopmentCosts");
+    if (totalDevelopmentCostsField !== undefined) {
+        let text = getText(totalDevelopmentCostsField.elements).replace(/[$,\s]/g, "");
+        if (/^\d+(\.\d+)?$/.test(text))
+            totalDevelopmentCost = Number(text);
+    }
+
+    // Get the referral bodies (one per row below the "Referrals" heading).
+
+    let referrals: string[] = [];
+    let referralsField = getField(layout, "referrals");
+    if (referralsField !== undefined)
+        referrals = groupIntoRows(referralsField.elements)
+            .map(row => getText(row))
+            .filter(referral => referral !== "" && !/^n\/?a$/i.test(referral));
+
+    // Get any decision or approval dates (for example, "Development Approval: 12/03/2019").
+
+    let decisions: { decision: string, date: string }[] = [];
+    for (let decisionField of layout.fields["decisions"] || []) {
+        let decisionDate = moment(getText(decisionField.elements), "D/MM/YYYY", true);
+        if (decisionDate.isValid())
+            decisions.push({ decision: decisionField.heading.text.trim().replace(/\s*:$/, "").replace(/\s\s+/g, " "), date: decisionDate.format("YYYY-MM-DD") });
+    }
+
+    return {
+        council: profile.name,
+        applicationNumber: applicationNumber,
+        description: (description === "") ? "No description provided" : description,
+        informationUrl: informationUrl,
+        commentUrl: profile.commentUrl,
+        scrapeDate: moment().format("YYYY-MM-DD"),
+        receivedDate: receivedDate.isValid() ? receivedDate.format("YYYY-MM-DD") : "",
+        propertyDetails: propertyDetails,
+        applicant: applicant,
+        totalDevelopmentCost: totalDevelopmentCost,
+        referrals: referrals,
+        decisions: decisions
+    };
+}
+
+// Derives the address and legal description of an application from the text of its property
+// details (as returned by parsePageDetails).  If there is no address then the reason is added to
+// the specified problems array and undefined is returned (the page is then rejected).
+
+function addAddress(pageDetails, problems: string[]) {
+    let { parsedAddress, legalDescription } = parsePropertyDetails(pageDetails.propertyDetails);
+    let address = parsedAddress.text;
+    if (parsedAddress.isLowConfidence && address !== "")
+        console.log(`    The address \"${address}\" has a low confidence of ${parsedAddress.confidence} and has been flagged for review.`);
+
+    if (address === "") {
+        problems.push(`The address is missing.`);
+        console.log(`Could not find an address for the current development application.  The development application will be ignored.`);
+        return undefined;
+    }
+
+    return {
+        council: pageDetails.council,
+        applicationNumber: pageDetails.applicationNumber,
+        address: address,
+        description: pageDetails.description,
+        informationUrl: pageDetails.informationUrl,
+        commentUrl: pageDetails.commentUrl,
+        scrapeDate: pageDetails.scrapeDate,
+        receivedDate: pageDetails.receivedDate,
+        legalDescription: pageDetails.propertyDetails.legalDescription,
+        parsedLegalDescription: legalDescription,
+        applicant: pageDetails.applicant,
+        totalDevelopmentCost: pageDetails.totalDevelopmentCost,
+        referrals: pageDetails.referrals,
+        decisions: pageDetails.decisions,
+        parsedAddress: parsedAddress
+    };
+}
+
+// Parses the details from the elements associated with a single page of the PDF (corresponding
+// to a single development application) using the page template of the council that best matches
+// the page.  The reasons that the page could not be fully parsed are added to the specified
+// problems array (undefined is returned if the page was rejected).
+
+export function parseApplicationElements(elements: Element[], informationUrl: string, problems: string[] = [], profile: CouncilProfile = CoorongProfile) {
+    let pageDetails = parsePageDetails(elements, informationUrl, problems, profile);
+    return (pageDetails === undefined) ? undefined : addAddress(pageDetails, problems);
+}
+
+// The default memory budget for parsing a PDF (in bytes).  This is comfortably below the 512 MB
+// that morph.io allows.
+
+export const DefaultMemoryBudget = 384 * 1024 * 1024;
+
+// Loads a PDF from a buffer.
+
+async function loadPdf(buffer: Buffer) {
+    return await pdfjs.getDocument({ data: new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength), disableFontFace: true, ignoreErrors: true });  // a small buffer may share its memory with other buffers (which pdf.js does not allow for)
+}
+
+// Gets the elements (text and bounding rectangles) on a page of a PDF, sorted by Y co-ordinate
+// and then by X co-ordinate.
+
+async function getPageElements(page): Promise<Element[]> {
+    let textContent = await page.getTextContent();
+    let viewport = await page.getViewport(1.0);
+
+    let elements: Element[] = textContent.items.map(item => {
+        let transform = pdfjs.Util.transform(viewport.transform, item.transform);
+
+        // Work around the issue https://github.com/mozilla/pdf.js/issues/8276 (heights are
+        // exaggerated).  The problem seems to be that the height value is too large in some
+        // PDFs.  Provide an alternative, more accurate height value by using a calculation
+        // based on the transform matrix.
+
+        let workaroundHeight = Math.sqrt(transform[2] * transform[2] + transform[3] * transform[3]);
+        return { text: item.str, x: transform[4], y: transform[5], width: item.width, height: workaroundHeight };
+    });
+
+    let elementComparer = (a, b) => (a.y > b.y) ? 1 : ((a.y < b.y) ? -1 : ((a.x > b.x) ? 1 : ((a.x < b.x) ? -1 : 0)));
+    elements.sort(elementComparer);
+    return elements;
+}
+
+// Formats a number of bytes as megabytes.
+
+function formatMegabytes(bytes: number) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// The version of the text extraction (getPageElements).  Increment this whenever the extraction
+// changes (including when pdf.js is upgraded) so that the cached elements of each page are
+// extracted again.
+
+export const ElementsVersion = 1;
+
+// The version of the page parsing (the layout engine, the page templates and parsePageDetails,
+// other than the address stage).  Increment this whenever the parsing changes so that the cached
+// applications are parsed again (from the cached elements).
+
+export const ParserVersion = 6;
+
+// The amount by which the heap must grow (in bytes) after the PDF is loaded before the PDF is
+// reloaded.  If reloading does not bring the heap back below the memory budget (because the
+// memory is used by something other than the PDF) then reloading again only helps once the heap
+// has grown by this much more.
+
+export const DefaultReloadMargin = 32 * 1024 * 1024;
+
+// Extracts the elements of every page of the specified PDF (the number of pages, along with the
+// time and memory used, is written to the specified statistics).
+
+export async function extractPdfPages(buffer: Buffer, memoryBudget: number = DefaultMemoryBudget, statistics: PdfStatistics = <PdfStatistics>{}, reloadMargin: number = DefaultReloadMargin) {
+    let pages: Element[][] = [];
+
+    // Each page has the details of a single application.  The PDF is loaded once and the
+    // resources used by each page are released after the elements of the page are extracted.  If
+    // memory usage still grows beyond the budget (calling page.cleanup() does not always release
+    // all memory used by the PDF parsing) then the PDF is destroyed and loaded again before
+    // extracting the next page.
+
+    let pdf = await loadPdf(buffer);
+    let pageCount = pdf.numPages;
+    let startTime = Date.now();
+    let peakHeapUsed = 0;
+    let reloadCount = 0;
+    let loadHeapUsed = process.memoryUsage().heapUsed;
+    let isOverBudgetReported = false;
+
+    try {
+        for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+            let pageStartTime = Date.now();
+            let page = await pdf.getPage(pageNumber);
+            pages.push(await getPageElements(page));
+            page.cleanup();
+
+            // Report the time and memory used by the page.
+
+            let heapUsed = process.memoryUsage().heapUsed;
+            peakHeapUsed = Math.max(peakHeapUsed, heapUsed);
+            console.log(`Read page ${pageNumber} of ${pageCount} in ${Date.now() - pageStartTime} ms (heap used ${formatMegabytes(heapUsed)}).`);
+
+            if (heapUsed <= memoryBudget || pageNumber === pageCount)
+                continue;
+
+            // Only reload the PDF if the heap has grown since the PDF was last loaded (otherwise
+            // the memory is not being used by the PDF and reloading would not release it).
+
+            if (heapUsed - loadHeapUsed > reloadMargin) {
+                console.log(`The heap used exceeds the memory budget of ${formatMegabytes(memoryBudget)} so the PDF will be reloaded.`);
+                await pdf.destroy();
+                pdf = undefined;
+                if (global.gc)
+                    global.gc();
+                pdf = await loadPdf(buffer);
+                loadHeapUsed = process.memoryUsage().heapUsed;
+                reloadCount++;
+            } else if (!isOverBudgetReported) {
+                console.log(`Warning: The heap used (${formatMegabytes(heapUsed)}) exceeds the memory budget of ${formatMegabytes(memoryBudget)} but has grown by less than ${formatMegabytes(reloadMargin)} since the PDF was loaded, so the PDF will not be reloaded.`);
+                isOverBudgetReported = true;
+            }
+        }
+    } finally {
+        if (pdf !== undefined)
+            await pdf.destroy();
+    }
+
+    Object.assign(statistics, { pageCount: pageCount, reloadCount: reloadCount, peakHeapUsed: peakHeapUsed, duration: Date.now() - startTime });
+    console.log(`Read ${pageCount} page(s) in ${statistics.duration} ms (peak heap used ${formatMegabytes(peakHeapUsed)}, reloaded ${reloadCount} time(s)).`);
+    return pages;
+}
+
+// Parses the details other than the addresses from the elements of each page of a PDF (the page
+// stage of parsePdfPages, which does not depend on the reference data used to format addresses).
+// An unexpected error only causes that page to be rejected rather than the whole PDF.
+
+export function parsePdfPageDetails(url: string, pages: Element[][], profile: CouncilProfile = CoorongProfile): ParsedPage[] {
+    return pages.map((elements, index) => {
+        let pageNumber = index + 1;
+        let problems: string[] = [];
+        let pageDetails = undefined;
+        try {
+            pageDetails = parsePageDetails(elements, url, problems, profile);
+        } catch (error) {
+            problems.push(`An error occurred while parsing the page: ${error.message}`);
+            console.log(`Could not parse page ${pageNumber}: ${error.message}`);
+        }
+        return { pageNumber: pageNumber, pageDetails: pageDetails, problems: problems };
+    });
+}
+
+// Derives the address of the application parsed from each page of a PDF (the address stage of
+// parsePdfPages) and merges any application that appears on several pages.  The pages that could
+// not be fully parsed are added to the specified quarantined pages array (along with their
+// elements, if the elements of the pages are specified).
+
+export function addPdfPageAddresses(url: string, parsedPages: ParsedPage[], pages: Element[][], quarantinedPages: QuarantinedPage[] = []) {
+    let developmentApplications = [];
+
+    for (let parsedPage of parsedPages) {
+        let pageNumber = parsedPage.pageNumber;
+        let problems = [ ...parsedPage.problems ];
+        let developmentApplication = undefined;
+        if (parsedPage.pageDetails !== undefined) {
+            try {
+                developmentApplication = addAddress(parsedPage.pageDetails, problems);
+            } catch (error) {
+                problems.push(`An error occurred while parsing the address: ${error.message}`);
+                console.log(`Could not parse the address on page ${pageNumber}: ${error.message}`);
+            }
+        }
+
+        if (problems.length > 0)
+            quarantinedPages.push({
+                url: url,
+                pageNumber: pageNumber,
+                applicationNumber: (developmentApplication === undefined) ? "" : developmentApplication.applicationNumber,
+                status: (developmentApplication === undefined) ? "rejected" : "partial",
+                reasons: problems,
+                elements: (pages === undefined) ? [] : (pages[pageNumber - 1] || [])
+            });
+
+        if (developmentApplication === undefined)
+            continue;
+        let applicationKey = normaliseApplicationNumber(developmentApplication.applicationNumber);
+        let existingIndex = developmentApplications.findIndex(otherDevelopmentApplication => normaliseApplicationNumber(otherDevelopmentApplication.applicationNumber) === applicationKey);
+        if (existingIndex < 0) {
+            developmentApplications.push(developmentApplication);
+            continue;
+        }
+
+        let { application, conflicts } = reconcileApplication([ developmentApplications[existingIndex], developmentApplication ].map(otherDevelopmentApplication => ({ url: url, periodEnd: undefined, publishDate: undefined, application: otherDevelopmentApplication })));
+        for (let conflict of conflicts)
+            console.log(`    Page ${pageNumber} repeats application \"${conflict.applicationNumber}\" with a different ${conflict.field} \"${conflict.discardedValue}\" (keeping \"${conflict.keptValue}\").`);
+        developmentApplications[existingIndex] = application;
+    }
+
+    return developmentApplications;
+}
+
+// Parses the development applications from the elements of each page of a PDF (previously
+// extracted from the PDF at the specified URL) published by the specified council.  Any pages
+// that could not be fully parsed are added to the specified quarantined pages array.  When an
+// application appears on several pages the versions are merged (the first page is preferred, but
+// an empty field is filled from a later page).
+
+export function parsePdfPages(url: string, pages: Element[][], quarantinedPages: QuarantinedPage[] = [], profile: CouncilProfile = CoorongProfile) {
+    return addPdfPageAddresses(url, parsePdfPageDetails(url, pages, profile), pages, quarantinedPages);
+}
+
+// Parses the development applications in the specified PDF (the content of which has already
+// been retrieved from the specified URL) published by the specified council.  Any pages that
+// could not be fully parsed are added to the specified quarantined pages array (and the number of
+// pages parsed, along with the time and memory used, is written to the specified statistics).
+
+export async function parsePdf(url: string, buffer: Buffer, quarantinedPages: QuarantinedPage[] = [], memoryBudget: number = DefaultMemoryBudget, profile: CouncilProfile = CoorongProfile, statistics: PdfStatistics = <PdfStatistics>{}) {
+    console.log(`Reading development applications from ${url}.`);
+    let pages = await extractPdfPages(buffer, memoryBudget, statistics);
+    return parsePdfPages(url, pages, quarantinedPages, profile);
+}
@@ -0,0 +1,85 @@
+// Reconciles the versions of a development application that appear in several register PDFs (or
+// several times in the one PDF).  Application numbers are normalised so that the versions can be
+// matched (the normalised application number is only used for matching and is never saved as the
+// application number), and the fields of the versions are merged by precedence: a non-empty value
+// is preferred over an empty value and otherwise the value from the newest document is preferred.
+// Differing non-empty values are reported as conflicts so that they can be reviewed.
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.reconcileApplication = exports.sortApplicationSources = exports.normaliseApplicationNumber = void 0;
+// The fields that are merged.  The companion fields are derived from the field and so are always
+// taken from the same version as the field.
+const ReconciledFields = [
+    { name: "address", companions: ["parsedAddress"] },
+    { name: "description", companions: [] },
+    { name: "receivedDate", companions: [] },
+    { name: "legalDescription", companions: ["parsedLegalDescription"] },
+    { name: "applicant", companions: [] },
+    { name: "totalDevelopmentCost", companions: [] },
+    { name: "referrals", companions: [] },
+    { name: "decisions", companions: [] }
+];
+// Normalises an application number so that the different ways of writing the same number match
+// (for example, "581 / 0123 / 2019" becomes "581/123/19").  Whitespace is removed, leading zeros
+// are removed from every part other than the year and a four digit year is shortened to two
+// digits.  An application number that is not made up of numbers separated by slashes only has its
+// whitespace removed (and is converted to upper case).
+function normaliseApplicationNumber(applicationNumber) {
+    let text = applicationNumber.replace(/\s/g, "").replace(/\\/g, "/").toUpperCase();
+    if (!/^\d+(\/\d+)+$/.test(text))
+        return text;
+    let parts = text.split("/");
+    let year = parts.pop();
+    if (/^(19|20)\d\d$/.test(year))
+        year = year.substring(2);
+    return [...parts.map(part => part.replace(/^0+(?=\d)/, "")), year].join("/");
+}
+exports.normaliseApplicationNumber = normaliseApplicationNumber;
+// Determines whether a field value is empty (and so should be filled from another version).
+function isEmpty(value) {
+    return value === undefined || value === null || value === "" || value === "No description provided" || (Array.isArray(value) && value.length === 0);
+}
+// Formats a field value for comparison and for the conflicts table.
+function formatValue(value) {
+    return (typeof value === "string") ? value : JSON.stringify(value);
+}
+// Orders the sources from the newest document to the oldest (by the end of the period covered by
+// the document and then by the publish date).  Sources from equally new documents keep their
+// original order.
+function sortApplicationSources(sources) {
+    return sources
+        .map((source, index) => ({ source: source, index: index }))
+        .sort((a, b) => (b.source.periodEnd || "").localeCompare(a.source.periodEnd || "") ||
+        (b.source.publishDate || "").localeCompare(a.source.publishDate || "") ||
+        (a.index - b.index))
+        .map(item => item.source);
+}
+exports.sortApplicationSources = sortApplicationSources;
+// Merges the versions of a development application.  The newest version supplies every field
+// that is not merged (such as the information URL), each merged field is taken from the newest
+// version that has a non-empty value and the scrape date is the latest scrape date of any
+// version.  Any other non-empty value that differs from the value kept is returned as a conflict.
+function reconcileApplication(sources) {
+    let sortedSources = sortApplicationSources(sources);
+    let application = { ...sortedSources[0].application };
+    let conflicts = [];
+    for (let field of ReconciledFields) {
+        let keptSource = sortedSources.find(source => !isEmpty(source.application[field.name]));
+        if (keptSource === undefined)
+            continue;
+        for (let name of [field.name, ...field.companions])
+            application[name] = keptSource.application[name];
+        let keptValue = formatValue(keptSource.application[field.name]);
+        for (let source of sortedSources) {
+            let value = source.application[field.name];
+            if (!isEmpty(value) && formatValue(value) !== keptValue && !conflicts.some(conflict => conflict.field === field.name && conflict.discardedUrl === source.url && conflict.discardedValue === formatValue(value)))
+                conflicts.push({ applicationNumber: application.applicationNumber, field: field.name, keptValue: keptValue, keptUrl: keptSource.url, discardedValue: formatValue(value), discardedUrl: source.url });
+        }
+    }
+    let scrapeDates = sortedSources.map(source => source.application.scrapeDate).filter(scrapeDate => !isEmpty(scrapeDate)).sort();
+    if (scrapeDates.length > 0)
+        application.scrapeDate = scrapeDates[scrapeDates.length - 1];
+    return { application: application, conflicts: conflicts };
+}
+exports.reconcileApplication = reconcileApplication;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoicmVjb25jaWxlLmpzIiwic291cmNlUm9vdCI6IiIsInNvdXJjZXMiOlsicmVjb25jaWxlLnRzIl0sIm5hbWVzIjpbXSwibWFwcGluZ3MiOiJBQUFBLGdHQUFnRztBQUNoRyxpR0FBaUc7QUFDakcsaUdBQWlHO0FBQ2pHLGtHQUFrRztBQUNsRyxrR0FBa0c7QUFDbEcscUZBQXFGO0FBRXJGLFlBQVksQ0FBQzs7O0FBd0JiLGlHQUFpRztBQUNqRyw0Q0FBNEM7QUFFNUMsTUFBTSxnQkFBZ0IsR0FBNkM7SUFDL0QsRUFBRSxJQUFJLEVBQUUsU0FBUyxFQUFFLFVBQVUsRUFBRSxDQUFFLGVBQWUsQ0FBRSxFQUFFO0lBQ3BELEVBQUUsSUFBSSxFQUFFLGFBQWEsRUFBRSxVQUFVLEVBQUUsRUFBRSxFQUFFO0lBQ3ZDLEVBQUUsSUFBSSxFQUFFLGNBQWMsRUFBRSxVQUFVLEVBQUUsRUFBRSxFQUFFO0lBQ3hDLEVBQUUsSUFBSSxFQUFFLGtCQUFrQixFQUFFLFVBQVUsRUFBRSxDQUFFLHdCQUF3QixDQUFFLEVBQUU7SUFDdEUsRUFBRSxJQUFJLEVBQUUsV0FBVyxFQUFFLFVBQVUsRUFBRSxFQUFFLEVBQUU7SUFDckMsRUFBRSxJQUFJLEVBQUUsc0JBQXNCLEVBQUUsVUFBVSxFQUFFLEVBQUUsRUFBRTtJQUNoRCxFQUFFLElBQUksRUFBRSxXQUFXLEVBQUUsVUFBVSxFQUFFLEVBQUUsRUFBRTtJQUNyQyxFQUFFLElBQUksRUFBRSxXQUFXLEVBQUUsVUFBVSxFQUFFLEVBQUUsRUFBRTtDQUN4QyxDQUFDO0FBRUYsK0ZBQStGO0FBQy9GLGlHQUFpRztBQUNqRyw0RkFBNEY7QUFDNUYsa0dBQWtHO0FBQ2xHLHVEQUF1RDtBQUV2RCxTQUFnQiwwQkFBMEIsQ0FBQyxpQkFBeUI7SUFDaEUsSUFBSSxJQUFJLEdBQUcsaUJBQWlCLENBQUMsT0FBTyxDQUFDLEtBQUssRUFBRSxFQUFFLENBQUMsQ0FBQyxPQUFPLENBQUMsS0FBSyxFQUFFLEdBQUcsQ0FBQyxDQUFDLFdBQVcsRUFBRSxDQUFDO0lBQ2xGLElBQUksQ0FBQyxlQUFlLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQztRQUMzQixPQUFPLElBQUksQ0FBQztJQUVoQixJQUFJLEtBQUssR0FBRyxJQUFJLENBQUMsS0FBSyxDQUFDLEdBQUcsQ0FBQyxDQUFDO0lBQzVCLElBQUksSUFBSSxHQUFHLEtBQUssQ0FBQyxHQUFHLEVBQUUsQ0FBQztJQUN2QixJQUFJLGVBQWUsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDO1FBQzFCLElBQUksR0FBRyxJQUFJLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDO0lBQzdCLE9BQU8sQ0FBRSxHQUFHLEtBQUssQ0FBQyxHQUFHLENBQUMsSUFBSSxDQUFDLEVBQUUsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDLFdBQVcsRUFBRSxFQUFFLENBQUMsQ0FBQyxFQUFFLElBQUksQ0FBRSxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsQ0FBQztBQUNuRixDQUFDO0FBVkQsZ0VBVUM7QUFFRCw0RkFBNEY7QUFFNUYsU0FBUyxPQUFPLENBQUMsS0FBVTtJQUN2QixPQUFPLEtBQUssS0FBSyxTQUFTLElBQUksS0FBSyxLQUFLLElBQUksSUFBSSxLQUFLLEtBQUssRUFBRSxJQUFJLEtBQUssS0FBSyx5QkFBeUIsSUFBSSxDQUFDLEtBQUssQ0FBQyxPQUFPLENBQUMsS0FBSyxDQUFDLElBQUksS0FBSyxDQUFDLE1BQU0sS0FBSyxDQUFDLENBQUMsQ0FBQztBQUN4SixDQUFDO0FBRUQsb0VBQW9FO0FBRXBFLFNBQVMsV0FBVyxDQUFDLEtBQVU7SUFDM0IsT0FBTyxDQUFDLE9BQU8sS0FBSyxLQUFLLFFBQVEsQ0FBQyxDQUFDLENBQUMsQ0FBQyxLQUFLLENBQUMsQ0FBQyxDQUFDLElBQUksQ0FBQyxTQUFTLENBQUMsS0FBSyxDQUFDLENBQUM7QUFDdkUsQ0FBQztBQUVELGlHQUFpRztBQUNqRyw2RkFBNkY7QUFDN0Ysa0JBQWtCO0FBRWxCLFNBQWdCLHNCQUFzQixDQUFDLE9BQTRCO0lBQy9ELE9BQU8sT0FBTztTQUNULEdBQUcsQ0FBQyxDQUFDLE1BQU0sRUFBRSxLQUFLLEVBQUUsRUFBRSxDQUFDLENBQUMsRUFBRSxNQUFNLEVBQUUsTUFBTSxFQUFFLEtBQUssRUFBRSxLQUFLLEVBQUUsQ0FBQyxDQUFDO1NBQzFELElBQUksQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDLEVBQUUsRUFBRSxDQUNYLENBQUMsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxTQUFTLElBQUksRUFBRSxDQUFDLENBQUMsYUFBYSxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsU0FBUyxJQUFJLEVBQUUsQ0FBQztRQUNsRSxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsV0FBVyxJQUFJLEVBQUUsQ0FBQyxDQUFDLGFBQWEsQ0FBQyxDQUFDLENBQUMsTUFBTSxDQUFDLFdBQVcsSUFBSSxFQUFFLENBQUM7UUFDdEUsQ0FBQyxDQUFDLENBQUMsS0FBSyxHQUFHLENBQUMsQ0FBQyxLQUFLLENBQUMsQ0FBQztTQUN2QixHQUFHLENBQUMsSUFBSSxDQUFDLEVBQUUsQ0FBQyxJQUFJLENBQUMsTUFBTSxDQUFDLENBQUM7QUFDbEMsQ0FBQztBQVJELHdEQVFDO0FBRUQsNkZBQTZGO0FBQzdGLCtGQUErRjtBQUMvRiwwRkFBMEY7QUFDMUYsa0dBQWtHO0FBRWxHLFNBQWdCLG9CQUFvQixDQUFDLE9BQTRCO0lBQzdELElBQUksYUFBYSxHQUFHLHNCQUFzQixDQUFDLE9BQU8sQ0FBQyxDQUFDO0lBQ3BELElBQUksV0FBVyxHQUFHLEVBQUUsR0FBRyxhQUFhLENBQUMsQ0FBQyxDQUFDLENBQUMsV0FBVyxFQUFFLENBQUM7SUFDdEQsSUFBSSxTQUFTLEdBQTBCLEVBQUUsQ0FBQztJQUUxQyxLQUFLLElBQUksS0FBSyxJQUFJLGdCQUFnQixFQUFFO1FBQ2hDLElBQUksVUFBVSxHQUFHLGFBQWEsQ0FBQyxJQUFJLENBQUMsTUFBTSxDQUFDLEVBQUUsQ0FBQyxDQUFDLE9BQU8sQ0FBQyxNQUFNLENBQUMsV0FBVyxDQUFDLEtBQUssQ0FBQyxJQUFJLENBQUMsQ0FBQyxDQUFDLENBQUM7UUFDeEYsSUFBSSxVQUFVLEtBQUssU0FBUztZQUN4QixTQUFTO1FBQ2IsS0FBSyxJQUFJLElBQUksSUFBSSxDQUFFLEtBQUssQ0FBQyxJQUFJLEVBQUUsR0FBRyxLQUFLLENBQUMsVUFBVSxDQUFFO1lBQ2hELFdBQVcsQ0FBQyxJQUFJLENBQUMsR0FBRyxVQUFVLENBQUMsV0FBVyxDQUFDLElBQUksQ0FBQyxDQUFDO1FBRXJELElBQUksU0FBUyxHQUFHLFdBQVcsQ0FBQyxVQUFVLENBQUMsV0FBVyxDQUFDLEtBQUssQ0FBQyxJQUFJLENBQUMsQ0FBQyxDQUFDO1FBQ2hFLEtBQUssSUFBSSxNQUFNLElBQUksYUFBYSxFQUFFO1lBQzlCLElBQUksS0FBSyxHQUFHLE1BQU0sQ0FBQyxXQUFXLENBQUMsS0FBSyxDQUFDLElBQUksQ0FBQyxDQUFDO1lBQzNDLElBQUksQ0FBQyxPQUFPLENBQUMsS0FBSyxDQUFDLElBQUksV0FBVyxDQUFDLEtBQUssQ0FBQyxLQUFLLFNBQVMsSUFBSSxDQUFDLFNBQVMsQ0FBQyxJQUFJLENBQUMsUUFBUSxDQUFDLEVBQUUsQ0FBQyxRQUFRLENBQUMsS0FBSyxLQUFLLEtBQUssQ0FBQyxJQUFJLElBQUksUUFBUSxDQUFDLFlBQVksS0FBSyxNQUFNLENBQUMsR0FBRyxJQUFJLFFBQVEsQ0FBQyxjQUFjLEtBQUssV0FBVyxDQUFDLEtBQUssQ0FBQyxDQUFDO2dCQUMzTSxTQUFTLENBQUMsSUFBSSxDQUFDLEVBQUUsaUJBQWlCLEVBQUUsV0FBVyxDQUFDLGlCQUFpQixFQUFFLEtBQUssRUFBRSxLQUFLLENBQUMsSUFBSSxFQUFFLFNBQVMsRUFBRSxTQUFTLEVBQUUsT0FBTyxFQUFFLFVBQVUsQ0FBQyxHQUFHLEVBQUUsY0FBYyxFQUFFLFdBQVcsQ0FBQyxLQUFLLENBQUMsRUFBRSxZQUFZLEVBQUUsTUFBTSxDQUFDLEdBQUcsRUFBRSxDQUFDLENBQUM7U0FDNU07S0FDSjtJQUVELElBQUksV0FBVyxHQUFHLGFBQWEsQ0FBQyxHQUFHLENBQUMsTUFBTSxDQUFDLEVBQUUsQ0FBQyxNQUFNLENBQUMsV0FBVyxDQUFDLFVBQVUsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxVQUFVLENBQUMsRUFBRSxDQUFDLENBQUMsT0FBTyxDQUFDLFVBQVUsQ0FBQyxDQUFDLENBQUMsSUFBSSxFQUFFLENBQUM7SUFDL0gsSUFBSSxXQUFXLENBQUMsTUFBTSxHQUFHLENBQUM7UUFDdEIsV0FBVyxDQUFDLFVBQVUsR0FBRyxXQUFXLENBQUMsV0FBVyxDQUFDLE1BQU0sR0FBRyxDQUFDLENBQUMsQ0FBQztJQUNqRSxPQUFPLEVBQUUsV0FBVyxFQUFFLFdBQVcsRUFBRSxTQUFTLEVBQUUsU0FBUyxFQUFFLENBQUM7QUFDOUQsQ0FBQztBQXhCRCxvREF3QkMifQ==
\ No newline at end of file
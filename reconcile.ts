@@ -0,0 +1,119 @@
+// Reconciles the versions of a development application that appear in several register PDFs (or
+// several times in the one PDF).  Application numbers are normalised so that the versions can be
+// matched (the normalised application number is only used for matching and is never saved as the
+// application number), and the fields of the versions are merged by precedence: a non-empty value
+// is preferred over an empty value and otherwise the value from the newest document is preferred.
+// Differing non-empty values are reported as conflicts so that they can be reviewed.
+
+"use strict";
+
+// A version of a development application along with the document (PDF) that it was parsed from.
+// The period end and publish date of the document determine which version is the newest.
+
+export interface ApplicationSource {
+    url: string,
+    periodEnd: string,
+    publishDate: string,
+    application: any
+}
+
+// Two differing non-empty values of a field of a development application (the value that was
+// kept and the value that was discarded, along with the documents they were parsed from).
+
+export interface ApplicationConflict {
+    applicationNumber: string,
+    field: string,
+    keptValue: string,
+    keptUrl: string,
+    discardedValue: string,
+    discardedUrl: string
+}
+
+// The fields that are merged.  The companion fields are derived from the field and so are always
+// taken from the same version as the field.
+
+const ReconciledFields: { name: string, companions: string[] }[] = [
+    { name: "address", companions: [ "parsedAddress" ] },
+    { name: "description", companions: [] },
+    { name: "receivedDate", companions: [] },
+    { name: "legalDescription", companions: [ "parsedLegalDescription" ] },
+    { name: "applicant", companions: [] },
+    { name: "totalDevelopmentCost", companions: [] },
+    { name: "referrals", companions: [] },
+    { name: "decisions", companions: [] }
+];
+
+// Normalises an application number so that the different ways of writing the same number match
+// (for example, "581 / 0123 / 2019" becomes "581/123/19").  Whitespace is removed, leading zeros
+// are removed from every part other than the year and a four digit year is shortened to two
+// digits.  An application number that is not made up of numbers separated by slashes only has its
+// whitespace removed (and is converted to upper case).
+
+export function normaliseApplicationNumber(applicationNumber: string) {
+    let text = applicationNumber.replace(/\s/g, "").replace(/\\/g, "/").toUpperCase();
+    if (!/^\d+(\/\d+)+$/.test(text))
+        return text;
+
+    let parts = text.split("/");
+    let year = parts.pop();
+    if (/^(19|20)\d\d$/.test(year))
+        year = year.substring(2);
+    return [ ...parts.map(part => part.replace(/^0+(?=\d)/, "")), year ].join("/");
+}
+
+// Determines whether a field value is empty (and so should be filled from another version).
+
+function isEmpty(value: any) {
+    return value === undefined || value === null || value === "" || value === "No description provided" || (Array.isArray(value) && value.length === 0);
+}
+
+// Formats a field value for comparison and for the conflicts table.
+
+function formatValue(value: any) {
+    return (typeof value === "string") ? value : JSON.stringify(value);
+}
+
+// Orders the sources from the newest document to the oldest (by the end of the period covered by
+// the document and then by the publish date).  Sources from equally new documents keep their
+// original order.
+
+export function sortApplicationSources(sources: ApplicationSource[]) {
+    return sources
+        .map((source, index) => ({ source: source, index: index }))
+        .sort((a, b) =>
+            (b.source.periodEnd || "").localeCompare(a.source.periodEnd || "") ||
+            (b.source.publishDate || "").localeCompare(a.source.publishDate || "") ||
+            (a.index - b.index))
+        .map(item => item.source);
+}
+
+// Merges the versions of a development application.  The newest version supplies every field
+// that is not merged (such as the information URL), each merged field is taken from the newest
+// version that has a non-empty value and the scrape date is the latest scrape date of any
+// version.  Any other non-empty value that differs from the value kept is returned as a conflict.
+
+export function reconcileApplication(sources: ApplicationSource[]): { application: any, conflicts: ApplicationConflict[] } {
+    let sortedSources = sortApplicationSources(sources);
+    let application = { ...sortedSources[0].application };
+    let conflicts: ApplicationConflict[] = [];
+
+    for (let field of ReconciledFields) {
+        let keptSource = sortedSources.find(source => !isEmpty(source.application[field.name]));
+        if (keptSource === undefined)
+            continue;
+        for (let name of [ field.name, ...field.companions ])
+            application[name] = keptSource.application[name];
+
+        let keptValue = formatValue(keptSource.application[field.name]);
+        for (let source of sortedSources) {
+            let value = source.application[field.name];
+            if (!isEmpty(value) && formatValue(value) !== keptValue && !conflicts.some(conflict => conflict.field === field.name && conflict.discardedUrl === source.url && conflict.discardedValue === formatValue(value)))
+                conflicts.push({ applicationNumber: application.applicationNumber, field: field.name, keptValue: keptValue, keptUrl: keptSource.url, discardedValue: formatValue(value), discardedUrl: source.url });
+        }
+    }
+
+    let scrapeDates = sortedSources.map(source => source.application.scrapeDate).filter(scrapeDate => !isEmpty(scrapeDate)).sort();
+    if (scrapeDates.length > 0)
+        application.scrapeDate = scrapeDates[scrapeDates.length - 1];
+    return { application: application, conflicts: conflicts };
+}
@@ -0,0 +1,202 @@
+// Loads and validates the reference data used to correct addresses and legal descriptions (the
+// street names, street suffixes, suburb names and hundred names), and proposes new street and
+// suburb names from the addresses that could not be matched against that data.
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.proposeGazetteerEntries = exports.findHundredName = exports.getStreetSuburbNames = exports.findStreetName = exports.expandStreetSuffix = exports.getSuburbLocality = exports.findSuburbName = exports.getReferenceDataHash = exports.getReferenceData = exports.loadReferenceData = exports.parseReferenceData = exports.ReferenceDataFileNames = void 0;
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const didyoumean2_1 = require("didyoumean2"), didyoumean = didyoumean2_1;
+exports.ReferenceDataFileNames = {
+    streetNames: "streetnames.txt",
+    streetSuffixes: "streetsuffixes.txt",
+    suburbNames: "suburbnames.txt",
+    hundredNames: "hundrednames.txt"
+};
+const StateCodes = ["ACT", "NSW", "NT", "QLD", "SA", "TAS", "VIC", "WA"];
+// The reference data used by the lookup functions (see loadReferenceData).
+let referenceData = undefined;
+// Splits the content of a reference data file into lines of comma separated fields (ignoring
+// blank lines).
+function splitLines(content) {
+    let lines = [];
+    content.replace(/\r/g, "").split("\n").forEach((line, index) => {
+        if (line.trim() !== "")
+            lines.push({ lineNumber: index + 1, fields: line.toUpperCase().split(",").map(field => field.trim()) });
+    });
+    return lines;
+}
+// Adds a name and its value to a map of names, reporting any duplicate or conflicting line.
+function addName(map, name, value, fileName, lineNumber, problems) {
+    let existingValue = map[name];
+    if (existingValue === undefined)
+        map[name] = value;
+    else if (existingValue === value)
+        problems.push({ fileName: fileName, lineNumber: lineNumber, kind: "duplicate", message: `"${name}" is a duplicate of an earlier line.` });
+    else
+        problems.push({ fileName: fileName, lineNumber: lineNumber, kind: "conflict", message: `"${name}" is "${value}" but an earlier line has "${existingValue}" (the earlier line is used).` });
+}
+// Parses and validates the content of the reference data files.  Any problems are added to the
+// specified problems array (rather than throwing an error) so that a single bad line does not
+// prevent the scraper from running.
+function parseReferenceData(files, problems = []) {
+    let malformed = (fileName, lineNumber, message) => problems.push({ fileName: fileName, lineNumber: lineNumber, kind: "malformed", message: message });
+    // Suburb names (for example, "MENINGIE,MENINGIE SA 5264").
+    let suburbNames = {};
+    for (let line of splitLines(files.suburbNames)) {
+        if (line.fields.length !== 2 || line.fields[0] === "" || !/^[A-Z][A-Z' -]* [A-Z]{2,3} \d{4}$/.test(line.fields[1]))
+            malformed(exports.ReferenceDataFileNames.suburbNames, line.lineNumber, `Expected a suburb name and its suburb, state and post code (for example, "MENINGIE,MENINGIE SA 5264").`);
+        else
+            addName(suburbNames, line.fields[0], line.fields[1], exports.ReferenceDataFileNames.suburbNames, line.lineNumber, problems);
+    }
+    // Street names (for example, "JEFFERSON COURT,WELLINGTON EAST").  The same street name may
+    // appear several times with different suburbs.
+    let streetNames = {};
+    for (let line of splitLines(files.streetNames)) {
+        if (line.fields.length !== 2 || line.fields[0] === "" || line.fields[1] === "") {
+            malformed(exports.ReferenceDataFileNames.streetNames, line.lineNumber, `Expected a street name and a suburb name (for example, "JEFFERSON COURT,WELLINGTON EAST").`);
+            continue;
+        }
+        let [streetName, suburbName] = line.fields;
+        let suburbNamesOfStreet = streetNames[streetName] || (streetNames[streetName] = []);
+        if (suburbNamesOfStreet.includes(suburbName))
+            problems.push({ fileName: exports.ReferenceDataFileNames.streetNames, lineNumber: line.lineNumber, kind: "duplicate", message: `"${streetName}" in "${suburbName}" is a duplicate of an earlier line.` });
+        else {
+            suburbNamesOfStreet.push(suburbName);
+            if (suburbNames[suburbName] === undefined)
+                problems.push({ fileName: exports.ReferenceDataFileNames.streetNames, lineNumber: line.lineNumber, kind: "unknown-suburb", message: `The suburb "${suburbName}" of "${streetName}" is not in ${exports.ReferenceDataFileNames.suburbNames}.` });
+        }
+    }
+    // Street suffixes (for example, "ST,STREET").
+    let streetSuffixes = {};
+    for (let line of splitLines(files.streetSuffixes)) {
+        if (line.fields.length !== 2 || line.fields[0] === "" || line.fields[1] === "")
+            malformed(exports.ReferenceDataFileNames.streetSuffixes, line.lineNumber, `Expected a street suffix abbreviation and its expansion (for example, "St,Street").`);
+        else
+            addName(streetSuffixes, line.fields[0], line.fields[1], exports.ReferenceDataFileNames.streetSuffixes, line.lineNumber, problems);
+    }
+    // Hundred names (one per line).
+    let hundredNames = [];
+    for (let line of splitLines(files.hundredNames)) {
+        if (line.fields.length !== 1)
+            malformed(exports.ReferenceDataFileNames.hundredNames, line.lineNumber, `Expected a single hundred name.`);
+        else if (hundredNames.includes(line.fields[0]))
+            problems.push({ fileName: exports.ReferenceDataFileNames.hundredNames, lineNumber: line.lineNumber, kind: "duplicate", message: `"${line.fields[0]}" is a duplicate of an earlier line.` });
+        else
+            hundredNames.push(line.fields[0]);
+    }
+    return { streetNames: streetNames, streetSuffixes: streetSuffixes, suburbNames: suburbNames, hundredNames: hundredNames };
+}
+exports.parseReferenceData = parseReferenceData;
+// Reads the reference data files from the specified directory, validates them and uses them for
+// all subsequent lookups.  Returns the problems found (each of which is also logged).
+function loadReferenceData(directory = ".") {
+    let files = {};
+    for (let key of Object.keys(exports.ReferenceDataFileNames))
+        files[key] = fs.readFileSync(path.join(directory, exports.ReferenceDataFileNames[key])).toString();
+    let problems = [];
+    referenceData = parseReferenceData(files, problems);
+    for (let problem of problems)
+        console.log(`${problem.fileName} line ${problem.lineNumber}: ${problem.message}`);
+    return problems;
+}
+exports.loadReferenceData = loadReferenceData;
+// Gets the reference data used by the lookup functions.
+function getReferenceData() {
+    if (referenceData === undefined)
+        throw new Error("The reference data has not been loaded (call loadReferenceData first).");
+    return referenceData;
+}
+exports.getReferenceData = getReferenceData;
+// Gets a hash of the reference data used by the lookup functions (so that anything derived from
+// the reference data can be derived again when the reference data changes).
+function getReferenceDataHash() {
+    return crypto.createHash("sha256").update(JSON.stringify(getReferenceData())).digest("hex");
+}
+exports.getReferenceDataHash = getReferenceDataHash;
+// Finds the closest name to the specified text (within the specified edit distance), returning
+// undefined if there is no such name.
+function findClosestName(text, names, threshold) {
+    let match = didyoumean2_1.default(text, names, { caseSensitive: false, returnType: didyoumean.ReturnTypeEnums.FIRST_CLOSEST_MATCH, thresholdType: didyoumean.ThresholdTypeEnums.EDIT_DISTANCE, threshold: threshold, trimSpaces: true });
+    return (match === null) ? undefined : match;
+}
+// Finds the suburb name closest to the specified text (allowing for one spelling error).
+function findSuburbName(text) {
+    return findClosestName(text, Object.keys(getReferenceData().suburbNames), 1);
+}
+exports.findSuburbName = findSuburbName;
+// Gets the suburb, state and post code of a suburb name (for example, "MENINGIE SA 5264").
+function getSuburbLocality(suburbName) {
+    return getReferenceData().suburbNames[suburbName];
+}
+exports.getSuburbLocality = getSuburbLocality;
+// Expands a street suffix abbreviation (for example, "ST" to "STREET").  A suffix that is already
+// expanded is returned unchanged.  Returns undefined if the text is not a street suffix.
+function expandStreetSuffix(text) {
+    let streetSuffixes = getReferenceData().streetSuffixes;
+    let streetSuffix = streetSuffixes[text.toUpperCase()];
+    if (streetSuffix !== undefined)
+        return { value: streetSuffix, isAbbreviation: true };
+    streetSuffix = Object.values(streetSuffixes).find(streetSuffix => streetSuffix === text.toUpperCase());
+    return (streetSuffix === undefined) ? undefined : { value: streetSuffix, isAbbreviation: false };
+}
+exports.expandStreetSuffix = expandStreetSuffix;
+// Finds the street name closest to the specified text (allowing for one spelling error).
+function findStreetName(text) {
+    return findClosestName(text, Object.keys(getReferenceData().streetNames), 1);
+}
+exports.findStreetName = findStreetName;
+// Gets the names of the suburbs that contain a street.
+function getStreetSuburbNames(streetName) {
+    return getReferenceData().streetNames[streetName] || [];
+}
+exports.getStreetSuburbNames = getStreetSuburbNames;
+// Finds the hundred name closest to the specified text (allowing for two spelling errors).
+function findHundredName(text) {
+    return findClosestName(text, getReferenceData().hundredNames, 2);
+}
+exports.findHundredName = findHundredName;
+// Splits an address that could not be matched against the reference data (a "fallback" address
+// such as "12 NOWHERE LANE SOMEWHERE SA 5000") into its street name, suburb name and post code.
+// The street name is assumed to end at the last recognised street suffix.
+function splitFallbackAddress(address) {
+    let tokens = address.toUpperCase().replace(/,/g, " ").trim().split(/\s+/);
+    let postCode = /^\d{4}$/.test(tokens[tokens.length - 1]) ? tokens.pop() : undefined;
+    if (StateCodes.includes(tokens[tokens.length - 1]))
+        tokens.pop();
+    while (tokens.length > 0 && /^\d/.test(tokens[0]))
+        tokens.shift(); // the house number
+    for (let index = tokens.length - 2; index >= 1; index--) {
+        let streetSuffix = expandStreetSuffix(tokens[index]);
+        if (streetSuffix !== undefined)
+            return { streetName: [...tokens.slice(0, index), streetSuffix.value].join(" "), suburbName: tokens.slice(index + 1).join(" "), postCode: postCode };
+    }
+    return undefined;
+}
+// Proposes new lines for the street names and suburb names files, mined from the addresses that
+// could only be formatted using the fallback path (ie. that did not match a known suburb).  The
+// proposals are ordered so that those matching the most addresses come first.
+function proposeGazetteerEntries(addresses) {
+    let proposals = {};
+    let propose = (fileName, line, councilReference) => {
+        let proposal = proposals[`${fileName}\n${line}`] || (proposals[`${fileName}\n${line}`] = { fileName: fileName, line: line, count: 0, councilReferences: [] });
+        proposal.count++;
+        if (!proposal.councilReferences.includes(councilReference))
+            proposal.councilReferences.push(councilReference);
+    };
+    for (let address of addresses) {
+        let parts = splitFallbackAddress(address.address);
+        if (parts === undefined)
+            continue;
+        // A misspelt suburb is not proposed as a new suburb.
+        let suburbName = findSuburbName(parts.suburbName) || parts.suburbName;
+        if (!getStreetSuburbNames(parts.streetName).includes(suburbName))
+            propose(exports.ReferenceDataFileNames.streetNames, `${parts.streetName},${suburbName}`, address.councilReference);
+        if (getSuburbLocality(suburbName) === undefined && parts.postCode !== undefined)
+            propose(exports.ReferenceDataFileNames.suburbNames, `${suburbName},${suburbName} SA ${parts.postCode}`, address.councilReference);
+    }
+    return Object.values(proposals).sort((a, b) => (b.count - a.count) || ((a.fileName < b.fileName) ? -1 : ((a.fileName > b.fileName) ? 1 : ((a.line < b.line) ? -1 : ((a.line > b.line) ? 1 : 0)))));
+}
+exports.proposeGazetteerEntries = proposeGazetteerEntries;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoicmVmZXJlbmNlLmpzIiwic291cmNlUm9vdCI6IiIsInNvdXJjZXMiOlsicmVmZXJlbmNlLnRzIl0sIm5hbWVzIjpbXSwibWFwcGluZ3MiOiJBQUFBLCtGQUErRjtBQUMvRiw4RkFBOEY7QUFDOUYsK0VBQStFO0FBRS9FLFlBQVksQ0FBQzs7O0FBRWIsaUNBQWlDO0FBQ2pDLHlCQUF5QjtBQUN6Qiw2QkFBNkI7QUFDN0IseUVBQXNEO0FBNkN6QyxRQUFBLHNCQUFzQixHQUF1QjtJQUN0RCxXQUFXLEVBQUUsaUJBQWlCO0lBQzlCLGNBQWMsRUFBRSxvQkFBb0I7SUFDcEMsV0FBVyxFQUFFLGlCQUFpQjtJQUM5QixZQUFZLEVBQUUsa0JBQWtCO0NBQ25DLENBQUM7QUFFRixNQUFNLFVBQVUsR0FBRyxDQUFFLEtBQUssRUFBRSxLQUFLLEVBQUUsSUFBSSxFQUFFLEtBQUssRUFBRSxJQUFJLEVBQUUsS0FBSyxFQUFFLEtBQUssRUFBRSxJQUFJLENBQUUsQ0FBQztBQUUzRSwyRUFBMkU7QUFFM0UsSUFBSSxhQUFhLEdBQWtCLFNBQVMsQ0FBQztBQUU3Qyw2RkFBNkY7QUFDN0YsZ0JBQWdCO0FBRWhCLFNBQVMsVUFBVSxDQUFDLE9BQWU7SUFDL0IsSUFBSSxLQUFLLEdBQStDLEVBQUUsQ0FBQztJQUMzRCxPQUFPLENBQUMsT0FBTyxDQUFDLEtBQUssRUFBRSxFQUFFLENBQUMsQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDLENBQUMsT0FBTyxDQUFDLENBQUMsSUFBSSxFQUFFLEtBQUssRUFBRSxFQUFFO1FBQzNELElBQUksSUFBSSxDQUFDLElBQUksRUFBRSxLQUFLLEVBQUU7WUFDbEIsS0FBSyxDQUFDLElBQUksQ0FBQyxFQUFFLFVBQVUsRUFBRSxLQUFLLEdBQUcsQ0FBQyxFQUFFLE1BQU0sRUFBRSxJQUFJLENBQUMsV0FBVyxFQUFFLENBQUMsS0FBSyxDQUFDLEdBQUcsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxLQUFLLENBQUMsRUFBRSxDQUFDLEtBQUssQ0FBQyxJQUFJLEVBQUUsQ0FBQyxFQUFFLENBQUMsQ0FBQztJQUNoSCxDQUFDLENBQUMsQ0FBQztJQUNILE9BQU8sS0FBSyxDQUFDO0FBQ2pCLENBQUM7QUFFRCw0RkFBNEY7QUFFNUYsU0FBUyxPQUFPLENBQUMsR0FBK0IsRUFBRSxJQUFZLEVBQUUsS0FBYSxFQUFFLFFBQWdCLEVBQUUsVUFBa0IsRUFBRSxRQUFnQztJQUNqSixJQUFJLGFBQWEsR0FBRyxHQUFHLENBQUMsSUFBSSxDQUFDLENBQUM7SUFDOUIsSUFBSSxhQUFhLEtBQUssU0FBUztRQUMzQixHQUFHLENBQUMsSUFBSSxDQUFDLEdBQUcsS0FBSyxDQUFDO1NBQ2pCLElBQUksYUFBYSxLQUFLLEtBQUs7UUFDNUIsUUFBUSxDQUFDLElBQUksQ0FBQyxFQUFFLFFBQVEsRUFBRSxRQUFRLEVBQUUsVUFBVSxFQUFFLFVBQVUsRUFBRSxJQUFJLEVBQUUsV0FBVyxFQUFFLE9BQU8sRUFBRSxJQUFJLElBQUksc0NBQXNDLEVBQUUsQ0FBQyxDQUFDOztRQUUxSSxRQUFRLENBQUMsSUFBSSxDQUFDLEVBQUUsUUFBUSxFQUFFLFFBQVEsRUFBRSxVQUFVLEVBQUUsVUFBVSxFQUFFLElBQUksRUFBRSxVQUFVLEVBQUUsT0FBTyxFQUFFLElBQUksSUFBSSxTQUFTLEtBQUssOEJBQThCLGFBQWEsK0JBQStCLEVBQUUsQ0FBQyxDQUFDO0FBQ25NLENBQUM7QUFFRCwrRkFBK0Y7QUFDL0YsOEZBQThGO0FBQzlGLG9DQUFvQztBQUVwQyxTQUFnQixrQkFBa0IsQ0FBQyxLQUF5QixFQUFFLFdBQW1DLEVBQUU7SUFDL0YsSUFBSSxTQUFTLEdBQUcsQ0FBQyxRQUFnQixFQUFFLFVBQWtCLEVBQUUsT0FBZSxFQUFFLEVBQUUsQ0FBQyxRQUFRLENBQUMsSUFBSSxDQUFDLEVBQUUsUUFBUSxFQUFFLFFBQVEsRUFBRSxVQUFVLEVBQUUsVUFBVSxFQUFFLElBQUksRUFBRSxXQUFXLEVBQUUsT0FBTyxFQUFFLE9BQU8sRUFBRSxDQUFDLENBQUM7SUFFOUssMkRBQTJEO0lBRTNELElBQUksV0FBVyxHQUFxQyxFQUFFLENBQUM7SUFDdkQsS0FBSyxJQUFJLElBQUksSUFBSSxVQUFVLENBQUMsS0FBSyxDQUFDLFdBQVcsQ0FBQyxFQUFFO1FBQzVDLElBQUksSUFBSSxDQUFDLE1BQU0sQ0FBQyxNQUFNLEtBQUssQ0FBQyxJQUFJLElBQUksQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDLEtBQUssRUFBRSxJQUFJLENBQUMsbUNBQW1DLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDLENBQUM7WUFDOUcsU0FBUyxDQUFDLDhCQUFzQixDQUFDLFdBQVcsRUFBRSxJQUFJLENBQUMsVUFBVSxFQUFFLHdHQUF3RyxDQUFDLENBQUM7O1lBRXpLLE9BQU8sQ0FBQyxXQUFXLEVBQUUsSUFBSSxDQUFDLE1BQU0sQ0FBQyxDQUFDLENBQUMsRUFBRSxJQUFJLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxFQUFFLDhCQUFzQixDQUFDLFdBQVcsRUFBRSxJQUFJLENBQUMsVUFBVSxFQUFFLFFBQVEsQ0FBQyxDQUFDO0tBQzNIO0lBRUQsMkZBQTJGO0lBQzNGLCtDQUErQztJQUUvQyxJQUFJLFdBQVcsR0FBdUMsRUFBRSxDQUFDO0lBQ3pELEtBQUssSUFBSSxJQUFJLElBQUksVUFBVSxDQUFDLEtBQUssQ0FBQyxXQUFXLENBQUMsRUFBRTtRQUM1QyxJQUFJLElBQUksQ0FBQyxNQUFNLENBQUMsTUFBTSxLQUFLLENBQUMsSUFBSSxJQUFJLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxLQUFLLEVBQUUsSUFBSSxJQUFJLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxLQUFLLEVBQUUsRUFBRTtZQUM1RSxTQUFTLENBQUMsOEJBQXNCLENBQUMsV0FBVyxFQUFFLElBQUksQ0FBQyxVQUFVLEVBQUUsNEZBQTRGLENBQUMsQ0FBQztZQUM3SixTQUFTO1NBQ1o7UUFDRCxJQUFJLENBQUUsVUFBVSxFQUFFLFVBQVUsQ0FBRSxHQUFHLElBQUksQ0FBQyxNQUFNLENBQUM7UUFDN0MsSUFBSSxtQkFBbUIsR0FBRyxXQUFXLENBQUMsVUFBVSxDQUFDLElBQUksQ0FBQyxXQUFXLENBQUMsVUFBVSxDQUFDLEdBQUcsRUFBRSxDQUFDLENBQUM7UUFDcEYsSUFBSSxtQkFBbUIsQ0FBQyxRQUFRLENBQUMsVUFBVSxDQUFDO1lBQ3hDLFFBQVEsQ0FBQyxJQUFJLENBQUMsRUFBRSxRQUFRLEVBQUUsOEJBQXNCLENBQUMsV0FBVyxFQUFFLFVBQVUsRUFBRSxJQUFJLENBQUMsVUFBVSxFQUFFLElBQUksRUFBRSxXQUFXLEVBQUUsT0FBTyxFQUFFLElBQUksVUFBVSxTQUFTLFVBQVUsc0NBQXNDLEVBQUUsQ0FBQyxDQUFDO2FBQ2pNO1lBQ0QsbUJBQW1CLENBQUMsSUFBSSxDQUFDLFVBQVUsQ0FBQyxDQUFDO1lBQ3JDLElBQUksV0FBVyxDQUFDLFVBQVUsQ0FBQyxLQUFLLFNBQVM7Z0JBQ3JDLFFBQVEsQ0FBQyxJQUFJLENBQUMsRUFBRSxRQUFRLEVBQUUsOEJBQXNCLENBQUMsV0FBVyxFQUFFLFVBQVUsRUFBRSxJQUFJLENBQUMsVUFBVSxFQUFFLElBQUksRUFBRSxnQkFBZ0IsRUFBRSxPQUFPLEVBQUUsZUFBZSxVQUFVLFNBQVMsVUFBVSxlQUFlLDhCQUFzQixDQUFDLFdBQVcsR0FBRyxFQUFFLENBQUMsQ0FBQztTQUN2TztLQUNKO0lBRUQsOENBQThDO0lBRTlDLElBQUksY0FBYyxHQUF1QyxFQUFFLENBQUM7SUFDNUQsS0FBSyxJQUFJLElBQUksSUFBSSxVQUFVLENBQUMsS0FBSyxDQUFDLGNBQWMsQ0FBQyxFQUFFO1FBQy9DLElBQUksSUFBSSxDQUFDLE1BQU0sQ0FBQyxNQUFNLEtBQUssQ0FBQyxJQUFJLElBQUksQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDLEtBQUssRUFBRSxJQUFJLElBQUksQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDLEtBQUssRUFBRTtZQUMxRSxTQUFTLENBQUMsOEJBQXNCLENBQUMsY0FBYyxFQUFFLElBQUksQ0FBQyxVQUFVLEVBQUUscUZBQXFGLENBQUMsQ0FBQzs7WUFFekosT0FBTyxDQUFDLGNBQWMsRUFBRSxJQUFJLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxFQUFFLElBQUksQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDLEVBQUUsOEJBQXNCLENBQUMsY0FBYyxFQUFFLElBQUksQ0FBQyxVQUFVLEVBQUUsUUFBUSxDQUFDLENBQUM7S0FDakk7SUFFRCxnQ0FBZ0M7SUFFaEMsSUFBSSxZQUFZLEdBQWEsRUFBRSxDQUFDO0lBQ2hDLEtBQUssSUFBSSxJQUFJLElBQUksVUFBVSxDQUFDLEtBQUssQ0FBQyxZQUFZLENBQUMsRUFBRTtRQUM3QyxJQUFJLElBQUksQ0FBQyxNQUFNLENBQUMsTUFBTSxLQUFLLENBQUM7WUFDeEIsU0FBUyxDQUFDLDhCQUFzQixDQUFDLFlBQVksRUFBRSxJQUFJLENBQUMsVUFBVSxFQUFFLGlDQUFpQyxDQUFDLENBQUM7YUFDbEcsSUFBSSxZQUFZLENBQUMsUUFBUSxDQUFDLElBQUksQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDLENBQUM7WUFDMUMsUUFBUSxDQUFDLElBQUksQ0FBQyxFQUFFLFFBQVEsRUFBRSw4QkFBc0IsQ0FBQyxZQUFZLEVBQUUsVUFBVSxFQUFFLElBQUksQ0FBQyxVQUFVLEVBQUUsSUFBSSxFQUFFLFdBQVcsRUFBRSxPQUFPLEVBQUUsSUFBSSxJQUFJLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxzQ0FBc0MsRUFBRSxDQUFDLENBQUM7O1lBRXBMLFlBQVksQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLE1BQU0sQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO0tBQ3pDO0lBRUQsT0FBTyxFQUFFLFdBQVcsRUFBRSxXQUFXLEVBQUUsY0FBYyxFQUFFLGNBQWMsRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLFlBQVksRUFBRSxZQUFZLEVBQUUsQ0FBQztBQUM5SCxDQUFDO0FBeERELGdEQXdEQztBQUVELGdHQUFnRztBQUNoRyxzRkFBc0Y7QUFFdEYsU0FBZ0IsaUJBQWlCLENBQUMsWUFBb0IsR0FBRztJQUNyRCxJQUFJLEtBQUssR0FBdUIsRUFBRSxDQUFDO0lBQ25DLEtBQUssSUFBSSxHQUFHLElBQUksTUFBTSxDQUFDLElBQUksQ0FBQyw4QkFBc0IsQ0FBQztRQUMvQyxLQUFLLENBQUMsR0FBRyxDQUFDLEdBQUcsRUFBRSxDQUFDLFlBQVksQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLFNBQVMsRUFBRSw4QkFBc0IsQ0FBQyxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsUUFBUSxFQUFFLENBQUM7SUFFL0YsSUFBSSxRQUFRLEdBQTJCLEVBQUUsQ0FBQztJQUMxQyxhQUFhLEdBQUcsa0JBQWtCLENBQUMsS0FBSyxFQUFFLFFBQVEsQ0FBQyxDQUFDO0lBQ3BELEtBQUssSUFBSSxPQUFPLElBQUksUUFBUTtRQUN4QixPQUFPLENBQUMsR0FBRyxDQUFDLEdBQUcsT0FBTyxDQUFDLFFBQVEsU0FBUyxPQUFPLENBQUMsVUFBVSxLQUFLLE9BQU8sQ0FBQyxPQUFPLEVBQUUsQ0FBQyxDQUFDO0lBQ3RGLE9BQU8sUUFBUSxDQUFDO0FBQ3BCLENBQUM7QUFWRCw4Q0FVQztBQUVELHdEQUF3RDtBQUV4RCxTQUFnQixnQkFBZ0I7SUFDNUIsSUFBSSxhQUFhLEtBQUssU0FBUztRQUMzQixNQUFNLElBQUksS0FBSyxDQUFDLHdFQUF3RSxDQUFDLENBQUM7SUFDOUYsT0FBTyxhQUFhLENBQUM7QUFDekIsQ0FBQztBQUpELDRDQUlDO0FBRUQsZ0dBQWdHO0FBQ2hHLDRFQUE0RTtBQUU1RSxTQUFnQixvQkFBb0I7SUFDaEMsT0FBTyxNQUFNLENBQUMsVUFBVSxDQUFDLFFBQVEsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxJQUFJLENBQUMsU0FBUyxDQUFDLGdCQUFnQixFQUFFLENBQUMsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQztBQUNoRyxDQUFDO0FBRkQsb0RBRUM7QUFFRCwrRkFBK0Y7QUFDL0Ysc0NBQXNDO0FBRXRDLFNBQVMsZUFBZSxDQUFDLElBQVksRUFBRSxLQUFlLEVBQUUsU0FBaUI7SUFDckUsSUFBSSxLQUFLLEdBQVcscUJBQVUsQ0FBQyxJQUFJLEVBQUUsS0FBSyxFQUFFLEVBQUUsYUFBYSxFQUFFLEtBQUssRUFBRSxVQUFVLEVBQUUsVUFBVSxDQUFDLGVBQWUsQ0FBQyxtQkFBbUIsRUFBRSxhQUFhLEVBQUUsVUFBVSxDQUFDLGtCQUFrQixDQUFDLGFBQWEsRUFBRSxTQUFTLEVBQUUsU0FBUyxFQUFFLFVBQVUsRUFBRSxJQUFJLEVBQUUsQ0FBQyxDQUFDO0lBQ3RPLE9BQU8sQ0FBQyxLQUFLLEtBQUssSUFBSSxDQUFDLENBQUMsQ0FBQyxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsS0FBSyxDQUFDO0FBQ2hELENBQUM7QUFFRCx5RkFBeUY7QUFFekYsU0FBZ0IsY0FBYyxDQUFDLElBQVk7SUFDdkMsT0FBTyxlQUFlLENBQUMsSUFBSSxFQUFFLE1BQU0sQ0FBQyxJQUFJLENBQUMsZ0JBQWdCLEVBQUUsQ0FBQyxXQUFXLENBQUMsRUFBRSxDQUFDLENBQUMsQ0FBQztBQUNqRixDQUFDO0FBRkQsd0NBRUM7QUFFRCwyRkFBMkY7QUFFM0YsU0FBZ0IsaUJBQWlCLENBQUMsVUFBa0I7SUFDaEQsT0FBTyxnQkFBZ0IsRUFBRSxDQUFDLFdBQVcsQ0FBQyxVQUFVLENBQUMsQ0FBQztBQUN0RCxDQUFDO0FBRkQsOENBRUM7QUFFRCxrR0FBa0c7QUFDbEcseUZBQXlGO0FBRXpGLFNBQWdCLGtCQUFrQixDQUFDLElBQVk7SUFDM0MsSUFBSSxjQUFjLEdBQUcsZ0JBQWdCLEVBQUUsQ0FBQyxjQUFjLENBQUM7SUFDdkQsSUFBSSxZQUFZLEdBQUcsY0FBYyxDQUFDLElBQUksQ0FBQyxXQUFXLEVBQUUsQ0FBQyxDQUFDO0lBQ3RELElBQUksWUFBWSxLQUFLLFNBQVM7UUFDMUIsT0FBTyxFQUFFLEtBQUssRUFBRSxZQUFZLEVBQUUsY0FBYyxFQUFFLElBQUksRUFBRSxDQUFDO0lBQ3pELFlBQVksR0FBRyxNQUFNLENBQUMsTUFBTSxDQUFDLGNBQWMsQ0FBQyxDQUFDLElBQUksQ0FBQyxZQUFZLENBQUMsRUFBRSxDQUFDLFlBQVksS0FBSyxJQUFJLENBQUMsV0FBVyxFQUFFLENBQUMsQ0FBQztJQUN2RyxPQUFPLENBQUMsWUFBWSxLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxTQUFTLENBQUMsQ0FBQyxDQUFDLEVBQUUsS0FBSyxFQUFFLFlBQVksRUFBRSxjQUFjLEVBQUUsS0FBSyxFQUFFLENBQUM7QUFDckcsQ0FBQztBQVBELGdEQU9DO0FBRUQseUZBQXlGO0FBRXpGLFNBQWdCLGNBQWMsQ0FBQyxJQUFZO0lBQ3ZDLE9BQU8sZUFBZSxDQUFDLElBQUksRUFBRSxNQUFNLENBQUMsSUFBSSxDQUFDLGdCQUFnQixFQUFFLENBQUMsV0FBVyxDQUFDLEVBQUUsQ0FBQyxDQUFDLENBQUM7QUFDakYsQ0FBQztBQUZELHdDQUVDO0FBRUQsdURBQXVEO0FBRXZELFNBQWdCLG9CQUFvQixDQUFDLFVBQWtCO0lBQ25ELE9BQU8sZ0JBQWdCLEVBQUUsQ0FBQyxXQUFXLENBQUMsVUFBVSxDQUFDLElBQUksRUFBRSxDQUFDO0FBQzVELENBQUM7QUFGRCxvREFFQztBQUVELDJGQUEyRjtBQUUzRixTQUFnQixlQUFlLENBQUMsSUFBWTtJQUN4QyxPQUFPLGVBQWUsQ0FBQyxJQUFJLEVBQUUsZ0JBQWdCLEVBQUUsQ0FBQyxZQUFZLEVBQUUsQ0FBQyxDQUFDLENBQUM7QUFDckUsQ0FBQztBQUZELDBDQUVDO0FBRUQsK0ZBQStGO0FBQy9GLGdHQUFnRztBQUNoRywwRUFBMEU7QUFFMUUsU0FBUyxvQkFBb0IsQ0FBQyxPQUFlO0lBQ3pDLElBQUksTUFBTSxHQUFHLE9BQU8sQ0FBQyxXQUFXLEVBQUUsQ0FBQyxPQUFPLENBQUMsSUFBSSxFQUFFLEdBQUcsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDLEtBQUssQ0FBQyxLQUFLLENBQUMsQ0FBQztJQUMxRSxJQUFJLFFBQVEsR0FBRyxTQUFTLENBQUMsSUFBSSxDQUFDLE1BQU0sQ0FBQyxNQUFNLENBQUMsTUFBTSxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxHQUFHLEVBQUUsQ0FBQyxDQUFDLENBQUMsU0FBUyxDQUFDO0lBQ3BGLElBQUksVUFBVSxDQUFDLFFBQVEsQ0FBQyxNQUFNLENBQUMsTUFBTSxDQUFDLE1BQU0sR0FBRyxDQUFDLENBQUMsQ0FBQztRQUM5QyxNQUFNLENBQUMsR0FBRyxFQUFFLENBQUM7SUFDakIsT0FBTyxNQUFNLENBQUMsTUFBTSxHQUFHLENBQUMsSUFBSSxLQUFLLENBQUMsSUFBSSxDQUFDLE1BQU0sQ0FBQyxDQUFDLENBQUMsQ0FBQztRQUM3QyxNQUFNLENBQUMsS0FBSyxFQUFFLENBQUMsQ0FBRSxtQkFBbUI7SUFFeEMsS0FBSyxJQUFJLEtBQUssR0FBRyxNQUFNLENBQUMsTUFBTSxHQUFHLENBQUMsRUFBRSxLQUFLLElBQUksQ0FBQyxFQUFFLEtBQUssRUFBRSxFQUFFO1FBQ3JELElBQUksWUFBWSxHQUFHLGtCQUFrQixDQUFDLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQyxDQUFDO1FBQ3JELElBQUksWUFBWSxLQUFLLFNBQVM7WUFDMUIsT0FBTyxFQUFFLFVBQVUsRUFBRSxDQUFFLEdBQUcsTUFBTSxDQUFDLEtBQUssQ0FBQyxDQUFDLEVBQUUsS0FBSyxDQUFDLEVBQUUsWUFBWSxDQUFDLEtBQUssQ0FBRSxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsRUFBRSxVQUFVLEVBQUUsTUFBTSxDQUFDLEtBQUssQ0FBQyxLQUFLLEdBQUcsQ0FBQyxDQUFDLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxFQUFFLFFBQVEsRUFBRSxRQUFRLEVBQUUsQ0FBQztLQUM3SjtJQUNELE9BQU8sU0FBUyxDQUFDO0FBQ3JCLENBQUM7QUFFRCxnR0FBZ0c7QUFDaEcsZ0dBQWdHO0FBQ2hHLDhFQUE4RTtBQUU5RSxTQUFnQix1QkFBdUIsQ0FBQyxTQUEwRDtJQUM5RixJQUFJLFNBQVMsR0FBeUMsRUFBRSxDQUFDO0lBQ3pELElBQUksT0FBTyxHQUFHLENBQUMsUUFBZ0IsRUFBRSxJQUFZLEVBQUUsZ0JBQXdCLEVBQUUsRUFBRTtRQUN2RSxJQUFJLFFBQVEsR0FBRyxTQUFTLENBQUMsR0FBRyxRQUFRLEtBQUssSUFBSSxFQUFFLENBQUMsSUFBSSxDQUFDLFNBQVMsQ0FBQyxHQUFHLFFBQVEsS0FBSyxJQUFJLEVBQUUsQ0FBQyxHQUFHLEVBQUUsUUFBUSxFQUFFLFFBQVEsRUFBRSxJQUFJLEVBQUUsSUFBSSxFQUFFLEtBQUssRUFBRSxDQUFDLEVBQUUsaUJBQWlCLEVBQUUsRUFBRSxFQUFFLENBQUMsQ0FBQztRQUM5SixRQUFRLENBQUMsS0FBSyxFQUFFLENBQUM7UUFDakIsSUFBSSxDQUFDLFFBQVEsQ0FBQyxpQkFBaUIsQ0FBQyxRQUFRLENBQUMsZ0JBQWdCLENBQUM7WUFDdEQsUUFBUSxDQUFDLGlCQUFpQixDQUFDLElBQUksQ0FBQyxnQkFBZ0IsQ0FBQyxDQUFDO0lBQzFELENBQUMsQ0FBQztJQUVGLEtBQUssSUFBSSxPQUFPLElBQUksU0FBUyxFQUFFO1FBQzNCLElBQUksS0FBSyxHQUFHLG9CQUFvQixDQUFDLE9BQU8sQ0FBQyxPQUFPLENBQUMsQ0FBQztRQUNsRCxJQUFJLEtBQUssS0FBSyxTQUFTO1lBQ25CLFNBQVM7UUFFYixxREFBcUQ7UUFFckQsSUFBSSxVQUFVLEdBQUcsY0FBYyxDQUFDLEtBQUssQ0FBQyxVQUFVLENBQUMsSUFBSSxLQUFLLENBQUMsVUFBVSxDQUFDO1FBQ3RFLElBQUksQ0FBQyxvQkFBb0IsQ0FBQyxLQUFLLENBQUMsVUFBVSxDQUFDLENBQUMsUUFBUSxDQUFDLFVBQVUsQ0FBQztZQUM1RCxPQUFPLENBQUMsOEJBQXNCLENBQUMsV0FBVyxFQUFFLEdBQUcsS0FBSyxDQUFDLFVBQVUsSUFBSSxVQUFVLEVBQUUsRUFBRSxPQUFPLENBQUMsZ0JBQWdCLENBQUMsQ0FBQztRQUMvRyxJQUFJLGlCQUFpQixDQUFDLFVBQVUsQ0FBQyxLQUFLLFNBQVMsSUFBSSxLQUFLLENBQUMsUUFBUSxLQUFLLFNBQVM7WUFDM0UsT0FBTyxDQUFDLDhCQUFzQixDQUFDLFdBQVcsRUFBRSxHQUFHLFVBQVUsSUFBSSxVQUFVLE9BQU8sS0FBSyxDQUFDLFFBQVEsRUFBRSxFQUFFLE9BQU8sQ0FBQyxnQkFBZ0IsQ0FBQyxDQUFDO0tBQ2pJO0lBRUQsT0FBTyxNQUFNLENBQUMsTUFBTSxDQUFDLFNBQVMsQ0FBQyxDQUFDLElBQUksQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDLEVBQUUsRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDLEtBQUssR0FBRyxDQUFDLENBQUMsS0FBSyxDQUFDLElBQUksQ0FBQyxDQUFDLENBQUMsQ0FBQyxRQUFRLEdBQUcsQ0FBQyxDQUFDLFFBQVEsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxRQUFRLEdBQUcsQ0FBQyxDQUFDLFFBQVEsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsSUFBSSxHQUFHLENBQUMsQ0FBQyxJQUFJLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsSUFBSSxHQUFHLENBQUMsQ0FBQyxJQUFJLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO0FBQ3ZNLENBQUM7QUF4QkQsMERBd0JDIn0=
\ No newline at end of file
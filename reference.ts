@@ -0,0 +1,282 @@
+// Loads and validates the reference data used to correct addresses and legal descriptions (the
+// street names, street suffixes, suburb names and hundred names), and proposes new street and
+// suburb names from the addresses that could not be matched against that data.
+
+"use strict";
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import didYouMean, * as didyoumean from "didyoumean2";
+
+// The reference data.  Street names map to the names of the suburbs containing that street (a
+// street name may exist in several suburbs), street suffix abbreviations map to the expanded
+// suffix (for example, "ST" to "STREET") and suburb names map to the suburb, state and post code
+// (for example, "MENINGIE" to "MENINGIE SA 5264").  Everything is in upper case.
+
+export interface ReferenceData {
+    streetNames: { [streetName: string]: string[] },
+    streetSuffixes: { [abbreviation: string]: string },
+    suburbNames: { [suburbName: string]: string },
+    hundredNames: string[]
+}
+
+// The content of the reference data files.
+
+export interface ReferenceDataFiles {
+    streetNames: string,
+    streetSuffixes: string,
+    suburbNames: string,
+    hundredNames: string
+}
+
+// A problem found in a reference data file.  A "malformed" line is ignored.  For a "duplicate"
+// line or a "conflict" (a line that gives a different value for a name that already appeared)
+// the earlier line is used.  An "unknown-suburb" is a street whose suburb is not in the suburb
+// names file.
+
+export interface ReferenceDataProblem {
+    fileName: string,
+    lineNumber: number,
+    kind: "malformed" | "duplicate" | "conflict" | "unknown-suburb",
+    message: string
+}
+
+// A proposed new line for a reference data file, along with the number of fallback addresses
+// that it would have matched (and the applications with those addresses).
+
+export interface GazetteerProposal {
+    fileName: string,
+    line: string,
+    count: number,
+    councilReferences: string[]
+}
+
+export const ReferenceDataFileNames: ReferenceDataFiles = {
+    streetNames: "streetnames.txt",
+    streetSuffixes: "streetsuffixes.txt",
+    suburbNames: "suburbnames.txt",
+    hundredNames: "hundrednames.txt"
+};
+
+const StateCodes = [ "ACT", "NSW", "NT", "QLD", "SA", "TAS", "VIC", "WA" ];
+
+// The reference data used by the lookup functions (see loadReferenceData).
+
+let referenceData: ReferenceData = undefined;
+
+// Splits the content of a reference data file into lines of comma separated fields (ignoring
+// blank lines).
+
+function splitLines(content: string) {
+    let lines: { lineNumber: number, fields: string[] }[] = [];
+    content.replace(/\r/g, "").split("\n").forEach((line, index) => {
+        if (line.trim() !== "")
+            lines.push({ lineNumber: index + 1, fields: line.toUpperCase().split(",").map(field => field.trim()) });
+    });
+    return lines;
+}
+
+// Adds a name and its value to a map of names, reporting any duplicate or conflicting line.
+
+function addName(map: { [name: string]: string }, name: string, value: string, fileName: string, lineNumber: number, problems: ReferenceDataProblem[]) {
+    let existingValue = map[name];
+    if (existingValue === undefined)
+        map[name] = value;
+    else if (existingValue === value)
+        problems.push({ fileName: fileName, lineNumber: lineNumber, kind: "duplicate", message: `"${name}" is a duplicate of an earlier line.` });
+    else
+        problems.push({ fileName: fileName, lineNumber: lineNumber, kind: "conflict", message: `"${name}" is "${value}" but an earlier line has "${existingValue}" (the earlier line is used).` });
+}
+
+// Parses and validates the content of the reference data files.  Any problems are added to the
+// specified problems array (rather than throwing an error) so that a single bad line does not
+// prevent the scraper from running.
+
+export function parseReferenceData(files: ReferenceDataFiles, problems: ReferenceDataProblem[] = []): ReferenceData {
+    let malformed = (fileName: string, lineNumber: number, message: string) => problems.push({ fileName: fileName, lineNumber: lineNumber, kind: "malformed", message: message });
+
+    // Suburb names (for example, "MENINGIE,MENINGIE SA 5264").
+
+    let suburbNames: { [suburbName: string]: string } = {};
+    for (let line of splitLines(files.suburbNames)) {
+        if (line.fields.length !== 2 || line.fields[0] === "" || !/^[A-Z][A-Z' -]* [A-Z]{2,3} \d{4}$/.test(line.fields[1]))
+            malformed(ReferenceDataFileNames.suburbNames, line.lineNumber, `Expected a suburb name and its suburb, state and post code (for example, "MENINGIE,MENINGIE SA 5264").`);
+        else
+            addName(suburbNames, line.fields[0], line.fields[1], ReferenceDataFileNames.suburbNames, line.lineNumber, problems);
+    }
+
+    // Street names (for example, "JEFFERSON COURT,WELLINGTON EAST").  The same street name may
+    // appear several times with different suburbs.
+
+    let streetNames: { [streetName: string]: string[] } = {};
+    for (let line of splitLines(files.streetNames)) {
+        if (line.fields.length !== 2 || line.fields[0] === "" || line.fields[1] === "") {
+            malformed(ReferenceDataFileNames.streetNames, line.lineNumber, `Expected a street name and a suburb name (for example, "JEFFERSON COURT,WELLINGTON EAST").`);
+            continue;
+        }
+        let [ streetName, suburbName ] = line.fields;
+        let suburbNamesOfStreet = streetNames[streetName] || (streetNames[streetName] = []);
+        if (suburbNamesOfStreet.includes(suburbName))
+            problems.push({ fileName: ReferenceDataFileNames.streetNames, lineNumber: line.lineNumber, kind: "duplicate", message: `"${streetName}" in "${suburbName}" is a duplicate of an earlier line.` });
+        else {
+            suburbNamesOfStreet.push(suburbName);
+            if (suburbNames[suburbName] === undefined)
+                problems.push({ fileName: ReferenceDataFileNames.streetNames, lineNumber: line.lineNumber, kind: "unknown-suburb", message: `The suburb "${suburbName}" of "${streetName}" is not in ${ReferenceDataFileNames.suburbNames}.` });
+        }
+    }
+
+    // Street suffixes (for example, "ST,STREET").
+
+    let streetSuffixes: { [abbreviation: string]: string } = {};
+    for (let line of splitLines(files.streetSuffixes)) {
+        if (line.fields.length !== 2 || line.fields[0] === "" || line.fields[1] === "")
+            malformed(ReferenceDataFileNames.streetSuffixes, line.lineNumber, `Expected a street suffix abbreviation and its expansion (for example, "St,Street").`);
+        else
+            addName(streetSuffixes, line.fields[0], line.fields[1], ReferenceDataFileNames.streetSuffixes, line.lineNumber, problems);
+    }
+
+    // Hundred names (one per line).
+
+    let hundredNames: string[] = [];
+    for (let line of splitLines(files.hundredNames)) {
+        if (line.fields.length !== 1)
+            malformed(ReferenceDataFileNames.hundredNames, line.lineNumber, `Expected a single hundred name.`);
+        else if (hundredNames.includes(line.fields[0]))
+            problems.push({ fileName: ReferenceDataFileNames.hundredNames, lineNumber: line.lineNumber, kind: "duplicate", message: `"${line.fields[0]}" is a duplicate of an earlier line.` });
+        else
+            hundredNames.push(line.fields[0]);
+    }
+
+    return { streetNames: streetNames, streetSuffixes: streetSuffixes, suburbNames: suburbNames, hundredNames: hundredNames };
+}
+
+// Reads the reference data files from the specified directory, validates them and uses them for
+// all subsequent lookups.  Returns the problems found (each of which is also logged).
+
+export function loadReferenceData(directory: string = "."): ReferenceDataProblem[] {
+    let files = <ReferenceDataFiles>{};
+    for (let key of Object.keys(ReferenceDataFileNames))
+        files[key] = fs.readFileSync(path.join(directory, ReferenceDataFileNames[key])).toString();
+
+    let problems: ReferenceDataProblem[] = [];
+    referenceData = parseReferenceData(files, problems);
+    for (let problem of problems)
+        console.log(`${problem.fileName} line ${problem.lineNumber}: ${problem.message}`);
+    return problems;
+}
+
+// Gets the reference data used by the lookup functions.
+
+export function getReferenceData() {
+    if (referenceData === undefined)
+        throw new Error("The reference data has not been loaded (call loadReferenceData first).");
+    return referenceData;
+}
+
+// Gets a hash of the reference data used by the lookup functions (so that anything derived from
+// the reference data can be derived again when the reference data changes).
+
+export function getReferenceDataHash() {
+    return crypto.createHash("sha256").update(JSON.stringify(getReferenceData())).digest("hex");
+}
+
+// Finds the closest name to the specified text (within the specified edit distance), returning
+// undefined if there is no such name.
+
+function findClosestName(text: string, names: string[], threshold: number): string {
+    let match = <string>didYouMean(text, names, { caseSensitive: false, returnType: didyoumean.ReturnTypeEnums.FIRST_CLOSEST_MATCH, thresholdType: didyoumean.ThresholdTypeEnums.EDIT_DISTANCE, threshold: threshold, trimSpaces: true });
+    return (match === null) ? undefined : match;
+}
+
+// Finds the suburb name closest to the specified text (allowing for one spelling error).
+
+export function findSuburbName(text: string) {
+    return findClosestName(text, Object.keys(getReferenceData().suburbNames), 1);
+}
+
+// Gets the suburb, state and post code of a suburb name (for example, "MENINGIE SA 5264").
+
+export function getSuburbLocality(suburbName: string): string {
+    return getReferenceData().suburbNames[suburbName];
+}
+
+// Expands a street suffix abbreviation (for example, "ST" to "STREET").  A suffix that is already
+// expanded is returned unchanged.  Returns undefined if the text is not a street suffix.
+
+export function expandStreetSuffix(text: string): { value: string, isAbbreviation: boolean } {
+    let streetSuffixes = getReferenceData().streetSuffixes;
+    let streetSuffix = streetSuffixes[text.toUpperCase()];
+    if (streetSuffix !== undefined)
+        return { value: streetSuffix, isAbbreviation: true };
+    streetSuffix = Object.values(streetSuffixes).find(streetSuffix => streetSuffix === text.toUpperCase());
+    return (streetSuffix === undefined) ? undefined : { value: streetSuffix, isAbbreviation: false };
+}
+
+// Finds the street name closest to the specified text (allowing for one spelling error).
+
+export function findStreetName(text: string) {
+    return findClosestName(text, Object.keys(getReferenceData().streetNames), 1);
+}
+
+// Gets the names of the suburbs that contain a street.
+
+export function getStreetSuburbNames(streetName: string): string[] {
+    return getReferenceData().streetNames[streetName] || [];
+}
+
+// Finds the hundred name closest to the specified text (allowing for two spelling errors).
+
+export function findHundredName(text: string) {
+    return findClosestName(text, getReferenceData().hundredNames, 2);
+}
+
+// Splits an address that could not be matched against the reference data (a "fallback" address
+// such as "12 NOWHERE LANE SOMEWHERE SA 5000") into its street name, suburb name and post code.
+// The street name is assumed to end at the last recognised street suffix.
+
+function splitFallbackAddress(address: string) {
+    let tokens = address.toUpperCase().replace(/,/g, " ").trim().split(/\s+/);
+    let postCode = /^\d{4}$/.test(tokens[tokens.length - 1]) ? tokens.pop() : undefined;
+    if (StateCodes.includes(tokens[tokens.length - 1]))
+        tokens.pop();
+    while (tokens.length > 0 && /^\d/.test(tokens[0]))
+        tokens.shift();  // the house number
+
+    for (let index = tokens.length - 2; index >= 1; index--) {
+        let streetSuffix = expandStreetSuffix(tokens[index]);
+        if (streetSuffix !== undefined)
+            return { streetName: [ ...tokens.slice(0, index), streetSuffix.value ].join(" "), suburbName: tokens.slice(index + 1).join(" "), postCode: postCode };
+    }
+    return undefined;
+}
+
+// Proposes new lines for the street names and suburb names files, mined from the addresses that
+// could only be formatted using the fallback path (ie. that did not match a known suburb).  The
+// proposals are ordered so that those matching the most addresses come first.
+
+export function proposeGazetteerEntries(addresses: { councilReference: string, address: string }[]): GazetteerProposal[] {
+    let proposals: { [key: string]: GazetteerProposal } = {};
+    let propose = (fileName: string, line: string, councilReference: string) => {
+        let proposal = proposals[`${fileName}\n${line}`] || (proposals[`${fileName}\n${line}`] = { fileName: fileName, line: line, count: 0, councilReferences: [] });
+        proposal.count++;
+        if (!proposal.councilReferences.includes(councilReference))
+            proposal.councilReferences.push(councilReference);
+    };
+
+    for (let address of addresses) {
+        let parts = splitFallbackAddress(address.address);
+        if (parts === undefined)
+            continue;
+
+        // A misspelt suburb is not proposed as a new suburb.
+
+        let suburbName = findSuburbName(parts.suburbName) || parts.suburbName;
+        if (!getStreetSuburbNames(parts.streetName).includes(suburbName))
+            propose(ReferenceDataFileNames.streetNames, `${parts.streetName},${suburbName}`, address.councilReference);
+        if (getSuburbLocality(suburbName) === undefined && parts.postCode !== undefined)
+            propose(ReferenceDataFileNames.suburbNames, `${suburbName},${suburbName} SA ${parts.postCode}`, address.councilReference);
+    }
+
+    return Object.values(proposals).sort((a, b) => (b.count - a.count) || ((a.fileName < b.fileName) ? -1 : ((a.fileName > b.fileName) ? 1 : ((a.line < b.line) ? -1 : ((a.line > b.line) ? 1 : 0)))));
+}
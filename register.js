@@ -0,0 +1,187 @@
+// Parses the development register page (the search results that link to each PDF) into the PDF
+// documents it lists, infers the period of applications that each PDF covers and selects the PDFs
+// to parse.
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.selectPdfUrls = exports.isInPeriod = exports.sortRegisterDocuments = exports.parseRegisterPage = exports.inferPeriod = exports.decodeUrlPath = exports.MaximumRegisterPageCount = void 0;
+const cheerio = require("cheerio");
+const moment = require("moment");
+const urlparser = require("url");
+const councils_1 = require("./councils");
+// The maximum number of register pages followed (to avoid any chance of an infinite loop).
+exports.MaximumRegisterPageCount = 50;
+const MonthPattern = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+// Converts a month name (or abbreviation) and year to a moment for the start of that month.
+function getMonthStart(monthName, year) {
+    return moment(`${monthName.substring(0, 3)} ${year}`, "MMM YYYY");
+}
+// Decodes the path of a URL (for example, "DA%20Register%20Feb-2019.pdf").  A path that is not
+// validly encoded (for example, "Register%ZZ.pdf") is returned with only its spaces decoded.
+function decodeUrlPath(url) {
+    let path = urlparser.parse(url).pathname || "";
+    try {
+        return decodeURIComponent(path);
+    }
+    catch (error) {
+        return path.replace(/%20/g, " ");
+    }
+}
+exports.decodeUrlPath = decodeUrlPath;
+// Infers the period of applications covered by a PDF from its title (or the decoded path of its
+// URL).  For example,
+// "Development Register January 2019" covers January 2019, "Development Register January to
+// March 2019" covers the first quarter of 2019, "Development Register 2018-19" covers the
+// 2018-19 financial year and "Development Register 2018" covers the whole of 2018.
+function inferPeriod(text) {
+    text = text.toLowerCase().replace(/[_+]/g, " ");
+    let format = (start, end) => ({ periodStart: start.format("YYYY-MM-DD"), periodEnd: end.format("YYYY-MM-DD") });
+    // A range of months (for example, "January to March 2019" or "Nov 2018 - Feb 2019").
+    let match = new RegExp(`\\b${MonthPattern}\\s*(\\d{4})?\\s*(?:-|to|–)\\s*${MonthPattern}\\s*(\\d{4})\\b`).exec(text);
+    if (match !== null) {
+        let end = getMonthStart(match[3], match[4]);
+        let start = getMonthStart(match[1], match[2] || match[4]);
+        if (match[2] === undefined && start.isAfter(end))
+            start.subtract(1, "year"); // for example, "November to February 2019"
+        return format(start, end.endOf("month"));
+    }
+    // A single month (for example, "January 2019" or "Jan-2019").
+    match = new RegExp(`\\b${MonthPattern}\\s*-?\\s*(\\d{4})\\b`).exec(text);
+    if (match !== null) {
+        let start = getMonthStart(match[1], match[2]);
+        return format(start, start.clone().endOf("month"));
+    }
+    // A financial year (for example, "2018-19", "2018/19" or "2018-2019").
+    match = /\b(\d{4})\s*[-\/–]\s*(\d{2}|\d{4})\b/.exec(text);
+    if (match !== null) {
+        let startYear = Number(match[1]);
+        let endYear = Number((match[2].length === 2) ? match[1].substring(0, 2) + match[2] : match[2]);
+        if (endYear === startYear + 1)
+            return format(moment({ year: startYear, month: 6, day: 1 }), moment({ year: endYear, month: 5, day: 30 }));
+    }
+    // A calendar year (for example, "2018").
+    match = /\b((?:19|20)\d{2})\b/.exec(text);
+    if (match !== null)
+        return format(moment({ year: Number(match[1]), month: 0, day: 1 }), moment({ year: Number(match[1]), month: 11, day: 31 }));
+    return { periodStart: undefined, periodEnd: undefined };
+}
+exports.inferPeriod = inferPeriod;
+// Parses a publish date such as "25 February 2019", "25 Feb 2019" or "25/02/2019" (returning
+// undefined if there is no recognisable date).
+function parsePublishDate(text) {
+    let match = /\b(\d{1,2}\s+[A-Za-z]+\s+\d{4}|\d{1,2}\/\d{1,2}\/\d{4})\b/.exec(text);
+    if (match === null)
+        return undefined;
+    let publishDate = moment(match[1], ["D MMMM YYYY", "D MMM YYYY", "D/MM/YYYY"], true);
+    return publishDate.isValid() ? publishDate.format("YYYY-MM-DD") : undefined;
+}
+// Parses a single register page (using the specified selectors), returning the PDF documents
+// that it lists (in the order that they appear) and the URL of the next page of results
+// (undefined if this is the last page).
+function parseRegisterPage(body, pageUrl, selectors = councils_1.DefaultRegisterSelectors) {
+    let $ = cheerio.load(body);
+    let documents = [];
+    for (let element of $(selectors.item).get()) {
+        let item = $(element);
+        let url = item.find(selectors.url).text().trim();
+        if (url === "")
+            url = item.find("a[href]").first().attr("href") || "";
+        if (!url.toLowerCase().includes(".pdf"))
+            continue;
+        url = urlparser.resolve(pageUrl, url);
+        if (documents.some(document => document.url === url))
+            continue;
+        let title = item.find(selectors.title).text().trim().replace(/\s\s+/g, " ");
+        if (title === "")
+            title = item.find("a").first().text().trim().replace(/\s\s+/g, " ");
+        let publishDate = parsePublishDate(item.find(selectors.date).text());
+        if (publishDate === undefined)
+            publishDate = parsePublishDate(item.text());
+        // Prefer the title when inferring the period (the URL is only used as a fallback).
+        let period = inferPeriod(title);
+        if (period.periodStart === undefined)
+            period = inferPeriod(decodeUrlPath(url));
+        documents.push({ url: url, title: title, publishDate: publishDate, periodStart: period.periodStart, periodEnd: period.periodEnd });
+    }
+    // Find the link to the next page of results (either marked as the next link or with text
+    // such as "Next" or "»").
+    let nextPageUrl = undefined;
+    let nextElement = $(selectors.nextPage).first();
+    if (nextElement.length === 0)
+        nextElement = $("a").filter((index, element) => /^\s*(next|›|»)/i.test($(element).text())).first();
+    if (nextElement.length > 0 && nextElement.attr("href"))
+        nextPageUrl = urlparser.resolve(pageUrl, nextElement.attr("href"));
+    return { documents: documents, nextPageUrl: nextPageUrl };
+}
+exports.parseRegisterPage = parseRegisterPage;
+// Orders the documents by the period that they cover (most recent first).  Documents with no
+// inferred period are ordered by publish date and otherwise retain their register order (after
+// the documents with a period or publish date).
+function sortRegisterDocuments(documents) {
+    let getSortDate = (document) => document.periodEnd || document.publishDate || "";
+    return documents
+        .map((document, index) => ({ document: document, index: index }))
+        .sort((a, b) => {
+        let aDate = getSortDate(a.document);
+        let bDate = getSortDate(b.document);
+        return (aDate > bDate) ? -1 : ((aDate < bDate) ? 1 : (a.index - b.index));
+    })
+        .map(item => item.document);
+}
+exports.sortRegisterDocuments = sortRegisterDocuments;
+// Determines whether a document covers any part of the specified period (given as "YYYY",
+// "YYYY-MM" or "YYYY-MM-DD").
+function isInPeriod(document, period) {
+    let granularity = { 4: "year", 7: "month", 10: "day" }[period.length];
+    let periodStart = moment(period, ["YYYY", "YYYY-MM", "YYYY-MM-DD"], true);
+    if (granularity === undefined || !periodStart.isValid())
+        throw new Error(`The period "${period}" is not valid (specify YYYY, YYYY-MM or YYYY-MM-DD).`);
+    if (document.periodStart === undefined)
+        return false;
+    let periodEnd = periodStart.clone().endOf(granularity);
+    return document.periodStart <= periodEnd.format("YYYY-MM-DD") && document.periodEnd >= periodStart.format("YYYY-MM-DD");
+}
+exports.isInPeriod = isInPeriod;
+// Selects the PDFs to parse using the specified strategy: "all", "latest:N", "url:<url>",
+// "period:<YYYY|YYYY-MM|YYYY-MM-DD>" or "round-robin:N".  The PDFs are assumed to be ordered by
+// the period that they cover (most recent first).  The round-robin strategy uses the date that
+// each PDF was last parsed (a PDF that has never been parsed has no date).
+function selectPdfUrls(registerDocuments, pdfSelection, datesParsed = {}) {
+    let pdfUrls = registerDocuments.map(registerDocument => registerDocument.url);
+    let separatorIndex = pdfSelection.indexOf(":");
+    let strategy = (separatorIndex < 0) ? pdfSelection : pdfSelection.substring(0, separatorIndex);
+    let argument = (separatorIndex < 0) ? undefined : pdfSelection.substring(separatorIndex + 1).trim();
+    let count = 1;
+    if (strategy === "latest" || strategy === "round-robin") {
+        count = (argument === undefined) ? 1 : Number(argument);
+        if (!Number.isInteger(count) || count < 1)
+            throw new Error(`The PDF selection "${pdfSelection}" must specify a positive number of PDFs.`);
+    }
+    if (strategy === "all")
+        return pdfUrls.slice();
+    else if (strategy === "latest")
+        return pdfUrls.slice(0, count);
+    else if (strategy === "url") {
+        if (argument === undefined || argument === "")
+            throw new Error(`The PDF selection "${pdfSelection}" must specify a PDF URL.`);
+        if (!pdfUrls.includes(argument))
+            console.log(`The PDF ${argument} is not linked from the register page but will be parsed anyway.`);
+        return [argument];
+    }
+    else if (strategy === "period") {
+        if (argument === undefined || argument === "")
+            throw new Error(`The PDF selection "${pdfSelection}" must specify a period (YYYY, YYYY-MM or YYYY-MM-DD).`);
+        return registerDocuments.filter(registerDocument => isInPeriod(registerDocument, argument)).map(registerDocument => registerDocument.url);
+    }
+    else if (strategy === "round-robin") {
+        // Always parse the most recent PDF (because this is the PDF that the council updates with
+        // new applications).  Then parse the PDFs that were least recently parsed, starting with
+        // any PDFs that have never been parsed.
+        let otherPdfUrls = pdfUrls.slice(1).map((pdfUrl, index) => ({ url: pdfUrl, index: index, dateParsed: datesParsed[pdfUrl] || "" }));
+        otherPdfUrls.sort((a, b) => (a.dateParsed < b.dateParsed) ? -1 : ((a.dateParsed > b.dateParsed) ? 1 : (a.index - b.index)));
+        return [pdfUrls[0], ...otherPdfUrls.slice(0, count - 1).map(otherPdfUrl => otherPdfUrl.url)];
+    }
+    else
+        throw new Error(`The PDF selection "${pdfSelection}" is not supported (specify "all", "latest:N", "url:<url>", "period:<period>" or "round-robin:N").`);
+}
+exports.selectPdfUrls = selectPdfUrls;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoicmVnaXN0ZXIuanMiLCJzb3VyY2VSb290IjoiIiwic291cmNlcyI6WyJyZWdpc3Rlci50cyJdLCJuYW1lcyI6W10sIm1hcHBpbmdzIjoiQUFBQSwrRkFBK0Y7QUFDL0Ysa0dBQWtHO0FBQ2xHLFlBQVk7QUFFWixZQUFZLENBQUM7OztBQUViLG1DQUFtQztBQUNuQyxpQ0FBaUM7QUFDakMsaUNBQWlDO0FBQ2pDLHlDQUF5RTtBQWF6RSwyRkFBMkY7QUFFOUUsUUFBQSx3QkFBd0IsR0FBRyxFQUFFLENBQUM7QUFFM0MsTUFBTSxZQUFZLEdBQUcsNklBQTZJLENBQUM7QUFFbkssNEZBQTRGO0FBRTVGLFNBQVMsYUFBYSxDQUFDLFNBQWlCLEVBQUUsSUFBWTtJQUNsRCxPQUFPLE1BQU0sQ0FBQyxHQUFHLFNBQVMsQ0FBQyxTQUFTLENBQUMsQ0FBQyxFQUFFLENBQUMsQ0FBQyxJQUFJLElBQUksRUFBRSxFQUFFLFVBQVUsQ0FBQyxDQUFDO0FBQ3RFLENBQUM7QUFFRCwrRkFBK0Y7QUFDL0YsNkZBQTZGO0FBRTdGLFNBQWdCLGFBQWEsQ0FBQyxHQUFXO0lBQ3JDLElBQUksSUFBSSxHQUFHLFNBQVMsQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLENBQUMsUUFBUSxJQUFJLEVBQUUsQ0FBQztJQUMvQyxJQUFJO1FBQ0EsT0FBTyxrQkFBa0IsQ0FBQyxJQUFJLENBQUMsQ0FBQztLQUNuQztJQUFDLE9BQU8sS0FBSyxFQUFFO1FBQ1osT0FBTyxJQUFJLENBQUMsT0FBTyxDQUFDLE1BQU0sRUFBRSxHQUFHLENBQUMsQ0FBQztLQUNwQztBQUNMLENBQUM7QUFQRCxzQ0FPQztBQUVELGdHQUFnRztBQUNoRyxzQkFBc0I7QUFDdEIsNEZBQTRGO0FBQzVGLDBGQUEwRjtBQUMxRixtRkFBbUY7QUFFbkYsU0FBZ0IsV0FBVyxDQUFDLElBQVk7SUFDcEMsSUFBSSxHQUFHLElBQUksQ0FBQyxXQUFXLEVBQUUsQ0FBQyxPQUFPLENBQUMsT0FBTyxFQUFFLEdBQUcsQ0FBQyxDQUFDO0lBQ2hELElBQUksTUFBTSxHQUFHLENBQUMsS0FBb0IsRUFBRSxHQUFrQixFQUFFLEVBQUUsQ0FBQyxDQUFDLEVBQUUsV0FBVyxFQUFFLEtBQUssQ0FBQyxNQUFNLENBQUMsWUFBWSxDQUFDLEVBQUUsU0FBUyxFQUFFLEdBQUcsQ0FBQyxNQUFNLENBQUMsWUFBWSxDQUFDLEVBQUUsQ0FBQyxDQUFDO0lBRTlJLHFGQUFxRjtJQUVyRixJQUFJLEtBQUssR0FBRyxJQUFJLE1BQU0sQ0FBQyxNQUFNLFlBQVksa0NBQWtDLFlBQVksaUJBQWlCLENBQUMsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLENBQUM7SUFDckgsSUFBSSxLQUFLLEtBQUssSUFBSSxFQUFFO1FBQ2hCLElBQUksR0FBRyxHQUFHLGFBQWEsQ0FBQyxLQUFLLENBQUMsQ0FBQyxDQUFDLEVBQUUsS0FBSyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUM7UUFDNUMsSUFBSSxLQUFLLEdBQUcsYUFBYSxDQUFDLEtBQUssQ0FBQyxDQUFDLENBQUMsRUFBRSxLQUFLLENBQUMsQ0FBQyxDQUFDLElBQUksS0FBSyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUM7UUFDMUQsSUFBSSxLQUFLLENBQUMsQ0FBQyxDQUFDLEtBQUssU0FBUyxJQUFJLEtBQUssQ0FBQyxPQUFPLENBQUMsR0FBRyxDQUFDO1lBQzVDLEtBQUssQ0FBQyxRQUFRLENBQUMsQ0FBQyxFQUFFLE1BQU0sQ0FBQyxDQUFDLENBQUUsMkNBQTJDO1FBQzNFLE9BQU8sTUFBTSxDQUFDLEtBQUssRUFBRSxHQUFHLENBQUMsS0FBSyxDQUFDLE9BQU8sQ0FBQyxDQUFDLENBQUM7S0FDNUM7SUFFRCw4REFBOEQ7SUFFOUQsS0FBSyxHQUFHLElBQUksTUFBTSxDQUFDLE1BQU0sWUFBWSx1QkFBdUIsQ0FBQyxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUMsQ0FBQztJQUN6RSxJQUFJLEtBQUssS0FBSyxJQUFJLEVBQUU7UUFDaEIsSUFBSSxLQUFLLEdBQUcsYUFBYSxDQUFDLEtBQUssQ0FBQyxDQUFDLENBQUMsRUFBRSxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQztRQUM5QyxPQUFPLE1BQU0sQ0FBQyxLQUFLLEVBQUUsS0FBSyxDQUFDLEtBQUssRUFBRSxDQUFDLEtBQUssQ0FBQyxPQUFPLENBQUMsQ0FBQyxDQUFDO0tBQ3REO0lBRUQsdUVBQXVFO0lBRXZFLEtBQUssR0FBRyxzQ0FBc0MsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLENBQUM7SUFDMUQsSUFBSSxLQUFLLEtBQUssSUFBSSxFQUFFO1FBQ2hCLElBQUksU0FBUyxHQUFHLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQztRQUNqQyxJQUFJLE9BQU8sR0FBRyxNQUFNLENBQUMsQ0FBQyxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsTUFBTSxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsU0FBUyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsR0FBRyxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLEtBQUssQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO1FBQy9GLElBQUksT0FBTyxLQUFLLFNBQVMsR0FBRyxDQUFDO1lBQ3pCLE9BQU8sTUFBTSxDQUFDLE1BQU0sQ0FBQyxFQUFFLElBQUksRUFBRSxTQUFTLEVBQUUsS0FBSyxFQUFFLENBQUMsRUFBRSxHQUFHLEVBQUUsQ0FBQyxFQUFFLENBQUMsRUFBRSxNQUFNLENBQUMsRUFBRSxJQUFJLEVBQUUsT0FBTyxFQUFFLEtBQUssRUFBRSxDQUFDLEVBQUUsR0FBRyxFQUFFLEVBQUUsRUFBRSxDQUFDLENBQUMsQ0FBQztLQUNsSDtJQUVELHlDQUF5QztJQUV6QyxLQUFLLEdBQUcsc0JBQXNCLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxDQUFDO0lBQzFDLElBQUksS0FBSyxLQUFLLElBQUk7UUFDZCxPQUFPLE1BQU0sQ0FBQyxNQUFNLENBQUMsRUFBRSxJQUFJLEVBQUUsTUFBTSxDQUFDLEtBQUssQ0FBQyxDQUFDLENBQUMsQ0FBQyxFQUFFLEtBQUssRUFBRSxDQUFDLEVBQUUsR0FBRyxFQUFFLENBQUMsRUFBRSxDQUFDLEVBQUUsTUFBTSxDQUFDLEVBQUUsSUFBSSxFQUFFLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRSxLQUFLLEVBQUUsRUFBRSxFQUFFLEdBQUcsRUFBRSxFQUFFLEVBQUUsQ0FBQyxDQUFDLENBQUM7SUFFaEksT0FBTyxFQUFFLFdBQVcsRUFBRSxTQUFTLEVBQUUsU0FBUyxFQUFFLFNBQVMsRUFBRSxDQUFDO0FBQzVELENBQUM7QUF4Q0Qsa0NBd0NDO0FBRUQsNkZBQTZGO0FBQzdGLCtDQUErQztBQUUvQyxTQUFTLGdCQUFnQixDQUFDLElBQVk7SUFDbEMsSUFBSSxLQUFLLEdBQUcsMkRBQTJELENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxDQUFDO0lBQ25GLElBQUksS0FBSyxLQUFLLElBQUk7UUFDZCxPQUFPLFNBQVMsQ0FBQztJQUNyQixJQUFJLFdBQVcsR0FBRyxNQUFNLENBQUMsS0FBSyxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUUsYUFBYSxFQUFFLFlBQVksRUFBRSxXQUFXLENBQUUsRUFBRSxJQUFJLENBQUMsQ0FBQztJQUN2RixPQUFPLFdBQVcsQ0FBQyxPQUFPLEVBQUUsQ0FBQyxDQUFDLENBQUMsV0FBVyxDQUFDLE1BQU0sQ0FBQyxZQUFZLENBQUMsQ0FBQyxDQUFDLENBQUMsU0FBUyxDQUFDO0FBQ2hGLENBQUM7QUFFRCw2RkFBNkY7QUFDN0Ysd0ZBQXdGO0FBQ3hGLHdDQUF3QztBQUV4QyxTQUFnQixpQkFBaUIsQ0FBQyxJQUFZLEVBQUUsT0FBZSxFQUFFLFlBQStCLG1DQUF3QjtJQUNwSCxJQUFJLENBQUMsR0FBRyxPQUFPLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxDQUFDO0lBRTNCLElBQUksU0FBUyxHQUF1QixFQUFFLENBQUM7SUFDdkMsS0FBSyxJQUFJLE9BQU8sSUFBSSxDQUFDLENBQUMsU0FBUyxDQUFDLElBQUksQ0FBQyxDQUFDLEdBQUcsRUFBRSxFQUFFO1FBQ3pDLElBQUksSUFBSSxHQUFHLENBQUMsQ0FBQyxPQUFPLENBQUMsQ0FBQztRQUN0QixJQUFJLEdBQUcsR0FBRyxJQUFJLENBQUMsSUFBSSxDQUFDLFNBQVMsQ0FBQyxHQUFHLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxJQUFJLEVBQUUsQ0FBQztRQUNqRCxJQUFJLEdBQUcsS0FBSyxFQUFFO1lBQ1YsR0FBRyxHQUFHLElBQUksQ0FBQyxJQUFJLENBQUMsU0FBUyxDQUFDLENBQUMsS0FBSyxFQUFFLENBQUMsSUFBSSxDQUFDLE1BQU0sQ0FBQyxJQUFJLEVBQUUsQ0FBQztRQUMxRCxJQUFJLENBQUMsR0FBRyxDQUFDLFdBQVcsRUFBRSxDQUFDLFFBQVEsQ0FBQyxNQUFNLENBQUM7WUFDbkMsU0FBUztRQUNiLEdBQUcsR0FBRyxTQUFTLENBQUMsT0FBTyxDQUFDLE9BQU8sRUFBRSxHQUFHLENBQUMsQ0FBQztRQUN0QyxJQUFJLFNBQVMsQ0FBQyxJQUFJLENBQUMsUUFBUSxDQUFDLEVBQUUsQ0FBQyxRQUFRLENBQUMsR0FBRyxLQUFLLEdBQUcsQ0FBQztZQUNoRCxTQUFTO1FBRWIsSUFBSSxLQUFLLEdBQUcsSUFBSSxDQUFDLElBQUksQ0FBQyxTQUFTLENBQUMsS0FBSyxDQUFDLENBQUMsSUFBSSxFQUFFLENBQUMsSUFBSSxFQUFFLENBQUMsT0FBTyxDQUFDLFFBQVEsRUFBRSxHQUFHLENBQUMsQ0FBQztRQUM1RSxJQUFJLEtBQUssS0FBSyxFQUFFO1lBQ1osS0FBSyxHQUFHLElBQUksQ0FBQyxJQUFJLENBQUMsR0FBRyxDQUFDLENBQUMsS0FBSyxFQUFFLENBQUMsSUFBSSxFQUFFLENBQUMsSUFBSSxFQUFFLENBQUMsT0FBTyxDQUFDLFFBQVEsRUFBRSxHQUFHLENBQUMsQ0FBQztRQUN4RSxJQUFJLFdBQVcsR0FBRyxnQkFBZ0IsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLFNBQVMsQ0FBQyxJQUFJLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxDQUFDO1FBQ3JFLElBQUksV0FBVyxLQUFLLFNBQVM7WUFDekIsV0FBVyxHQUFHLGdCQUFnQixDQUFDLElBQUksQ0FBQyxJQUFJLEVBQUUsQ0FBQyxDQUFDO1FBRWhELG1GQUFtRjtRQUVuRixJQUFJLE1BQU0sR0FBRyxXQUFXLENBQUMsS0FBSyxDQUFDLENBQUM7UUFDaEMsSUFBSSxNQUFNLENBQUMsV0FBVyxLQUFLLFNBQVM7WUFDaEMsTUFBTSxHQUFHLFdBQVcsQ0FBQyxhQUFhLENBQUMsR0FBRyxDQUFDLENBQUMsQ0FBQztRQUU3QyxTQUFTLENBQUMsSUFBSSxDQUFDLEVBQUUsR0FBRyxFQUFFLEdBQUcsRUFBRSxLQUFLLEVBQUUsS0FBSyxFQUFFLFdBQVcsRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLE1BQU0sQ0FBQyxXQUFXLEVBQUUsU0FBUyxFQUFFLE1BQU0sQ0FBQyxTQUFTLEVBQUUsQ0FBQyxDQUFDO0tBQ3RJO0lBRUQseUZBQXlGO0lBQ3pGLDBCQUEwQjtJQUUxQixJQUFJLFdBQVcsR0FBRyxTQUFTLENBQUM7SUFDNUIsSUFBSSxXQUFXLEdBQUcsQ0FBQyxDQUFDLFNBQVMsQ0FBQyxRQUFRLENBQUMsQ0FBQyxLQUFLLEVBQUUsQ0FBQztJQUNoRCxJQUFJLFdBQVcsQ0FBQyxNQUFNLEtBQUssQ0FBQztRQUN4QixXQUFXLEdBQUcsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxDQUFDLEtBQUssRUFBRSxPQUFPLEVBQUUsRUFBRSxDQUFDLGlCQUFpQixDQUFDLElBQUksQ0FBQyxDQUFDLENBQUMsT0FBTyxDQUFDLENBQUMsSUFBSSxFQUFFLENBQUMsQ0FBQyxDQUFDLEtBQUssRUFBRSxDQUFDO0lBQ3ZHLElBQUksV0FBVyxDQUFDLE1BQU0sR0FBRyxDQUFDLElBQUksV0FBVyxDQUFDLElBQUksQ0FBQyxNQUFNLENBQUM7UUFDbEQsV0FBVyxHQUFHLFNBQVMsQ0FBQyxPQUFPLENBQUMsT0FBTyxFQUFFLFdBQVcsQ0FBQyxJQUFJLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQztJQUV2RSxPQUFPLEVBQUUsU0FBUyxFQUFFLFNBQVMsRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLENBQUM7QUFDOUQsQ0FBQztBQTFDRCw4Q0EwQ0M7QUFFRCw2RkFBNkY7QUFDN0YsK0ZBQStGO0FBQy9GLGdEQUFnRDtBQUVoRCxTQUFnQixxQkFBcUIsQ0FBQyxTQUE2QjtJQUMvRCxJQUFJLFdBQVcsR0FBRyxDQUFDLFFBQTBCLEVBQUUsRUFBRSxDQUFDLFFBQVEsQ0FBQyxTQUFTLElBQUksUUFBUSxDQUFDLFdBQVcsSUFBSSxFQUFFLENBQUM7SUFDbkcsT0FBTyxTQUFTO1NBQ1gsR0FBRyxDQUFDLENBQUMsUUFBUSxFQUFFLEtBQUssRUFBRSxFQUFFLENBQUMsQ0FBQyxFQUFFLFFBQVEsRUFBRSxRQUFRLEVBQUUsS0FBSyxFQUFFLEtBQUssRUFBRSxDQUFDLENBQUM7U0FDaEUsSUFBSSxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsRUFBRSxFQUFFO1FBQ1gsSUFBSSxLQUFLLEdBQUcsV0FBVyxDQUFDLENBQUMsQ0FBQyxRQUFRLENBQUMsQ0FBQztRQUNwQyxJQUFJLEtBQUssR0FBRyxXQUFXLENBQUMsQ0FBQyxDQUFDLFFBQVEsQ0FBQyxDQUFDO1FBQ3BDLE9BQU8sQ0FBQyxLQUFLLEdBQUcsS0FBSyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsS0FBSyxHQUFHLEtBQUssQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLEtBQUssR0FBRyxDQUFDLENBQUMsS0FBSyxDQUFDLENBQUMsQ0FBQztJQUM5RSxDQUFDLENBQUM7U0FDRCxHQUFHLENBQUMsSUFBSSxDQUFDLEVBQUUsQ0FBQyxJQUFJLENBQUMsUUFBUSxDQUFDLENBQUM7QUFDcEMsQ0FBQztBQVZELHNEQVVDO0FBRUQsMEZBQTBGO0FBQzFGLDhCQUE4QjtBQUU5QixTQUFnQixVQUFVLENBQUMsUUFBMEIsRUFBRSxNQUFjO0lBQ2pFLElBQUksV0FBVyxHQUFHLEVBQUUsQ0FBQyxFQUFFLE1BQU0sRUFBRSxDQUFDLEVBQUUsT0FBTyxFQUFFLEVBQUUsRUFBRSxLQUFLLEVBQUUsQ0FBQyxNQUFNLENBQUMsTUFBTSxDQUFDLENBQUM7SUFDdEUsSUFBSSxXQUFXLEdBQUcsTUFBTSxDQUFDLE1BQU0sRUFBRSxDQUFFLE1BQU0sRUFBRSxTQUFTLEVBQUUsWUFBWSxDQUFFLEVBQUUsSUFBSSxDQUFDLENBQUM7SUFDNUUsSUFBSSxXQUFXLEtBQUssU0FBUyxJQUFJLENBQUMsV0FBVyxDQUFDLE9BQU8sRUFBRTtRQUNuRCxNQUFNLElBQUksS0FBSyxDQUFDLGVBQWUsTUFBTSx1REFBdUQsQ0FBQyxDQUFDO0lBQ2xHLElBQUksUUFBUSxDQUFDLFdBQVcsS0FBSyxTQUFTO1FBQ2xDLE9BQU8sS0FBSyxDQUFDO0lBQ2pCLElBQUksU0FBUyxHQUFHLFdBQVcsQ0FBQyxLQUFLLEVBQUUsQ0FBQyxLQUFLLENBQTRCLFdBQVcsQ0FBQyxDQUFDO0lBQ2xGLE9BQU8sUUFBUSxDQUFDLFdBQVcsSUFBSSxTQUFTLENBQUMsTUFBTSxDQUFDLFlBQVksQ0FBQyxJQUFJLFFBQVEsQ0FBQyxTQUFTLElBQUksV0FBVyxDQUFDLE1BQU0sQ0FBQyxZQUFZLENBQUMsQ0FBQztBQUM1SCxDQUFDO0FBVEQsZ0NBU0M7QUFFRCwwRkFBMEY7QUFDMUYsZ0dBQWdHO0FBQ2hHLCtGQUErRjtBQUMvRiwyRUFBMkU7QUFFM0UsU0FBZ0IsYUFBYSxDQUFDLGlCQUFxQyxFQUFFLFlBQW9CLEVBQUUsY0FBeUMsRUFBRTtJQUNsSSxJQUFJLE9BQU8sR0FBRyxpQkFBaUIsQ0FBQyxHQUFHLENBQUMsZ0JBQWdCLENBQUMsRUFBRSxDQUFDLGdCQUFnQixDQUFDLEdBQUcsQ0FBQyxDQUFDO0lBQzlFLElBQUksY0FBYyxHQUFHLFlBQVksQ0FBQyxPQUFPLENBQUMsR0FBRyxDQUFDLENBQUM7SUFDL0MsSUFBSSxRQUFRLEdBQUcsQ0FBQyxjQUFjLEdBQUcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLFlBQVksQ0FBQyxDQUFDLENBQUMsWUFBWSxDQUFDLFNBQVMsQ0FBQyxDQUFDLEVBQUUsY0FBYyxDQUFDLENBQUM7SUFDL0YsSUFBSSxRQUFRLEdBQUcsQ0FBQyxjQUFjLEdBQUcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsWUFBWSxDQUFDLFNBQVMsQ0FBQyxjQUFjLEdBQUcsQ0FBQyxDQUFDLENBQUMsSUFBSSxFQUFFLENBQUM7SUFFcEcsSUFBSSxLQUFLLEdBQUcsQ0FBQyxDQUFDO0lBQ2QsSUFBSSxRQUFRLEtBQUssUUFBUSxJQUFJLFFBQVEsS0FBSyxhQUFhLEVBQUU7UUFDckQsS0FBSyxHQUFHLENBQUMsUUFBUSxLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxRQUFRLENBQUMsQ0FBQztRQUN4RCxJQUFJLENBQUMsTUFBTSxDQUFDLFNBQVMsQ0FBQyxLQUFLLENBQUMsSUFBSSxLQUFLLEdBQUcsQ0FBQztZQUNyQyxNQUFNLElBQUksS0FBSyxDQUFDLHNCQUFzQixZQUFZLDJDQUEyQyxDQUFDLENBQUM7S0FDdEc7SUFFRCxJQUFJLFFBQVEsS0FBSyxLQUFLO1FBQ2xCLE9BQU8sT0FBTyxDQUFDLEtBQUssRUFBRSxDQUFDO1NBQ3RCLElBQUksUUFBUSxLQUFLLFFBQVE7UUFDMUIsT0FBTyxPQUFPLENBQUMsS0FBSyxDQUFDLENBQUMsRUFBRSxLQUFLLENBQUMsQ0FBQztTQUM5QixJQUFJLFFBQVEsS0FBSyxLQUFLLEVBQUU7UUFDekIsSUFBSSxRQUFRLEtBQUssU0FBUyxJQUFJLFFBQVEsS0FBSyxFQUFFO1lBQ3pDLE1BQU0sSUFBSSxLQUFLLENBQUMsc0JBQXNCLFlBQVksMkJBQTJCLENBQUMsQ0FBQztRQUNuRixJQUFJLENBQUMsT0FBTyxDQUFDLFFBQVEsQ0FBQyxRQUFRLENBQUM7WUFDM0IsT0FBTyxDQUFDLEdBQUcsQ0FBQyxXQUFXLFFBQVEsa0VBQWtFLENBQUMsQ0FBQztRQUN2RyxPQUFPLENBQUUsUUFBUSxDQUFFLENBQUM7S0FDdkI7U0FBTSxJQUFJLFFBQVEsS0FBSyxRQUFRLEVBQUU7UUFDOUIsSUFBSSxRQUFRLEtBQUssU0FBUyxJQUFJLFFBQVEsS0FBSyxFQUFFO1lBQ3pDLE1BQU0sSUFBSSxLQUFLLENBQUMsc0JBQXNCLFlBQVksd0RBQXdELENBQUMsQ0FBQztRQUNoSCxPQUFPLGlCQUFpQixDQUFDLE1BQU0sQ0FBQyxnQkFBZ0IsQ0FBQyxFQUFFLENBQUMsVUFBVSxDQUFDLGdCQUFnQixFQUFFLFFBQVEsQ0FBQyxDQUFDLENBQUMsR0FBRyxDQUFDLGdCQUFnQixDQUFDLEVBQUUsQ0FBQyxnQkFBZ0IsQ0FBQyxHQUFHLENBQUMsQ0FBQztLQUM3STtTQUFNLElBQUksUUFBUSxLQUFLLGFBQWEsRUFBRTtRQUNuQywwRkFBMEY7UUFDMUYseUZBQXlGO1FBQ3pGLHdDQUF3QztRQUV4QyxJQUFJLFlBQVksR0FBRyxPQUFPLENBQUMsS0FBSyxDQUFDLENBQUMsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxDQUFDLE1BQU0sRUFBRSxLQUFLLEVBQUUsRUFBRSxDQUFDLENBQUMsRUFBRSxHQUFHLEVBQUUsTUFBTSxFQUFFLEtBQUssRUFBRSxLQUFLLEVBQUUsVUFBVSxFQUFFLFdBQVcsQ0FBQyxNQUFNLENBQUMsSUFBSSxFQUFFLEVBQUUsQ0FBQyxDQUFDLENBQUM7UUFDbkksWUFBWSxDQUFDLElBQUksQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDLEVBQUUsRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDLFVBQVUsR0FBRyxDQUFDLENBQUMsVUFBVSxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLFVBQVUsR0FBRyxDQUFDLENBQUMsVUFBVSxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsS0FBSyxHQUFHLENBQUMsQ0FBQyxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUM7UUFDNUgsT0FBTyxDQUFFLE9BQU8sQ0FBQyxDQUFDLENBQUMsRUFBRSxHQUFHLFlBQVksQ0FBQyxLQUFLLENBQUMsQ0FBQyxFQUFFLEtBQUssR0FBRyxDQUFDLENBQUMsQ0FBQyxHQUFHLENBQUMsV0FBVyxDQUFDLEVBQUUsQ0FBQyxXQUFXLENBQUMsR0FBRyxDQUFDLENBQUUsQ0FBQztLQUNsRzs7UUFDRyxNQUFNLElBQUksS0FBSyxDQUFDLHNCQUFzQixZQUFZLG9HQUFvRyxDQUFDLENBQUM7QUFDaEssQ0FBQztBQXJDRCxzQ0FxQ0MifQ==
\ No newline at end of file
@@ -0,0 +1,226 @@
+// Parses the development register page (the search results that link to each PDF) into the PDF
+// documents it lists, infers the period of applications that each PDF covers and selects the PDFs
+// to parse.
+
+"use strict";
+
+import * as cheerio from "cheerio";
+import * as moment from "moment";
+import * as urlparser from "url";
+import { RegisterSelectors, DefaultRegisterSelectors } from "./councils";
+
+// A PDF document listed on the register page.  The period (in "YYYY-MM-DD" format) is inferred
+// from the title or URL and is undefined if it could not be inferred.
+
+export interface RegisterDocument {
+    url: string,
+    title: string,
+    publishDate: string,
+    periodStart: string,
+    periodEnd: string
+}
+
+// The maximum number of register pages followed (to avoid any chance of an infinite loop).
+
+export const MaximumRegisterPageCount = 50;
+
+const MonthPattern = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+// Converts a month name (or abbreviation) and year to a moment for the start of that month.
+
+function getMonthStart(monthName: string, year: string) {
+    return moment(`${monthName.substring(0, 3)} ${year}`, "MMM YYYY");
+}
+
+// Decodes the path of a URL (for example, "DA%20Register%20Feb-2019.pdf").  A path that is not
+// validly encoded (for example, "Register%ZZ.pdf") is returned with only its spaces decoded.
+
+export function decodeUrlPath(url: string) {
+    let path = urlparser.parse(url).pathname || "";
+    try {
+        return decodeURIComponent(path);
+    } catch (error) {
+        return path.replace(/%20/g, " ");
+    }
+}
+
+// Infers the period of applications covered by a PDF from its title (or the decoded path of its
+// URL).  For example,
+// "Development Register January 2019" covers January 2019, "Development Register January to
+// March 2019" covers the first quarter of 2019, "Development Register 2018-19" covers the
+// 2018-19 financial year and "Development Register 2018" covers the whole of 2018.
+
+export function inferPeriod(text: string): { periodStart: string, periodEnd: string } {
+    text = text.toLowerCase().replace(/[_+]/g, " ");
+    let format = (start: moment.Moment, end: moment.Moment) => ({ periodStart: start.format("YYYY-MM-DD"), periodEnd: end.format("YYYY-MM-DD") });
+
+    // A range of months (for example, "January to March 2019" or "Nov 2018 - Feb 2019").
+
+    let match = new RegExp(`\\b${MonthPattern}\\s*(\\d{4})?\\s*(?:-|to|–)\\s*${MonthPattern}\\s*(\\d{4})\\b`).exec(text);
+    if (match !== null) {
+        let end = getMonthStart(match[3], match[4]);
+        let start = getMonthStart(match[1], match[2] || match[4]);
+        if (match[2] === undefined && start.isAfter(end))
+            start.subtract(1, "year");  // for example, "November to February 2019"
+        return format(start, end.endOf("month"));
+    }
+
+    // A single month (for example, "January 2019" or "Jan-2019").
+
+    match = new RegExp(`\\b${MonthPattern}\\s*-?\\s*(\\d{4})\\b`).exec(text);
+    if (match !== null) {
+        let start = getMonthStart(match[1], match[2]);
+        return format(start, start.clone().endOf("month"));
+    }
+
+    // A financial year (for example, "2018-19", "2018/19" or "2018-2019").
+
+    match = /\b(\d{4})\s*[-\/–]\s*(\d{2}|\d{4})\b/.exec(text);
+    if (match !== null) {
+        let startYear = Number(match[1]);
+        let endYear = Number((match[2].length === 2) ? match[1].substring(0, 2) + match[2] : match[2]);
+        if (endYear === startYear + 1)
+            return format(moment({ year: startYear, month: 6, day: 1 }), moment({ year: endYear, month: 5, day: 30 }));
+    }
+
+    // A calendar year (for example, "2018").
+
+    match = /\b((?:19|20)\d{2})\b/.exec(text);
+    if (match !== null)
+        return format(moment({ year: Number(match[1]), month: 0, day: 1 }), moment({ year: Number(match[1]), month: 11, day: 31 }));
+
+    return { periodStart: undefined, periodEnd: undefined };
+}
+
+// Parses a publish date such as "25 February 2019", "25 Feb 2019" or "25/02/2019" (returning
+// undefined if there is no recognisable date).
+
+function parsePublishDate(text: string) {
+    let match = /\b(\d{1,2}\s+[A-Za-z]+\s+\d{4}|\d{1,2}\/\d{1,2}\/\d{4})\b/.exec(text);
+    if (match === null)
+        return undefined;
+    let publishDate = moment(match[1], [ "D MMMM YYYY", "D MMM YYYY", "D/MM/YYYY" ], true);
+    return publishDate.isValid() ? publishDate.format("YYYY-MM-DD") : undefined;
+}
+
+// Parses a single register page (using the specified selectors), returning the PDF documents
+// that it lists (in the order that they appear) and the URL of the next page of results
+// (undefined if this is the last page).
+
+export function parseRegisterPage(body: string, pageUrl: string, selectors: RegisterSelectors = DefaultRegisterSelectors): { documents: RegisterDocument[], nextPageUrl: string } {
+    let $ = cheerio.load(body);
+
+    let documents: RegisterDocument[] = [];
+    for (let element of $(selectors.item).get()) {
+        let item = $(element);
+        let url = item.find(selectors.url).text().trim();
+        if (url === "")
+            url = item.find("a[href]").first().attr("href") || "";
+        if (!url.toLowerCase().includes(".pdf"))
+            continue;
+        url = urlparser.resolve(pageUrl, url);
+        if (documents.some(document => document.url === url))
+            continue;
+
+        let title = item.find(selectors.title).text().trim().replace(/\s\s+/g, " ");
+        if (title === "")
+            title = item.find("a").first().text().trim().replace(/\s\s+/g, " ");
+        let publishDate = parsePublishDate(item.find(selectors.date).text());
+        if (publishDate === undefined)
+            publishDate = parsePublishDate(item.text());
+
+        // Prefer the title when inferring the period (the URL is only used as a fallback).
+
+        let period = inferPeriod(title);
+        if (period.periodStart === undefined)
+            period = inferPeriod(decodeUrlPath(url));
+
+        documents.push({ url: url, title: title, publishDate: publishDate, periodStart: period.periodStart, periodEnd: period.periodEnd });
+    }
+
+    // Find the link to the next page of results (either marked as the next link or with text
+    // such as "Next" or "»").
+
+    let nextPageUrl = undefined;
+    let nextElement = $(selectors.nextPage).first();
+    if (nextElement.length === 0)
+        nextElement = $("a").filter((index, element) => /^\s*(next|›|»)/i.test($(element).text())).first();
+    if (nextElement.length > 0 && nextElement.attr("href"))
+        nextPageUrl = urlparser.resolve(pageUrl, nextElement.attr("href"));
+
+    return { documents: documents, nextPageUrl: nextPageUrl };
+}
+
+// Orders the documents by the period that they cover (most recent first).  Documents with no
+// inferred period are ordered by publish date and otherwise retain their register order (after
+// the documents with a period or publish date).
+
+export function sortRegisterDocuments(documents: RegisterDocument[]) {
+    let getSortDate = (document: RegisterDocument) => document.periodEnd || document.publishDate || "";
+    return documents
+        .map((document, index) => ({ document: document, index: index }))
+        .sort((a, b) => {
+            let aDate = getSortDate(a.document);
+            let bDate = getSortDate(b.document);
+            return (aDate > bDate) ? -1 : ((aDate < bDate) ? 1 : (a.index - b.index));
+        })
+        .map(item => item.document);
+}
+
+// Determines whether a document covers any part of the specified period (given as "YYYY",
+// "YYYY-MM" or "YYYY-MM-DD").
+
+export function isInPeriod(document: RegisterDocument, period: string) {
+    let granularity = { 4: "year", 7: "month", 10: "day" }[period.length];
+    let periodStart = moment(period, [ "YYYY", "YYYY-MM", "YYYY-MM-DD" ], true);
+    if (granularity === undefined || !periodStart.isValid())
+        throw new Error(`The period "${period}" is not valid (specify YYYY, YYYY-MM or YYYY-MM-DD).`);
+    if (document.periodStart === undefined)
+        return false;
+    let periodEnd = periodStart.clone().endOf(<moment.unitOfTime.StartOf>granularity);
+    return document.periodStart <= periodEnd.format("YYYY-MM-DD") && document.periodEnd >= periodStart.format("YYYY-MM-DD");
+}
+
+// Selects the PDFs to parse using the specified strategy: "all", "latest:N", "url:<url>",
+// "period:<YYYY|YYYY-MM|YYYY-MM-DD>" or "round-robin:N".  The PDFs are assumed to be ordered by
+// the period that they cover (most recent first).  The round-robin strategy uses the date that
+// each PDF was last parsed (a PDF that has never been parsed has no date).
+
+export function selectPdfUrls(registerDocuments: RegisterDocument[], pdfSelection: string, datesParsed: { [url: string]: string } = {}) {
+    let pdfUrls = registerDocuments.map(registerDocument => registerDocument.url);
+    let separatorIndex = pdfSelection.indexOf(":");
+    let strategy = (separatorIndex < 0) ? pdfSelection : pdfSelection.substring(0, separatorIndex);
+    let argument = (separatorIndex < 0) ? undefined : pdfSelection.substring(separatorIndex + 1).trim();
+
+    let count = 1;
+    if (strategy === "latest" || strategy === "round-robin") {
+        count = (argument === undefined) ? 1 : Number(argument);
+        if (!Number.isInteger(count) || count < 1)
+            throw new Error(`The PDF selection "${pdfSelection}" must specify a positive number of PDFs.`);
+    }
+
+    if (strategy === "all")
+        return pdfUrls.slice();
+    else if (strategy === "latest")
+        return pdfUrls.slice(0, count);
+    else if (strategy === "url") {
+        if (argument === undefined || argument === "")
+            throw new Error(`The PDF selection "${pdfSelection}" must specify a PDF URL.`);
+        if (!pdfUrls.includes(argument))
+            console.log(`The PDF ${argument} is not linked from the register page but will be parsed anyway.`);
+        return [ argument ];
+    } else if (strategy === "period") {
+        if (argument === undefined || argument === "")
+            throw new Error(`The PDF selection "${pdfSelection}" must specify a period (YYYY, YYYY-MM or YYYY-MM-DD).`);
+        return registerDocuments.filter(registerDocument => isInPeriod(registerDocument, argument)).map(registerDocument => registerDocument.url);
+    } else if (strategy === "round-robin") {
+        // Always parse the most recent PDF (because this is the PDF that the council updates with
+        // new applications).  Then parse the PDFs that were least recently parsed, starting with
+        // any PDFs that have never been parsed.
+
+        let otherPdfUrls = pdfUrls.slice(1).map((pdfUrl, index) => ({ url: pdfUrl, index: index, dateParsed: datesParsed[pdfUrl] || "" }));
+        otherPdfUrls.sort((a, b) => (a.dateParsed < b.dateParsed) ? -1 : ((a.dateParsed > b.dateParsed) ? 1 : (a.index - b.index)));
+        return [ pdfUrls[0], ...otherPdfUrls.slice(0, count - 1).map(otherPdfUrl => otherPdfUrl.url) ];
+    } else
+        throw new Error(`The PDF selection "${pdfSelection}" is not supported (specify "all", "latest:N", "url:<url>", "period:<period>" or "round-robin:N").`);
+}
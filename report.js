@@ -0,0 +1,105 @@
+// Builds the report of a scraper run (how many PDFs, pages and development applications were
+// found, parsed and saved, along with measures of the quality of the parsed addresses and dates)
+// and checks the report against the health thresholds.
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.formatRunReport = exports.finishRunReport = exports.checkHealth = exports.addSavedApplications = exports.addParsedPdf = exports.createRunReport = exports.DefaultHealthThresholds = void 0;
+exports.DefaultHealthThresholds = {
+    minimumApplications: 1,
+    maximumFallbackRate: 0.2,
+    maximumMissingReceivedDateRate: 0.2
+};
+// Creates an empty report for a run that is starting now.
+function createRunReport(councils, pdfSelection, startTime = new Date()) {
+    return {
+        startTime: startTime.toISOString(),
+        endTime: undefined,
+        duration: undefined,
+        councils: councils,
+        pdfSelection: pdfSelection,
+        pdfsDiscovered: 0,
+        pdfsSelected: 0,
+        pdfsNotModified: 0,
+        pdfsParsed: 0,
+        pdfsNotSaved: 0,
+        pagesParsed: 0,
+        pagesRejected: 0,
+        pagesPartial: 0,
+        applicationsParsed: 0,
+        applicationsNew: 0,
+        applicationsChanged: 0,
+        applicationsUnchanged: 0,
+        fallbackAddresses: 0,
+        missingReceivedDates: 0,
+        fallbackRate: 0,
+        missingReceivedDateRate: 0,
+        healthProblems: [],
+        error: undefined
+    };
+}
+exports.createRunReport = createRunReport;
+// Adds the development applications (and quarantined pages) parsed from a PDF to the report.
+function addParsedPdf(report, developmentApplications, quarantinedPages, statistics) {
+    report.pdfsParsed++;
+    report.pagesParsed += statistics.pageCount || 0;
+    report.pagesRejected += quarantinedPages.filter(quarantinedPage => quarantinedPage.status === "rejected").length;
+    report.pagesPartial += quarantinedPages.filter(quarantinedPage => quarantinedPage.status === "partial").length;
+    report.applicationsParsed += developmentApplications.length;
+    report.fallbackAddresses += developmentApplications.filter(developmentApplication => developmentApplication.parsedAddress !== undefined && developmentApplication.parsedAddress.isFallback).length;
+    report.missingReceivedDates += developmentApplications.filter(developmentApplication => !developmentApplication.receivedDate).length;
+}
+exports.addParsedPdf = addParsedPdf;
+// Adds the outcome of saving development applications (as reported by the primary sink) to the
+// report.
+function addSavedApplications(report, statuses) {
+    report.applicationsNew += statuses.filter(status => status === "new").length;
+    report.applicationsChanged += statuses.filter(status => status === "changed").length;
+    report.applicationsUnchanged += statuses.filter(status => status === "unchanged").length;
+}
+exports.addSavedApplications = addSavedApplications;
+// Checks the report against the health thresholds, returning a description of each threshold
+// that was breached.  Too few applications is not a problem when every selected PDF was skipped
+// because it was not modified since it was last parsed.
+function checkHealth(report, thresholds = exports.DefaultHealthThresholds) {
+    let healthProblems = [];
+    let isEverySelectedPdfNotModified = (report.pdfsSelected > 0 && report.pdfsNotModified === report.pdfsSelected);
+    if (report.applicationsParsed < thresholds.minimumApplications && !isEverySelectedPdfNotModified)
+        healthProblems.push(`Only ${report.applicationsParsed} application(s) were parsed (the minimum is ${thresholds.minimumApplications}).`);
+    if (report.fallbackRate > thresholds.maximumFallbackRate)
+        healthProblems.push(`${formatPercentage(report.fallbackRate)} of addresses were formatted using the fallback path (the maximum is ${formatPercentage(thresholds.maximumFallbackRate)}).`);
+    if (report.missingReceivedDateRate > thresholds.maximumMissingReceivedDateRate)
+        healthProblems.push(`${formatPercentage(report.missingReceivedDateRate)} of applications have no received date (the maximum is ${formatPercentage(thresholds.maximumMissingReceivedDateRate)}).`);
+    if (report.pdfsNotSaved > 0)
+        healthProblems.push(`The applications from ${report.pdfsNotSaved} PDF(s) could not be saved.`);
+    return healthProblems;
+}
+exports.checkHealth = checkHealth;
+// Completes the report at the end of a run (calculating the duration and rates, and checking the
+// health thresholds).
+function finishRunReport(report, thresholds = exports.DefaultHealthThresholds, endTime = new Date()) {
+    report.endTime = endTime.toISOString();
+    report.duration = endTime.getTime() - new Date(report.startTime).getTime();
+    report.fallbackRate = (report.applicationsParsed === 0) ? 0 : report.fallbackAddresses / report.applicationsParsed;
+    report.missingReceivedDateRate = (report.applicationsParsed === 0) ? 0 : report.missingReceivedDates / report.applicationsParsed;
+    report.healthProblems = checkHealth(report, thresholds);
+    return report;
+}
+exports.finishRunReport = finishRunReport;
+// Formats a fraction as a percentage (for example, 0.125 as "12.5%").
+function formatPercentage(fraction) {
+    return `${Number((fraction * 100).toFixed(1))}%`;
+}
+// Formats the report as lines of text (for the log).
+function formatRunReport(report) {
+    return [
+        `Run report (${report.councils.join(", ")}, ${(report.duration / 1000).toFixed(1)} s):`,
+        `    PDFs: ${report.pdfsDiscovered} discovered, ${report.pdfsSelected} selected, ${report.pdfsNotModified} not modified, ${report.pdfsParsed} parsed and ${report.pdfsNotSaved} not saved.`,
+        `    Pages: ${report.pagesParsed} parsed, ${report.pagesRejected} rejected and ${report.pagesPartial} partially parsed.`,
+        `    Applications: ${report.applicationsParsed} parsed, ${report.applicationsNew} new, ${report.applicationsChanged} changed and ${report.applicationsUnchanged} unchanged.`,
+        `    Addresses using the fallback path: ${report.fallbackAddresses} (${formatPercentage(report.fallbackRate)}).`,
+        `    Missing received dates: ${report.missingReceivedDates} (${formatPercentage(report.missingReceivedDateRate)}).`,
+        ...report.healthProblems.map(healthProblem => `    Health problem: ${healthProblem}`)
+    ].join("\n");
+}
+exports.formatRunReport = formatRunReport;
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoicmVwb3J0LmpzIiwic291cmNlUm9vdCI6IiIsInNvdXJjZXMiOlsicmVwb3J0LnRzIl0sIm5hbWVzIjpbXSwibWFwcGluZ3MiOiJBQUFBLDZGQUE2RjtBQUM3RixpR0FBaUc7QUFDakcsdURBQXVEO0FBRXZELFlBQVksQ0FBQzs7O0FBMkNBLFFBQUEsdUJBQXVCLEdBQXFCO0lBQ3JELG1CQUFtQixFQUFFLENBQUM7SUFDdEIsbUJBQW1CLEVBQUUsR0FBRztJQUN4Qiw4QkFBOEIsRUFBRSxHQUFHO0NBQ3RDLENBQUM7QUFFRiwwREFBMEQ7QUFFMUQsU0FBZ0IsZUFBZSxDQUFDLFFBQWtCLEVBQUUsWUFBb0IsRUFBRSxZQUFrQixJQUFJLElBQUksRUFBRTtJQUNsRyxPQUFPO1FBQ0gsU0FBUyxFQUFFLFNBQVMsQ0FBQyxXQUFXLEVBQUU7UUFDbEMsT0FBTyxFQUFFLFNBQVM7UUFDbEIsUUFBUSxFQUFFLFNBQVM7UUFDbkIsUUFBUSxFQUFFLFFBQVE7UUFDbEIsWUFBWSxFQUFFLFlBQVk7UUFDMUIsY0FBYyxFQUFFLENBQUM7UUFDakIsWUFBWSxFQUFFLENBQUM7UUFDZixlQUFlLEVBQUUsQ0FBQztRQUNsQixVQUFVLEVBQUUsQ0FBQztRQUNiLFlBQVksRUFBRSxDQUFDO1FBQ2YsV0FBVyxFQUFFLENBQUM7UUFDZCxhQUFhLEVBQUUsQ0FBQztRQUNoQixZQUFZLEVBQUUsQ0FBQztRQUNmLGtCQUFrQixFQUFFLENBQUM7UUFDckIsZUFBZSxFQUFFLENBQUM7UUFDbEIsbUJBQW1CLEVBQUUsQ0FBQztRQUN0QixxQkFBcUIsRUFBRSxDQUFDO1FBQ3hCLGlCQUFpQixFQUFFLENBQUM7UUFDcEIsb0JBQW9CLEVBQUUsQ0FBQztRQUN2QixZQUFZLEVBQUUsQ0FBQztRQUNmLHVCQUF1QixFQUFFLENBQUM7UUFDMUIsY0FBYyxFQUFFLEVBQUU7UUFDbEIsS0FBSyxFQUFFLFNBQVM7S0FDbkIsQ0FBQztBQUNOLENBQUM7QUExQkQsMENBMEJDO0FBRUQsNkZBQTZGO0FBRTdGLFNBQWdCLFlBQVksQ0FBQyxNQUFpQixFQUFFLHVCQUE4QixFQUFFLGdCQUFtQyxFQUFFLFVBQXlCO0lBQzFJLE1BQU0sQ0FBQyxVQUFVLEVBQUUsQ0FBQztJQUNwQixNQUFNLENBQUMsV0FBVyxJQUFJLFVBQVUsQ0FBQyxTQUFTLElBQUksQ0FBQyxDQUFDO0lBQ2hELE1BQU0sQ0FBQyxhQUFhLElBQUksZ0JBQWdCLENBQUMsTUFBTSxDQUFDLGVBQWUsQ0FBQyxFQUFFLENBQUMsZUFBZSxDQUFDLE1BQU0sS0FBSyxVQUFVLENBQUMsQ0FBQyxNQUFNLENBQUM7SUFDakgsTUFBTSxDQUFDLFlBQVksSUFBSSxnQkFBZ0IsQ0FBQyxNQUFNLENBQUMsZUFBZSxDQUFDLEVBQUUsQ0FBQyxlQUFlLENBQUMsTUFBTSxLQUFLLFNBQVMsQ0FBQyxDQUFDLE1BQU0sQ0FBQztJQUMvRyxNQUFNLENBQUMsa0JBQWtCLElBQUksdUJBQXVCLENBQUMsTUFBTSxDQUFDO0lBQzVELE1BQU0sQ0FBQyxpQkFBaUIsSUFBSSx1QkFBdUIsQ0FBQyxNQUFNLENBQUMsc0JBQXNCLENBQUMsRUFBRSxDQUFDLHNCQUFzQixDQUFDLGFBQWEsS0FBSyxTQUFTLElBQUksc0JBQXNCLENBQUMsYUFBYSxDQUFDLFVBQVUsQ0FBQyxDQUFDLE1BQU0sQ0FBQztJQUNuTSxNQUFNLENBQUMsb0JBQW9CLElBQUksdUJBQXVCLENBQUMsTUFBTSxDQUFDLHNCQUFzQixDQUFDLEVBQUUsQ0FBQyxDQUFDLHNCQUFzQixDQUFDLFlBQVksQ0FBQyxDQUFDLE1BQU0sQ0FBQztBQUN6SSxDQUFDO0FBUkQsb0NBUUM7QUFFRCwrRkFBK0Y7QUFDL0YsVUFBVTtBQUVWLFNBQWdCLG9CQUFvQixDQUFDLE1BQWlCLEVBQUUsUUFBd0I7SUFDNUUsTUFBTSxDQUFDLGVBQWUsSUFBSSxRQUFRLENBQUMsTUFBTSxDQUFDLE1BQU0sQ0FBQyxFQUFFLENBQUMsTUFBTSxLQUFLLEtBQUssQ0FBQyxDQUFDLE1BQU0sQ0FBQztJQUM3RSxNQUFNLENBQUMsbUJBQW1CLElBQUksUUFBUSxDQUFDLE1BQU0sQ0FBQyxNQUFNLENBQUMsRUFBRSxDQUFDLE1BQU0sS0FBSyxTQUFTLENBQUMsQ0FBQyxNQUFNLENBQUM7SUFDckYsTUFBTSxDQUFDLHFCQUFxQixJQUFJLFFBQVEsQ0FBQyxNQUFNLENBQUMsTUFBTSxDQUFDLEVBQUUsQ0FBQyxNQUFNLEtBQUssV0FBVyxDQUFDLENBQUMsTUFBTSxDQUFDO0FBQzdGLENBQUM7QUFKRCxvREFJQztBQUVELDZGQUE2RjtBQUM3RixnR0FBZ0c7QUFDaEcsd0RBQXdEO0FBRXhELFNBQWdCLFdBQVcsQ0FBQyxNQUFpQixFQUFFLGFBQStCLCtCQUF1QjtJQUNqRyxJQUFJLGNBQWMsR0FBYSxFQUFFLENBQUM7SUFDbEMsSUFBSSw2QkFBNkIsR0FBRyxDQUFDLE1BQU0sQ0FBQyxZQUFZLEdBQUcsQ0FBQyxJQUFJLE1BQU0sQ0FBQyxlQUFlLEtBQUssTUFBTSxDQUFDLFlBQVksQ0FBQyxDQUFDO0lBQ2hILElBQUksTUFBTSxDQUFDLGtCQUFrQixHQUFHLFVBQVUsQ0FBQyxtQkFBbUIsSUFBSSxDQUFDLDZCQUE2QjtRQUM1RixjQUFjLENBQUMsSUFBSSxDQUFDLFFBQVEsTUFBTSxDQUFDLGtCQUFrQiwrQ0FBK0MsVUFBVSxDQUFDLG1CQUFtQixJQUFJLENBQUMsQ0FBQztJQUM1SSxJQUFJLE1BQU0sQ0FBQyxZQUFZLEdBQUcsVUFBVSxDQUFDLG1CQUFtQjtRQUNwRCxjQUFjLENBQUMsSUFBSSxDQUFDLEdBQUcsZ0JBQWdCLENBQUMsTUFBTSxDQUFDLFlBQVksQ0FBQyx3RUFBd0UsZ0JBQWdCLENBQUMsVUFBVSxDQUFDLG1CQUFtQixDQUFDLElBQUksQ0FBQyxDQUFDO0lBQzlMLElBQUksTUFBTSxDQUFDLHVCQUF1QixHQUFHLFVBQVUsQ0FBQyw4QkFBOEI7UUFDMUUsY0FBYyxDQUFDLElBQUksQ0FBQyxHQUFHLGdCQUFnQixDQUFDLE1BQU0sQ0FBQyx1QkFBdUIsQ0FBQywwREFBMEQsZ0JBQWdCLENBQUMsVUFBVSxDQUFDLDhCQUE4QixDQUFDLElBQUksQ0FBQyxDQUFDO0lBQ3RNLElBQUksTUFBTSxDQUFDLFlBQVksR0FBRyxDQUFDO1FBQ3ZCLGNBQWMsQ0FBQyxJQUFJLENBQUMseUJBQXlCLE1BQU0sQ0FBQyxZQUFZLDZCQUE2QixDQUFDLENBQUM7SUFDbkcsT0FBTyxjQUFjLENBQUM7QUFDMUIsQ0FBQztBQVpELGtDQVlDO0FBRUQsaUdBQWlHO0FBQ2pHLHNCQUFzQjtBQUV0QixTQUFnQixlQUFlLENBQUMsTUFBaUIsRUFBRSxhQUErQiwrQkFBdUIsRUFBRSxVQUFnQixJQUFJLElBQUksRUFBRTtJQUNqSSxNQUFNLENBQUMsT0FBTyxHQUFHLE9BQU8sQ0FBQyxXQUFXLEVBQUUsQ0FBQztJQUN2QyxNQUFNLENBQUMsUUFBUSxHQUFHLE9BQU8sQ0FBQyxPQUFPLEVBQUUsR0FBRyxJQUFJLElBQUksQ0FBQyxNQUFNLENBQUMsU0FBUyxDQUFDLENBQUMsT0FBTyxFQUFFLENBQUM7SUFDM0UsTUFBTSxDQUFDLFlBQVksR0FBRyxDQUFDLE1BQU0sQ0FBQyxrQkFBa0IsS0FBSyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsaUJBQWlCLEdBQUcsTUFBTSxDQUFDLGtCQUFrQixDQUFDO0lBQ25ILE1BQU0sQ0FBQyx1QkFBdUIsR0FBRyxDQUFDLE1BQU0sQ0FBQyxrQkFBa0IsS0FBSyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsb0JBQW9CLEdBQUcsTUFBTSxDQUFDLGtCQUFrQixDQUFDO0lBQ2pJLE1BQU0sQ0FBQyxjQUFjLEdBQUcsV0FBVyxDQUFDLE1BQU0sRUFBRSxVQUFVLENBQUMsQ0FBQztJQUN4RCxPQUFPLE1BQU0sQ0FBQztBQUNsQixDQUFDO0FBUEQsMENBT0M7QUFFRCxzRUFBc0U7QUFFdEUsU0FBUyxnQkFBZ0IsQ0FBQyxRQUFnQjtJQUN0QyxPQUFPLEdBQUcsTUFBTSxDQUFDLENBQUMsUUFBUSxHQUFHLEdBQUcsQ0FBQyxDQUFDLE9BQU8sQ0FBQyxDQUFDLENBQUMsQ0FBQyxHQUFHLENBQUM7QUFDckQsQ0FBQztBQUVELHFEQUFxRDtBQUVyRCxTQUFnQixlQUFlLENBQUMsTUFBaUI7SUFDN0MsT0FBTztRQUNILGVBQWUsTUFBTSxDQUFDLFFBQVEsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLEtBQUssQ0FBQyxNQUFNLENBQUMsUUFBUSxHQUFHLElBQUksQ0FBQyxDQUFDLE9BQU8sQ0FBQyxDQUFDLENBQUMsTUFBTTtRQUN2RixhQUFhLE1BQU0sQ0FBQyxjQUFjLGdCQUFnQixNQUFNLENBQUMsWUFBWSxjQUFjLE1BQU0sQ0FBQyxlQUFlLGtCQUFrQixNQUFNLENBQUMsVUFBVSxlQUFlLE1BQU0sQ0FBQyxZQUFZLGFBQWE7UUFDM0wsY0FBYyxNQUFNLENBQUMsV0FBVyxZQUFZLE1BQU0sQ0FBQyxhQUFhLGlCQUFpQixNQUFNLENBQUMsWUFBWSxvQkFBb0I7UUFDeEgscUJBQXFCLE1BQU0sQ0FBQyxrQkFBa0IsWUFBWSxNQUFNLENBQUMsZUFBZSxTQUFTLE1BQU0sQ0FBQyxtQkFBbUIsZ0JBQWdCLE1BQU0sQ0FBQyxxQkFBcUIsYUFBYTtRQUM1SywwQ0FBMEMsTUFBTSxDQUFDLGlCQUFpQixLQUFLLGdCQUFnQixDQUFDLE1BQU0sQ0FBQyxZQUFZLENBQUMsSUFBSTtRQUNoSCwrQkFBK0IsTUFBTSxDQUFDLG9CQUFvQixLQUFLLGdCQUFnQixDQUFDLE1BQU0sQ0FBQyx1QkFBdUIsQ0FBQyxJQUFJO1FBQ25ILEdBQUcsTUFBTSxDQUFDLGNBQWMsQ0FBQyxHQUFHLENBQUMsYUFBYSxDQUFDLEVBQUUsQ0FBQyx1QkFBdUIsYUFBYSxFQUFFLENBQUM7S0FDeEYsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLENBQUM7QUFDakIsQ0FBQztBQVZELDBDQVVDIn0=
\ No newline at end of file
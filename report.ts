@@ -0,0 +1,153 @@
+// Builds the report of a scraper run (how many PDFs, pages and development applications were
+// found, parsed and saved, along with measures of the quality of the parsed addresses and dates)
+// and checks the report against the health thresholds.
+
+"use strict";
+
+import { QuarantinedPage, PdfStatistics } from "./parser";
+import { InsertStatus } from "./sinks";
+
+// The report of a scraper run.  The rates are fractions of the applications parsed (and are zero
+// when no applications were parsed).
+
+export interface RunReport {
+    startTime: string,
+    endTime: string,
+    duration: number,  // in milliseconds
+    councils: string[],
+    pdfSelection: string,
+    pdfsDiscovered: number,
+    pdfsSelected: number,
+    pdfsNotModified: number,
+    pdfsParsed: number,
+    pdfsNotSaved: number,
+    pagesParsed: number,
+    pagesRejected: number,
+    pagesPartial: number,
+    applicationsParsed: number,
+    applicationsNew: number,
+    applicationsChanged: number,
+    applicationsUnchanged: number,
+    fallbackAddresses: number,
+    missingReceivedDates: number,
+    fallbackRate: number,
+    missingReceivedDateRate: number,
+    healthProblems: string[],
+    error: string
+}
+
+// The thresholds beyond which a run is considered unhealthy (and so the scraper exits with a
+// non-zero exit code).
+
+export interface HealthThresholds {
+    minimumApplications: number,
+    maximumFallbackRate: number,
+    maximumMissingReceivedDateRate: number
+}
+
+export const DefaultHealthThresholds: HealthThresholds = {
+    minimumApplications: 1,
+    maximumFallbackRate: 0.2,
+    maximumMissingReceivedDateRate: 0.2
+};
+
+// Creates an empty report for a run that is starting now.
+
+export function createRunReport(councils: string[], pdfSelection: string, startTime: Date = new Date()): RunReport {
+    return {
+        startTime: startTime.toISOString(),
+        endTime: undefined,
+        duration: undefined,
+        councils: councils,
+        pdfSelection: pdfSelection,
+        pdfsDiscovered: 0,
+        pdfsSelected: 0,
+        pdfsNotModified: 0,
+        pdfsParsed: 0,
+        pdfsNotSaved: 0,
+        pagesParsed: 0,
+        pagesRejected: 0,
+        pagesPartial: 0,
+        applicationsParsed: 0,
+        applicationsNew: 0,
+        applicationsChanged: 0,
+        applicationsUnchanged: 0,
+        fallbackAddresses: 0,
+        missingReceivedDates: 0,
+        fallbackRate: 0,
+        missingReceivedDateRate: 0,
+        healthProblems: [],
+        error: undefined
+    };
+}
+
+// Adds the development applications (and quarantined pages) parsed from a PDF to the report.
+
+export function addParsedPdf(report: RunReport, developmentApplications: any[], quarantinedPages: QuarantinedPage[], statistics: PdfStatistics) {
+    report.pdfsParsed++;
+    report.pagesParsed += statistics.pageCount || 0;
+    report.pagesRejected += quarantinedPages.filter(quarantinedPage => quarantinedPage.status === "rejected").length;
+    report.pagesPartial += quarantinedPages.filter(quarantinedPage => quarantinedPage.status === "partial").length;
+    report.applicationsParsed += developmentApplications.length;
+    report.fallbackAddresses += developmentApplications.filter(developmentApplication => developmentApplication.parsedAddress !== undefined && developmentApplication.parsedAddress.isFallback).length;
+    report.missingReceivedDates += developmentApplications.filter(developmentApplication => !developmentApplication.receivedDate).length;
+}
+
+// Adds the outcome of saving development applications (as reported by the primary sink) to the
+// report.
+
+export function addSavedApplications(report: RunReport, statuses: InsertStatus[]) {
+    report.applicationsNew += statuses.filter(status => status === "new").length;
+    report.applicationsChanged += statuses.filter(status => status === "changed").length;
+    report.applicationsUnchanged += statuses.filter(status => status === "unchanged").length;
+}
+
+// Checks the report against the health thresholds, returning a description of each threshold
+// that was breached.  Too few applications is not a problem when every selected PDF was skipped
+// because it was not modified since it was last parsed.
+
+export function checkHealth(report: RunReport, thresholds: HealthThresholds = DefaultHealthThresholds) {
+    let healthProblems: string[] = [];
+    let isEverySelectedPdfNotModified = (report.pdfsSelected > 0 && report.pdfsNotModified === report.pdfsSelected);
+    if (report.applicationsParsed < thresholds.minimumApplications && !isEverySelectedPdfNotModified)
+        healthProblems.push(`Only ${report.applicationsParsed} application(s) were parsed (the minimum is ${thresholds.minimumApplications}).`);
+    if (report.fallbackRate > thresholds.maximumFallbackRate)
+        healthProblems.push(`${formatPercentage(report.fallbackRate)} of addresses were formatted using the fallback path (the maximum is ${formatPercentage(thresholds.maximumFallbackRate)}).`);
+    if (report.missingReceivedDateRate > thresholds.maximumMissingReceivedDateRate)
+        healthProblems.push(`${formatPercentage(report.missingReceivedDateRate)} of applications have no received date (the maximum is ${formatPercentage(thresholds.maximumMissingReceivedDateRate)}).`);
+    if (report.pdfsNotSaved > 0)
+        healthProblems.push(`The applications from ${report.pdfsNotSaved} PDF(s) could not be saved.`);
+    return healthProblems;
+}
+
+// Completes the report at the end of a run (calculating the duration and rates, and checking the
+// health thresholds).
+
+export function finishRunReport(report: RunReport, thresholds: HealthThresholds = DefaultHealthThresholds, endTime: Date = new Date()) {
+    report.endTime = endTime.toISOString();
+    report.duration = endTime.getTime() - new Date(report.startTime).getTime();
+    report.fallbackRate = (report.applicationsParsed === 0) ? 0 : report.fallbackAddresses / report.applicationsParsed;
+    report.missingReceivedDateRate = (report.applicationsParsed === 0) ? 0 : report.missingReceivedDates / report.applicationsParsed;
+    report.healthProblems = checkHealth(report, thresholds);
+    return report;
+}
+
+// Formats a fraction as a percentage (for example, 0.125 as "12.5%").
+
+function formatPercentage(fraction: number) {
+    return `${Number((fraction * 100).toFixed(1))}%`;
+}
+
+// Formats the report as lines of text (for the log).
+
+export function formatRunReport(report: RunReport) {
+    return [
+        `Run report (${report.councils.join(", ")}, ${(report.duration / 1000).toFixed(1)} s):`,
+        `    PDFs: ${report.pdfsDiscovered} discovered, ${report.pdfsSelected} selected, ${report.pdfsNotModified} not modified, ${report.pdfsParsed} parsed and ${report.pdfsNotSaved} not saved.`,
+        `    Pages: ${report.pagesParsed} parsed, ${report.pagesRejected} rejected and ${report.pagesPartial} partially parsed.`,
+        `    Applications: ${report.applicationsParsed} parsed, ${report.applicationsNew} new, ${report.applicationsChanged} changed and ${report.applicationsUnchanged} unchanged.`,
+        `    Addresses using the fallback path: ${report.fallbackAddresses} (${formatPercentage(report.fallbackRate)}).`,
+        `    Missing received dates: ${report.missingReceivedDates} (${formatPercentage(report.missingReceivedDateRate)}).`,
+        ...report.healthProblems.map(healthProblem => `    Health problem: ${healthProblem}`)
+    ].join("\n");
+}
@@ -1,393 +1,411 @@
 // Parses the development applications at the South Australian Coorong District Council web site
-// and places them in a database.
+// (and the web sites of any other configured councils, see CouncilProfile) and places them in a
+// database.
 //
 // Michael Bone
 // 25th February 2019
 "use strict";
 Object.defineProperty(exports, "__esModule", { value: true });
+exports.scrape = void 0;
 const fs = require("fs");
-const cheerio = require("cheerio");
-const request = require("request-promise-native");
-const sqlite3 = require("sqlite3");
+const crypto = require("crypto");
 const moment = require("moment");
-const pdfjs = require("pdfjs-dist");
-const didyoumean2_1 = require("didyoumean2"), didyoumean = didyoumean2_1;
-sqlite3.verbose();
-const DevelopmentApplicationsUrl = "https://www.coorong.sa.gov.au/council-services/building-and-development/development-register?num_ranks=200";
-const CommentUrl = "mailto:council@coorong.sa.gov.au";
-// All valid street names, street suffixes, suburb names and hundred names.
-let StreetNames = null;
-let StreetSuffixes = null;
-let SuburbNames = null;
-let HundredNames = null;
-// Sets up an sqlite database.
-async function initializeDatabase() {
-    return new Promise((resolve, reject) => {
-        let database = new sqlite3.Database("data.sqlite");
-        database.serialize(() => {
-            database.run("create table if not exists [data] ([council_reference] text primary key, [address] text, [description] text, [info_url] text, [comment_url] text, [date_scraped] text, [date_received] text, [legal_description] text)");
-            resolve(database);
-        });
-    });
-}
-// Inserts a row in the database if the row does not already exist.
-async function insertRow(database, developmentApplication) {
-    return new Promise((resolve, reject) => {
-        let sqlStatement = database.prepare("insert or replace into [data] values (?, ?, ?, ?, ?, ?, ?, ?)");
-        sqlStatement.run([
-            developmentApplication.applicationNumber,
-            developmentApplication.address,
-            developmentApplication.description,
-            developmentApplication.informationUrl,
-            developmentApplication.commentUrl,
-            developmentApplication.scrapeDate,
-            developmentApplication.receivedDate,
-            developmentApplication.legalDescription
-        ], function (error, row) {
-            if (error) {
-                console.error(error);
-                reject(error);
-            }
-            else {
-                console.log(`    Saved application \"${developmentApplication.applicationNumber}\" with address \"${developmentApplication.address}\", description \"${developmentApplication.description}\", legal description \"${developmentApplication.legalDescription}\" and received date \"${developmentApplication.receivedDate}\" to the database.`);
-                sqlStatement.finalize(); // releases any locks
-                resolve(row);
-            }
-        });
-    });
-}
-// Constructs a rectangle based on the intersection of the two specified rectangles.
-function intersect(rectangle1, rectangle2) {
-    let x1 = Math.max(rectangle1.x, rectangle2.x);
-    let y1 = Math.max(rectangle1.y, rectangle2.y);
-    let x2 = Math.min(rectangle1.x + rectangle1.width, rectangle2.x + rectangle2.width);
-    let y2 = Math.min(rectangle1.y + rectangle1.height, rectangle2.y + rectangle2.height);
-    if (x2 >= x1 && y2 >= y1)
-        return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
-    else
-        return { x: 0, y: 0, width: 0, height: 0 };
-}
-// Calculates the fraction of an element that lies within a rectangle (as a percentage).  For
-// example, if a quarter of the specifed element lies within the specified rectangle then this
-// would return 25.
-function getPercentageOfElementInRectangle(element, rectangle) {
-    let elementArea = getArea(element);
-    let intersectionArea = getArea(intersect(rectangle, element));
-    return (elementArea === 0) ? 0 : ((intersectionArea * 100) / elementArea);
+const parser_1 = require("./parser");
+const cache_1 = require("./cache");
+const fetcher_1 = require("./fetcher");
+const exporter_1 = require("./exporter");
+const reference_1 = require("./reference");
+const sinks_1 = require("./sinks");
+const councils_1 = require("./councils");
+const report_1 = require("./report");
+const register_1 = require("./register");
+const database_1 = require("./database");
+// How the register page and PDFs are retrieved (see FetchOptions).  TLS certificate verification
+// is only relaxed if MORPH_RELAX_TLS is "true".
+const SnapshotMode = process.env.MORPH_SNAPSHOT_MODE; // "replay", "record" or undefined
+const FetchSettings = {
+    ...fetcher_1.DefaultFetchOptions,
+    retries: (process.env.MORPH_FETCH_RETRIES === undefined) ? fetcher_1.DefaultFetchOptions.retries : Number(process.env.MORPH_FETCH_RETRIES),
+    timeout: (process.env.MORPH_FETCH_TIMEOUT === undefined) ? fetcher_1.DefaultFetchOptions.timeout : Number(process.env.MORPH_FETCH_TIMEOUT),
+    proxy: process.env.MORPH_PROXY,
+    rejectUnauthorized: (process.env.MORPH_RELAX_TLS !== "true"),
+    snapshotMode: SnapshotMode,
+    snapshotDirectory: process.env.MORPH_SNAPSHOT_DIRECTORY || fetcher_1.DefaultFetchOptions.snapshotDirectory
+};
+// The strategy used to select which of the PDFs on the register page are parsed: "all",
+// "latest:N" (the N most recent PDFs), "url:<url>" (a single named PDF), "period:<period>" (the
+// PDFs covering any part of a year, month or day, such as "period:2019-01") or "round-robin:N"
+// (the most recent PDF plus the N - 1 PDFs that were least recently parsed).
+const DefaultPdfSelection = "round-robin:2";
+// The memory budget for parsing each PDF (in megabytes).
+const MemoryBudget = (process.env.MORPH_MEMORY_BUDGET === undefined) ? (parser_1.DefaultMemoryBudget / (1024 * 1024)) : Number(process.env.MORPH_MEMORY_BUDGET);
+// The thresholds beyond which a run is considered unhealthy (the rates are fractions, for example,
+// 0.2 for 20%).
+const Thresholds = {
+    minimumApplications: (process.env.MORPH_MINIMUM_APPLICATIONS === undefined) ? report_1.DefaultHealthThresholds.minimumApplications : Number(process.env.MORPH_MINIMUM_APPLICATIONS),
+    maximumFallbackRate: (process.env.MORPH_MAXIMUM_FALLBACK_RATE === undefined) ? report_1.DefaultHealthThresholds.maximumFallbackRate : Number(process.env.MORPH_MAXIMUM_FALLBACK_RATE),
+    maximumMissingReceivedDateRate: (process.env.MORPH_MAXIMUM_MISSING_RECEIVED_DATE_RATE === undefined) ? report_1.DefaultHealthThresholds.maximumMissingReceivedDateRate : Number(process.env.MORPH_MAXIMUM_MISSING_RECEIVED_DATE_RATE)
+};
+// The councils scraped by default (a comma separated list of council names).
+const Councils = process.env.MORPH_COUNCILS || councils_1.DefaultCouncilName;
+// Creates the sinks that development applications are saved to: the sqlite database and, if
+// configured, a Postgres database (MORPH_POSTGRES_URL) and a webhook (MORPH_WEBHOOK_URL).  Each
+// sink is added to the specified array as soon as it is created (so that it can be closed even if
+// a later sink cannot be created or opened).
+async function openSinks(database, sinks) {
+    sinks.push(database_1.createSqliteSink(database));
+    if (process.env.MORPH_POSTGRES_URL !== undefined)
+        sinks.push(sinks_1.createPostgresSink(await sinks_1.connectPostgres(process.env.MORPH_POSTGRES_URL)));
+    if (process.env.MORPH_WEBHOOK_URL !== undefined)
+        sinks.push(sinks_1.createWebhookSink(process.env.MORPH_WEBHOOK_URL, { ...sinks_1.DefaultWebhookOptions, timeout: FetchSettings.timeout, proxy: FetchSettings.proxy, rejectUnauthorized: FetchSettings.rejectUnauthorized }));
+    for (let sink of sinks)
+        await sink.open();
 }
-// Calculates the area of a rectangle.
-function getArea(rectangle) {
-    return rectangle.width * rectangle.height;
+// Retrieves the content of a URL (either from the council web site or, in replay mode, from the
+// snapshot directory).  Binary content (such as a PDF) is returned as a buffer.
+async function retrieve(url, isBinary) {
+    return (await fetcher_1.fetchUrl(url, isBinary, FetchSettings)).content;
 }
-// Formats (and corrects) an address.
-function formatAddress(address) {
-    address = address.trim();
-    if (address.startsWith("LOT:") || address.startsWith("No Residential Address"))
-        return "";
-    // Remove the comma in house numbers larger than 1000.  For example, the following addresses:
-    //
-    //     4,665 Princes HWY MENINGIE 5264
-    //     11,287 Princes HWY SALT CREEK 5264
-    //
-    // would be converted to the following:
-    //
-    //     4665 Princes HWY MENINGIE 5264
-    //     11287 Princes HWY SALT CREEK 5264
-    if (/^\d,\d\d\d/.test(address))
-        address = address.substring(0, 1) + address.substring(2);
-    else if (/^\d\d,\d\d\d/.test(address))
-        address = address.substring(0, 2) + address.substring(3);
-    let tokens = address.split(" ");
-    let postCode = undefined;
-    let token = tokens.pop();
-    if (/^\d\d\d\d$/.test(token))
-        postCode = token;
-    else
-        tokens.push(token);
-    // Ensure that a state code is added before the post code if a state code is not present.
-    let state = "SA";
-    token = tokens.pop();
-    if (["ACT", "NSW", "NT", "QLD", "SA", "TAS", "VIC", "WA"].includes(token.toUpperCase()))
-        state = token.toUpperCase();
-    else
-        tokens.push(token);
-    // Construct a fallback address to be used if the suburb name cannot be determined later.
-    let fallbackAddress = (postCode === undefined) ? address : [...tokens, state, postCode].join(" ");
-    // Pop tokens from the end of the array until a valid suburb name is encountered (allowing
-    // for a few spelling errors).  Note that this starts by examining for longer matches
-    // (consisting of four tokens) before examining shorter matches.  This approach ensures
-    // that the following address:
-    //
-    //     2,800 Woods Well RD COLEBATCH 5266
-    //
-    // is correctly converted to the following address:
-    //
-    //     2800 WOODS WELL ROAD, COLEBATCH SA 5266
-    //
-    // rather than (incorrectly) to the following address (notice that the street name has "BELL"
-    // instead of "WELL" because there actually is a street named "BELL ROAD").
-    //
-    //     2800 Woods BELL ROAD, COLEBATCH SA 5266
-    let suburbName = undefined;
-    for (let index = 4; index >= 1; index--) {
-        let suburbNameMatch = didyoumean2_1.default(tokens.slice(-index).join(" "), Object.keys(SuburbNames), { caseSensitive: false, returnType: didyoumean.ReturnTypeEnums.FIRST_CLOSEST_MATCH, thresholdType: didyoumean.ThresholdTypeEnums.EDIT_DISTANCE, threshold: 1, trimSpaces: true });
-        if (suburbNameMatch !== null) {
-            suburbName = SuburbNames[suburbNameMatch];
-            tokens.splice(-index, index); // remove elements from the end of the array           
-            break;
-        }
-    }
-    // Expand any street suffix (for example, this converts "ST" to "STREET").
-    token = tokens.pop();
-    let streetSuffix = StreetSuffixes[token.toUpperCase()];
-    if (streetSuffix === undefined)
-        streetSuffix = Object.values(StreetSuffixes).find(streetSuffix => streetSuffix === token.toUpperCase()); // the street suffix is already expanded
-    if (streetSuffix === undefined)
-        tokens.push(token); // unrecognised street suffix
-    else
-        tokens.push(streetSuffix); // add back the expanded street suffix
-    // Pop tokens from the end of the array until a valid street name is encountered (allowing
-    // for a few spelling errors).  Similar to the examination of suburb names, this examines
-    // longer matches before examining shorter matches (for the same reason).
-    let streetName = undefined;
-    for (let index = 5; index >= 1; index--) {
-        let streetNameMatch = didyoumean2_1.default(tokens.slice(-index).join(" "), Object.keys(StreetNames), { caseSensitive: false, returnType: didyoumean.ReturnTypeEnums.FIRST_CLOSEST_MATCH, thresholdType: didyoumean.ThresholdTypeEnums.EDIT_DISTANCE, threshold: 1, trimSpaces: true });
-        if (streetNameMatch !== null) {
-            streetName = streetNameMatch;
-            let suburbNames = StreetNames[streetNameMatch];
-            tokens.splice(-index, index); // remove elements from the end of the array           
-            // If the suburb was not determined earlier then attempt to obtain the suburb based
-            // on the street (ie. if there is only one suburb associated with the street).  For
-            // example, this would automatically add the suburb to "22 Jefferson CT 5263",
-            // producing the address "22 JEFFERSON COURT, WELLINGTON EAST SA 5263".
-            if (suburbName === undefined && suburbNames.length === 1)
-                suburbName = SuburbNames[suburbNames[0]];
+// Reads every page of the register of a council (following the links to subsequent pages of
+// results) and returns the development application PDFs listed, ordered by the period that each
+// PDF covers (most recent first).
+async function getRegisterDocuments(profile) {
+    let registerDocuments = [];
+    let visitedPageUrls = [];
+    let pageUrl = profile.registerUrl;
+    while (pageUrl !== undefined && !visitedPageUrls.includes(pageUrl)) {
+        if (visitedPageUrls.length >= register_1.MaximumRegisterPageCount) {
+            console.log(`Stopped reading the register after ${register_1.MaximumRegisterPageCount} pages.`);
             break;
         }
+        visitedPageUrls.push(pageUrl);
+        console.log(`Retrieving page: ${pageUrl}`);
+        let body = await retrieve(pageUrl, false);
+        let registerPage = register_1.parseRegisterPage(body, pageUrl, profile.registerSelectors);
+        for (let registerDocument of registerPage.documents)
+            if (!registerDocuments.some(otherRegisterDocument => otherRegisterDocument.url === registerDocument.url))
+                registerDocuments.push(registerDocument);
+        pageUrl = registerPage.nextPageUrl;
     }
-    // If a post code was included in the original address then use it to override the post code
-    // included in the suburb name (because the post code in the original address is more likely
-    // to be correct).
-    if (postCode !== undefined && suburbName !== undefined)
-        suburbName = suburbName.replace(/\s+\d\d\d\d$/, " " + postCode);
-    // Reconstruct the address with a comma between the street address and the suburb.
-    if (suburbName === undefined || suburbName.trim() === "")
-        address = fallbackAddress;
-    else {
-        if (streetName !== undefined && streetName.trim() !== "")
-            tokens.push(streetName);
-        let streetAddress = tokens.join(" ").trim();
-        address = streetAddress + (streetAddress === "" ? "" : ", ") + suburbName;
-    }
-    return address;
+    return register_1.sortRegisterDocuments(registerDocuments);
 }
-// Parses the details from the elements associated with a single page of the PDF (corresponding
-// to a single development application).
-function parseApplicationElements(elements, informationUrl) {
-    // Get the application number (by finding all elements that are at least 10% within the
-    // calculated bounding rectangle).
-    let applicationNumberHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "").startsWith("devappno"));
-    let applicantHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "applicant");
-    let applicationReceivedDateHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "applicationreciveddate:");
-    if (applicationReceivedDateHeadingElement === undefined)
-        applicationReceivedDateHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "applicationreceiveddate:");
-    let propertyDetailsHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "propertydetails:");
-    let referralsHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "referrals");
-    let totalDevelopmentCostsHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "totaldevelopmentcosts:");
-    if (applicationNumberHeadingElement === undefined) {
-        let elementSummary = elements.map(element => `[${element.text}]`).join("");
-        console.log(`Ignoring the page because the "Dev App No." text is missing.  Elements: ${elementSummary}`);
-        return undefined;
-    }
-    // Get the application number.
-    let applicationNumberBounds = {
-        x: applicationNumberHeadingElement.x + applicationNumberHeadingElement.width,
-        y: applicationNumberHeadingElement.y,
-        width: applicationNumberHeadingElement.width,
-        height: applicationNumberHeadingElement.height
-    };
-    let applicationNumberElement = elements.find(element => getPercentageOfElementInRectangle(element, applicationNumberBounds) > 10);
-    let applicationNumber = (applicationNumberElement === undefined) ? "" : applicationNumberElement.text.replace(/\s/g, "");
-    if (applicationNumber === "") {
-        let elementSummary = elements.map(element => `[${element.text}]`).join("");
-        console.log(`Could not find the application number on the PDF page for the current development application.  The development application will be ignored.  Elements: ${elementSummary}`);
-        return undefined;
+// Parses the development applications of a council and saves them to every sink (adding the
+// number of each application saved to the specified lists of new, changed and unchanged
+// applications, and adding the PDFs, pages and applications to the specified run report).
+async function scrapeCouncil(database, sinks, cache, profile, pdfSelection, applicationNumbersByStatus, report) {
+    console.log(`Scraping the development applications of the ${profile.fullName}.`);
+    reference_1.loadReferenceData(profile.referenceDataDirectory);
+    // Read the page of development application PDFs.
+    let registerDocuments = await getRegisterDocuments(profile);
+    await database_1.updateRegisterDocuments(database, registerDocuments);
+    report.pdfsDiscovered += registerDocuments.length;
+    // In replay mode only the PDFs that were saved in the snapshot can be parsed (and by default
+    // all of them are parsed).
+    if (SnapshotMode === "replay") {
+        let snapshotIndex = fetcher_1.readSnapshotIndex(FetchSettings.snapshotDirectory);
+        registerDocuments = registerDocuments.filter(registerDocument => snapshotIndex[registerDocument.url] !== undefined);
+        pdfSelection = pdfSelection || "all";
     }
-    console.log(`    Found \"${applicationNumber}\".`);
-    // Get the received date.
-    let receivedDateBounds = {
-        x: applicationReceivedDateHeadingElement.x + applicationReceivedDateHeadingElement.width,
-        y: applicationReceivedDateHeadingElement.y,
-        width: applicationReceivedDateHeadingElement.width,
-        height: applicationReceivedDateHeadingElement.height
-    };
-    let receivedDateElement = elements.find(element => getPercentageOfElementInRectangle(element, receivedDateBounds) > 10);
-    let receivedDate = moment.invalid();
-    if (receivedDateElement !== undefined)
-        receivedDate = moment(receivedDateElement.text.trim(), "D/MM/YYYY", true); // allows the leading zero of the day to be omitted
-    // Get the description.
-    if (applicantHeadingElement === undefined)
-        console.log(`Could not find the "Applicant" heading on the page and so the development application description may be truncated.`);
-    let descriptionBounds = {
-        x: applicationNumberElement.x + applicationNumberElement.width,
-        y: applicationNumberElement.y,
-        width: Number.MAX_VALUE,
-        height: (applicantHeadingElement === undefined) ? (applicationNumberElement.height * 2) : (applicantHeadingElement.y - applicationNumberElement.y)
-    };
-    let description = elements.filter(element => getPercentageOfElementInRectangle(element, descriptionBounds) > 10).map(element => element.text).join(" ").trim().replace(/\s\s+/g, " ");
-    // Get the address and legal description.
-    let addressBounds = {
-        x: propertyDetailsHeadingElement.x,
-        y: propertyDetailsHeadingElement.y + propertyDetailsHeadingElement.height,
-        width: (referralsHeadingElement === undefined) ? Number.MAX_VALUE : (referralsHeadingElement.x - propertyDetailsHeadingElement.x),
-        height: (totalDevelopmentCostsHeadingElement == undefined) ? Number.MAX_VALUE : (totalDevelopmentCostsHeadingElement.y - propertyDetailsHeadingElement.y - 2 * propertyDetailsHeadingElement.height) // some extra padding
-    };
-    let addressElements = elements.filter(element => getPercentageOfElementInRectangle(element, addressBounds) > 10);
-    // Group the address and legal description elements into rows.
-    let addressRows = [];
-    for (let addressElement of addressElements) {
-        let addressRow = addressRows.find(row => Math.abs(row[0].y - addressElement.y) < 5); // approximate Y co-ordinate match
-        if (addressRow === undefined)
-            addressRows.push([addressElement]); // start a new row
-        else
-            addressRow.push(addressElement); // add to an existing row
+    if (registerDocuments.length === 0) {
+        console.log("No PDF files were found on the page.");
+        return;
     }
-    let address = (addressRows.length < 1) ? "" : addressRows[0].map(element => element.text).join(" ").trim().replace(/\s\s+/g, " ");
-    let legalDescription = (addressRows.length < 2) ? "" : addressRows.slice(1).map(row => row.map(element => element.text).join(" ")).join(" ").trim().replace(/\s\s+/g, " ");
-    address = formatAddress(address);
-    if (address === "") {
-        let elementSummary = elements.map(element => `[${element.text}]`).join("");
-        console.log(`Could not find an address for the current development application.  The development application will be ignored.  Elements: ${elementSummary}`);
-        return undefined;
+    // Select the PDFs to parse (by default, the most recent PDF and the least recently parsed
+    // PDF).
+    let previousDocuments = {};
+    let datesParsed = {};
+    for (let document of await database_1.getDocuments(database)) {
+        previousDocuments[document.url] = document;
+        datesParsed[document.url] = document.date_parsed;
     }
-    return {
-        applicationNumber: applicationNumber,
-        address: address,
-        description: (description === "") ? "No description provided" : description,
-        informationUrl: informationUrl,
-        commentUrl: CommentUrl,
-        scrapeDate: moment().format("YYYY-MM-DD"),
-        receivedDate: receivedDate.isValid() ? receivedDate.format("YYYY-MM-DD") : "",
-        legalDescription: legalDescription
-    };
-}
-// Parses the development applications in the specified date range.
-async function parsePdf(url) {
-    console.log(`Reading development applications from ${url}.`);
-    let developmentApplications = [];
-    // Read the PDF.
-    let buffer = await request({ url: url, encoding: null, proxy: process.env.MORPH_PROXY });
-    await sleep(2000 + getRandom(0, 5) * 1000);
-    // Parse the PDF.  Each page has the details of multiple applications.  Note that the PDF is
-    // re-parsed on each iteration of the loop (ie. once for each page).  This then avoids large
-    // memory usage by the PDF (just calling page._destroy() on each iteration of the loop appears
-    // not to be enough to release all memory used by the PDF parsing).
-    for (let pageIndex = 0; pageIndex < 5000; pageIndex++) { // limit to an arbitrarily large number of pages (to avoid any chance of an infinite loop)
-        let pdf = await pdfjs.getDocument({ data: buffer, disableFontFace: true, ignoreErrors: true });
-        if (pageIndex >= pdf.numPages)
-            break;
-        console.log(`Reading and parsing applications from page ${pageIndex + 1} of ${pdf.numPages}.`);
-        let page = await pdf.getPage(pageIndex + 1);
-        let textContent = await page.getTextContent();
-        let viewport = await page.getViewport(1.0);
-        let elements = textContent.items.map(item => {
-            let transform = pdfjs.Util.transform(viewport.transform, item.transform);
-            // Work around the issue https://github.com/mozilla/pdf.js/issues/8276 (heights are
-            // exaggerated).  The problem seems to be that the height value is too large in some
-            // PDFs.  Provide an alternative, more accurate height value by using a calculation
-            // based on the transform matrix.
-            let workaroundHeight = Math.sqrt(transform[2] * transform[2] + transform[3] * transform[3]);
-            return { text: item.str, x: transform[4], y: transform[5], width: item.width, height: workaroundHeight };
-        });
-        // Release the memory used by the PDF now that it is no longer required (it will be
-        // re-parsed on the next iteration of the loop for the next page).
-        await pdf.destroy();
+    pdfSelection = pdfSelection || DefaultPdfSelection;
+    let selectedPdfUrls = register_1.selectPdfUrls(registerDocuments, pdfSelection, datesParsed);
+    let { parserKey, addressKey } = cache_1.getCacheKeys(profile);
+    report.pdfSelection = pdfSelection;
+    report.pdfsSelected += selectedPdfUrls.length;
+    console.log(`Found ${registerDocuments.length} PDF file(s).  Selected ${selectedPdfUrls.length} to parse using the "${pdfSelection}" selection.`);
+    for (let pdfUrl of selectedPdfUrls) {
+        console.log(`Parsing document: ${pdfUrl}`);
+        let previousDocument = previousDocuments[pdfUrl];
+        // Skip the PDF if the web site indicates that it is unchanged since it was last parsed
+        // (but still record that it was checked so that the round-robin selection moves on).
+        // If the parsing or the address formatting has changed since then, the applications are
+        // instead parsed again from the cache (only retrieving the PDF again if it is not
+        // cached).
+        let validators = (previousDocument === undefined) ? undefined : { etag: previousDocument.etag, lastModified: previousDocument.last_modified };
+        let fetchResult = await fetcher_1.fetchUrl(pdfUrl, true, FetchSettings, validators);
+        let buffer = undefined;
+        let contentHash = undefined;
+        if (fetchResult.isNotModified) {
+            if (previousDocument.parser_key === parserKey && previousDocument.address_key === addressKey) {
+                console.log(`The document is not modified since it was last parsed and so will be skipped.`);
+                await database_1.updateDocument(database, pdfUrl, previousDocument.content_hash, fetchResult.etag, fetchResult.lastModified, parserKey, addressKey);
+                report.pdfsNotModified++;
+                continue;
+            }
+            console.log(`The document is not modified since it was last parsed but the parsing or address formatting has changed, so it will be parsed again.`);
+            contentHash = previousDocument.content_hash;
+            if (contentHash === null || !(await cache_1.isPdfCached(cache, contentHash, profile))) {
+                console.log(`The document is not cached and so will be retrieved again.`);
+                fetchResult = await fetcher_1.fetchUrl(pdfUrl, true, FetchSettings);
+            }
+        }
+        if (!fetchResult.isNotModified) {
+            buffer = fetchResult.content;
+            contentHash = crypto.createHash("sha256").update(buffer).digest("hex");
+            if (previousDocument !== undefined && previousDocument.content_hash === contentHash)
+                console.log(`The document is unchanged since it was last parsed.`);
+        }
+        let quarantinedPages = [];
+        let statistics = {};
+        let developmentApplications = await cache_1.parsePdfWithCache(cache, pdfUrl, buffer, contentHash, quarantinedPages, MemoryBudget * 1024 * 1024, profile, statistics);
+        report_1.addParsedPdf(report, developmentApplications, quarantinedPages, statistics);
+        console.log(`Parsed ${developmentApplications.length} development application(s) from document: ${pdfUrl}`);
+        // Attempt to avoid reaching 512 MB memory usage (this will otherwise result in the
+        // current process being terminated by morph.io).
         if (global.gc)
             global.gc();
-        // Sort the elements by Y co-ordinate and then by X co-ordinate.
-        let elementComparer = (a, b) => (a.y > b.y) ? 1 : ((a.y < b.y) ? -1 : ((a.x > b.x) ? 1 : ((a.x < b.x) ? -1 : 0)));
-        elements.sort(elementComparer);
-        let developmentApplication = parseApplicationElements(elements, url);
-        if (developmentApplication !== undefined)
-            if (!developmentApplications.some(otherDevelopmentApplication => otherDevelopmentApplication.applicationNumber === developmentApplication.applicationNumber)) // ignore duplicates
-                developmentApplications.push(developmentApplication);
+        // Merge each application with the versions of the application from other PDFs (so that
+        // the result does not depend on the order in which the PDFs are parsed).
+        let reconciledApplications = [];
+        for (let developmentApplication of developmentApplications)
+            reconciledApplications.push(await database_1.reconcileWithSavedSources(database, pdfUrl, developmentApplication));
+        // Save the applications to every sink (if this fails the PDF is not recorded as parsed
+        // and so is parsed again on the next run).
+        console.log(`Saving development applications to the ${sinks.map(sink => sink.name).join(", ")} sink(s).`);
+        if (quarantinedPages.length > 0)
+            console.log(`Quarantining ${quarantinedPages.length} page(s) that could not be fully parsed.`);
+        let statuses;
+        try {
+            statuses = await sinks_1.saveToSinks(sinks, pdfUrl, reconciledApplications, quarantinedPages);
+        }
+        catch (error) {
+            report.pdfsNotSaved++;
+            continue;
+        }
+        report_1.addSavedApplications(report, statuses);
+        reconciledApplications.forEach((reconciledApplication, index) => applicationNumbersByStatus[statuses[index]].push(reconciledApplication.applicationNumber));
+        // Record when the PDF was parsed so that the round-robin selection chooses other PDFs
+        // on subsequent runs.
+        await database_1.updateDocument(database, pdfUrl, contentHash, fetchResult.etag, fetchResult.lastModified, parserKey, addressKey);
     }
-    return developmentApplications;
 }
-// Gets a random integer in the specified range: [minimum, maximum).
-function getRandom(minimum, maximum) {
-    return Math.floor(Math.random() * (Math.floor(maximum) - Math.ceil(minimum))) + Math.ceil(minimum);
+// Parses the development applications of the specified councils and saves them to the database
+// (and any other configured sinks).  The report of the run is saved in the [runs] table (even if
+// the run fails) and returned.
+async function scrape(databasePath, pdfSelection, profiles) {
+    // Ensure that the database exists.
+    let database = await database_1.initializeDatabase(databasePath);
+    let report = report_1.createRunReport(profiles.map(profile => profile.name), pdfSelection);
+    let applicationNumbersByStatus = { new: [], changed: [], unchanged: [] };
+    let sinks = [];
+    // The elements and applications parsed from each PDF are cached so that an unchanged PDF is
+    // not parsed again.
+    await database_1.pruneCache(database);
+    let cache = database_1.createSqliteCache(database);
+    // The sinks are opened within the try block so that a sink that cannot be opened (such as an
+    // unreachable Postgres database) is recorded as the error of the run.
+    try {
+        await openSinks(database, sinks);
+        for (let profile of profiles)
+            await scrapeCouncil(database, sinks, cache, profile, pdfSelection, applicationNumbersByStatus, report);
+    }
+    catch (error) {
+        report.error = error.message;
+        throw error;
+    }
+    finally {
+        for (let sink of sinks)
+            await sink.close();
+        report_1.finishRunReport(report, Thresholds);
+        console.log(report_1.formatRunReport(report));
+        await database_1.insertRun(database, report);
+    }
+    // Summarise the applications that were saved.
+    console.log(`Run summary: ${applicationNumbersByStatus.new.length} new, ${applicationNumbersByStatus.changed.length} changed and ${applicationNumbersByStatus.unchanged.length} unchanged application(s).`);
+    for (let status of ["new", "changed", "unchanged"])
+        if (applicationNumbersByStatus[status].length > 0)
+            console.log(`    ${status[0].toUpperCase() + status.substring(1)}: ${applicationNumbersByStatus[status].join(", ")}`);
+    return report;
 }
-// Pauses for the specified number of milliseconds.
-function sleep(milliseconds) {
-    return new Promise(resolve => setTimeout(resolve, milliseconds));
+exports.scrape = scrape;
+// The usage message for the command line interface.
+const Usage = `Usage: node scraper.js [command] [options]
+
+Commands:
+    scrape                       Parses the development applications and saves them to the
+                                 database (the default command).
+        --pdf-selection <value>  The PDFs to parse: "all", "latest:N", "url:<url>",
+                                 "period:<YYYY|YYYY-MM|YYYY-MM-DD>" or "round-robin:N"
+                                 (defaults to MORPH_PDF_SELECTION or "${DefaultPdfSelection}").
+        --council <names>        The councils to scrape, separated by commas (defaults to
+                                 MORPH_COUNCILS or "${councils_1.DefaultCouncilName}").
+        --database <path>        The database file (defaults to "data.sqlite").
+    parse-pdf <file-or-url>      Writes the development applications parsed from a PDF to
+                                 standard output as JSON (the database is not used).
+        --council <name>         The council that published the PDF.
+    format-address <text>        Writes the formatted address (and how each part of the address
+                                 was determined) to standard output as JSON.
+        --council <name>         The council whose reference data is used.
+    list-pdfs                    Writes the PDFs linked from the register page to standard
+                                 output (one per line, most recent period first: the URL,
+                                 period start, period end, publish date and title separated by
+                                 tabs).
+        --council <name>         The council whose register page is read.
+    check-reference-data         Validates the street, street suffix, suburb and hundred name
+                                 files, writing any malformed, duplicate or conflicting lines
+                                 to standard output.
+        --council <name>         The council whose reference data is validated.
+    propose-gazetteer            Writes proposed new lines for the street and suburb name files
+                                 to standard output as JSON (mined from the saved addresses
+                                 that did not match a known suburb).
+        --council <name>         The council whose addresses and reference data are used.
+        --database <path>        The database file (defaults to "data.sqlite").
+    export                       Writes the development applications saved in the database to
+                                 standard output.
+        --format <value>         The format: "ndjson" (the default), "csv" or "planningalerts".
+        --from <date>            Only exports applications scraped on or after this date
+                                 (YYYY-MM-DD).
+        --to <date>              Only exports applications scraped on or before this date
+                                 (YYYY-MM-DD).
+        --database <path>        The database file (defaults to "data.sqlite").
+    help                         Displays this message.
+
+The commands that accept a single council default to the first council in MORPH_COUNCILS (or
+"${councils_1.DefaultCouncilName}").`;
+// Parses the command line arguments into a command, the positional arguments and the options
+// (for example, "--database test.sqlite" results in the option { database: "test.sqlite" }).
+function parseArguments(args) {
+    let positionals = [];
+    let options = {};
+    for (let index = 0; index < args.length; index++) {
+        let arg = args[index];
+        if (arg === "--help" || arg === "-h")
+            options["help"] = "true";
+        else if (arg.startsWith("--")) {
+            let separatorIndex = arg.indexOf("=");
+            if (separatorIndex >= 0)
+                options[arg.substring(2, separatorIndex)] = arg.substring(separatorIndex + 1);
+            else if (index + 1 < args.length)
+                options[arg.substring(2)] = args[++index];
+            else
+                throw new Error(`The option "${arg}" requires a value.`);
+        }
+        else
+            positionals.push(arg);
+    }
+    return { command: (positionals.length === 0) ? "scrape" : positionals.shift(), positionals: positionals, options: options };
 }
-// Parses the development applications.
+// Runs the command specified on the command line.
 async function main() {
-    // Ensure that the database exists.
-    let database = await initializeDatabase();
-    // Read the files containing all possible street names, street suffixes, suburb names and
-    // hundred names.  Note that these are not currently used.
-    StreetNames = {};
-    for (let line of fs.readFileSync("streetnames.txt").toString().replace(/\r/g, "").trim().split("\n")) {
-        let streetNameTokens = line.toUpperCase().split(",");
-        let streetName = streetNameTokens[0].trim();
-        let suburbName = streetNameTokens[1].trim();
-        (StreetNames[streetName] || (StreetNames[streetName] = [])).push(suburbName); // several suburbs may exist for the same street name
+    if (SnapshotMode !== undefined && SnapshotMode !== "replay" && SnapshotMode !== "record")
+        throw new Error(`The snapshot mode "${SnapshotMode}" is not supported (specify "replay" or "record").`);
+    if (!Number.isInteger(FetchSettings.retries) || FetchSettings.retries < 0 || !(FetchSettings.timeout > 0))
+        throw new Error(`The fetch retries "${process.env.MORPH_FETCH_RETRIES}" or timeout "${process.env.MORPH_FETCH_TIMEOUT}" is not valid.`);
+    if (!(MemoryBudget > 0))
+        throw new Error(`The memory budget "${process.env.MORPH_MEMORY_BUDGET}" is not a positive number of megabytes.`);
+    if (!(Thresholds.minimumApplications >= 0) || !(Thresholds.maximumFallbackRate >= 0) || !(Thresholds.maximumMissingReceivedDateRate >= 0))
+        throw new Error(`The health thresholds "${process.env.MORPH_MINIMUM_APPLICATIONS}", "${process.env.MORPH_MAXIMUM_FALLBACK_RATE}" or "${process.env.MORPH_MAXIMUM_MISSING_RECEIVED_DATE_RATE}" are not valid (specify a number of applications and fractions such as 0.2).`);
+    let { command, positionals, options } = parseArguments(process.argv.slice(2));
+    let supportedOptions = {
+        scrape: ["help", "pdf-selection", "council", "database"],
+        "parse-pdf": ["help", "council"],
+        "format-address": ["help", "council"],
+        "list-pdfs": ["help", "council"],
+        "check-reference-data": ["help", "council"],
+        "propose-gazetteer": ["help", "council", "database"],
+        export: ["help", "format", "from", "to", "database"]
+    }[command] || ["help"];
+    let unsupportedOption = Object.keys(options).find(option => !supportedOptions.includes(option));
+    if (unsupportedOption !== undefined)
+        throw new Error(`The option "--${unsupportedOption}" is not supported by the "${command}" command.\n\n${Usage}`);
+    if (command === "help" || options["help"] !== undefined) {
+        console.log(Usage);
+        return;
+    }
+    // Every command other than scrape (and export) applies to a single council.
+    let profiles = councils_1.getCouncilProfiles(options["council"] || Councils);
+    if (profiles.length === 0)
+        throw new Error(`No council was specified.\n\n${Usage}`);
+    if (command !== "scrape" && options["council"] !== undefined && profiles.length !== 1)
+        throw new Error(`The "${command}" command accepts a single council.\n\n${Usage}`);
+    let profile = profiles[0];
+    if (command === "scrape") {
+        let report = await scrape(options["database"] || "data.sqlite", options["pdf-selection"] || process.env.MORPH_PDF_SELECTION, profiles);
+        if (report.healthProblems.length > 0) {
+            console.log(`Complete, but the run is unhealthy (${report.healthProblems.length} health threshold(s) were breached).`);
+            process.exitCode = 1;
+        }
+        else
+            console.log("Complete.");
     }
-    StreetSuffixes = {};
-    for (let line of fs.readFileSync("streetsuffixes.txt").toString().replace(/\r/g, "").trim().split("\n")) {
-        let streetSuffixTokens = line.toUpperCase().split(",");
-        StreetSuffixes[streetSuffixTokens[0].trim()] = streetSuffixTokens[1].trim();
+    else if (command === "parse-pdf" || command === "format-address") {
+        if (positionals.length !== 1)
+            throw new Error(`The "${command}" command requires a single argument.\n\n${Usage}`);
+        // Progress messages are written to standard error so that standard output only contains
+        // the JSON.
+        console.log = console.error;
+        reference_1.loadReferenceData(profile.referenceDataDirectory);
+        if (command === "parse-pdf") {
+            let source = positionals[0];
+            let buffer = /^https?:\/\//i.test(source) ? await retrieve(source, true) : fs.readFileSync(source);
+            let quarantinedPages = [];
+            let developmentApplications = await parser_1.parsePdf(source, buffer, quarantinedPages, MemoryBudget * 1024 * 1024, profile);
+            for (let quarantinedPage of quarantinedPages)
+                console.log(`Page ${quarantinedPage.pageNumber} was ${quarantinedPage.status === "rejected" ? "rejected" : "only partially parsed"}: ${quarantinedPage.reasons.join("  ")}`);
+            process.stdout.write(JSON.stringify(developmentApplications, null, 4) + "\n");
+        }
+        else
+            process.stdout.write(JSON.stringify(parser_1.parseAddress(positionals[0]), null, 4) + "\n");
     }
-    SuburbNames = {};
-    for (let line of fs.readFileSync("suburbnames.txt").toString().replace(/\r/g, "").trim().split("\n")) {
-        let suburbTokens = line.toUpperCase().split(",");
-        SuburbNames[suburbTokens[0].trim()] = suburbTokens[1].trim();
+    else if (command === "list-pdfs") {
+        if (positionals.length !== 0)
+            throw new Error(`The "list-pdfs" command does not accept any arguments.\n\n${Usage}`);
+        let log = console.log;
+        console.log = console.error;
+        for (let registerDocument of await getRegisterDocuments(profile))
+            log([registerDocument.url, registerDocument.periodStart, registerDocument.periodEnd, registerDocument.publishDate, registerDocument.title].map(value => value || "").join("\t"));
     }
-    HundredNames = [];
-    for (let line of fs.readFileSync("hundrednames.txt").toString().replace(/\r/g, "").trim().split("\n"))
-        HundredNames.push(line.trim().toUpperCase());
-    // Read the page of development application PDFs.
-    let year = moment().format("YYYY");
-    console.log(`Retrieving page: ${DevelopmentApplicationsUrl}`);
-    let body = await request({ url: DevelopmentApplicationsUrl, rejectUnauthorized: false, proxy: process.env.MORPH_PROXY });
-    await sleep(2000 + getRandom(0, 5) * 1000);
-    let $ = cheerio.load(body);
-    let pdfUrls = [];
-    for (let element of $("li.result-item div.result-item__url").get()) {
-        let pdfUrl = $(element).text();
-        if (pdfUrl.toLowerCase().includes(".pdf"))
-            if (!pdfUrls.some(url => url === pdfUrl))
-                pdfUrls.push(pdfUrl);
+    else if (command === "check-reference-data") {
+        if (positionals.length !== 0)
+            throw new Error(`The "check-reference-data" command does not accept any arguments.\n\n${Usage}`);
+        let log = console.log;
+        console.log = console.error;
+        let problems = reference_1.loadReferenceData(profile.referenceDataDirectory);
+        for (let problem of problems)
+            log(`${problem.fileName}:${problem.lineNumber}: ${problem.kind}: ${problem.message}`);
+        if (problems.length > 0)
+            process.exitCode = 1;
     }
-    // Always parse the most recent PDF file and randomly select one other PDF file to parse.
-    if (pdfUrls.length === 0) {
-        console.log("No PDF files were found on the page.");
-        return;
+    else if (command === "propose-gazetteer") {
+        if (positionals.length !== 0)
+            throw new Error(`The "propose-gazetteer" command does not accept any arguments.\n\n${Usage}`);
+        console.log = console.error;
+        reference_1.loadReferenceData(profile.referenceDataDirectory);
+        let database = await database_1.initializeDatabase(options["database"] || "data.sqlite");
+        let proposals = reference_1.proposeGazetteerEntries(await database_1.getFallbackAddresses(database, profile.name));
+        process.stdout.write(JSON.stringify(proposals, null, 4) + "\n");
     }
-    console.log(`Found ${pdfUrls.length} PDF file(s).  Selecting two to parse.`);
-    // Select the most recent PDF.  And randomly select one other PDF (avoid processing all PDFs
-    // at once because this may use too much memory, resulting in morph.io terminating the current
-    // process).
-    let selectedPdfUrls = [];
-    selectedPdfUrls.push(pdfUrls.shift()); // the most recent PDF
-    if (pdfUrls.length > 0)
-        selectedPdfUrls.push(pdfUrls[getRandom(0, pdfUrls.length)]); // a randomly selected PDF
-    if (getRandom(0, 2) === 0)
-        selectedPdfUrls.reverse();
-    for (let pdfUrl of selectedPdfUrls) {
-        console.log(`Parsing document: ${pdfUrl}`);
-        let developmentApplications = await parsePdf(pdfUrl);
-        console.log(`Parsed ${developmentApplications.length} development application(s) from document: ${pdfUrl}`);
-        // Attempt to avoid reaching 512 MB memory usage (this will otherwise result in the
-        // current process being terminated by morph.io).
-        if (global.gc)
-            global.gc();
-        console.log(`Saving development applications to the database.`);
-        for (let developmentApplication of developmentApplications)
-            await insertRow(database, developmentApplication);
+    else if (command === "export") {
+        if (positionals.length !== 0)
+            throw new Error(`The "export" command does not accept any arguments.\n\n${Usage}`);
+        let format = options["format"] || "ndjson";
+        if (!exporter_1.ExportFormats.includes(format))
+            throw new Error(`The export format "${format}" is not supported.\n\n${Usage}`);
+        for (let option of ["from", "to"])
+            if (options[option] !== undefined && !moment(options[option], "YYYY-MM-DD", true).isValid())
+                throw new Error(`The date "${options[option]}" specified by "--${option}" is not a valid date (specify YYYY-MM-DD).`);
+        console.log = console.error;
+        let database = await database_1.initializeDatabase(options["database"] || "data.sqlite");
+        let applications = exporter_1.filterByDateScraped(await database_1.getExportedApplications(database), options["from"], options["to"]);
+        process.stdout.write(exporter_1.formatApplications(applications, format));
     }
+    else
+        throw new Error(`The command "${command}" is not supported.\n\n${Usage}`);
 }
-main().then(() => console.log("Complete.")).catch(error => console.error(error));
-//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoic2NyYXBlci5qcyIsInNvdXJjZVJvb3QiOiIiLCJzb3VyY2VzIjpbInNjcmFwZXIudHMiXSwibmFtZXMiOltdLCJtYXBwaW5ncyI6IkFBQUEsZ0dBQWdHO0FBQ2hHLGlDQUFpQztBQUNqQyxFQUFFO0FBQ0YsZUFBZTtBQUNmLHFCQUFxQjtBQUVyQixZQUFZLENBQUM7O0FBRWIseUJBQXlCO0FBQ3pCLG1DQUFtQztBQUNuQyxrREFBa0Q7QUFDbEQsbUNBQW1DO0FBRW5DLGlDQUFpQztBQUNqQyxvQ0FBb0M7QUFDcEMseUVBQXNEO0FBRXRELE9BQU8sQ0FBQyxPQUFPLEVBQUUsQ0FBQztBQUVsQixNQUFNLDBCQUEwQixHQUFHLDRHQUE0RyxDQUFDO0FBQ2hKLE1BQU0sVUFBVSxHQUFHLGtDQUFrQyxDQUFDO0FBSXRELDJFQUEyRTtBQUUzRSxJQUFJLFdBQVcsR0FBRyxJQUFJLENBQUM7QUFDdkIsSUFBSSxjQUFjLEdBQUcsSUFBSSxDQUFDO0FBQzFCLElBQUksV0FBVyxHQUFHLElBQUksQ0FBQztBQUN2QixJQUFJLFlBQVksR0FBRyxJQUFJLENBQUM7QUFFeEIsOEJBQThCO0FBRTlCLEtBQUssVUFBVSxrQkFBa0I7SUFDN0IsT0FBTyxJQUFJLE9BQU8sQ0FBQyxDQUFDLE9BQU8sRUFBRSxNQUFNLEVBQUUsRUFBRTtRQUNuQyxJQUFJLFFBQVEsR0FBRyxJQUFJLE9BQU8sQ0FBQyxRQUFRLENBQUMsYUFBYSxDQUFDLENBQUM7UUFDbkQsUUFBUSxDQUFDLFNBQVMsQ0FBQyxHQUFHLEVBQUU7WUFDcEIsUUFBUSxDQUFDLEdBQUcsQ0FBQyx3TkFBd04sQ0FBQyxDQUFDO1lBQ3ZPLE9BQU8sQ0FBQyxRQUFRLENBQUMsQ0FBQztRQUN0QixDQUFDLENBQUMsQ0FBQztJQUNQLENBQUMsQ0FBQyxDQUFDO0FBQ1AsQ0FBQztBQUVELG1FQUFtRTtBQUVuRSxLQUFLLFVBQVUsU0FBUyxDQUFDLFFBQVEsRUFBRSxzQkFBc0I7SUFDckQsT0FBTyxJQUFJLE9BQU8sQ0FBQyxDQUFDLE9BQU8sRUFBRSxNQUFNLEVBQUUsRUFBRTtRQUNuQyxJQUFJLFlBQVksR0FBRyxRQUFRLENBQUMsT0FBTyxDQUFDLCtEQUErRCxDQUFDLENBQUM7UUFDckcsWUFBWSxDQUFDLEdBQUcsQ0FBQztZQUNiLHNCQUFzQixDQUFDLGlCQUFpQjtZQUN4QyxzQkFBc0IsQ0FBQyxPQUFPO1lBQzlCLHNCQUFzQixDQUFDLFdBQVc7WUFDbEMsc0JBQXNCLENBQUMsY0FBYztZQUNyQyxzQkFBc0IsQ0FBQyxVQUFVO1lBQ2pDLHNCQUFzQixDQUFDLFVBQVU7WUFDakMsc0JBQXNCLENBQUMsWUFBWTtZQUNuQyxzQkFBc0IsQ0FBQyxnQkFBZ0I7U0FDMUMsRUFBRSxVQUFTLEtBQUssRUFBRSxHQUFHO1lBQ2xCLElBQUksS0FBSyxFQUFFO2dCQUNQLE9BQU8sQ0FBQyxLQUFLLENBQUMsS0FBSyxDQUFDLENBQUM7Z0JBQ3JCLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQzthQUNqQjtpQkFBTTtnQkFDSCxPQUFPLENBQUMsR0FBRyxDQUFDLDJCQUEyQixzQkFBc0IsQ0FBQyxpQkFBaUIscUJBQXFCLHNCQUFzQixDQUFDLE9BQU8scUJBQXFCLHNCQUFzQixDQUFDLFdBQVcsMkJBQTJCLHNCQUFzQixDQUFDLGdCQUFnQiwwQkFBMEIsc0JBQXNCLENBQUMsWUFBWSxxQkFBcUIsQ0FBQyxDQUFDO2dCQUMvVSxZQUFZLENBQUMsUUFBUSxFQUFFLENBQUMsQ0FBRSxxQkFBcUI7Z0JBQy9DLE9BQU8sQ0FBQyxHQUFHLENBQUMsQ0FBQzthQUNoQjtRQUNMLENBQUMsQ0FBQyxDQUFDO0lBQ1AsQ0FBQyxDQUFDLENBQUM7QUFDUCxDQUFDO0FBaUJELG9GQUFvRjtBQUVwRixTQUFTLFNBQVMsQ0FBQyxVQUFxQixFQUFFLFVBQXFCO0lBQzNELElBQUksRUFBRSxHQUFHLElBQUksQ0FBQyxHQUFHLENBQUMsVUFBVSxDQUFDLENBQUMsRUFBRSxVQUFVLENBQUMsQ0FBQyxDQUFDLENBQUM7SUFDOUMsSUFBSSxFQUFFLEdBQUcsSUFBSSxDQUFDLEdBQUcsQ0FBQyxVQUFVLENBQUMsQ0FBQyxFQUFFLFVBQVUsQ0FBQyxDQUFDLENBQUMsQ0FBQztJQUM5QyxJQUFJLEVBQUUsR0FBRyxJQUFJLENBQUMsR0FBRyxDQUFDLFVBQVUsQ0FBQyxDQUFDLEdBQUcsVUFBVSxDQUFDLEtBQUssRUFBRSxVQUFVLENBQUMsQ0FBQyxHQUFHLFVBQVUsQ0FBQyxLQUFLLENBQUMsQ0FBQztJQUNwRixJQUFJLEVBQUUsR0FBRyxJQUFJLENBQUMsR0FBRyxDQUFDLFVBQVUsQ0FBQyxDQUFDLEdBQUcsVUFBVSxDQUFDLE1BQU0sRUFBRSxVQUFVLENBQUMsQ0FBQyxHQUFHLFVBQVUsQ0FBQyxNQUFNLENBQUMsQ0FBQztJQUN0RixJQUFJLEVBQUUsSUFBSSxFQUFFLElBQUksRUFBRSxJQUFJLEVBQUU7UUFDcEIsT0FBTyxFQUFFLENBQUMsRUFBRSxFQUFFLEVBQUUsQ0FBQyxFQUFFLEVBQUUsRUFBRSxLQUFLLEVBQUUsRUFBRSxHQUFHLEVBQUUsRUFBRSxNQUFNLEVBQUUsRUFBRSxHQUFHLEVBQUUsRUFBRSxDQUFDOztRQUV6RCxPQUFPLEVBQUUsQ0FBQyxFQUFFLENBQUMsRUFBRSxDQUFDLEVBQUUsQ0FBQyxFQUFFLEtBQUssRUFBRSxDQUFDLEVBQUUsTUFBTSxFQUFFLENBQUMsRUFBRSxDQUFDO0FBQ25ELENBQUM7QUFFRCw2RkFBNkY7QUFDN0YsOEZBQThGO0FBQzlGLG1CQUFtQjtBQUVuQixTQUFTLGlDQUFpQyxDQUFDLE9BQWdCLEVBQUUsU0FBb0I7SUFDN0UsSUFBSSxXQUFXLEdBQUcsT0FBTyxDQUFDLE9BQU8sQ0FBQyxDQUFDO0lBQ25DLElBQUksZ0JBQWdCLEdBQUcsT0FBTyxDQUFDLFNBQVMsQ0FBQyxTQUFTLEVBQUUsT0FBTyxDQUFDLENBQUMsQ0FBQztJQUM5RCxPQUFPLENBQUMsV0FBVyxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxnQkFBZ0IsR0FBRyxHQUFHLENBQUMsR0FBRyxXQUFXLENBQUMsQ0FBQztBQUM5RSxDQUFDO0FBRUQsc0NBQXNDO0FBRXRDLFNBQVMsT0FBTyxDQUFDLFNBQW9CO0lBQ2pDLE9BQU8sU0FBUyxDQUFDLEtBQUssR0FBRyxTQUFTLENBQUMsTUFBTSxDQUFDO0FBQzlDLENBQUM7QUFFRCxxQ0FBcUM7QUFFckMsU0FBUyxhQUFhLENBQUMsT0FBZTtJQUNsQyxPQUFPLEdBQUcsT0FBTyxDQUFDLElBQUksRUFBRSxDQUFDO0lBQ3pCLElBQUksT0FBTyxDQUFDLFVBQVUsQ0FBQyxNQUFNLENBQUMsSUFBSSxPQUFPLENBQUMsVUFBVSxDQUFDLHdCQUF3QixDQUFDO1FBQzFFLE9BQU8sRUFBRSxDQUFDO0lBRWQsNkZBQTZGO0lBQzdGLEVBQUU7SUFDRixzQ0FBc0M7SUFDdEMseUNBQXlDO0lBQ3pDLEVBQUU7SUFDRix1Q0FBdUM7SUFDdkMsRUFBRTtJQUNGLHFDQUFxQztJQUNyQyx3Q0FBd0M7SUFFeEMsSUFBSSxZQUFZLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQztRQUMxQixPQUFPLEdBQUcsT0FBTyxDQUFDLFNBQVMsQ0FBQyxDQUFDLEVBQUUsQ0FBQyxDQUFDLEdBQUcsT0FBTyxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQztTQUN4RCxJQUFJLGNBQWMsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDO1FBQ2pDLE9BQU8sR0FBRyxPQUFPLENBQUMsU0FBUyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsR0FBRyxPQUFPLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDO0lBRTdELElBQUksTUFBTSxHQUFHLE9BQU8sQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLENBQUM7SUFFaEMsSUFBSSxRQUFRLEdBQUcsU0FBUyxDQUFDO0lBQ3pCLElBQUksS0FBSyxHQUFHLE1BQU0sQ0FBQyxHQUFHLEVBQUUsQ0FBQztJQUN6QixJQUFJLFlBQVksQ0FBQyxJQUFJLENBQUMsS0FBSyxDQUFDO1FBQ3hCLFFBQVEsR0FBRyxLQUFLLENBQUM7O1FBRWpCLE1BQU0sQ0FBQyxJQUFJLENBQUMsS0FBSyxDQUFDLENBQUM7SUFFdkIseUZBQXlGO0lBRXpGLElBQUksS0FBSyxHQUFHLElBQUksQ0FBQztJQUNqQixLQUFLLEdBQUcsTUFBTSxDQUFDLEdBQUcsRUFBRSxDQUFDO0lBQ3JCLElBQUksQ0FBRSxLQUFLLEVBQUUsS0FBSyxFQUFFLElBQUksRUFBRSxLQUFLLEVBQUUsSUFBSSxFQUFFLEtBQUssRUFBRSxLQUFLLEVBQUUsSUFBSSxDQUFFLENBQUMsUUFBUSxDQUFDLEtBQUssQ0FBQyxXQUFXLEVBQUUsQ0FBQztRQUNyRixLQUFLLEdBQUcsS0FBSyxDQUFDLFdBQVcsRUFBRSxDQUFDOztRQUU1QixNQUFNLENBQUMsSUFBSSxDQUFDLEtBQUssQ0FBQyxDQUFDO0lBRXZCLHlGQUF5RjtJQUV6RixJQUFJLGVBQWUsR0FBRyxDQUFDLFFBQVEsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsT0FBTyxDQUFDLENBQUMsQ0FBQyxDQUFFLEdBQUcsTUFBTSxFQUFFLEtBQUssRUFBRSxRQUFRLENBQUMsQ0FBQyxJQUFJLENBQUMsR0FBRyxDQUFDLENBQUM7SUFFbkcsMEZBQTBGO0lBQzFGLHFGQUFxRjtJQUNyRix1RkFBdUY7SUFDdkYsOEJBQThCO0lBQzlCLEVBQUU7SUFDRix5Q0FBeUM7SUFDekMsRUFBRTtJQUNGLG1EQUFtRDtJQUNuRCxFQUFFO0lBQ0YsOENBQThDO0lBQzlDLEVBQUU7SUFDRiw2RkFBNkY7SUFDN0YsMkVBQTJFO0lBQzNFLEVBQUU7SUFDRiw4Q0FBOEM7SUFFOUMsSUFBSSxVQUFVLEdBQUcsU0FBUyxDQUFDO0lBQzNCLEtBQUssSUFBSSxLQUFLLEdBQUcsQ0FBQyxFQUFFLEtBQUssSUFBSSxDQUFDLEVBQUUsS0FBSyxFQUFFLEVBQUU7UUFDckMsSUFBSSxlQUFlLEdBQVcscUJBQVUsQ0FBQyxNQUFNLENBQUMsS0FBSyxDQUFDLENBQUMsS0FBSyxDQUFDLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxFQUFFLE1BQU0sQ0FBQyxJQUFJLENBQUMsV0FBVyxDQUFDLEVBQUUsRUFBRSxhQUFhLEVBQUUsS0FBSyxFQUFFLFVBQVUsRUFBRSxVQUFVLENBQUMsZUFBZSxDQUFDLG1CQUFtQixFQUFFLGFBQWEsRUFBRSxVQUFVLENBQUMsa0JBQWtCLENBQUMsYUFBYSxFQUFFLFNBQVMsRUFBRSxDQUFDLEVBQUUsVUFBVSxFQUFFLElBQUksRUFBRSxDQUFDLENBQUM7UUFDclIsSUFBSSxlQUFlLEtBQUssSUFBSSxFQUFFO1lBQzFCLFVBQVUsR0FBRyxXQUFXLENBQUMsZUFBZSxDQUFDLENBQUM7WUFDMUMsTUFBTSxDQUFDLE1BQU0sQ0FBQyxDQUFDLEtBQUssRUFBRSxLQUFLLENBQUMsQ0FBQyxDQUFFLHVEQUF1RDtZQUN0RixNQUFNO1NBQ1Q7S0FDSjtJQUVELDBFQUEwRTtJQUUxRSxLQUFLLEdBQUcsTUFBTSxDQUFDLEdBQUcsRUFBRSxDQUFDO0lBQ3JCLElBQUksWUFBWSxHQUFHLGNBQWMsQ0FBQyxLQUFLLENBQUMsV0FBVyxFQUFFLENBQUMsQ0FBQztJQUN2RCxJQUFJLFlBQVksS0FBSyxTQUFTO1FBQzFCLFlBQVksR0FBRyxNQUFNLENBQUMsTUFBTSxDQUFDLGNBQWMsQ0FBQyxDQUFDLElBQUksQ0FBQyxZQUFZLENBQUMsRUFBRSxDQUFDLFlBQVksS0FBSyxLQUFLLENBQUMsV0FBVyxFQUFFLENBQUMsQ0FBQyxDQUFFLHdDQUF3QztJQUV0SixJQUFJLFlBQVksS0FBSyxTQUFTO1FBQzFCLE1BQU0sQ0FBQyxJQUFJLENBQUMsS0FBSyxDQUFDLENBQUMsQ0FBRSw2QkFBNkI7O1FBRWxELE1BQU0sQ0FBQyxJQUFJLENBQUMsWUFBWSxDQUFDLENBQUMsQ0FBRSxzQ0FBc0M7SUFFdEUsMEZBQTBGO0lBQzFGLHlGQUF5RjtJQUN6Rix5RUFBeUU7SUFFekUsSUFBSSxVQUFVLEdBQUcsU0FBUyxDQUFDO0lBQzNCLEtBQUssSUFBSSxLQUFLLEdBQUcsQ0FBQyxFQUFFLEtBQUssSUFBSSxDQUFDLEVBQUUsS0FBSyxFQUFFLEVBQUU7UUFDckMsSUFBSSxlQUFlLEdBQVcscUJBQVUsQ0FBQyxNQUFNLENBQUMsS0FBSyxDQUFDLENBQUMsS0FBSyxDQUFDLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxFQUFFLE1BQU0sQ0FBQyxJQUFJLENBQUMsV0FBVyxDQUFDLEVBQUUsRUFBRSxhQUFhLEVBQUUsS0FBSyxFQUFFLFVBQVUsRUFBRSxVQUFVLENBQUMsZUFBZSxDQUFDLG1CQUFtQixFQUFFLGFBQWEsRUFBRSxVQUFVLENBQUMsa0JBQWtCLENBQUMsYUFBYSxFQUFFLFNBQVMsRUFBRSxDQUFDLEVBQUUsVUFBVSxFQUFFLElBQUksRUFBRSxDQUFDLENBQUM7UUFDclIsSUFBSSxlQUFlLEtBQUssSUFBSSxFQUFFO1lBQzFCLFVBQVUsR0FBRyxlQUFlLENBQUM7WUFDN0IsSUFBSSxXQUFXLEdBQUcsV0FBVyxDQUFDLGVBQWUsQ0FBQyxDQUFDO1lBQy9DLE1BQU0sQ0FBQyxNQUFNLENBQUMsQ0FBQyxLQUFLLEVBQUUsS0FBSyxDQUFDLENBQUMsQ0FBRSx1REFBdUQ7WUFFdEYsbUZBQW1GO1lBQ25GLG1GQUFtRjtZQUNuRiw4RUFBOEU7WUFDOUUsdUVBQXVFO1lBRXZFLElBQUksVUFBVSxLQUFLLFNBQVMsSUFBSSxXQUFXLENBQUMsTUFBTSxLQUFLLENBQUM7Z0JBQ3BELFVBQVUsR0FBRyxXQUFXLENBQUMsV0FBVyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUM7WUFFN0MsTUFBTTtTQUNUO0tBQ0o7SUFFRCw0RkFBNEY7SUFDNUYsNEZBQTRGO0lBQzVGLGtCQUFrQjtJQUVsQixJQUFJLFFBQVEsS0FBSyxTQUFTLElBQUksVUFBVSxLQUFLLFNBQVM7UUFDbEQsVUFBVSxHQUFHLFVBQVUsQ0FBQyxPQUFPLENBQUMsY0FBYyxFQUFFLEdBQUcsR0FBRyxRQUFRLENBQUMsQ0FBQztJQUVwRSxrRkFBa0Y7SUFFbEYsSUFBSSxVQUFVLEtBQUssU0FBUyxJQUFJLFVBQVUsQ0FBQyxJQUFJLEVBQUUsS0FBSyxFQUFFO1FBQ3BELE9BQU8sR0FBRyxlQUFlLENBQUM7U0FDekI7UUFDRCxJQUFJLFVBQVUsS0FBSyxTQUFTLElBQUksVUFBVSxDQUFDLElBQUksRUFBRSxLQUFLLEVBQUU7WUFDcEQsTUFBTSxDQUFDLElBQUksQ0FBQyxVQUFVLENBQUMsQ0FBQztRQUM1QixJQUFJLGFBQWEsR0FBRyxNQUFNLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDO1FBQzVDLE9BQU8sR0FBRyxhQUFhLEdBQUcsQ0FBQyxhQUFhLEtBQUssRUFBRSxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsQ0FBQyxDQUFDLElBQUksQ0FBQyxHQUFHLFVBQVUsQ0FBQztLQUM3RTtJQUVELE9BQU8sT0FBTyxDQUFDO0FBQ25CLENBQUM7QUFFRCwrRkFBK0Y7QUFDL0Ysd0NBQXdDO0FBRXhDLFNBQVMsd0JBQXdCLENBQUMsUUFBbUIsRUFBRSxjQUFzQjtJQUN6RSx1RkFBdUY7SUFDdkYsa0NBQWtDO0lBRWxDLElBQUksK0JBQStCLEdBQUcsUUFBUSxDQUFDLElBQUksQ0FBQyxPQUFPLENBQUMsRUFBRSxDQUFDLE9BQU8sQ0FBQyxJQUFJLENBQUMsV0FBVyxFQUFFLENBQUMsT0FBTyxDQUFDLEtBQUssRUFBRSxFQUFFLENBQUMsQ0FBQyxVQUFVLENBQUMsVUFBVSxDQUFDLENBQUMsQ0FBQztJQUNySSxJQUFJLHVCQUF1QixHQUFHLFFBQVEsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxPQUFPLENBQUMsSUFBSSxDQUFDLFdBQVcsRUFBRSxDQUFDLE9BQU8sQ0FBQyxLQUFLLEVBQUUsRUFBRSxDQUFDLEtBQUssV0FBVyxDQUFDLENBQUM7SUFDdEgsSUFBSSxxQ0FBcUMsR0FBRyxRQUFRLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUMsT0FBTyxDQUFDLElBQUksQ0FBQyxXQUFXLEVBQUUsQ0FBQyxPQUFPLENBQUMsS0FBSyxFQUFFLEVBQUUsQ0FBQyxLQUFLLHlCQUF5QixDQUFDLENBQUM7SUFDbEosSUFBSSxxQ0FBcUMsS0FBSyxTQUFTO1FBQ25ELHFDQUFxQyxHQUFHLFFBQVEsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxPQUFPLENBQUMsSUFBSSxDQUFDLFdBQVcsRUFBRSxDQUFDLE9BQU8sQ0FBQyxLQUFLLEVBQUUsRUFBRSxDQUFDLEtBQUssMEJBQTBCLENBQUMsQ0FBQztJQUNuSixJQUFJLDZCQUE2QixHQUFHLFFBQVEsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxPQUFPLENBQUMsSUFBSSxDQUFDLFdBQVcsRUFBRSxDQUFDLE9BQU8sQ0FBQyxLQUFLLEVBQUUsRUFBRSxDQUFDLEtBQUssa0JBQWtCLENBQUMsQ0FBQztJQUNuSSxJQUFJLHVCQUF1QixHQUFHLFFBQVEsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxPQUFPLENBQUMsSUFBSSxDQUFDLFdBQVcsRUFBRSxDQUFDLE9BQU8sQ0FBQyxLQUFLLEVBQUUsRUFBRSxDQUFDLEtBQUssV0FBVyxDQUFDLENBQUM7SUFDdEgsSUFBSSxtQ0FBbUMsR0FBRyxRQUFRLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUMsT0FBTyxDQUFDLElBQUksQ0FBQyxXQUFXLEVBQUUsQ0FBQyxPQUFPLENBQUMsS0FBSyxFQUFFLEVBQUUsQ0FBQyxLQUFLLHdCQUF3QixDQUFDLENBQUM7SUFHL0ksSUFBSSwrQkFBK0IsS0FBSyxTQUFTLEVBQUU7UUFDL0MsSUFBSSxjQUFjLEdBQUcsUUFBUSxDQUFDLEdBQUcsQ0FBQyxPQUFPLENBQUMsRUFBRSxDQUFDLElBQUksT0FBTyxDQUFDLElBQUksR0FBRyxDQUFDLENBQUMsSUFBSSxDQUFDLEVBQUUsQ0FBQyxDQUFDO1FBQzNFLE9BQU8sQ0FBQyxHQUFHLENBQUMsMkVBQTJFLGNBQWMsRUFBRSxDQUFDLENBQUM7UUFDekcsT0FBTyxTQUFTLENBQUM7S0FDcEI7SUFFRCw4QkFBOEI7SUFFOUIsSUFBSSx1QkFBdUIsR0FBYztRQUNyQyxDQUFDLEVBQUUsK0JBQStCLENBQUMsQ0FBQyxHQUFHLCtCQUErQixDQUFDLEtBQUs7UUFDNUUsQ0FBQyxFQUFFLCtCQUErQixDQUFDLENBQUM7UUFDcEMsS0FBSyxFQUFFLCtCQUErQixDQUFDLEtBQUs7UUFDNUMsTUFBTSxFQUFFLCtCQUErQixDQUFDLE1BQU07S0FDakQsQ0FBQztJQUNGLElBQUksd0JBQXdCLEdBQUcsUUFBUSxDQUFDLElBQUksQ0FBQyxPQUFPLENBQUMsRUFBRSxDQUFDLGlDQUFpQyxDQUFDLE9BQU8sRUFBRSx1QkFBdUIsQ0FBQyxHQUFHLEVBQUUsQ0FBQyxDQUFDO0lBQ2xJLElBQUksaUJBQWlCLEdBQUcsQ0FBQyx3QkFBd0IsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsQ0FBQyx3QkFBd0IsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDLEtBQUssRUFBRSxFQUFFLENBQUMsQ0FBQztJQUV6SCxJQUFJLGlCQUFpQixLQUFLLEVBQUUsRUFBRTtRQUMxQixJQUFJLGNBQWMsR0FBRyxRQUFRLENBQUMsR0FBRyxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUMsSUFBSSxPQUFPLENBQUMsSUFBSSxHQUFHLENBQUMsQ0FBQyxJQUFJLENBQUMsRUFBRSxDQUFDLENBQUM7UUFDM0UsT0FBTyxDQUFDLEdBQUcsQ0FBQywySkFBMkosY0FBYyxFQUFFLENBQUMsQ0FBQztRQUN6TCxPQUFPLFNBQVMsQ0FBQztLQUNwQjtJQUVELE9BQU8sQ0FBQyxHQUFHLENBQUMsZUFBZSxpQkFBaUIsS0FBSyxDQUFDLENBQUM7SUFFbkQseUJBQXlCO0lBRXpCLElBQUksa0JBQWtCLEdBQWM7UUFDaEMsQ0FBQyxFQUFFLHFDQUFxQyxDQUFDLENBQUMsR0FBRyxxQ0FBcUMsQ0FBQyxLQUFLO1FBQ3hGLENBQUMsRUFBRSxxQ0FBcUMsQ0FBQyxDQUFDO1FBQzFDLEtBQUssRUFBRSxxQ0FBcUMsQ0FBQyxLQUFLO1FBQ2xELE1BQU0sRUFBRSxxQ0FBcUMsQ0FBQyxNQUFNO0tBQ3ZELENBQUM7SUFDRixJQUFJLG1CQUFtQixHQUFHLFFBQVEsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxpQ0FBaUMsQ0FBQyxPQUFPLEVBQUUsa0JBQWtCLENBQUMsR0FBRyxFQUFFLENBQUMsQ0FBQztJQUN4SCxJQUFJLFlBQVksR0FBRyxNQUFNLENBQUMsT0FBTyxFQUFFLENBQUM7SUFDcEMsSUFBSSxtQkFBbUIsS0FBSyxTQUFTO1FBQ2pDLFlBQVksR0FBRyxNQUFNLENBQUMsbUJBQW1CLENBQUMsSUFBSSxDQUFDLElBQUksRUFBRSxFQUFFLFdBQVcsRUFBRSxJQUFJLENBQUMsQ0FBQyxDQUFFLG1EQUFtRDtJQUVuSSx1QkFBdUI7SUFFdkIsSUFBSSx1QkFBdUIsS0FBSyxTQUFTO1FBQ3JDLE9BQU8sQ0FBQyxHQUFHLENBQUMscUhBQXFILENBQUMsQ0FBQztJQUN2SSxJQUFJLGlCQUFpQixHQUFjO1FBQy9CLENBQUMsRUFBRSx3QkFBd0IsQ0FBQyxDQUFDLEdBQUcsd0JBQXdCLENBQUMsS0FBSztRQUM5RCxDQUFDLEVBQUUsd0JBQXdCLENBQUMsQ0FBQztRQUM3QixLQUFLLEVBQUUsTUFBTSxDQUFDLFNBQVM7UUFDdkIsTUFBTSxFQUFFLENBQUMsdUJBQXVCLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsd0JBQXdCLENBQUMsTUFBTSxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLHVCQUF1QixDQUFDLENBQUMsR0FBRyx3QkFBd0IsQ0FBQyxDQUFDLENBQUM7S0FDckosQ0FBQztJQUNGLElBQUksV0FBVyxHQUFHLFFBQVEsQ0FBQyxNQUFNLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxpQ0FBaUMsQ0FBQyxPQUFPLEVBQUUsaUJBQWlCLENBQUMsR0FBRyxFQUFFLENBQUMsQ0FBQyxHQUFHLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxPQUFPLENBQUMsSUFBSSxDQUFDLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDLE9BQU8sQ0FBQyxRQUFRLEVBQUUsR0FBRyxDQUFDLENBQUM7SUFFdEwseUNBQXlDO0lBRXpDLElBQUksYUFBYSxHQUFjO1FBQzNCLENBQUMsRUFBRSw2QkFBNkIsQ0FBQyxDQUFDO1FBQ2xDLENBQUMsRUFBRSw2QkFBNkIsQ0FBQyxDQUFDLEdBQUcsNkJBQTZCLENBQUMsTUFBTTtRQUN6RSxLQUFLLEVBQUUsQ0FBQyx1QkFBdUIsS0FBSyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsTUFBTSxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyx1QkFBdUIsQ0FBQyxDQUFDLEdBQUcsNkJBQTZCLENBQUMsQ0FBQyxDQUFDO1FBQ2pJLE1BQU0sRUFBRSxDQUFDLG1DQUFtQyxJQUFJLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLG1DQUFtQyxDQUFDLENBQUMsR0FBRyw2QkFBNkIsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxHQUFHLDZCQUE2QixDQUFDLE1BQU0sQ0FBQyxDQUFFLHFCQUFxQjtLQUM5TixDQUFDO0lBQ0YsSUFBSSxlQUFlLEdBQUcsUUFBUSxDQUFDLE1BQU0sQ0FBQyxPQUFPLENBQUMsRUFBRSxDQUFDLGlDQUFpQyxDQUFDLE9BQU8sRUFBRSxhQUFhLENBQUMsR0FBRyxFQUFFLENBQUMsQ0FBQztJQUVqSCw4REFBOEQ7SUFFOUQsSUFBSSxXQUFXLEdBQWdCLEVBQUUsQ0FBQztJQUNsQyxLQUFLLElBQUksY0FBYyxJQUFJLGVBQWUsRUFBRTtRQUN4QyxJQUFJLFVBQVUsR0FBRyxXQUFXLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxFQUFFLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxHQUFHLGNBQWMsQ0FBQyxDQUFDLENBQUMsR0FBRyxDQUFDLENBQUMsQ0FBQyxDQUFFLGtDQUFrQztRQUN4SCxJQUFJLFVBQVUsS0FBSyxTQUFTO1lBQ3hCLFdBQVcsQ0FBQyxJQUFJLENBQUMsQ0FBRSxjQUFjLENBQUUsQ0FBQyxDQUFDLENBQUUsa0JBQWtCOztZQUV6RCxVQUFVLENBQUMsSUFBSSxDQUFDLGNBQWMsQ0FBQyxDQUFDLENBQUUseUJBQXlCO0tBQ2xFO0lBRUQsSUFBSSxPQUFPLEdBQUcsQ0FBQyxXQUFXLENBQUMsTUFBTSxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsQ0FBQyxDQUFDLFdBQVcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxHQUFHLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxPQUFPLENBQUMsSUFBSSxDQUFDLENBQUMsSUFBSSxDQUFDLEdBQUcsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDLE9BQU8sQ0FBQyxRQUFRLEVBQUUsR0FBRyxDQUFDLENBQUM7SUFDbEksSUFBSSxnQkFBZ0IsR0FBRyxDQUFDLFdBQVcsQ0FBQyxNQUFNLEdBQUcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLEVBQUUsQ0FBQyxDQUFDLENBQUMsV0FBVyxDQUFDLEtBQUssQ0FBQyxDQUFDLENBQUMsQ0FBQyxHQUFHLENBQUMsR0FBRyxDQUFDLEVBQUUsQ0FBQyxHQUFHLENBQUMsR0FBRyxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUMsT0FBTyxDQUFDLElBQUksQ0FBQyxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsQ0FBQyxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxPQUFPLENBQUMsUUFBUSxFQUFFLEdBQUcsQ0FBQyxDQUFDO0lBQzNLLE9BQU8sR0FBRyxhQUFhLENBQUMsT0FBTyxDQUFDLENBQUM7SUFFakMsSUFBSSxPQUFPLEtBQUssRUFBRSxFQUFFO1FBQ2hCLElBQUksY0FBYyxHQUFHLFFBQVEsQ0FBQyxHQUFHLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQyxJQUFJLE9BQU8sQ0FBQyxJQUFJLEdBQUcsQ0FBQyxDQUFDLElBQUksQ0FBQyxFQUFFLENBQUMsQ0FBQztRQUMzRSxPQUFPLENBQUMsR0FBRyxDQUFDLCtIQUErSCxjQUFjLEVBQUUsQ0FBQyxDQUFDO1FBQzdKLE9BQU8sU0FBUyxDQUFDO0tBQ3BCO0lBRUQsT0FBTztRQUNILGlCQUFpQixFQUFFLGlCQUFpQjtRQUNwQyxPQUFPLEVBQUUsT0FBTztRQUNoQixXQUFXLEVBQUUsQ0FBQyxXQUFXLEtBQUssRUFBRSxDQUFDLENBQUMsQ0FBQyxDQUFDLHlCQUF5QixDQUFDLENBQUMsQ0FBQyxXQUFXO1FBQzNFLGNBQWMsRUFBRSxjQUFjO1FBQzlCLFVBQVUsRUFBRSxVQUFVO1FBQ3RCLFVBQVUsRUFBRSxNQUFNLEVBQUUsQ0FBQyxNQUFNLENBQUMsWUFBWSxDQUFDO1FBQ3pDLFlBQVksRUFBRSxZQUFZLENBQUMsT0FBTyxFQUFFLENBQUMsQ0FBQyxDQUFDLFlBQVksQ0FBQyxNQUFNLENBQUMsWUFBWSxDQUFDLENBQUMsQ0FBQyxDQUFDLEVBQUU7UUFDN0UsZ0JBQWdCLEVBQUUsZ0JBQWdCO0tBQ3JDLENBQUE7QUFDTCxDQUFDO0FBRUQsbUVBQW1FO0FBRW5FLEtBQUssVUFBVSxRQUFRLENBQUMsR0FBVztJQUMvQixPQUFPLENBQUMsR0FBRyxDQUFDLHlDQUF5QyxHQUFHLEdBQUcsQ0FBQyxDQUFDO0lBRTdELElBQUksdUJBQXVCLEdBQUcsRUFBRSxDQUFDO0lBRWpDLGdCQUFnQjtJQUVoQixJQUFJLE1BQU0sR0FBRyxNQUFNLE9BQU8sQ0FBQyxFQUFFLEdBQUcsRUFBRSxHQUFHLEVBQUUsUUFBUSxFQUFFLElBQUksRUFBRSxLQUFLLEVBQUUsT0FBTyxDQUFDLEdBQUcsQ0FBQyxXQUFXLEVBQUUsQ0FBQyxDQUFDO0lBQ3pGLE1BQU0sS0FBSyxDQUFDLElBQUksR0FBRyxTQUFTLENBQUMsQ0FBQyxFQUFFLENBQUMsQ0FBQyxHQUFHLElBQUksQ0FBQyxDQUFDO0lBRTNDLDRGQUE0RjtJQUM1Riw0RkFBNEY7SUFDNUYsOEZBQThGO0lBQzlGLG1FQUFtRTtJQUVuRSxLQUFLLElBQUksU0FBUyxHQUFHLENBQUMsRUFBRSxTQUFTLEdBQUcsSUFBSSxFQUFFLFNBQVMsRUFBRSxFQUFFLEVBQUcsMEZBQTBGO1FBQ2hKLElBQUksR0FBRyxHQUFHLE1BQU0sS0FBSyxDQUFDLFdBQVcsQ0FBQyxFQUFFLElBQUksRUFBRSxNQUFNLEVBQUUsZUFBZSxFQUFFLElBQUksRUFBRSxZQUFZLEVBQUUsSUFBSSxFQUFFLENBQUMsQ0FBQztRQUMvRixJQUFJLFNBQVMsSUFBSSxHQUFHLENBQUMsUUFBUTtZQUN6QixNQUFNO1FBRVYsT0FBTyxDQUFDLEdBQUcsQ0FBQyw4Q0FBOEMsU0FBUyxHQUFHLENBQUMsT0FBTyxHQUFHLENBQUMsUUFBUSxHQUFHLENBQUMsQ0FBQztRQUMvRixJQUFJLElBQUksR0FBRyxNQUFNLEdBQUcsQ0FBQyxPQUFPLENBQUMsU0FBUyxHQUFHLENBQUMsQ0FBQyxDQUFDO1FBQzVDLElBQUksV0FBVyxHQUFHLE1BQU0sSUFBSSxDQUFDLGNBQWMsRUFBRSxDQUFDO1FBQzlDLElBQUksUUFBUSxHQUFHLE1BQU0sSUFBSSxDQUFDLFdBQVcsQ0FBQyxHQUFHLENBQUMsQ0FBQztRQUUzQyxJQUFJLFFBQVEsR0FBYyxXQUFXLENBQUMsS0FBSyxDQUFDLEdBQUcsQ0FBQyxJQUFJLENBQUMsRUFBRTtZQUNuRCxJQUFJLFNBQVMsR0FBRyxLQUFLLENBQUMsSUFBSSxDQUFDLFNBQVMsQ0FBQyxRQUFRLENBQUMsU0FBUyxFQUFFLElBQUksQ0FBQyxTQUFTLENBQUMsQ0FBQztZQUV6RSxtRkFBbUY7WUFDbkYsb0ZBQW9GO1lBQ3BGLG1GQUFtRjtZQUNuRixpQ0FBaUM7WUFFakMsSUFBSSxnQkFBZ0IsR0FBRyxJQUFJLENBQUMsSUFBSSxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsR0FBRyxTQUFTLENBQUMsQ0FBQyxDQUFDLEdBQUcsU0FBUyxDQUFDLENBQUMsQ0FBQyxHQUFHLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO1lBQzVGLE9BQU8sRUFBRSxJQUFJLEVBQUUsSUFBSSxDQUFDLEdBQUcsRUFBRSxDQUFDLEVBQUUsU0FBUyxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsRUFBRSxTQUFTLENBQUMsQ0FBQyxDQUFDLEVBQUUsS0FBSyxFQUFFLElBQUksQ0FBQyxLQUFLLEVBQUUsTUFBTSxFQUFFLGdCQUFnQixFQUFFLENBQUM7UUFDN0csQ0FBQyxDQUFDLENBQUM7UUFFSCxtRkFBbUY7UUFDbkYsa0VBQWtFO1FBRWxFLE1BQU0sR0FBRyxDQUFDLE9BQU8sRUFBRSxDQUFDO1FBQ3BCLElBQUksTUFBTSxDQUFDLEVBQUU7WUFDVCxNQUFNLENBQUMsRUFBRSxFQUFFLENBQUM7UUFFaEIsZ0VBQWdFO1FBRWhFLElBQUksZUFBZSxHQUFHLENBQUMsQ0FBQyxFQUFFLENBQUMsRUFBRSxFQUFFLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxHQUFHLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsR0FBRyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsR0FBRyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLEdBQUcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO1FBQ2xILFFBQVEsQ0FBQyxJQUFJLENBQUMsZUFBZSxDQUFDLENBQUM7UUFFL0IsSUFBSSxzQkFBc0IsR0FBRyx3QkFBd0IsQ0FBQyxRQUFRLEVBQUUsR0FBRyxDQUFDLENBQUM7UUFDckUsSUFBSSxzQkFBc0IsS0FBSyxTQUFTO1lBQ3BDLElBQUksQ0FBQyx1QkFBdUIsQ0FBQyxJQUFJLENBQUMsMkJBQTJCLENBQUMsRUFBRSxDQUFDLDJCQUEyQixDQUFDLGlCQUFpQixLQUFLLHNCQUFzQixDQUFDLGlCQUFpQixDQUFDLEVBQUcsb0JBQW9CO2dCQUMvSyx1QkFBdUIsQ0FBQyxJQUFJLENBQUMsc0JBQXNCLENBQUMsQ0FBQztLQUNoRTtJQUVELE9BQU8sdUJBQXVCLENBQUM7QUFDbkMsQ0FBQztBQUVELG9FQUFvRTtBQUVwRSxTQUFTLFNBQVMsQ0FBQyxPQUFlLEVBQUUsT0FBZTtJQUMvQyxPQUFPLElBQUksQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDLE1BQU0sRUFBRSxHQUFHLENBQUMsSUFBSSxDQUFDLEtBQUssQ0FBQyxPQUFPLENBQUMsR0FBRyxJQUFJLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQyxDQUFDLENBQUMsR0FBRyxJQUFJLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQyxDQUFDO0FBQ3ZHLENBQUM7QUFFRCxtREFBbUQ7QUFFbkQsU0FBUyxLQUFLLENBQUMsWUFBb0I7SUFDL0IsT0FBTyxJQUFJLE9BQU8sQ0FBQyxPQUFPLENBQUMsRUFBRSxDQUFDLFVBQVUsQ0FBQyxPQUFPLEVBQUUsWUFBWSxDQUFDLENBQUMsQ0FBQztBQUNyRSxDQUFDO0FBRUQsdUNBQXVDO0FBRXZDLEtBQUssVUFBVSxJQUFJO0lBQ2YsbUNBQW1DO0lBRW5DLElBQUksUUFBUSxHQUFHLE1BQU0sa0JBQWtCLEVBQUUsQ0FBQztJQUUxQyx5RkFBeUY7SUFDekYsMERBQTBEO0lBRTFELFdBQVcsR0FBRyxFQUFFLENBQUM7SUFDakIsS0FBSyxJQUFJLElBQUksSUFBSSxFQUFFLENBQUMsWUFBWSxDQUFDLGlCQUFpQixDQUFDLENBQUMsUUFBUSxFQUFFLENBQUMsT0FBTyxDQUFDLEtBQUssRUFBRSxFQUFFLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDLEVBQUU7UUFDbEcsSUFBSSxnQkFBZ0IsR0FBRyxJQUFJLENBQUMsV0FBVyxFQUFFLENBQUMsS0FBSyxDQUFDLEdBQUcsQ0FBQyxDQUFDO1FBQ3JELElBQUksVUFBVSxHQUFHLGdCQUFnQixDQUFDLENBQUMsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDO1FBQzVDLElBQUksVUFBVSxHQUFHLGdCQUFnQixDQUFDLENBQUMsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDO1FBQzVDLENBQUMsV0FBVyxDQUFDLFVBQVUsQ0FBQyxJQUFJLENBQUMsV0FBVyxDQUFDLFVBQVUsQ0FBQyxHQUFHLEVBQUUsQ0FBQyxDQUFDLENBQUMsSUFBSSxDQUFDLFVBQVUsQ0FBQyxDQUFDLENBQUUscURBQXFEO0tBQ3ZJO0lBRUQsY0FBYyxHQUFHLEVBQUUsQ0FBQztJQUNwQixLQUFLLElBQUksSUFBSSxJQUFJLEVBQUUsQ0FBQyxZQUFZLENBQUMsb0JBQW9CLENBQUMsQ0FBQyxRQUFRLEVBQUUsQ0FBQyxPQUFPLENBQUMsS0FBSyxFQUFFLEVBQUUsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDLEtBQUssQ0FBQyxJQUFJLENBQUMsRUFBRTtRQUNyRyxJQUFJLGtCQUFrQixHQUFHLElBQUksQ0FBQyxXQUFXLEVBQUUsQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLENBQUM7UUFDdkQsY0FBYyxDQUFDLGtCQUFrQixDQUFDLENBQUMsQ0FBQyxDQUFDLElBQUksRUFBRSxDQUFDLEdBQUcsa0JBQWtCLENBQUMsQ0FBQyxDQUFDLENBQUMsSUFBSSxFQUFFLENBQUM7S0FDL0U7SUFFRCxXQUFXLEdBQUcsRUFBRSxDQUFDO0lBQ2pCLEtBQUssSUFBSSxJQUFJLElBQUksRUFBRSxDQUFDLFlBQVksQ0FBQyxpQkFBaUIsQ0FBQyxDQUFDLFFBQVEsRUFBRSxDQUFDLE9BQU8sQ0FBQyxLQUFLLEVBQUUsRUFBRSxDQUFDLENBQUMsSUFBSSxFQUFFLENBQUMsS0FBSyxDQUFDLElBQUksQ0FBQyxFQUFFO1FBQ2xHLElBQUksWUFBWSxHQUFHLElBQUksQ0FBQyxXQUFXLEVBQUUsQ0FBQyxLQUFLLENBQUMsR0FBRyxDQUFDLENBQUM7UUFDakQsV0FBVyxDQUFDLFlBQVksQ0FBQyxDQUFDLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxHQUFHLFlBQVksQ0FBQyxDQUFDLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQztLQUNoRTtJQUVELFlBQVksR0FBRyxFQUFFLENBQUM7SUFDbEIsS0FBSyxJQUFJLElBQUksSUFBSSxFQUFFLENBQUMsWUFBWSxDQUFDLGtCQUFrQixDQUFDLENBQUMsUUFBUSxFQUFFLENBQUMsT0FBTyxDQUFDLEtBQUssRUFBRSxFQUFFLENBQUMsQ0FBQyxJQUFJLEVBQUUsQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDO1FBQ2pHLFlBQVksQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLElBQUksRUFBRSxDQUFDLFdBQVcsRUFBRSxDQUFDLENBQUM7SUFFakQsaURBQWlEO0lBRWpELElBQUksSUFBSSxHQUFHLE1BQU0sRUFBRSxDQUFDLE1BQU0sQ0FBQyxNQUFNLENBQUMsQ0FBQztJQUVuQyxPQUFPLENBQUMsR0FBRyxDQUFDLG9CQUFvQiwwQkFBMEIsRUFBRSxDQUFDLENBQUM7SUFFOUQsSUFBSSxJQUFJLEdBQUcsTUFBTSxPQUFPLENBQUMsRUFBRSxHQUFHLEVBQUUsMEJBQTBCLEVBQUUsa0JBQWtCLEVBQUUsS0FBSyxFQUFFLEtBQUssRUFBRSxPQUFPLENBQUMsR0FBRyxDQUFDLFdBQVcsRUFBRSxDQUFDLENBQUM7SUFDekgsTUFBTSxLQUFLLENBQUMsSUFBSSxHQUFHLFNBQVMsQ0FBQyxDQUFDLEVBQUUsQ0FBQyxDQUFDLEdBQUcsSUFBSSxDQUFDLENBQUM7SUFDM0MsSUFBSSxDQUFDLEdBQUcsT0FBTyxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUMsQ0FBQztJQUUzQixJQUFJLE9BQU8sR0FBYSxFQUFFLENBQUM7SUFDM0IsS0FBSyxJQUFJLE9BQU8sSUFBSSxDQUFDLENBQUMscUNBQXFDLENBQUMsQ0FBQyxHQUFHLEVBQUUsRUFBRTtRQUNoRSxJQUFJLE1BQU0sR0FBRyxDQUFDLENBQUMsT0FBTyxDQUFDLENBQUMsSUFBSSxFQUFFLENBQUM7UUFDL0IsSUFBSSxNQUFNLENBQUMsV0FBVyxFQUFFLENBQUMsUUFBUSxDQUFDLE1BQU0sQ0FBQztZQUNyQyxJQUFJLENBQUMsT0FBTyxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsRUFBRSxDQUFDLEdBQUcsS0FBSyxNQUFNLENBQUM7Z0JBQ3BDLE9BQU8sQ0FBQyxJQUFJLENBQUMsTUFBTSxDQUFDLENBQUM7S0FDaEM7SUFFRCx5RkFBeUY7SUFFekYsSUFBSSxPQUFPLENBQUMsTUFBTSxLQUFLLENBQUMsRUFBRTtRQUN0QixPQUFPLENBQUMsR0FBRyxDQUFDLHNDQUFzQyxDQUFDLENBQUM7UUFDcEQsT0FBTztLQUNWO0lBRUQsT0FBTyxDQUFDLEdBQUcsQ0FBQyxTQUFTLE9BQU8sQ0FBQyxNQUFNLHdDQUF3QyxDQUFDLENBQUM7SUFFN0UsNEZBQTRGO0lBQzVGLDhGQUE4RjtJQUM5RixZQUFZO0lBRVosSUFBSSxlQUFlLEdBQWEsRUFBRSxDQUFDO0lBQ25DLGVBQWUsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDLEtBQUssRUFBRSxDQUFDLENBQUMsQ0FBRSxzQkFBc0I7SUFDOUQsSUFBSSxPQUFPLENBQUMsTUFBTSxHQUFHLENBQUM7UUFDbEIsZUFBZSxDQUFDLElBQUksQ0FBQyxPQUFPLENBQUMsU0FBUyxDQUFDLENBQUMsRUFBRSxPQUFPLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUUsMEJBQTBCO0lBQzVGLElBQUksU0FBUyxDQUFDLENBQUMsRUFBRSxDQUFDLENBQUMsS0FBSyxDQUFDO1FBQ3JCLGVBQWUsQ0FBQyxPQUFPLEVBQUUsQ0FBQztJQUU5QixLQUFLLElBQUksTUFBTSxJQUFJLGVBQWUsRUFBRTtRQUNoQyxPQUFPLENBQUMsR0FBRyxDQUFDLHFCQUFxQixNQUFNLEVBQUUsQ0FBQyxDQUFDO1FBQzNDLElBQUksdUJBQXVCLEdBQUcsTUFBTSxRQUFRLENBQUMsTUFBTSxDQUFDLENBQUM7UUFDckQsT0FBTyxDQUFDLEdBQUcsQ0FBQyxVQUFVLHVCQUF1QixDQUFDLE1BQU0sOENBQThDLE1BQU0sRUFBRSxDQUFDLENBQUM7UUFFNUcsbUZBQW1GO1FBQ25GLGlEQUFpRDtRQUVqRCxJQUFJLE1BQU0sQ0FBQyxFQUFFO1lBQ1QsTUFBTSxDQUFDLEVBQUUsRUFBRSxDQUFDO1FBRWhCLE9BQU8sQ0FBQyxHQUFHLENBQUMsa0RBQWtELENBQUMsQ0FBQztRQUNoRSxLQUFLLElBQUksc0JBQXNCLElBQUksdUJBQXVCO1lBQ3RELE1BQU0sU0FBUyxDQUFDLFFBQVEsRUFBRSxzQkFBc0IsQ0FBQyxDQUFDO0tBQ3pEO0FBQ0wsQ0FBQztBQUVELElBQUksRUFBRSxDQUFDLElBQUksQ0FBQyxHQUFHLEVBQUUsQ0FBQyxPQUFPLENBQUMsR0FBRyxDQUFDLFdBQVcsQ0FBQyxDQUFDLENBQUMsS0FBSyxDQUFDLEtBQUssQ0FBQyxFQUFFLENBQUMsT0FBTyxDQUFDLEtBQUssQ0FBQyxLQUFLLENBQUMsQ0FBQyxDQUFDIn0=
\ No newline at end of file
+if (require.main === module)
+    main().catch(error => {
+        console.error(error);
+        process.exitCode = 1;
+    });
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoic2NyYXBlci5qcyIsInNvdXJjZVJvb3QiOiIiLCJzb3VyY2VzIjpbInNjcmFwZXIudHMiXSwibmFtZXMiOltdLCJtYXBwaW5ncyI6IkFBQUEsZ0dBQWdHO0FBQ2hHLGdHQUFnRztBQUNoRyxZQUFZO0FBQ1osRUFBRTtBQUNGLGVBQWU7QUFDZixxQkFBcUI7QUFFckIsWUFBWSxDQUFDOzs7QUFFYix5QkFBeUI7QUFDekIsaUNBQWlDO0FBQ2pDLGlDQUFpQztBQUNqQyxxQ0FBdUc7QUFDdkcsbUNBQW1GO0FBQ25GLHVDQUE0RztBQUM1Ryx5Q0FBb0Y7QUFDcEYsMkNBQXlFO0FBQ3pFLG1DQUF5STtBQUN6SSx5Q0FBb0Y7QUFDcEYscUNBQXVLO0FBQ3ZLLHlDQUFpSTtBQUNqSSx5Q0FBNk87QUFJN08saUdBQWlHO0FBQ2pHLGdEQUFnRDtBQUVoRCxNQUFNLFlBQVksR0FBVyxPQUFPLENBQUMsR0FBRyxDQUFDLG1CQUFtQixDQUFDLENBQUUsa0NBQWtDO0FBRWpHLE1BQU0sYUFBYSxHQUFpQjtJQUNoQyxHQUFHLDZCQUFtQjtJQUN0QixPQUFPLEVBQUUsQ0FBQyxPQUFPLENBQUMsR0FBRyxDQUFDLG1CQUFtQixLQUFLLFNBQVMsQ0FBQyxDQUFDLENBQUMsQ0FBQyw2QkFBbUIsQ0FBQyxPQUFPLENBQUMsQ0FBQyxDQUFDLE1BQU0sQ0FBQyxPQUFPLENBQUMsR0FBRyxDQUFDLG1CQUFtQixDQUFDO0lBQ2hJLE9BQU8sRUFBRSxDQUFDLE9BQU8sQ0FBQyxHQUFHLENBQUMsbUJBQW1CLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLDZCQUFtQixDQUFDLE9BQU8sQ0FBQyxDQUFDLENBQUMsTUFBTSxDQUFDLE9BQU8sQ0FBQyxHQUFHLENBQUMsbUJBQW1CLENBQUM7SUFDaEksS0FBSyxFQUFFLE9BQU8sQ0FBQyxHQUFHLENBQUMsV0FBVztJQUM5QixrQkFBa0IsRUFBRSxDQUFDLE9BQU8sQ0FBQyxHQUFHLENBQUMsZUFBZSxLQUFLLE1BQU0sQ0FBQztJQUM1RCxZQUFZLEVBQUUsWUFBWTtJQUMxQixpQkFBaUIsRUFBRSxPQUFPLENBQUMsR0FBRyxDQUFDLHdCQUF3QixJQUFJLDZCQUFtQixDQUFDLGlCQUFpQjtDQUNuRyxDQUFDO0FBRUYsd0ZBQXdGO0FBQ3hGLGdHQUFnRztBQUNoRywrRkFBK0Y7QUFDL0YsNkVBQTZFO0FBRTdFLE1BQU0sbUJBQW1CLEdBQUcsZUFBZSxDQUFDO0FBRTVDLHlEQUF5RDtBQUV6RCxNQUFNLFlBQVksR0FBVyxDQUFDLE9BQU8sQ0FBQyxHQUFHLENBQUMsbUJBQW1CLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsNEJBQW1CLEdBQUcsQ0FBQyxJQUFJLEdBQUcsSUFBSSxDQUFDLENBQUMsQ0FBQyxDQUFDLENBQUMsTUFBTSxDQUFDLE9BQU8sQ0FBQyxHQUFHLENBQUMsbUJBQW1CLENBQUMsQ0FBQztBQUUvSixtR0FBbUc7QUFDbkcsZ0JBQWdCO0FBRWhCLE1BQU0sVUFBVSxHQUFxQjtJQUNqQyxtQkFBbUIsRUFBRSxDQUFDLE9BQU8sQ0FBQyxHQUFHLENBQUMsMEJBQTBCLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLGdDQUF1QixDQUFDLG1CQUFtQixDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsT0FBTyxDQUFDLEdBQUcsQ0FBQywwQkFBMEIsQ0FBQztJQUMxSyxtQkFBbUIsRUFBRSxDQUFDLE9BQU8sQ0FBQyxHQUFHLENBQUMsMkJBQTJCLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLGdDQUF1QixDQUFDLG1CQUFtQixDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsT0FBTyxDQUFDLEdBQUcsQ0FBQywyQkFBMkIsQ0FBQztJQUM1Syw4QkFBOEIsRUFBRSxDQUFDLE9BQU8sQ0FBQyxHQUFHLENBQUMsd0NBQXdDLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLGdDQUF1QixDQUFDLDhCQUE4QixDQUFDLENBQUMsQ0FBQyxNQUFNLENBQUMsT0FBTyxDQUFDLEdBQUcsQ0FBQyx3Q0FBd0MsQ0FBQztDQUMvTixDQUFDO0FBRUYsNkVBQTZFO0FBRTdFLE1BQU0sUUFBUSxHQUFXLE9BQU8sQ0FBQyxHQUFHLENBQUMsY0FBYyxJQUFJLDZCQUFrQixDQUFDO0FBRTFFLDRGQUE0RjtBQUM1RixnR0FBZ0c7QUFDaEcsa0dBQWtHO0FBQ2xHLDZDQUE2QztBQUU3QyxLQUFLLFVBQVUsU0FBUyxDQUFDLFFBQVEsRUFBRSxLQUFhO0lBQzVDLEtBQUssQ0FBQyxJQUFJLENBQUMsMkJBQWdCLENBQUMsUUFBUSxDQUFDLENBQUMsQ0FBQztJQUN2QyxJQUFJLE9BQU8sQ0FBQyxHQUFHLENBQUMsa0JBQWtCLEtBQUssU0FBUztRQUM1QyxLQUFLLENBQUMsSUFBSSxDQUFDLDBCQUFrQixDQUFDLE1BQU0sdUJBQWUsQ0FBQyxPQUFPLENBQUMsR0FBRyxDQUFDLGtCQUFrQixDQUFDLENBQUMsQ0FBQyxDQUFDO0lBQzFGLElBQUksT0FBTyxDQUFDLEdBQUcsQ0FBQyxpQkFBaUIsS0FBSyxTQUFTO1FBQzNDLEtBQUssQ0FBQyxJQUFJLENBQUMseUJBQWlCLENBQUMsT0FBTyxDQUFDLEdBQUcsQ0FBQyxpQkFBaUIsRUFBRSxFQUFFLEdBQUcsNkJBQXFCLEVBQUUsT0FBTyxFQUFFLGFBQWEsQ0FBQyxPQUFPLEVBQUUsS0FBSyxFQUFFLGFBQWEsQ0FBQyxLQUFLLEVBQUUsa0JBQWtCLEVBQUUsYUFBYSxDQUFDLGtCQUFrQixFQUFFLENBQUMsQ0FBQyxDQUFDO0lBQ2pOLEtBQUssSUFBSSxJQUFJLElBQUksS0FBSztRQUNsQixNQUFNLElBQUksQ0FBQyxJQUFJLEVBQUUsQ0FBQztBQUMxQixDQUFDO0FBRUQsZ0dBQWdHO0FBQ2hHLGdGQUFnRjtBQUVoRixLQUFLLFVBQVUsUUFBUSxDQUFDLEdBQVcsRUFBRSxRQUFpQjtJQUNsRCxPQUFPLENBQUMsTUFBTSxrQkFBUSxDQUFDLEdBQUcsRUFBRSxRQUFRLEVBQUUsYUFBYSxDQUFDLENBQUMsQ0FBQyxPQUFPLENBQUM7QUFDbEUsQ0FBQztBQUVELDRGQUE0RjtBQUM1RixnR0FBZ0c7QUFDaEcsa0NBQWtDO0FBRWxDLEtBQUssVUFBVSxvQkFBb0IsQ0FBQyxPQUF1QjtJQUN2RCxJQUFJLGlCQUFpQixHQUF1QixFQUFFLENBQUM7SUFDL0MsSUFBSSxlQUFlLEdBQWEsRUFBRSxDQUFDO0lBQ25DLElBQUksT0FBTyxHQUFHLE9BQU8sQ0FBQyxXQUFXLENBQUM7SUFFbEMsT0FBTyxPQUFPLEtBQUssU0FBUyxJQUFJLENBQUMsZUFBZSxDQUFDLFFBQVEsQ0FBQyxPQUFPLENBQUMsRUFBRTtRQUNoRSxJQUFJLGVBQWUsQ0FBQyxNQUFNLElBQUksbUNBQXdCLEVBQUU7WUFDcEQsT0FBTyxDQUFDLEdBQUcsQ0FBQyxzQ0FBc0MsbUNBQXdCLFNBQVMsQ0FBQyxDQUFDO1lBQ3JGLE1BQU07U0FDVDtRQUNELGVBQWUsQ0FBQyxJQUFJLENBQUMsT0FBTyxDQUFDLENBQUM7UUFFOUIsT0FBTyxDQUFDLEdBQUcsQ0FBQyxvQkFBb0IsT0FBTyxFQUFFLENBQUMsQ0FBQztRQUMzQyxJQUFJLElBQUksR0FBVyxNQUFNLFFBQVEsQ0FBQyxPQUFPLEVBQUUsS0FBSyxDQUFDLENBQUM7UUFDbEQsSUFBSSxZQUFZLEdBQUcsNEJBQWlCLENBQUMsSUFBSSxFQUFFLE9BQU8sRUFBRSxPQUFPLENBQUMsaUJBQWlCLENBQUMsQ0FBQztRQUMvRSxLQUFLLElBQUksZ0JBQWdCLElBQUksWUFBWSxDQUFDLFNBQVM7WUFDL0MsSUFBSSxDQUFDLGlCQUFpQixDQUFDLElBQUksQ0FBQyxxQkFBcUIsQ0FBQyxFQUFFLENBQUMscUJBQXFCLENBQUMsR0FBRyxLQUFLLGdCQUFnQixDQUFDLEdBQUcsQ0FBQztnQkFDcEcsaUJBQWlCLENBQUMsSUFBSSxDQUFDLGdCQUFnQixDQUFDLENBQUM7UUFDakQsT0FBTyxHQUFHLFlBQVksQ0FBQyxXQUFXLENBQUM7S0FDdEM7SUFFRCxPQUFPLGdDQUFxQixDQUFDLGlCQUFpQixDQUFDLENBQUM7QUFDcEQsQ0FBQztBQUVELDRGQUE0RjtBQUM1Rix3RkFBd0Y7QUFDeEYsMEZBQTBGO0FBRTFGLEtBQUssVUFBVSxhQUFhLENBQUMsUUFBUSxFQUFFLEtBQWEsRUFBRSxLQUFpQixFQUFFLE9BQXVCLEVBQUUsWUFBb0IsRUFBRSwwQkFBa0UsRUFBRSxNQUFpQjtJQUN6TSxPQUFPLENBQUMsR0FBRyxDQUFDLGdEQUFnRCxPQUFPLENBQUMsUUFBUSxHQUFHLENBQUMsQ0FBQztJQUNqRiw2QkFBaUIsQ0FBQyxPQUFPLENBQUMsc0JBQXNCLENBQUMsQ0FBQztJQUVsRCxpREFBaUQ7SUFFakQsSUFBSSxpQkFBaUIsR0FBRyxNQUFNLG9CQUFvQixDQUFDLE9BQU8sQ0FBQyxDQUFDO0lBQzVELE1BQU0sa0NBQXVCLENBQUMsUUFBUSxFQUFFLGlCQUFpQixDQUFDLENBQUM7SUFDM0QsTUFBTSxDQUFDLGNBQWMsSUFBSSxpQkFBaUIsQ0FBQyxNQUFNLENBQUM7SUFFbEQsNkZBQTZGO0lBQzdGLDJCQUEyQjtJQUUzQixJQUFJLFlBQVksS0FBSyxRQUFRLEVBQUU7UUFDM0IsSUFBSSxhQUFhLEdBQUcsMkJBQWlCLENBQUMsYUFBYSxDQUFDLGlCQUFpQixDQUFDLENBQUM7UUFDdkUsaUJBQWlCLEdBQUcsaUJBQWlCLENBQUMsTUFBTSxDQUFDLGdCQUFnQixDQUFDLEVBQUUsQ0FBQyxhQUFhLENBQUMsZ0JBQWdCLENBQUMsR0FBRyxDQUFDLEtBQUssU0FBUyxDQUFDLENBQUM7UUFDcEgsWUFBWSxHQUFHLFlBQVksSUFBSSxLQUFLLENBQUM7S0FDeEM7SUFFRCxJQUFJLGlCQUFpQixDQUFDLE1BQU0sS0FBSyxDQUFDLEVBQUU7UUFDaEMsT0FBTyxDQUFDLEdBQUcsQ0FBQyxzQ0FBc0MsQ0FBQyxDQUFDO1FBQ3BELE9BQU87S0FDVjtJQUVELDBGQUEwRjtJQUMxRixRQUFRO0lBRVIsSUFBSSxpQkFBaUIsR0FBRyxFQUFFLENBQUM7SUFDM0IsSUFBSSxXQUFXLEdBQThCLEVBQUUsQ0FBQztJQUNoRCxLQUFLLElBQUksUUFBUSxJQUFJLE1BQU0sdUJBQVksQ0FBQyxRQUFRLENBQUMsRUFBRTtRQUMvQyxpQkFBaUIsQ0FBQyxRQUFRLENBQUMsR0FBRyxDQUFDLEdBQUcsUUFBUSxDQUFDO1FBQzNDLFdBQVcsQ0FBQyxRQUFRLENBQUMsR0FBRyxDQUFDLEdBQUcsUUFBUSxDQUFDLFdBQVcsQ0FBQztLQUNwRDtJQUVELFlBQVksR0FBRyxZQUFZLElBQUksbUJBQW1CLENBQUM7SUFDbkQsSUFBSSxlQUFlLEdBQUcsd0JBQWEsQ0FBQyxpQkFBaUIsRUFBRSxZQUFZLEVBQUUsV0FBVyxDQUFDLENBQUM7SUFDbEYsSUFBSSxFQUFFLFNBQVMsRUFBRSxVQUFVLEVBQUUsR0FBRyxvQkFBWSxDQUFDLE9BQU8sQ0FBQyxDQUFDO0lBQ3RELE1BQU0sQ0FBQyxZQUFZLEdBQUcsWUFBWSxDQUFDO0lBQ25DLE1BQU0sQ0FBQyxZQUFZLElBQUksZUFBZSxDQUFDLE1BQU0sQ0FBQztJQUM5QyxPQUFPLENBQUMsR0FBRyxDQUFDLFNBQVMsaUJBQWlCLENBQUMsTUFBTSwyQkFBMkIsZUFBZSxDQUFDLE1BQU0sd0JBQXdCLFlBQVksY0FBYyxDQUFDLENBQUM7SUFFbEosS0FBSyxJQUFJLE1BQU0sSUFBSSxlQUFlLEVBQUU7UUFDaEMsT0FBTyxDQUFDLEdBQUcsQ0FBQyxxQkFBcUIsTUFBTSxFQUFFLENBQUMsQ0FBQztRQUMzQyxJQUFJLGdCQUFnQixHQUFHLGlCQUFpQixDQUFDLE1BQU0sQ0FBQyxDQUFDO1FBRWpELHVGQUF1RjtRQUN2RixxRkFBcUY7UUFDckYsd0ZBQXdGO1FBQ3hGLGtGQUFrRjtRQUNsRixXQUFXO1FBRVgsSUFBSSxVQUFVLEdBQW9CLENBQUMsZ0JBQWdCLEtBQUssU0FBUyxDQUFDLENBQUMsQ0FBQyxDQUFDLFNBQVMsQ0FBQyxDQUFDLENBQUMsRUFBRSxJQUFJLEVBQUUsZ0JBQWdCLENBQUMsSUFBSSxFQUFFLFlBQVksRUFBRSxnQkFBZ0IsQ0FBQyxhQUFhLEVBQUUsQ0FBQztRQUMvSixJQUFJLFdBQVcsR0FBRyxNQUFNLGtCQUFRLENBQUMsTUFBTSxFQUFFLElBQUksRUFBRSxhQUFhLEVBQUUsVUFBVSxDQUFDLENBQUM7UUFDMUUsSUFBSSxNQUFNLEdBQVcsU0FBUyxDQUFDO1FBQy9CLElBQUksV0FBVyxHQUFXLFNBQVMsQ0FBQztRQUNwQyxJQUFJLFdBQVcsQ0FBQyxhQUFhLEVBQUU7WUFDM0IsSUFBSSxnQkFBZ0IsQ0FBQyxVQUFVLEtBQUssU0FBUyxJQUFJLGdCQUFnQixDQUFDLFdBQVcsS0FBSyxVQUFVLEVBQUU7Z0JBQzFGLE9BQU8sQ0FBQyxHQUFHLENBQUMsK0VBQStFLENBQUMsQ0FBQztnQkFDN0YsTUFBTSx5QkFBYyxDQUFDLFFBQVEsRUFBRSxNQUFNLEVBQUUsZ0JBQWdCLENBQUMsWUFBWSxFQUFFLFdBQVcsQ0FBQyxJQUFJLEVBQUUsV0FBVyxDQUFDLFlBQVksRUFBRSxTQUFTLEVBQUUsVUFBVSxDQUFDLENBQUM7Z0JBQ3pJLE1BQU0sQ0FBQyxlQUFlLEVBQUUsQ0FBQztnQkFDekIsU0FBUzthQUNaO1lBRUQsT0FBTyxDQUFDLEdBQUcsQ0FBQyxzSUFBc0ksQ0FBQyxDQUFDO1lBQ3BKLFdBQVcsR0FBRyxnQkFBZ0IsQ0FBQyxZQUFZLENBQUM7WUFDNUMsSUFBSSxXQUFXLEtBQUssSUFBSSxJQUFJLENBQUMsQ0FBQyxNQUFNLG1CQUFXLENBQUMsS0FBSyxFQUFFLFdBQVcsRUFBRSxPQUFPLENBQUMsQ0FBQyxFQUFFO2dCQUMzRSxPQUFPLENBQUMsR0FBRyxDQUFDLDREQUE0RCxDQUFDLENBQUM7Z0JBQzFFLFdBQVcsR0FBRyxNQUFNLGtCQUFRLENBQUMsTUFBTSxFQUFFLElBQUksRUFBRSxhQUFhLENBQUMsQ0FBQzthQUM3RDtTQUNKO1FBRUQsSUFBSSxDQUFDLFdBQVcsQ0FBQyxhQUFhLEVBQUU7WUFDNUIsTUFBTSxHQUFXLFdBQVcsQ0FBQyxPQUFPLENBQUM7WUFDckMsV0FBVyxHQUFHLE1BQU0sQ0FBQyxVQUFVLENBQUMsUUFBUSxDQUFDLENBQUMsTUFBTSxDQUFDLE1BQU0sQ0FBQyxDQUFDLE1BQU0sQ0FBQyxLQUFLLENBQUMsQ0FBQztZQUN2RSxJQUFJLGdCQUFnQixLQUFLLFNBQVMsSUFBSSxnQkFBZ0IsQ0FBQyxZQUFZLEtBQUssV0FBVztnQkFDL0UsT0FBTyxDQUFDLEdBQUcsQ0FBQyxxREFBcUQsQ0FBQyxDQUFDO1NBQzFFO1FBRUQsSUFBSSxnQkFBZ0IsR0FBc0IsRUFBRSxDQUFDO1FBQzdDLElBQUksVUFBVSxHQUFrQixFQUFFLENBQUM7UUFDbkMsSUFBSSx1QkFBdUIsR0FBRyxNQUFNLHlCQUFpQixDQUFDLEtBQUssRUFBRSxNQUFNLEVBQUUsTUFBTSxFQUFFLFdBQVcsRUFBRSxnQkFBZ0IsRUFBRSxZQUFZLEdBQUcsSUFBSSxHQUFHLElBQUksRUFBRSxPQUFPLEVBQUUsVUFBVSxDQUFDLENBQUM7UUFDN0oscUJBQVksQ0FBQyxNQUFNLEVBQUUsdUJBQXVCLEVBQUUsZ0JBQWdCLEVBQUUsVUFBVSxDQUFDLENBQUM7UUFDNUUsT0FBTyxDQUFDLEdBQUcsQ0FBQyxVQUFVLHVCQUF1QixDQUFDLE1BQU0sOENBQThDLE1BQU0sRUFBRSxDQUFDLENBQUM7UUFFNUcsbUZBQW1GO1FBQ25GLGlEQUFpRDtRQUVqRCxJQUFJLE1BQU0sQ0FBQyxFQUFFO1lBQ1QsTUFBTSxDQUFDLEVBQUUsRUFBRSxDQUFDO1FBRWhCLHVGQUF1RjtRQUN2Rix5RUFBeUU7UUFFekUsSUFBSSxzQkFBc0IsR0FBRyxFQUFFLENBQUM7UUFDaEMsS0FBSyxJQUFJLHNCQUFzQixJQUFJLHVCQUF1QjtZQUN0RCxzQkFBc0IsQ0FBQyxJQUFJLENBQUMsTUFBTSxvQ0FBeUIsQ0FBQyxRQUFRLEVBQUUsTUFBTSxFQUFFLHNCQUFzQixDQUFDLENBQUMsQ0FBQztRQUUzRyx1RkFBdUY7UUFDdkYsMkNBQTJDO1FBRTNDLE9BQU8sQ0FBQyxHQUFHLENBQUMsMENBQTBDLEtBQUssQ0FBQyxHQUFHLENBQUMsSUFBSSxDQUFDLEVBQUUsQ0FBQyxJQUFJLENBQUMsSUFBSSxDQUFDLENBQUMsSUFBSSxDQUFDLElBQUksQ0FBQyxXQUFXLENBQUMsQ0FBQztRQUMxRyxJQUFJLGdCQUFnQixDQUFDLE1BQU0sR0FBRyxDQUFDO1lBQzNCLE9BQU8sQ0FBQyxHQUFHLENBQUMsZ0JBQWdCLGdCQUFnQixDQUFDLE1BQU0sMENBQTBDLENBQUMsQ0FBQztRQUNuRyxJQUFJLFFBQXdCLENBQUM7UUFDN0IsSUFBSTtZQUNBLFFBQVEsR0FBRyxNQUFNLG1CQUFXLENBQUMsS0FBSyxFQUFFLE1BQU0sRUFBRSxzQkFBc0IsRUFBRSxnQkFBZ0IsQ0FBQyxDQUFDO1NBQ3pGO1FBQUMsT0FBTyxLQUFLLEVBQUU7WUFDWixNQUFNLENBQUMsWUFBWSxFQUFFLENBQUM7WUFDdEIsU0FBUztTQUNaO1FBQ0QsNkJBQW9CLENBQUMsTUFBTSxFQUFFLFFBQVEsQ0FBQyxDQUFDO1FBQ3ZDLHNCQUFzQixDQUFDLE9BQU8sQ0FBQyxDQUFDLHFCQUFxQixFQUFFLEtBQUssRUFBRSxFQUFFLENBQUMsMEJBQTBCLENBQUMsUUFBUSxDQUFDLEtBQUssQ0FBQyxDQUFDLENBQUMsSUFBSSxDQUFDLHFCQUFxQixDQUFDLGlCQUFpQixDQUFDLENBQUMsQ0FBQztRQUU1SixzRkFBc0Y7UUFDdEYsc0JBQXNCO1FBRXRCLE1BQU0seUJBQWMsQ0FBQyxRQUFRLEVBQUUsTUFBTSxFQUFFLFdBQVcsRUFBRSxXQUFXLENBQUMsSUFBSSxFQUFFLFdBQVcsQ0FBQyxZQUFZLEVBQUUsU0FBUyxFQUFFLFVBQVUsQ0FBQyxDQUFDO0tBQzFIO0FBQ0wsQ0FBQztBQUVELCtGQUErRjtBQUMvRixpR0FBaUc7QUFDakcsK0JBQStCO0FBRXhCLEtBQUssVUFBVSxNQUFNLENBQUMsWUFBb0IsRUFBRSxZQUFvQixFQUFFLFFBQTBCO0lBQy9GLG1DQUFtQztJQUVuQyxJQUFJLFFBQVEsR0FBRyxNQUFNLDZCQUFrQixDQUFDLFlBQVksQ0FBQyxDQUFDO0lBRXRELElBQUksTUFBTSxHQUFHLHdCQUFlLENBQUMsUUFBUSxDQUFDLEdBQUcsQ0FBQyxPQUFPLENBQUMsRUFBRSxDQUFDLE9BQU8sQ0FBQyxJQUFJLENBQUMsRUFBRSxZQUFZLENBQUMsQ0FBQztJQUNsRixJQUFJLDBCQUEwQixHQUEyQyxFQUFFLEdBQUcsRUFBRSxFQUFFLEVBQUUsT0FBTyxFQUFFLEVBQUUsRUFBRSxTQUFTLEVBQUUsRUFBRSxFQUFFLENBQUM7SUFDakgsSUFBSSxLQUFLLEdBQVcsRUFBRSxDQUFDO0lBRXZCLDRGQUE0RjtJQUM1RixvQkFBb0I7SUFFcEIsTUFBTSxxQkFBVSxDQUFDLFFBQVEsQ0FBQyxDQUFDO0lBQzNCLElBQUksS0FBSyxHQUFHLDRCQUFpQixDQUFDLFFBQVEsQ0FBQyxDQUFDO0lBRXhDLDZGQUE2RjtJQUM3RixzRUFBc0U7SUFFdEUsSUFBSTtRQUNBLE1BQU0sU0FBUyxDQUFDLFFBQVEsRUFBRSxLQUFLLENBQUMsQ0FBQztRQUNqQyxLQUFLLElBQUksT0FBTyxJQUFJLFFBQVE7WUFDeEIsTUFBTSxhQUFhLENBQUMsUUFBUSxFQUFFLEtBQUssRUFBRSxLQUFLLEVBQUUsT0FBTyxFQUFFLFlBQVksRUFBRSwwQkFBMEIsRUFBRSxNQUFNLENBQUMsQ0FBQztLQUM5RztJQUFDLE9BQU8sS0FBSyxFQUFFO1FBQ1osTUFBTSxDQUFDLEtBQUssR0FBRyxLQUFLLENBQUMsT0FBTyxDQUFDO1FBQzdCLE1BQU0sS0FBSyxDQUFDO0tBQ2Y7WUFBUztRQUNOLEtBQUssSUFBSSxJQUFJLElBQUksS0FBSztZQUNsQixNQUFNLElBQUksQ0FBQyxLQUFLLEVBQUUsQ0FBQztRQUN2Qix3QkFBZSxDQUFDLE1BQU0sRUFBRSxVQUFVLENBQUMsQ0FBQztRQUNwQyxPQUFPLENBQUMsR0FBRyxDQUFDLHdCQUFlLENBQUMsTUFBTSxDQUFDLENBQUMsQ0FBQztRQUNyQyxNQUFNLG9CQUFTLENBQUMsUUFBUSxFQUFFLE1BQU0sQ0FBQyxDQUFDO0tBQ3JDO0lBRUQsOENBQThDO0lBRTlDLE9BQU8sQ0FBQyxHQUFHLENBQUMsZ0JBQWdCLDBCQUEwQixDQUFDLEdBQUcsQ0FBQyxNQUFNLFNBQVMsMEJBQTBCLENBQUMsT0FBTyxDQUFDLE1BQU0sZ0JBQWdCLDBCQUEwQixDQUFDLFNBQVMsQ0FBQyxNQUFNLDRCQUE0QixDQUFDLENBQUM7SUFDNU0sS0FBSyxJQUFJLE1BQU0sSUFBSSxDQUFFLEtBQUssRUFBRSxTQUFTLEVBQUUsV0FBVyxDQUFFO1FBQ2hELElBQUksMEJBQTBCLENBQUMsTUFBTSxDQUFDLENBQUMsTUFBTSxHQUFHLENBQUM7WUFDN0MsT0FBTyxDQUFDLEdBQUcsQ0FBQyxPQUFPLE1BQU0sQ0FBQyxDQUFDLENBQUMsQ0FBQyxXQUFXLEVBQUUsR0FBRyxNQUFNLENBQUMsU0FBUyxDQUFDLENBQUMsQ0FBQyxLQUFLLDBCQUEwQixDQUFDLE1BQU0sQ0FBQyxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUMsRUFBRSxDQUFDLENBQUM7SUFDOUgsT0FBTyxNQUFNLENBQUM7QUFDbEIsQ0FBQztBQXhDRCx3QkF3Q0M7QUFFRCxvREFBb0Q7QUFFcEQsTUFBTSxLQUFLLEdBQUc7Ozs7Ozs7d0VBTzBELG1CQUFtQjs7c0RBRXJDLDZCQUFrQjs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7Ozs7O0dBaUNyRSw2QkFBa0IsS0FBSyxDQUFDO0FBRTNCLDZGQUE2RjtBQUM3Riw2RkFBNkY7QUFFN0YsU0FBUyxjQUFjLENBQUMsSUFBYztJQUNsQyxJQUFJLFdBQVcsR0FBYSxFQUFFLENBQUM7SUFDL0IsSUFBSSxPQUFPLEdBQStCLEVBQUUsQ0FBQztJQUM3QyxLQUFLLElBQUksS0FBSyxHQUFHLENBQUMsRUFBRSxLQUFLLEdBQUcsSUFBSSxDQUFDLE1BQU0sRUFBRSxLQUFLLEVBQUUsRUFBRTtRQUM5QyxJQUFJLEdBQUcsR0FBRyxJQUFJLENBQUMsS0FBSyxDQUFDLENBQUM7UUFDdEIsSUFBSSxHQUFHLEtBQUssUUFBUSxJQUFJLEdBQUcsS0FBSyxJQUFJO1lBQ2hDLE9BQU8sQ0FBQyxNQUFNLENBQUMsR0FBRyxNQUFNLENBQUM7YUFDeEIsSUFBSSxHQUFHLENBQUMsVUFBVSxDQUFDLElBQUksQ0FBQyxFQUFFO1lBQzNCLElBQUksY0FBYyxHQUFHLEdBQUcsQ0FBQyxPQUFPLENBQUMsR0FBRyxDQUFDLENBQUM7WUFDdEMsSUFBSSxjQUFjLElBQUksQ0FBQztnQkFDbkIsT0FBTyxDQUFDLEdBQUcsQ0FBQyxTQUFTLENBQUMsQ0FBQyxFQUFFLGNBQWMsQ0FBQyxDQUFDLEdBQUcsR0FBRyxDQUFDLFNBQVMsQ0FBQyxjQUFjLEdBQUcsQ0FBQyxDQUFDLENBQUM7aUJBQzdFLElBQUksS0FBSyxHQUFHLENBQUMsR0FBRyxJQUFJLENBQUMsTUFBTTtnQkFDNUIsT0FBTyxDQUFDLEdBQUcsQ0FBQyxTQUFTLENBQUMsQ0FBQyxDQUFDLENBQUMsR0FBRyxJQUFJLENBQUMsRUFBRSxLQUFLLENBQUMsQ0FBQzs7Z0JBRTFDLE1BQU0sSUFBSSxLQUFLLENBQUMsZUFBZSxHQUFHLHFCQUFxQixDQUFDLENBQUM7U0FDaEU7O1lBQ0csV0FBVyxDQUFDLElBQUksQ0FBQyxHQUFHLENBQUMsQ0FBQztLQUM3QjtJQUNELE9BQU8sRUFBRSxPQUFPLEVBQUUsQ0FBQyxXQUFXLENBQUMsTUFBTSxLQUFLLENBQUMsQ0FBQyxDQUFDLENBQUMsQ0FBQyxRQUFRLENBQUMsQ0FBQyxDQUFDLFdBQVcsQ0FBQyxLQUFLLEVBQUUsRUFBRSxXQUFXLEVBQUUsV0FBVyxFQUFFLE9BQU8sRUFBRSxPQUFPLEVBQUUsQ0FBQztBQUNoSSxDQUFDO0FBRUQsa0RBQWtEO0FBRWxELEtBQUssVUFBVSxJQUFJO0lBQ2YsSUFBSSxZQUFZLEtBQUssU0FBUyxJQUFJLFlBQVksS0FBSyxRQUFRLElBQUksWUFBWSxLQUFLLFFBQVE7UUFDcEYsTUFBTSxJQUFJLEtBQUssQ0FBQyxzQkFBc0IsWUFBWSxvREFBb0QsQ0FBQyxDQUFDO0lBQzVHLElBQUksQ0FBQyxNQUFNLENBQUMsU0FBUyxDQUFDLGFBQWEsQ0FBQyxPQUFPLENBQUMsSUFBSSxhQUFhLENBQUMsT0FBTyxHQUFHLENBQUMsSUFBSSxDQUFDLENBQUMsYUFBYSxDQUFDLE9BQU8sR0FBRyxDQUFDLENBQUM7UUFDckcsTUFBTSxJQUFJLEtBQUssQ0FBQyxzQkFBc0IsT0FBTyxDQUFDLEdBQUcsQ0FBQyxtQkFBbUIsaUJBQWlCLE9BQU8sQ0FBQyxHQUFHLENBQUMsbUJBQW1CLGlCQUFpQixDQUFDLENBQUM7SUFDNUksSUFBSSxDQUFDLENBQUMsWUFBWSxHQUFHLENBQUMsQ0FBQztRQUNuQixNQUFNLElBQUksS0FBSyxDQUFDLHNCQUFzQixPQUFPLENBQUMsR0FBRyxDQUFDLG1CQUFtQiwwQ0FBMEMsQ0FBQyxDQUFDO0lBQ3JILElBQUksQ0FBQyxDQUFDLFVBQVUsQ0FBQyxtQkFBbUIsSUFBSSxDQUFDLENBQUMsSUFBSSxDQUFDLENBQUMsVUFBVSxDQUFDLG1CQUFtQixJQUFJLENBQUMsQ0FBQyxJQUFJLENBQUMsQ0FBQyxVQUFVLENBQUMsOEJBQThCLElBQUksQ0FBQyxDQUFDO1FBQ3JJLE1BQU0sSUFBSSxLQUFLLENBQUMsMEJBQTBCLE9BQU8sQ0FBQyxHQUFHLENBQUMsMEJBQTBCLE9BQU8sT0FBTyxDQUFDLEdBQUcsQ0FBQywyQkFBMkIsU0FBUyxPQUFPLENBQUMsR0FBRyxDQUFDLHdDQUF3QywrRUFBK0UsQ0FBQyxDQUFDO0lBRWhSLElBQUksRUFBRSxPQUFPLEVBQUUsV0FBVyxFQUFFLE9BQU8sRUFBRSxHQUFHLGNBQWMsQ0FBQyxPQUFPLENBQUMsSUFBSSxDQUFDLEtBQUssQ0FBQyxDQUFDLENBQUMsQ0FBQyxDQUFDO0lBQzlFLElBQUksZ0JBQWdCLEdBQUc7UUFDbkIsTUFBTSxFQUFFLENBQUUsTUFBTSxFQUFFLGVBQWUsRUFBRSxTQUFTLEVBQUUsVUFBVSxDQUFFO1FBQzFELFdBQVcsRUFBRSxDQUFFLE1BQU0sRUFBRSxTQUFTLENBQUU7UUFDbEMsZ0JBQWdCLEVBQUUsQ0FBRSxNQUFNLEVBQUUsU0FBUyxDQUFFO1FBQ3ZDLFdBQVcsRUFBRSxDQUFFLE1BQU0sRUFBRSxTQUFTLENBQUU7UUFDbEMsc0JBQXNCLEVBQUUsQ0FBRSxNQUFNLEVBQUUsU0FBUyxDQUFFO1FBQzdDLG1CQUFtQixFQUFFLENBQUUsTUFBTSxFQUFFLFNBQVMsRUFBRSxVQUFVLENBQUU7UUFDdEQsTUFBTSxFQUFFLENBQUUsTUFBTSxFQUFFLFFBQVEsRUFBRSxNQUFNLEVBQUUsSUFBSSxFQUFFLFVBQVUsQ0FBRTtLQUN6RCxDQUFDLE9BQU8sQ0FBQyxJQUFJLENBQUUsTUFBTSxDQUFFLENBQUM7SUFDekIsSUFBSSxpQkFBaUIsR0FBRyxNQUFNLENBQUMsSUFBSSxDQUFDLE9BQU8sQ0FBQyxDQUFDLElBQUksQ0FBQyxNQUFNLENBQUMsRUFBRSxDQUFDLENBQUMsZ0JBQWdCLENBQUMsUUFBUSxDQUFDLE1BQU0sQ0FBQyxDQUFDLENBQUM7SUFDaEcsSUFBSSxpQkFBaUIsS0FBSyxTQUFTO1FBQy9CLE1BQU0sSUFBSSxLQUFLLENBQUMsaUJBQWlCLGlCQUFpQiw4QkFBOEIsT0FBTyxpQkFBaUIsS0FBSyxFQUFFLENBQUMsQ0FBQztJQUVySCxJQUFJLE9BQU8sS0FBSyxNQUFNLElBQUksT0FBTyxDQUFDLE1BQU0sQ0FBQyxLQUFLLFNBQVMsRUFBRTtRQUNyRCxPQUFPLENBQUMsR0FBRyxDQUFDLEtBQUssQ0FBQyxDQUFDO1FBQ25CLE9BQU87S0FDVjtJQUVELDRFQUE0RTtJQUU1RSxJQUFJLFFBQVEsR0FBRyw2QkFBa0IsQ0FBQyxPQUFPLENBQUMsU0FBUyxDQUFDLElBQUksUUFBUSxDQUFDLENBQUM7SUFDbEUsSUFBSSxRQUFRLENBQUMsTUFBTSxLQUFLLENBQUM7UUFDckIsTUFBTSxJQUFJLEtBQUssQ0FBQyxnQ0FBZ0MsS0FBSyxFQUFFLENBQUMsQ0FBQztJQUM3RCxJQUFJLE9BQU8sS0FBSyxRQUFRLElBQUksT0FBTyxDQUFDLFNBQVMsQ0FBQyxLQUFLLFNBQVMsSUFBSSxRQUFRLENBQUMsTUFBTSxLQUFLLENBQUM7UUFDakYsTUFBTSxJQUFJLEtBQUssQ0FBQyxRQUFRLE9BQU8sMENBQTBDLEtBQUssRUFBRSxDQUFDLENBQUM7SUFDdEYsSUFBSSxPQUFPLEdBQUcsUUFBUSxDQUFDLENBQUMsQ0FBQyxDQUFDO0lBRTFCLElBQUksT0FBTyxLQUFLLFFBQVEsRUFBRTtRQUN0QixJQUFJLE1BQU0sR0FBRyxNQUFNLE1BQU0sQ0FBQyxPQUFPLENBQUMsVUFBVSxDQUFDLElBQUksYUFBYSxFQUFFLE9BQU8sQ0FBQyxlQUFlLENBQUMsSUFBSSxPQUFPLENBQUMsR0FBRyxDQUFDLG1CQUFtQixFQUFFLFFBQVEsQ0FBQyxDQUFDO1FBQ3ZJLElBQUksTUFBTSxDQUFDLGNBQWMsQ0FBQyxNQUFNLEdBQUcsQ0FBQyxFQUFFO1lBQ2xDLE9BQU8sQ0FBQyxHQUFHLENBQUMsdUNBQXVDLE1BQU0sQ0FBQyxjQUFjLENBQUMsTUFBTSxzQ0FBc0MsQ0FBQyxDQUFDO1lBQ3ZILE9BQU8sQ0FBQyxRQUFRLEdBQUcsQ0FBQyxDQUFDO1NBQ3hCOztZQUNHLE9BQU8sQ0FBQyxHQUFHLENBQUMsV0FBVyxDQUFDLENBQUM7S0FDaEM7U0FBTSxJQUFJLE9BQU8sS0FBSyxXQUFXLElBQUksT0FBTyxLQUFLLGdCQUFnQixFQUFFO1FBQ2hFLElBQUksV0FBVyxDQUFDLE1BQU0sS0FBSyxDQUFDO1lBQ3hCLE1BQU0sSUFBSSxLQUFLLENBQUMsUUFBUSxPQUFPLDRDQUE0QyxLQUFLLEVBQUUsQ0FBQyxDQUFDO1FBRXhGLHdGQUF3RjtRQUN4RixZQUFZO1FBRVosT0FBTyxDQUFDLEdBQUcsR0FBRyxPQUFPLENBQUMsS0FBSyxDQUFDO1FBQzVCLDZCQUFpQixDQUFDLE9BQU8sQ0FBQyxzQkFBc0IsQ0FBQyxDQUFDO1FBRWxELElBQUksT0FBTyxLQUFLLFdBQVcsRUFBRTtZQUN6QixJQUFJLE1BQU0sR0FBRyxXQUFXLENBQUMsQ0FBQyxDQUFDLENBQUM7WUFDNUIsSUFBSSxNQUFNLEdBQUcsZUFBZSxDQUFDLElBQUksQ0FBQyxNQUFNLENBQUMsQ0FBQyxDQUFDLENBQVMsTUFBTSxRQUFRLENBQUMsTUFBTSxFQUFFLElBQUksQ0FBQyxDQUFDLENBQUMsQ0FBQyxFQUFFLENBQUMsWUFBWSxDQUFDLE1BQU0sQ0FBQyxDQUFDO1lBQzNHLElBQUksZ0JBQWdCLEdBQXNCLEVBQUUsQ0FBQztZQUM3QyxJQUFJLHVCQUF1QixHQUFHLE1BQU0saUJBQVEsQ0FBQyxNQUFNLEVBQUUsTUFBTSxFQUFFLGdCQUFnQixFQUFFLFlBQVksR0FBRyxJQUFJLEdBQUcsSUFBSSxFQUFFLE9BQU8sQ0FBQyxDQUFDO1lBQ3BILEtBQUssSUFBSSxlQUFlLElBQUksZ0JBQWdCO2dCQUN4QyxPQUFPLENBQUMsR0FBRyxDQUFDLFFBQVEsZUFBZSxDQUFDLFVBQVUsUUFBUSxlQUFlLENBQUMsTUFBTSxLQUFLLFVBQVUsQ0FBQyxDQUFDLENBQUMsVUFBVSxDQUFDLENBQUMsQ0FBQyx1QkFBdUIsS0FBSyxlQUFlLENBQUMsT0FBTyxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUMsRUFBRSxDQUFDLENBQUM7WUFDakwsT0FBTyxDQUFDLE1BQU0sQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDLFNBQVMsQ0FBQyx1QkFBdUIsRUFBRSxJQUFJLEVBQUUsQ0FBQyxDQUFDLEdBQUcsSUFBSSxDQUFDLENBQUM7U0FDakY7O1lBQ0csT0FBTyxDQUFDLE1BQU0sQ0FBQyxLQUFLLENBQUMsSUFBSSxDQUFDLFNBQVMsQ0FBQyxxQkFBWSxDQUFDLFdBQVcsQ0FBQyxDQUFDLENBQUMsQ0FBQyxFQUFFLElBQUksRUFBRSxDQUFDLENBQUMsR0FBRyxJQUFJLENBQUMsQ0FBQztLQUMxRjtTQUFNLElBQUksT0FBTyxLQUFLLFdBQVcsRUFBRTtRQUNoQyxJQUFJLFdBQVcsQ0FBQyxNQUFNLEtBQUssQ0FBQztZQUN4QixNQUFNLElBQUksS0FBSyxDQUFDLDZEQUE2RCxLQUFLLEVBQUUsQ0FBQyxDQUFDO1FBRTFGLElBQUksR0FBRyxHQUFHLE9BQU8sQ0FBQyxHQUFHLENBQUM7UUFDdEIsT0FBTyxDQUFDLEdBQUcsR0FBRyxPQUFPLENBQUMsS0FBSyxDQUFDO1FBQzVCLEtBQUssSUFBSSxnQkFBZ0IsSUFBSSxNQUFNLG9CQUFvQixDQUFDLE9BQU8sQ0FBQztZQUM1RCxHQUFHLENBQUMsQ0FBRSxnQkFBZ0IsQ0FBQyxHQUFHLEVBQUUsZ0JBQWdCLENBQUMsV0FBVyxFQUFFLGdCQUFnQixDQUFDLFNBQVMsRUFBRSxnQkFBZ0IsQ0FBQyxXQUFXLEVBQUUsZ0JBQWdCLENBQUMsS0FBSyxDQUFFLENBQUMsR0FBRyxDQUFDLEtBQUssQ0FBQyxFQUFFLENBQUMsS0FBSyxJQUFJLEVBQUUsQ0FBQyxDQUFDLElBQUksQ0FBQyxJQUFJLENBQUMsQ0FBQyxDQUFDO0tBQzFMO1NBQU0sSUFBSSxPQUFPLEtBQUssc0JBQXNCLEVBQUU7UUFDM0MsSUFBSSxXQUFXLENBQUMsTUFBTSxLQUFLLENBQUM7WUFDeEIsTUFBTSxJQUFJLEtBQUssQ0FBQyx3RUFBd0UsS0FBSyxFQUFFLENBQUMsQ0FBQztRQUVyRyxJQUFJLEdBQUcsR0FBRyxPQUFPLENBQUMsR0FBRyxDQUFDO1FBQ3RCLE9BQU8sQ0FBQyxHQUFHLEdBQUcsT0FBTyxDQUFDLEtBQUssQ0FBQztRQUM1QixJQUFJLFFBQVEsR0FBRyw2QkFBaUIsQ0FBQyxPQUFPLENBQUMsc0JBQXNCLENBQUMsQ0FBQztRQUNqRSxLQUFLLElBQUksT0FBTyxJQUFJLFFBQVE7WUFDeEIsR0FBRyxDQUFDLEdBQUcsT0FBTyxDQUFDLFFBQVEsSUFBSSxPQUFPLENBQUMsVUFBVSxLQUFLLE9BQU8sQ0FBQyxJQUFJLEtBQUssT0FBTyxDQUFDLE9BQU8sRUFBRSxDQUFDLENBQUM7UUFDMUYsSUFBSSxRQUFRLENBQUMsTUFBTSxHQUFHLENBQUM7WUFDbkIsT0FBTyxDQUFDLFFBQVEsR0FBRyxDQUFDLENBQUM7S0FDNUI7U0FBTSxJQUFJLE9BQU8sS0FBSyxtQkFBbUIsRUFBRTtRQUN4QyxJQUFJLFdBQVcsQ0FBQyxNQUFNLEtBQUssQ0FBQztZQUN4QixNQUFNLElBQUksS0FBSyxDQUFDLHFFQUFxRSxLQUFLLEVBQUUsQ0FBQyxDQUFDO1FBRWxHLE9BQU8sQ0FBQyxHQUFHLEdBQUcsT0FBTyxDQUFDLEtBQUssQ0FBQztRQUM1Qiw2QkFBaUIsQ0FBQyxPQUFPLENBQUMsc0JBQXNCLENBQUMsQ0FBQztRQUNsRCxJQUFJLFFBQVEsR0FBRyxNQUFNLDZCQUFrQixDQUFDLE9BQU8sQ0FBQyxVQUFVLENBQUMsSUFBSSxhQUFhLENBQUMsQ0FBQztRQUM5RSxJQUFJLFNBQVMsR0FBRyxtQ0FBdUIsQ0FBQyxNQUFNLCtCQUFvQixDQUFDLFFBQVEsRUFBRSxPQUFPLENBQUMsSUFBSSxDQUFDLENBQUMsQ0FBQztRQUM1RixPQUFPLENBQUMsTUFBTSxDQUFDLEtBQUssQ0FBQyxJQUFJLENBQUMsU0FBUyxDQUFDLFNBQVMsRUFBRSxJQUFJLEVBQUUsQ0FBQyxDQUFDLEdBQUcsSUFBSSxDQUFDLENBQUM7S0FDbkU7U0FBTSxJQUFJLE9BQU8sS0FBSyxRQUFRLEVBQUU7UUFDN0IsSUFBSSxXQUFXLENBQUMsTUFBTSxLQUFLLENBQUM7WUFDeEIsTUFBTSxJQUFJLEtBQUssQ0FBQywwREFBMEQsS0FBSyxFQUFFLENBQUMsQ0FBQztRQUV2RixJQUFJLE1BQU0sR0FBRyxPQUFPLENBQUMsUUFBUSxDQUFDLElBQUksUUFBUSxDQUFDO1FBQzNDLElBQUksQ0FBQyx3QkFBYSxDQUFDLFFBQVEsQ0FBQyxNQUFNLENBQUM7WUFDL0IsTUFBTSxJQUFJLEtBQUssQ0FBQyxzQkFBc0IsTUFBTSwwQkFBMEIsS0FBSyxFQUFFLENBQUMsQ0FBQztRQUNuRixLQUFLLElBQUksTUFBTSxJQUFJLENBQUUsTUFBTSxFQUFFLElBQUksQ0FBRTtZQUMvQixJQUFJLE9BQU8sQ0FBQyxNQUFNLENBQUMsS0FBSyxTQUFTLElBQUksQ0FBQyxNQUFNLENBQUMsT0FBTyxDQUFDLE1BQU0sQ0FBQyxFQUFFLFlBQVksRUFBRSxJQUFJLENBQUMsQ0FBQyxPQUFPLEVBQUU7Z0JBQ3ZGLE1BQU0sSUFBSSxLQUFLLENBQUMsYUFBYSxPQUFPLENBQUMsTUFBTSxDQUFDLHFCQUFxQixNQUFNLDZDQUE2QyxDQUFDLENBQUM7UUFFOUgsT0FBTyxDQUFDLEdBQUcsR0FBRyxPQUFPLENBQUMsS0FBSyxDQUFDO1FBQzVCLElBQUksUUFBUSxHQUFHLE1BQU0sNkJBQWtCLENBQUMsT0FBTyxDQUFDLFVBQVUsQ0FBQyxJQUFJLGFBQWEsQ0FBQyxDQUFDO1FBQzlFLElBQUksWUFBWSxHQUFHLDhCQUFtQixDQUFDLE1BQU0sa0NBQXVCLENBQUMsUUFBUSxDQUFDLEVBQUUsT0FBTyxDQUFDLE1BQU0sQ0FBQyxFQUFFLE9BQU8sQ0FBQyxJQUFJLENBQUMsQ0FBQyxDQUFDO1FBQ2hILE9BQU8sQ0FBQyxNQUFNLENBQUMsS0FBSyxDQUFDLDZCQUFrQixDQUFDLFlBQVksRUFBRSxNQUFNLENBQUMsQ0FBQyxDQUFDO0tBQ2xFOztRQUNHLE1BQU0sSUFBSSxLQUFLLENBQUMsZ0JBQWdCLE9BQU8sMEJBQTBCLEtBQUssRUFBRSxDQUFDLENBQUM7QUFDbEYsQ0FBQztBQUVELElBQUksT0FBTyxDQUFDLElBQUksS0FBSyxNQUFNO0lBQ3ZCLElBQUksRUFBRSxDQUFDLEtBQUssQ0FBQyxLQUFLLENBQUMsRUFBRTtRQUNqQixPQUFPLENBQUMsS0FBSyxDQUFDLEtBQUssQ0FBQyxDQUFDO1FBQ3JCLE9BQU8sQ0FBQyxRQUFRLEdBQUcsQ0FBQyxDQUFDO0lBQ3pCLENBQUMsQ0FBQyxDQUFDIn0=
\ No newline at end of file
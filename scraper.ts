@@ -1,5 +1,6 @@
 // Parses the development applications at the South Australian Coorong District Council web site
-// and places them in a database.
+// (and the web sites of any other configured councils, see CouncilProfile) and places them in a
+// database.
 //
 // Michael Bone
 // 25th February 2019
@@ -7,507 +8,466 @@
 "use strict";
 
 import * as fs from "fs";
-import * as cheerio from "cheerio";
-import * as request from "request-promise-native";
-import * as sqlite3 from "sqlite3";
-import * as urlparser from "url";
+import * as crypto from "crypto";
 import * as moment from "moment";
-import * as pdfjs from "pdfjs-dist";
-import didYouMean, * as didyoumean from "didyoumean2";
+import { QuarantinedPage, PdfStatistics, DefaultMemoryBudget, parseAddress, parsePdf } from "./parser";
+import { ParseCache, getCacheKeys, isPdfCached, parsePdfWithCache } from "./cache";
+import { FetchOptions, DefaultFetchOptions, FetchValidators, fetchUrl, readSnapshotIndex } from "./fetcher";
+import { ExportFormats, filterByDateScraped, formatApplications } from "./exporter";
+import { loadReferenceData, proposeGazetteerEntries } from "./reference";
+import { InsertStatus, Sink, DefaultWebhookOptions, createPostgresSink, connectPostgres, createWebhookSink, saveToSinks } from "./sinks";
+import { CouncilProfile, DefaultCouncilName, getCouncilProfiles } from "./councils";
+import { RunReport, HealthThresholds, DefaultHealthThresholds, createRunReport, addParsedPdf, addSavedApplications, finishRunReport, formatRunReport } from "./report";
+import { RegisterDocument, MaximumRegisterPageCount, parseRegisterPage, sortRegisterDocuments, selectPdfUrls } from "./register";
+import { initializeDatabase, createSqliteCache, pruneCache, createSqliteSink, insertRun, getDocuments, getFallbackAddresses, getExportedApplications, updateRegisterDocuments, updateDocument, reconcileWithSavedSources } from "./database";
 
-sqlite3.verbose();
+declare const process: any;
 
-const DevelopmentApplicationsUrl = "https://www.coorong.sa.gov.au/council-services/building-and-development/development-register?num_ranks=200";
-const CommentUrl = "mailto:council@coorong.sa.gov.au";
+// How the register page and PDFs are retrieved (see FetchOptions).  TLS certificate verification
+// is only relaxed if MORPH_RELAX_TLS is "true".
 
-declare const process: any;
+const SnapshotMode: string = process.env.MORPH_SNAPSHOT_MODE;  // "replay", "record" or undefined
 
-// All valid street names, street suffixes, suburb names and hundred names.
+const FetchSettings: FetchOptions = {
+    ...DefaultFetchOptions,
+    retries: (process.env.MORPH_FETCH_RETRIES === undefined) ? DefaultFetchOptions.retries : Number(process.env.MORPH_FETCH_RETRIES),
+    timeout: (process.env.MORPH_FETCH_TIMEOUT === undefined) ? DefaultFetchOptions.timeout : Number(process.env.MORPH_FETCH_TIMEOUT),
+    proxy: process.env.MORPH_PROXY,
+    rejectUnauthorized: (process.env.MORPH_RELAX_TLS !== "true"),
+    snapshotMode: SnapshotMode,
+    snapshotDirectory: process.env.MORPH_SNAPSHOT_DIRECTORY || DefaultFetchOptions.snapshotDirectory
+};
 
-let StreetNames = null;
-let StreetSuffixes = null;
-let SuburbNames = null;
-let HundredNames = null;
+// The strategy used to select which of the PDFs on the register page are parsed: "all",
+// "latest:N" (the N most recent PDFs), "url:<url>" (a single named PDF), "period:<period>" (the
+// PDFs covering any part of a year, month or day, such as "period:2019-01") or "round-robin:N"
+// (the most recent PDF plus the N - 1 PDFs that were least recently parsed).
 
-// Sets up an sqlite database.
+const DefaultPdfSelection = "round-robin:2";
 
-async function initializeDatabase() {
-    return new Promise((resolve, reject) => {
-        let database = new sqlite3.Database("data.sqlite");
-        database.serialize(() => {
-            database.run("create table if not exists [data] ([council_reference] text primary key, [address] text, [description] text, [info_url] text, [comment_url] text, [date_scraped] text, [date_received] text, [legal_description] text)");
-            resolve(database);
-        });
-    });
-}
+// The memory budget for parsing each PDF (in megabytes).
 
-// Inserts a row in the database if the row does not already exist.
-
-async function insertRow(database, developmentApplication) {
-    return new Promise((resolve, reject) => {
-        let sqlStatement = database.prepare("insert or replace into [data] values (?, ?, ?, ?, ?, ?, ?, ?)");
-        sqlStatement.run([
-            developmentApplication.applicationNumber,
-            developmentApplication.address,
-            developmentApplication.description,
-            developmentApplication.informationUrl,
-            developmentApplication.commentUrl,
-            developmentApplication.scrapeDate,
-            developmentApplication.receivedDate,
-            developmentApplication.legalDescription
-        ], function(error, row) {
-            if (error) {
-                console.error(error);
-                reject(error);
-            } else {
-                console.log(`    Saved application \"${developmentApplication.applicationNumber}\" with address \"${developmentApplication.address}\", description \"${developmentApplication.description}\", legal description \"${developmentApplication.legalDescription}\" and received date \"${developmentApplication.receivedDate}\" to the database.`);
-                sqlStatement.finalize();  // releases any locks
-                resolve(row);
-            }
-        });
-    });
-}
+const MemoryBudget: number = (process.env.MORPH_MEMORY_BUDGET === undefined) ? (DefaultMemoryBudget / (1024 * 1024)) : Number(process.env.MORPH_MEMORY_BUDGET);
 
-// A bounding rectangle.
+// The thresholds beyond which a run is considered unhealthy (the rates are fractions, for example,
+// 0.2 for 20%).
 
-interface Rectangle {
-    x: number,
-    y: number,
-    width: number,
-    height: number
-}
+const Thresholds: HealthThresholds = {
+    minimumApplications: (process.env.MORPH_MINIMUM_APPLICATIONS === undefined) ? DefaultHealthThresholds.minimumApplications : Number(process.env.MORPH_MINIMUM_APPLICATIONS),
+    maximumFallbackRate: (process.env.MORPH_MAXIMUM_FALLBACK_RATE === undefined) ? DefaultHealthThresholds.maximumFallbackRate : Number(process.env.MORPH_MAXIMUM_FALLBACK_RATE),
+    maximumMissingReceivedDateRate: (process.env.MORPH_MAXIMUM_MISSING_RECEIVED_DATE_RATE === undefined) ? DefaultHealthThresholds.maximumMissingReceivedDateRate : Number(process.env.MORPH_MAXIMUM_MISSING_RECEIVED_DATE_RATE)
+};
 
-// An element (consisting of text and a bounding rectangle) in a PDF document.
+// The councils scraped by default (a comma separated list of council names).
 
-interface Element extends Rectangle {
-    text: string
-}
+const Councils: string = process.env.MORPH_COUNCILS || DefaultCouncilName;
 
-// Constructs a rectangle based on the intersection of the two specified rectangles.
-
-function intersect(rectangle1: Rectangle, rectangle2: Rectangle): Rectangle {
-    let x1 = Math.max(rectangle1.x, rectangle2.x);
-    let y1 = Math.max(rectangle1.y, rectangle2.y);
-    let x2 = Math.min(rectangle1.x + rectangle1.width, rectangle2.x + rectangle2.width);
-    let y2 = Math.min(rectangle1.y + rectangle1.height, rectangle2.y + rectangle2.height);
-    if (x2 >= x1 && y2 >= y1)
-        return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
-    else
-        return { x: 0, y: 0, width: 0, height: 0 };
+// Creates the sinks that development applications are saved to: the sqlite database and, if
+// configured, a Postgres database (MORPH_POSTGRES_URL) and a webhook (MORPH_WEBHOOK_URL).  Each
+// sink is added to the specified array as soon as it is created (so that it can be closed even if
+// a later sink cannot be created or opened).
+
+async function openSinks(database, sinks: Sink[]) {
+    sinks.push(createSqliteSink(database));
+    if (process.env.MORPH_POSTGRES_URL !== undefined)
+        sinks.push(createPostgresSink(await connectPostgres(process.env.MORPH_POSTGRES_URL)));
+    if (process.env.MORPH_WEBHOOK_URL !== undefined)
+        sinks.push(createWebhookSink(process.env.MORPH_WEBHOOK_URL, { ...DefaultWebhookOptions, timeout: FetchSettings.timeout, proxy: FetchSettings.proxy, rejectUnauthorized: FetchSettings.rejectUnauthorized }));
+    for (let sink of sinks)
+        await sink.open();
 }
 
-// Calculates the fraction of an element that lies within a rectangle (as a percentage).  For
-// example, if a quarter of the specifed element lies within the specified rectangle then this
-// would return 25.
+// Retrieves the content of a URL (either from the council web site or, in replay mode, from the
+// snapshot directory).  Binary content (such as a PDF) is returned as a buffer.
 
-function getPercentageOfElementInRectangle(element: Element, rectangle: Rectangle) {
-    let elementArea = getArea(element);
-    let intersectionArea = getArea(intersect(rectangle, element));
-    return (elementArea === 0) ? 0 : ((intersectionArea * 100) / elementArea);
+async function retrieve(url: string, isBinary: boolean) {
+    return (await fetchUrl(url, isBinary, FetchSettings)).content;
 }
 
-// Calculates the area of a rectangle.
+// Reads every page of the register of a council (following the links to subsequent pages of
+// results) and returns the development application PDFs listed, ordered by the period that each
+// PDF covers (most recent first).
 
-function getArea(rectangle: Rectangle) {
-    return rectangle.width * rectangle.height;
-}
+async function getRegisterDocuments(profile: CouncilProfile) {
+    let registerDocuments: RegisterDocument[] = [];
+    let visitedPageUrls: string[] = [];
+    let pageUrl = profile.registerUrl;
 
-// Formats (and corrects) an address.
-
-function formatAddress(address: string) {
-    address = address.trim();
-    if (address.startsWith("LOT:") || address.startsWith("No Residential Address"))
-        return "";
-
-    // Remove the comma in house numbers larger than 1000.  For example, the following addresses:
-    //
-    //     4,665 Princes HWY MENINGIE 5264
-    //     11,287 Princes HWY SALT CREEK 5264
-    //
-    // would be converted to the following:
-    //
-    //     4665 Princes HWY MENINGIE 5264
-    //     11287 Princes HWY SALT CREEK 5264
-
-    if (/^\d,\d\d\d/.test(address))
-        address = address.substring(0, 1) + address.substring(2);
-    else if (/^\d\d,\d\d\d/.test(address))
-        address = address.substring(0, 2) + address.substring(3);
-
-    let tokens = address.split(" ");
-
-    let postCode = undefined;
-    let token = tokens.pop();
-    if (/^\d\d\d\d$/.test(token))
-        postCode = token;
-    else
-        tokens.push(token);
-
-    // Ensure that a state code is added before the post code if a state code is not present.
-
-    let state = "SA";
-    token = tokens.pop();
-    if ([ "ACT", "NSW", "NT", "QLD", "SA", "TAS", "VIC", "WA" ].includes(token.toUpperCase()))
-        state = token.toUpperCase();
-    else
-        tokens.push(token);
-
-    // Construct a fallback address to be used if the suburb name cannot be determined later.
-
-    let fallbackAddress = (postCode === undefined) ? address : [ ...tokens, state, postCode].join(" ");
-
-    // Pop tokens from the end of the array until a valid suburb name is encountered (allowing
-    // for a few spelling errors).  Note that this starts by examining for longer matches
-    // (consisting of four tokens) before examining shorter matches.  This approach ensures
-    // that the following address:
-    //
-    //     2,800 Woods Well RD COLEBATCH 5266
-    //
-    // is correctly converted to the following address:
-    //
-    //     2800 WOODS WELL ROAD, COLEBATCH SA 5266
-    //
-    // rather than (incorrectly) to the following address (notice that the street name has "BELL"
-    // instead of "WELL" because there actually is a street named "BELL ROAD").
-    //
-    //     2800 Woods BELL ROAD, COLEBATCH SA 5266
-
-    let suburbName = undefined;
-    for (let index = 4; index >= 1; index--) {
-        let suburbNameMatch = <string>didYouMean(tokens.slice(-index).join(" "), Object.keys(SuburbNames), { caseSensitive: false, returnType: didyoumean.ReturnTypeEnums.FIRST_CLOSEST_MATCH, thresholdType: didyoumean.ThresholdTypeEnums.EDIT_DISTANCE, threshold: 1, trimSpaces: true });
-        if (suburbNameMatch !== null) {
-            suburbName = SuburbNames[suburbNameMatch];
-            tokens.splice(-index, index);  // remove elements from the end of the array           
+    while (pageUrl !== undefined && !visitedPageUrls.includes(pageUrl)) {
+        if (visitedPageUrls.length >= MaximumRegisterPageCount) {
+            console.log(`Stopped reading the register after ${MaximumRegisterPageCount} pages.`);
             break;
         }
+        visitedPageUrls.push(pageUrl);
+
+        console.log(`Retrieving page: ${pageUrl}`);
+        let body = <string>await retrieve(pageUrl, false);
+        let registerPage = parseRegisterPage(body, pageUrl, profile.registerSelectors);
+        for (let registerDocument of registerPage.documents)
+            if (!registerDocuments.some(otherRegisterDocument => otherRegisterDocument.url === registerDocument.url))
+                registerDocuments.push(registerDocument);
+        pageUrl = registerPage.nextPageUrl;
     }
 
-    // Expand any street suffix (for example, this converts "ST" to "STREET").
-
-    token = tokens.pop();
-    let streetSuffix = StreetSuffixes[token.toUpperCase()];
-    if (streetSuffix === undefined)
-        streetSuffix = Object.values(StreetSuffixes).find(streetSuffix => streetSuffix === token.toUpperCase());  // the street suffix is already expanded
-
-    if (streetSuffix === undefined)
-        tokens.push(token);  // unrecognised street suffix
-    else
-        tokens.push(streetSuffix);  // add back the expanded street suffix
-
-    // Pop tokens from the end of the array until a valid street name is encountered (allowing
-    // for a few spelling errors).  Similar to the examination of suburb names, this examines
-    // longer matches before examining shorter matches (for the same reason).
-
-    let streetName = undefined;
-    for (let index = 5; index >= 1; index--) {
-        let streetNameMatch = <string>didYouMean(tokens.slice(-index).join(" "), Object.keys(StreetNames), { caseSensitive: false, returnType: didyoumean.ReturnTypeEnums.FIRST_CLOSEST_MATCH, thresholdType: didyoumean.ThresholdTypeEnums.EDIT_DISTANCE, threshold: 1, trimSpaces: true });
-        if (streetNameMatch !== null) {
-            streetName = streetNameMatch;
-            let suburbNames = StreetNames[streetNameMatch];
-            tokens.splice(-index, index);  // remove elements from the end of the array           
-
-            // If the suburb was not determined earlier then attempt to obtain the suburb based
-            // on the street (ie. if there is only one suburb associated with the street).  For
-            // example, this would automatically add the suburb to "22 Jefferson CT 5263",
-            // producing the address "22 JEFFERSON COURT, WELLINGTON EAST SA 5263".
-
-            if (suburbName === undefined && suburbNames.length === 1)
-                suburbName = SuburbNames[suburbNames[0]];
-
-            break;
-        }
-    }    
+    return sortRegisterDocuments(registerDocuments);
+}
 
-    // If a post code was included in the original address then use it to override the post code
-    // included in the suburb name (because the post code in the original address is more likely
-    // to be correct).
+// Parses the development applications of a council and saves them to every sink (adding the
+// number of each application saved to the specified lists of new, changed and unchanged
+// applications, and adding the PDFs, pages and applications to the specified run report).
 
-    if (postCode !== undefined && suburbName !== undefined)
-        suburbName = suburbName.replace(/\s+\d\d\d\d$/, " " + postCode);
+async function scrapeCouncil(database, sinks: Sink[], cache: ParseCache, profile: CouncilProfile, pdfSelection: string, applicationNumbersByStatus: { [status in InsertStatus]: string[] }, report: RunReport) {
+    console.log(`Scraping the development applications of the ${profile.fullName}.`);
+    loadReferenceData(profile.referenceDataDirectory);
 
-    // Reconstruct the address with a comma between the street address and the suburb.
+    // Read the page of development application PDFs.
 
-    if (suburbName === undefined || suburbName.trim() === "")
-        address = fallbackAddress;
-    else {
-        if (streetName !== undefined && streetName.trim() !== "")
-            tokens.push(streetName);
-        let streetAddress = tokens.join(" ").trim();
-        address = streetAddress + (streetAddress === "" ? "" : ", ") + suburbName;
-    }
+    let registerDocuments = await getRegisterDocuments(profile);
+    await updateRegisterDocuments(database, registerDocuments);
+    report.pdfsDiscovered += registerDocuments.length;
 
-    return address;
-}
+    // In replay mode only the PDFs that were saved in the snapshot can be parsed (and by default
+    // all of them are parsed).
 
-// Parses the details from the elements associated with a single page of the PDF (corresponding
-// to a single development application).
-
-function parseApplicationElements(elements: Element[], informationUrl: string) {
-    // Get the application number (by finding all elements that are at least 10% within the
-    // calculated bounding rectangle).
-
-    let applicationNumberHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "").startsWith("devappno"));
-    let applicantHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "applicant");
-    let applicationReceivedDateHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "applicationreciveddate:");
-    if (applicationReceivedDateHeadingElement === undefined)
-        applicationReceivedDateHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "applicationreceiveddate:");
-    let propertyDetailsHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "propertydetails:");
-    let referralsHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "referrals");
-    let totalDevelopmentCostsHeadingElement = elements.find(element => element.text.toLowerCase().replace(/\s/g, "") === "totaldevelopmentcosts:");
-
-    
-    if (applicationNumberHeadingElement === undefined) {
-        let elementSummary = elements.map(element => `[${element.text}]`).join("");
-        console.log(`Ignoring the page because the "Dev App No." text is missing.  Elements: ${elementSummary}`);
-        return undefined;
+    if (SnapshotMode === "replay") {
+        let snapshotIndex = readSnapshotIndex(FetchSettings.snapshotDirectory);
+        registerDocuments = registerDocuments.filter(registerDocument => snapshotIndex[registerDocument.url] !== undefined);
+        pdfSelection = pdfSelection || "all";
     }
 
-    // Get the application number.
-
-    let applicationNumberBounds: Rectangle = {
-        x: applicationNumberHeadingElement.x + applicationNumberHeadingElement.width,
-        y: applicationNumberHeadingElement.y,
-        width: applicationNumberHeadingElement.width,
-        height: applicationNumberHeadingElement.height
-    };
-    let applicationNumberElement = elements.find(element => getPercentageOfElementInRectangle(element, applicationNumberBounds) > 10);
-    let applicationNumber = (applicationNumberElement === undefined) ? "" : applicationNumberElement.text.replace(/\s/g, "");
-    
-    if (applicationNumber === "") {
-        let elementSummary = elements.map(element => `[${element.text}]`).join("");
-        console.log(`Could not find the application number on the PDF page for the current development application.  The development application will be ignored.  Elements: ${elementSummary}`);
-        return undefined;
+    if (registerDocuments.length === 0) {
+        console.log("No PDF files were found on the page.");
+        return;
     }
 
-    console.log(`    Found \"${applicationNumber}\".`);
-
-    // Get the received date.
-
-    let receivedDateBounds: Rectangle = {
-        x: applicationReceivedDateHeadingElement.x + applicationReceivedDateHeadingElement.width,
-        y: applicationReceivedDateHeadingElement.y,
-        width: applicationReceivedDateHeadingElement.width,
-        height: applicationReceivedDateHeadingElement.height
-    };
-    let receivedDateElement = elements.find(element => getPercentageOfElementInRectangle(element, receivedDateBounds) > 10);
-    let receivedDate = moment.invalid();
-    if (receivedDateElement !== undefined)
-        receivedDate = moment(receivedDateElement.text.trim(), "D/MM/YYYY", true);  // allows the leading zero of the day to be omitted
-
-    // Get the description.
-
-    if (applicantHeadingElement === undefined)
-        console.log(`Could not find the "Applicant" heading on the page and so the development application description may be truncated.`);
-    let descriptionBounds: Rectangle = {
-        x: applicationNumberElement.x + applicationNumberElement.width,
-        y: applicationNumberElement.y,
-        width: Number.MAX_VALUE,
-        height: (applicantHeadingElement === undefined) ? (applicationNumberElement.height * 2) : (applicantHeadingElement.y - applicationNumberElement.y)
-    };
-    let description = elements.filter(element => getPercentageOfElementInRectangle(element, descriptionBounds) > 10).map(element => element.text).join(" ").trim().replace(/\s\s+/g, " ");
-
-    // Get the address and legal description.
-
-    let addressBounds: Rectangle = {
-        x: propertyDetailsHeadingElement.x,
-        y: propertyDetailsHeadingElement.y + propertyDetailsHeadingElement.height,
-        width: (referralsHeadingElement === undefined) ? Number.MAX_VALUE : (referralsHeadingElement.x - propertyDetailsHeadingElement.x),
-        height: (totalDevelopmentCostsHeadingElement == undefined) ? Number.MAX_VALUE : (totalDevelopmentCostsHeadingElement.y - propertyDetailsHeadingElement.y - 2 * propertyDetailsHeadingElement.height)  // some extra padding
-    };
-    let addressElements = elements.filter(element => getPercentageOfElementInRectangle(element, addressBounds) > 10);
-    
-    // Group the address and legal description elements into rows.
-
-    let addressRows: Element[][] = [];
-    for (let addressElement of addressElements) {
-        let addressRow = addressRows.find(row => Math.abs(row[0].y - addressElement.y) < 5);  // approximate Y co-ordinate match
-        if (addressRow === undefined)
-            addressRows.push([ addressElement ]);  // start a new row
-        else
-            addressRow.push(addressElement);  // add to an existing row
-    }
-    
-    let address = (addressRows.length < 1) ? "" : addressRows[0].map(element => element.text).join(" ").trim().replace(/\s\s+/g, " ");
-    let legalDescription = (addressRows.length < 2) ? "" : addressRows.slice(1).map(row => row.map(element => element.text).join(" ")).join(" ").trim().replace(/\s\s+/g, " ");
-    address = formatAddress(address);
-
-    if (address === "") {
-        let elementSummary = elements.map(element => `[${element.text}]`).join("");
-        console.log(`Could not find an address for the current development application.  The development application will be ignored.  Elements: ${elementSummary}`);
-        return undefined;
-    }
+    // Select the PDFs to parse (by default, the most recent PDF and the least recently parsed
+    // PDF).
 
-    return {
-        applicationNumber: applicationNumber,
-        address: address,
-        description: (description === "") ? "No description provided" : description,
-        informationUrl: informationUrl,
-        commentUrl: CommentUrl,
-        scrapeDate: moment().format("YYYY-MM-DD"),
-        receivedDate: receivedDate.isValid() ? receivedDate.format("YYYY-MM-DD") : "",
-        legalDescription: legalDescription
+    let previousDocuments = {};
+    let datesParsed: { [url: string]: string } = {};
+    for (let document of await getDocuments(database)) {
+        previousDocuments[document.url] = document;
+        datesParsed[document.url] = document.date_parsed;
     }
-}
 
-// Parses the development applications in the specified date range.
+    pdfSelection = pdfSelection || DefaultPdfSelection;
+    let selectedPdfUrls = selectPdfUrls(registerDocuments, pdfSelection, datesParsed);
+    let { parserKey, addressKey } = getCacheKeys(profile);
+    report.pdfSelection = pdfSelection;
+    report.pdfsSelected += selectedPdfUrls.length;
+    console.log(`Found ${registerDocuments.length} PDF file(s).  Selected ${selectedPdfUrls.length} to parse using the "${pdfSelection}" selection.`);
 
-async function parsePdf(url: string) {
-    console.log(`Reading development applications from ${url}.`);
-
-    let developmentApplications = [];
+    for (let pdfUrl of selectedPdfUrls) {
+        console.log(`Parsing document: ${pdfUrl}`);
+        let previousDocument = previousDocuments[pdfUrl];
+
+        // Skip the PDF if the web site indicates that it is unchanged since it was last parsed
+        // (but still record that it was checked so that the round-robin selection moves on).
+        // If the parsing or the address formatting has changed since then, the applications are
+        // instead parsed again from the cache (only retrieving the PDF again if it is not
+        // cached).
+
+        let validators: FetchValidators = (previousDocument === undefined) ? undefined : { etag: previousDocument.etag, lastModified: previousDocument.last_modified };
+        let fetchResult = await fetchUrl(pdfUrl, true, FetchSettings, validators);
+        let buffer: Buffer = undefined;
+        let contentHash: string = undefined;
+        if (fetchResult.isNotModified) {
+            if (previousDocument.parser_key === parserKey && previousDocument.address_key === addressKey) {
+                console.log(`The document is not modified since it was last parsed and so will be skipped.`);
+                await updateDocument(database, pdfUrl, previousDocument.content_hash, fetchResult.etag, fetchResult.lastModified, parserKey, addressKey);
+                report.pdfsNotModified++;
+                continue;
+            }
 
-    // Read the PDF.
+            console.log(`The document is not modified since it was last parsed but the parsing or address formatting has changed, so it will be parsed again.`);
+            contentHash = previousDocument.content_hash;
+            if (contentHash === null || !(await isPdfCached(cache, contentHash, profile))) {
+                console.log(`The document is not cached and so will be retrieved again.`);
+                fetchResult = await fetchUrl(pdfUrl, true, FetchSettings);
+            }
+        }
 
-    let buffer = await request({ url: url, encoding: null, proxy: process.env.MORPH_PROXY });
-    await sleep(2000 + getRandom(0, 5) * 1000);
+        if (!fetchResult.isNotModified) {
+            buffer = <Buffer>fetchResult.content;
+            contentHash = crypto.createHash("sha256").update(buffer).digest("hex");
+            if (previousDocument !== undefined && previousDocument.content_hash === contentHash)
+                console.log(`The document is unchanged since it was last parsed.`);
+        }
 
-    // Parse the PDF.  Each page has the details of multiple applications.  Note that the PDF is
-    // re-parsed on each iteration of the loop (ie. once for each page).  This then avoids large
-    // memory usage by the PDF (just calling page._destroy() on each iteration of the loop appears
-    // not to be enough to release all memory used by the PDF parsing).
+        let quarantinedPages: QuarantinedPage[] = [];
+        let statistics = <PdfStatistics>{};
+        let developmentApplications = await parsePdfWithCache(cache, pdfUrl, buffer, contentHash, quarantinedPages, MemoryBudget * 1024 * 1024, profile, statistics);
+        addParsedPdf(report, developmentApplications, quarantinedPages, statistics);
+        console.log(`Parsed ${developmentApplications.length} development application(s) from document: ${pdfUrl}`);
 
-    for (let pageIndex = 0; pageIndex < 5000; pageIndex++) {  // limit to an arbitrarily large number of pages (to avoid any chance of an infinite loop)
-        let pdf = await pdfjs.getDocument({ data: buffer, disableFontFace: true, ignoreErrors: true });
-        if (pageIndex >= pdf.numPages)
-            break;
+        // Attempt to avoid reaching 512 MB memory usage (this will otherwise result in the
+        // current process being terminated by morph.io).
 
-        console.log(`Reading and parsing applications from page ${pageIndex + 1} of ${pdf.numPages}.`);
-        let page = await pdf.getPage(pageIndex + 1);
-        let textContent = await page.getTextContent();
-        let viewport = await page.getViewport(1.0);
-    
-        let elements: Element[] = textContent.items.map(item => {
-            let transform = pdfjs.Util.transform(viewport.transform, item.transform);
-    
-            // Work around the issue https://github.com/mozilla/pdf.js/issues/8276 (heights are
-            // exaggerated).  The problem seems to be that the height value is too large in some
-            // PDFs.  Provide an alternative, more accurate height value by using a calculation
-            // based on the transform matrix.
-    
-            let workaroundHeight = Math.sqrt(transform[2] * transform[2] + transform[3] * transform[3]);
-            return { text: item.str, x: transform[4], y: transform[5], width: item.width, height: workaroundHeight };
-        });
-
-        // Release the memory used by the PDF now that it is no longer required (it will be
-        // re-parsed on the next iteration of the loop for the next page).
-
-        await pdf.destroy();
         if (global.gc)
             global.gc();
 
-        // Sort the elements by Y co-ordinate and then by X co-ordinate.
-
-        let elementComparer = (a, b) => (a.y > b.y) ? 1 : ((a.y < b.y) ? -1 : ((a.x > b.x) ? 1 : ((a.x < b.x) ? -1 : 0)));
-        elements.sort(elementComparer);
+        // Merge each application with the versions of the application from other PDFs (so that
+        // the result does not depend on the order in which the PDFs are parsed).
 
-        let developmentApplication = parseApplicationElements(elements, url);
-        if (developmentApplication !== undefined)
-            if (!developmentApplications.some(otherDevelopmentApplication => otherDevelopmentApplication.applicationNumber === developmentApplication.applicationNumber))  // ignore duplicates
-                developmentApplications.push(developmentApplication);
-    }
-
-    return developmentApplications;
-}
-
-// Gets a random integer in the specified range: [minimum, maximum).
-
-function getRandom(minimum: number, maximum: number) {
-    return Math.floor(Math.random() * (Math.floor(maximum) - Math.ceil(minimum))) + Math.ceil(minimum);
-}
+        let reconciledApplications = [];
+        for (let developmentApplication of developmentApplications)
+            reconciledApplications.push(await reconcileWithSavedSources(database, pdfUrl, developmentApplication));
+
+        // Save the applications to every sink (if this fails the PDF is not recorded as parsed
+        // and so is parsed again on the next run).
+
+        console.log(`Saving development applications to the ${sinks.map(sink => sink.name).join(", ")} sink(s).`);
+        if (quarantinedPages.length > 0)
+            console.log(`Quarantining ${quarantinedPages.length} page(s) that could not be fully parsed.`);
+        let statuses: InsertStatus[];
+        try {
+            statuses = await saveToSinks(sinks, pdfUrl, reconciledApplications, quarantinedPages);
+        } catch (error) {
+            report.pdfsNotSaved++;
+            continue;
+        }
+        addSavedApplications(report, statuses);
+        reconciledApplications.forEach((reconciledApplication, index) => applicationNumbersByStatus[statuses[index]].push(reconciledApplication.applicationNumber));
 
-// Pauses for the specified number of milliseconds.
+        // Record when the PDF was parsed so that the round-robin selection chooses other PDFs
+        // on subsequent runs.
 
-function sleep(milliseconds: number) {
-    return new Promise(resolve => setTimeout(resolve, milliseconds));
+        await updateDocument(database, pdfUrl, contentHash, fetchResult.etag, fetchResult.lastModified, parserKey, addressKey);
+    }
 }
 
-// Parses the development applications.
+// Parses the development applications of the specified councils and saves them to the database
+// (and any other configured sinks).  The report of the run is saved in the [runs] table (even if
+// the run fails) and returned.
 
-async function main() {
+export async function scrape(databasePath: string, pdfSelection: string, profiles: CouncilProfile[]): Promise<RunReport> {
     // Ensure that the database exists.
 
-    let database = await initializeDatabase();
-
-    // Read the files containing all possible street names, street suffixes, suburb names and
-    // hundred names.  Note that these are not currently used.
-
-    StreetNames = {};
-    for (let line of fs.readFileSync("streetnames.txt").toString().replace(/\r/g, "").trim().split("\n")) {
-        let streetNameTokens = line.toUpperCase().split(",");
-        let streetName = streetNameTokens[0].trim();
-        let suburbName = streetNameTokens[1].trim();
-        (StreetNames[streetName] || (StreetNames[streetName] = [])).push(suburbName);  // several suburbs may exist for the same street name
-    }
-
-    StreetSuffixes = {};
-    for (let line of fs.readFileSync("streetsuffixes.txt").toString().replace(/\r/g, "").trim().split("\n")) {
-        let streetSuffixTokens = line.toUpperCase().split(",");
-        StreetSuffixes[streetSuffixTokens[0].trim()] = streetSuffixTokens[1].trim();
-    }
-
-    SuburbNames = {};
-    for (let line of fs.readFileSync("suburbnames.txt").toString().replace(/\r/g, "").trim().split("\n")) {
-        let suburbTokens = line.toUpperCase().split(",");
-        SuburbNames[suburbTokens[0].trim()] = suburbTokens[1].trim();
+    let database = await initializeDatabase(databasePath);
+
+    let report = createRunReport(profiles.map(profile => profile.name), pdfSelection);
+    let applicationNumbersByStatus: { [status in InsertStatus]: string[] } = { new: [], changed: [], unchanged: [] };
+    let sinks: Sink[] = [];
+
+    // The elements and applications parsed from each PDF are cached so that an unchanged PDF is
+    // not parsed again.
+
+    await pruneCache(database);
+    let cache = createSqliteCache(database);
+
+    // The sinks are opened within the try block so that a sink that cannot be opened (such as an
+    // unreachable Postgres database) is recorded as the error of the run.
+
+    try {
+        await openSinks(database, sinks);
+        for (let profile of profiles)
+            await scrapeCouncil(database, sinks, cache, profile, pdfSelection, applicationNumbersByStatus, report);
+    } catch (error) {
+        report.error = error.message;
+        throw error;
+    } finally {
+        for (let sink of sinks)
+            await sink.close();
+        finishRunReport(report, Thresholds);
+        console.log(formatRunReport(report));
+        await insertRun(database, report);
     }
 
-    HundredNames = [];
-    for (let line of fs.readFileSync("hundrednames.txt").toString().replace(/\r/g, "").trim().split("\n"))
-        HundredNames.push(line.trim().toUpperCase());
-
-    // Read the page of development application PDFs.
-
-    let year = moment().format("YYYY");
-
-    console.log(`Retrieving page: ${DevelopmentApplicationsUrl}`);
+    // Summarise the applications that were saved.
 
-    let body = await request({ url: DevelopmentApplicationsUrl, rejectUnauthorized: false, proxy: process.env.MORPH_PROXY });
-    await sleep(2000 + getRandom(0, 5) * 1000);
-    let $ = cheerio.load(body);
+    console.log(`Run summary: ${applicationNumbersByStatus.new.length} new, ${applicationNumbersByStatus.changed.length} changed and ${applicationNumbersByStatus.unchanged.length} unchanged application(s).`);
+    for (let status of [ "new", "changed", "unchanged" ])
+        if (applicationNumbersByStatus[status].length > 0)
+            console.log(`    ${status[0].toUpperCase() + status.substring(1)}: ${applicationNumbersByStatus[status].join(", ")}`);
+    return report;
+}
 
-    let pdfUrls: string[] = [];
-    for (let element of $("li.result-item div.result-item__url").get()) {
-        let pdfUrl = $(element).text();
-        if (pdfUrl.toLowerCase().includes(".pdf"))
-            if (!pdfUrls.some(url => url === pdfUrl))
-                pdfUrls.push(pdfUrl);
+// The usage message for the command line interface.
+
+const Usage = `Usage: node scraper.js [command] [options]
+
+Commands:
+    scrape                       Parses the development applications and saves them to the
+                                 database (the default command).
+        --pdf-selection <value>  The PDFs to parse: "all", "latest:N", "url:<url>",
+                                 "period:<YYYY|YYYY-MM|YYYY-MM-DD>" or "round-robin:N"
+                                 (defaults to MORPH_PDF_SELECTION or "${DefaultPdfSelection}").
+        --council <names>        The councils to scrape, separated by commas (defaults to
+                                 MORPH_COUNCILS or "${DefaultCouncilName}").
+        --database <path>        The database file (defaults to "data.sqlite").
+    parse-pdf <file-or-url>      Writes the development applications parsed from a PDF to
+                                 standard output as JSON (the database is not used).
+        --council <name>         The council that published the PDF.
+    format-address <text>        Writes the formatted address (and how each part of the address
+                                 was determined) to standard output as JSON.
+        --council <name>         The council whose reference data is used.
+    list-pdfs                    Writes the PDFs linked from the register page to standard
+                                 output (one per line, most recent period first: the URL,
+                                 period start, period end, publish date and title separated by
+                                 tabs).
+        --council <name>         The council whose register page is read.
+    check-reference-data         Validates the street, street suffix, suburb and hundred name
+                                 files, writing any malformed, duplicate or conflicting lines
+                                 to standard output.
+        --council <name>         The council whose reference data is validated.
+    propose-gazetteer            Writes proposed new lines for the street and suburb name files
+                                 to standard output as JSON (mined from the saved addresses
+                                 that did not match a known suburb).
+        --council <name>         The council whose addresses and reference data are used.
+        --database <path>        The database file (defaults to "data.sqlite").
+    export                       Writes the development applications saved in the database to
+                                 standard output.
+        --format <value>         The format: "ndjson" (the default), "csv" or "planningalerts".
+        --from <date>            Only exports applications scraped on or after this date
+                                 (YYYY-MM-DD).
+        --to <date>              Only exports applications scraped on or before this date
+                                 (YYYY-MM-DD).
+        --database <path>        The database file (defaults to "data.sqlite").
+    help                         Displays this message.
+
+The commands that accept a single council default to the first council in MORPH_COUNCILS (or
+"${DefaultCouncilName}").`;
+
+// Parses the command line arguments into a command, the positional arguments and the options
+// (for example, "--database test.sqlite" results in the option { database: "test.sqlite" }).
+
+function parseArguments(args: string[]) {
+    let positionals: string[] = [];
+    let options: { [name: string]: string } = {};
+    for (let index = 0; index < args.length; index++) {
+        let arg = args[index];
+        if (arg === "--help" || arg === "-h")
+            options["help"] = "true";
+        else if (arg.startsWith("--")) {
+            let separatorIndex = arg.indexOf("=");
+            if (separatorIndex >= 0)
+                options[arg.substring(2, separatorIndex)] = arg.substring(separatorIndex + 1);
+            else if (index + 1 < args.length)
+                options[arg.substring(2)] = args[++index];
+            else
+                throw new Error(`The option "${arg}" requires a value.`);
+        } else
+            positionals.push(arg);
     }
+    return { command: (positionals.length === 0) ? "scrape" : positionals.shift(), positionals: positionals, options: options };
+}
 
-    // Always parse the most recent PDF file and randomly select one other PDF file to parse.
+// Runs the command specified on the command line.
 
-    if (pdfUrls.length === 0) {
-        console.log("No PDF files were found on the page.");
+async function main() {
+    if (SnapshotMode !== undefined && SnapshotMode !== "replay" && SnapshotMode !== "record")
+        throw new Error(`The snapshot mode "${SnapshotMode}" is not supported (specify "replay" or "record").`);
+    if (!Number.isInteger(FetchSettings.retries) || FetchSettings.retries < 0 || !(FetchSettings.timeout > 0))
+        throw new Error(`The fetch retries "${process.env.MORPH_FETCH_RETRIES}" or timeout "${process.env.MORPH_FETCH_TIMEOUT}" is not valid.`);
+    if (!(MemoryBudget > 0))
+        throw new Error(`The memory budget "${process.env.MORPH_MEMORY_BUDGET}" is not a positive number of megabytes.`);
+    if (!(Thresholds.minimumApplications >= 0) || !(Thresholds.maximumFallbackRate >= 0) || !(Thresholds.maximumMissingReceivedDateRate >= 0))
+        throw new Error(`The health thresholds "${process.env.MORPH_MINIMUM_APPLICATIONS}", "${process.env.MORPH_MAXIMUM_FALLBACK_RATE}" or "${process.env.MORPH_MAXIMUM_MISSING_RECEIVED_DATE_RATE}" are not valid (specify a number of applications and fractions such as 0.2).`);
+
+    let { command, positionals, options } = parseArguments(process.argv.slice(2));
+    let supportedOptions = {
+        scrape: [ "help", "pdf-selection", "council", "database" ],
+        "parse-pdf": [ "help", "council" ],
+        "format-address": [ "help", "council" ],
+        "list-pdfs": [ "help", "council" ],
+        "check-reference-data": [ "help", "council" ],
+        "propose-gazetteer": [ "help", "council", "database" ],
+        export: [ "help", "format", "from", "to", "database" ]
+    }[command] || [ "help" ];
+    let unsupportedOption = Object.keys(options).find(option => !supportedOptions.includes(option));
+    if (unsupportedOption !== undefined)
+        throw new Error(`The option "--${unsupportedOption}" is not supported by the "${command}" command.\n\n${Usage}`);
+
+    if (command === "help" || options["help"] !== undefined) {
+        console.log(Usage);
         return;
     }
 
-    console.log(`Found ${pdfUrls.length} PDF file(s).  Selecting two to parse.`);
-
-    // Select the most recent PDF.  And randomly select one other PDF (avoid processing all PDFs
-    // at once because this may use too much memory, resulting in morph.io terminating the current
-    // process).
-
-    let selectedPdfUrls: string[] = [];
-    selectedPdfUrls.push(pdfUrls.shift());  // the most recent PDF
-    if (pdfUrls.length > 0)
-        selectedPdfUrls.push(pdfUrls[getRandom(0, pdfUrls.length)]);  // a randomly selected PDF
-    if (getRandom(0, 2) === 0)
-        selectedPdfUrls.reverse();
-
-    for (let pdfUrl of selectedPdfUrls) {
-        console.log(`Parsing document: ${pdfUrl}`);
-        let developmentApplications = await parsePdf(pdfUrl);
-        console.log(`Parsed ${developmentApplications.length} development application(s) from document: ${pdfUrl}`);
-
-        // Attempt to avoid reaching 512 MB memory usage (this will otherwise result in the
-        // current process being terminated by morph.io).
-
-        if (global.gc)
-            global.gc();
-
-        console.log(`Saving development applications to the database.`);
-        for (let developmentApplication of developmentApplications)
-            await insertRow(database, developmentApplication);
-    }
+    // Every command other than scrape (and export) applies to a single council.
+
+    let profiles = getCouncilProfiles(options["council"] || Councils);
+    if (profiles.length === 0)
+        throw new Error(`No council was specified.\n\n${Usage}`);
+    if (command !== "scrape" && options["council"] !== undefined && profiles.length !== 1)
+        throw new Error(`The "${command}" command accepts a single council.\n\n${Usage}`);
+    let profile = profiles[0];
+
+    if (command === "scrape") {
+        let report = await scrape(options["database"] || "data.sqlite", options["pdf-selection"] || process.env.MORPH_PDF_SELECTION, profiles);
+        if (report.healthProblems.length > 0) {
+            console.log(`Complete, but the run is unhealthy (${report.healthProblems.length} health threshold(s) were breached).`);
+            process.exitCode = 1;
+        } else
+            console.log("Complete.");
+    } else if (command === "parse-pdf" || command === "format-address") {
+        if (positionals.length !== 1)
+            throw new Error(`The "${command}" command requires a single argument.\n\n${Usage}`);
+
+        // Progress messages are written to standard error so that standard output only contains
+        // the JSON.
+
+        console.log = console.error;
+        loadReferenceData(profile.referenceDataDirectory);
+
+        if (command === "parse-pdf") {
+            let source = positionals[0];
+            let buffer = /^https?:\/\//i.test(source) ? <Buffer>await retrieve(source, true) : fs.readFileSync(source);
+            let quarantinedPages: QuarantinedPage[] = [];
+            let developmentApplications = await parsePdf(source, buffer, quarantinedPages, MemoryBudget * 1024 * 1024, profile);
+            for (let quarantinedPage of quarantinedPages)
+                console.log(`Page ${quarantinedPage.pageNumber} was ${quarantinedPage.status === "rejected" ? "rejected" : "only partially parsed"}: ${quarantinedPage.reasons.join("  ")}`);
+            process.stdout.write(JSON.stringify(developmentApplications, null, 4) + "\n");
+        } else
+            process.stdout.write(JSON.stringify(parseAddress(positionals[0]), null, 4) + "\n");
+    } else if (command === "list-pdfs") {
+        if (positionals.length !== 0)
+            throw new Error(`The "list-pdfs" command does not accept any arguments.\n\n${Usage}`);
+
+        let log = console.log;
+        console.log = console.error;
+        for (let registerDocument of await getRegisterDocuments(profile))
+            log([ registerDocument.url, registerDocument.periodStart, registerDocument.periodEnd, registerDocument.publishDate, registerDocument.title ].map(value => value || "").join("\t"));
+    } else if (command === "check-reference-data") {
+        if (positionals.length !== 0)
+            throw new Error(`The "check-reference-data" command does not accept any arguments.\n\n${Usage}`);
+
+        let log = console.log;
+        console.log = console.error;
+        let problems = loadReferenceData(profile.referenceDataDirectory);
+        for (let problem of problems)
+            log(`${problem.fileName}:${problem.lineNumber}: ${problem.kind}: ${problem.message}`);
+        if (problems.length > 0)
+            process.exitCode = 1;
+    } else if (command === "propose-gazetteer") {
+        if (positionals.length !== 0)
+            throw new Error(`The "propose-gazetteer" command does not accept any arguments.\n\n${Usage}`);
+
+        console.log = console.error;
+        loadReferenceData(profile.referenceDataDirectory);
+        let database = await initializeDatabase(options["database"] || "data.sqlite");
+        let proposals = proposeGazetteerEntries(await getFallbackAddresses(database, profile.name));
+        process.stdout.write(JSON.stringify(proposals, null, 4) + "\n");
+    } else if (command === "export") {
+        if (positionals.length !== 0)
+            throw new Error(`The "export" command does not accept any arguments.\n\n${Usage}`);
+
+        let format = options["format"] || "ndjson";
+        if (!ExportFormats.includes(format))
+            throw new Error(`The export format "${format}" is not supported.\n\n${Usage}`);
+        for (let option of [ "from", "to" ])
+            if (options[option] !== undefined && !moment(options[option], "YYYY-MM-DD", true).isValid())
+                throw new Error(`The date "${options[option]}" specified by "--${option}" is not a valid date (specify YYYY-MM-DD).`);
+
+        console.log = console.error;
+        let database = await initializeDatabase(options["database"] || "data.sqlite");
+        let applications = filterByDateScraped(await getExportedApplications(database), options["from"], options["to"]);
+        process.stdout.write(formatApplications(applications, format));
+    } else
+        throw new Error(`The command "${command}" is not supported.\n\n${Usage}`);
 }
 
-main().then(() => console.log("Complete.")).catch(error => console.error(error));
+if (require.main === module)
+    main().catch(error => {
+        console.error(error);
+        process.exitCode = 1;
+    });
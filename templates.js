@@ -0,0 +1,66 @@
+// The page templates of the development register PDFs published by the Coorong District Council
+// (see PageTemplate).  The first template is the current layout and the later templates are the
+// variants seen in older PDFs.
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.CoorongPageTemplates = exports.CoorongRecivedDatePageTemplate = exports.CoorongPageTemplate = void 0;
+// The current layout.  The application number is to the right of the "Dev App No." heading and
+// the description continues to the right of the application number down to the "Applicant"
+// heading.  The applicant is the row to the right of the "Applicant" heading (up to the
+// "Referrals" column).  The address and legal description are below the "Property Details:"
+// heading (the first row is the address), beside the "Referrals" column.
+exports.CoorongPageTemplate = {
+    name: "coorong",
+    fields: {
+        applicationNumber: {
+            headings: [/^devappno/],
+            reads: [{ direction: "right", extent: "element" }]
+        },
+        description: {
+            anchor: "applicationNumber",
+            reads: [{ direction: "right", extent: "region", terminators: ["applicant"], lines: 2 }]
+        },
+        applicant: {
+            headings: ["Applicant"],
+            reads: [
+                { direction: "right", extent: "region", terminators: ["referrals"] },
+                { direction: "below", extent: "region", terminators: ["referrals"], lines: 1.5 }
+            ]
+        },
+        receivedDate: {
+            headings: ["Application Received Date:"],
+            reads: [{ direction: "right", extent: "element" }]
+        },
+        propertyDetails: {
+            headings: ["Property Details:"],
+            reads: [{ direction: "below", extent: "region", terminators: ["referrals", "totalDevelopmentCosts"], padding: 1 }]
+        },
+        referrals: {
+            headings: ["Referrals"],
+            reads: [{ direction: "below", extent: "region", terminators: ["totalDevelopmentCosts"], padding: 1 }]
+        },
+        totalDevelopmentCosts: {
+            headings: ["Total Development Costs:"],
+            reads: [{ direction: "right", extent: "element" }]
+        },
+        decisions: {
+            headings: [/(approval|decision):$/],
+            reads: [{ direction: "right", extent: "element" }],
+            isRepeated: true
+        }
+    }
+};
+// The older layout, which misspells the received date heading as "Application Recived Date:"
+// (sometimes run together as "Application Reciveddate:").
+exports.CoorongRecivedDatePageTemplate = {
+    name: "coorong-reciveddate",
+    fields: {
+        ...exports.CoorongPageTemplate.fields,
+        receivedDate: {
+            ...exports.CoorongPageTemplate.fields.receivedDate,
+            headings: ["Application Recived Date:"] // white space is ignored so this also matches "Reciveddate"
+        }
+    }
+};
+exports.CoorongPageTemplates = [exports.CoorongPageTemplate, exports.CoorongRecivedDatePageTemplate];
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoidGVtcGxhdGVzLmpzIiwic291cmNlUm9vdCI6IiIsInNvdXJjZXMiOlsidGVtcGxhdGVzLnRzIl0sIm5hbWVzIjpbXSwibWFwcGluZ3MiOiJBQUFBLGdHQUFnRztBQUNoRyxnR0FBZ0c7QUFDaEcsK0JBQStCO0FBRS9CLFlBQVksQ0FBQzs7O0FBSWIsK0ZBQStGO0FBQy9GLDJGQUEyRjtBQUMzRix3RkFBd0Y7QUFDeEYsNEZBQTRGO0FBQzVGLHlFQUF5RTtBQUU1RCxRQUFBLG1CQUFtQixHQUFpQjtJQUM3QyxJQUFJLEVBQUUsU0FBUztJQUNmLE1BQU0sRUFBRTtRQUNKLGlCQUFpQixFQUFFO1lBQ2YsUUFBUSxFQUFFLENBQUUsV0FBVyxDQUFFO1lBQ3pCLEtBQUssRUFBRSxDQUFFLEVBQUUsU0FBUyxFQUFFLE9BQU8sRUFBRSxNQUFNLEVBQUUsU0FBUyxFQUFFLENBQUU7U0FDdkQ7UUFDRCxXQUFXLEVBQUU7WUFDVCxNQUFNLEVBQUUsbUJBQW1CO1lBQzNCLEtBQUssRUFBRSxDQUFFLEVBQUUsU0FBUyxFQUFFLE9BQU8sRUFBRSxNQUFNLEVBQUUsUUFBUSxFQUFFLFdBQVcsRUFBRSxDQUFFLFdBQVcsQ0FBRSxFQUFFLEtBQUssRUFBRSxDQUFDLEVBQUUsQ0FBRTtTQUM5RjtRQUNELFNBQVMsRUFBRTtZQUNQLFFBQVEsRUFBRSxDQUFFLFdBQVcsQ0FBRTtZQUN6QixLQUFLLEVBQUU7Z0JBQ0gsRUFBRSxTQUFTLEVBQUUsT0FBTyxFQUFFLE1BQU0sRUFBRSxRQUFRLEVBQUUsV0FBVyxFQUFFLENBQUUsV0FBVyxDQUFFLEVBQUU7Z0JBQ3RFLEVBQUUsU0FBUyxFQUFFLE9BQU8sRUFBRSxNQUFNLEVBQUUsUUFBUSxFQUFFLFdBQVcsRUFBRSxDQUFFLFdBQVcsQ0FBRSxFQUFFLEtBQUssRUFBRSxHQUFHLEVBQUU7YUFDckY7U0FDSjtRQUNELFlBQVksRUFBRTtZQUNWLFFBQVEsRUFBRSxDQUFFLDRCQUE0QixDQUFFO1lBQzFDLEtBQUssRUFBRSxDQUFFLEVBQUUsU0FBUyxFQUFFLE9BQU8sRUFBRSxNQUFNLEVBQUUsU0FBUyxFQUFFLENBQUU7U0FDdkQ7UUFDRCxlQUFlLEVBQUU7WUFDYixRQUFRLEVBQUUsQ0FBRSxtQkFBbUIsQ0FBRTtZQUNqQyxLQUFLLEVBQUUsQ0FBRSxFQUFFLFNBQVMsRUFBRSxPQUFPLEVBQUUsTUFBTSxFQUFFLFFBQVEsRUFBRSxXQUFXLEVBQUUsQ0FBRSxXQUFXLEVBQUUsdUJBQXVCLENBQUUsRUFBRSxPQUFPLEVBQUUsQ0FBQyxFQUFFLENBQUU7U0FDekg7UUFDRCxTQUFTLEVBQUU7WUFDUCxRQUFRLEVBQUUsQ0FBRSxXQUFXLENBQUU7WUFDekIsS0FBSyxFQUFFLENBQUUsRUFBRSxTQUFTLEVBQUUsT0FBTyxFQUFFLE1BQU0sRUFBRSxRQUFRLEVBQUUsV0FBVyxFQUFFLENBQUUsdUJBQXVCLENBQUUsRUFBRSxPQUFPLEVBQUUsQ0FBQyxFQUFFLENBQUU7U0FDNUc7UUFDRCxxQkFBcUIsRUFBRTtZQUNuQixRQUFRLEVBQUUsQ0FBRSwwQkFBMEIsQ0FBRTtZQUN4QyxLQUFLLEVBQUUsQ0FBRSxFQUFFLFNBQVMsRUFBRSxPQUFPLEVBQUUsTUFBTSxFQUFFLFNBQVMsRUFBRSxDQUFFO1NBQ3ZEO1FBQ0QsU0FBUyxFQUFFO1lBQ1AsUUFBUSxFQUFFLENBQUUsdUJBQXVCLENBQUU7WUFDckMsS0FBSyxFQUFFLENBQUUsRUFBRSxTQUFTLEVBQUUsT0FBTyxFQUFFLE1BQU0sRUFBRSxTQUFTLEVBQUUsQ0FBRTtZQUNwRCxVQUFVLEVBQUUsSUFBSTtTQUNuQjtLQUNKO0NBQ0osQ0FBQztBQUVGLDZGQUE2RjtBQUM3RiwwREFBMEQ7QUFFN0MsUUFBQSw4QkFBOEIsR0FBaUI7SUFDeEQsSUFBSSxFQUFFLHFCQUFxQjtJQUMzQixNQUFNLEVBQUU7UUFDSixHQUFHLDJCQUFtQixDQUFDLE1BQU07UUFDN0IsWUFBWSxFQUFFO1lBQ1YsR0FBRywyQkFBbUIsQ0FBQyxNQUFNLENBQUMsWUFBWTtZQUMxQyxRQUFRLEVBQUUsQ0FBRSwyQkFBMkIsQ0FBRSxDQUFFLDREQUE0RDtTQUMxRztLQUNKO0NBQ0osQ0FBQztBQUVXLFFBQUEsb0JBQW9CLEdBQW1CLENBQUUsMkJBQW1CLEVBQUUsc0NBQThCLENBQUUsQ0FBQyJ9
\ No newline at end of file
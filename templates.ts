@@ -0,0 +1,71 @@
+// The page templates of the development register PDFs published by the Coorong District Council
+// (see PageTemplate).  The first template is the current layout and the later templates are the
+// variants seen in older PDFs.
+
+"use strict";
+
+import { PageTemplate } from "./layout";
+
+// The current layout.  The application number is to the right of the "Dev App No." heading and
+// the description continues to the right of the application number down to the "Applicant"
+// heading.  The applicant is the row to the right of the "Applicant" heading (up to the
+// "Referrals" column).  The address and legal description are below the "Property Details:"
+// heading (the first row is the address), beside the "Referrals" column.
+
+export const CoorongPageTemplate: PageTemplate = {
+    name: "coorong",
+    fields: {
+        applicationNumber: {
+            headings: [ /^devappno/ ],
+            reads: [ { direction: "right", extent: "element" } ]
+        },
+        description: {
+            anchor: "applicationNumber",
+            reads: [ { direction: "right", extent: "region", terminators: [ "applicant" ], lines: 2 } ]
+        },
+        applicant: {
+            headings: [ "Applicant" ],
+            reads: [
+                { direction: "right", extent: "region", terminators: [ "referrals" ] },
+                { direction: "below", extent: "region", terminators: [ "referrals" ], lines: 1.5 }
+            ]
+        },
+        receivedDate: {
+            headings: [ "Application Received Date:" ],
+            reads: [ { direction: "right", extent: "element" } ]
+        },
+        propertyDetails: {
+            headings: [ "Property Details:" ],
+            reads: [ { direction: "below", extent: "region", terminators: [ "referrals", "totalDevelopmentCosts" ], padding: 1 } ]
+        },
+        referrals: {
+            headings: [ "Referrals" ],
+            reads: [ { direction: "below", extent: "region", terminators: [ "totalDevelopmentCosts" ], padding: 1 } ]
+        },
+        totalDevelopmentCosts: {
+            headings: [ "Total Development Costs:" ],
+            reads: [ { direction: "right", extent: "element" } ]
+        },
+        decisions: {
+            headings: [ /(approval|decision):$/ ],
+            reads: [ { direction: "right", extent: "element" } ],
+            isRepeated: true
+        }
+    }
+};
+
+// The older layout, which misspells the received date heading as "Application Recived Date:"
+// (sometimes run together as "Application Reciveddate:").
+
+export const CoorongRecivedDatePageTemplate: PageTemplate = {
+    name: "coorong-reciveddate",
+    fields: {
+        ...CoorongPageTemplate.fields,
+        receivedDate: {
+            ...CoorongPageTemplate.fields.receivedDate,
+            headings: [ "Application Recived Date:" ]  // white space is ignored so this also matches "Reciveddate"
+        }
+    }
+};
+
+export const CoorongPageTemplates: PageTemplate[] = [ CoorongPageTemplate, CoorongRecivedDatePageTemplate ];
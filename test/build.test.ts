@@ -0,0 +1,30 @@
+// Tests that the committed JavaScript (which is what morph.io runs) is the output of compiling the
+// current TypeScript, so that a change to the TypeScript is not committed without running
+// "npm run build".
+
+"use strict";
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+
+describe("build", () => {
+    it("commits the compiled JavaScript of every module", function() {
+        this.timeout(60000);
+        let rootDirectory = path.resolve(__dirname, "..");
+        let configFile = ts.readConfigFile(path.join(rootDirectory, "tsconfig.json"), ts.sys.readFile);
+        let config = ts.parseJsonConfigFileContent(configFile.config, ts.sys, rootDirectory);
+
+        // Compile the modules (but not the tests, which are not committed) in memory and compare
+        // the output with the committed JavaScript.
+
+        let fileNames = config.fileNames.filter(fileName => path.dirname(path.resolve(fileName)) === rootDirectory);
+        let staleFileNames: string[] = [];
+        ts.createProgram(fileNames, config.options).emit(undefined, (fileName, text) => {
+            if (!fs.existsSync(fileName) || fs.readFileSync(fileName, "utf8") !== text)
+                staleFileNames.push(path.basename(fileName));
+        });
+        assert.deepStrictEqual(staleFileNames, [], `Run "npm run build" to compile ${staleFileNames.join(", ")} again.`);
+    });
+});
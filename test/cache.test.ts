@@ -0,0 +1,100 @@
+// Tests the caching of the elements and applications parsed from each PDF (using a cache held in
+// memory and generated PDFs).
+
+"use strict";
+
+import * as assert from "assert";
+import { QuarantinedPage, PdfStatistics, loadReferenceData } from "../parser";
+import { CoorongProfile } from "../councils";
+import { ParseCache, createMemoryCache, getCacheKeys, isPdfCached, parsePdfWithCache } from "../cache";
+import { PdfText, createPdf } from "./pdf";
+
+// Creates the text of a page laid out in the same way as a page of a Coorong development register
+// PDF (without an application number if none is specified).
+
+function createPageTexts(applicationNumber: string, address: string): PdfText[] {
+    return [
+        { text: "Dev App No.", x: 20, y: 50 },
+        { text: applicationNumber, x: 85, y: 50 },
+        { text: "Erect a verandah", x: 150, y: 50 },
+        { text: "Applicant", x: 20, y: 62 },
+        { text: "J Smith", x: 70, y: 62 },
+        { text: "Application Received Date:", x: 20, y: 80 },
+        { text: "5/03/2019", x: 145, y: 80 },
+        { text: "Property Details:", x: 20, y: 100 },
+        { text: "Referrals", x: 300, y: 100 },
+        { text: address, x: 20, y: 115 },
+        { text: "Lot 12 DP 34567", x: 20, y: 127 },
+        { text: "Total Development Costs:", x: 20, y: 170 }
+    ].filter(pdfText => pdfText.text !== "");
+}
+
+// A buffer that is not a PDF (so that any attempt to extract the elements from it fails).
+
+const NotPdf = Buffer.from("not a PDF");
+
+describe("cache", () => {
+    before(() => loadReferenceData());
+
+    let pdf: Buffer;
+    before(() => pdf = createPdf([ createPageTexts("581/123/19", "22 Jefferson CT 5263"), createPageTexts("", "3 Albert Ct Meningee 5264") ]));
+
+    it("replays the applications of an unchanged PDF without parsing it again", async () => {
+        let cache = createMemoryCache();
+        let quarantinedPages: QuarantinedPage[] = [];
+        let developmentApplications = await parsePdfWithCache(cache, "https://example.com/register.pdf", pdf, "hash", quarantinedPages);
+        assert.deepStrictEqual(developmentApplications.map(developmentApplication => developmentApplication.address), [ "22 JEFFERSON COURT, WELLINGTON EAST SA 5263" ]);
+        assert.deepStrictEqual(quarantinedPages.map(quarantinedPage => [ quarantinedPage.pageNumber, quarantinedPage.status ]), [ [ 2, "rejected" ] ]);
+
+        let replayedQuarantinedPages: QuarantinedPage[] = [];
+        let statistics = <PdfStatistics>{};
+        let replayedApplications = await parsePdfWithCache(cache, "https://example.com/renamed.pdf", NotPdf, "hash", replayedQuarantinedPages, undefined, CoorongProfile, statistics);
+        assert.deepStrictEqual(replayedApplications.map(developmentApplication => [ developmentApplication.applicationNumber, developmentApplication.informationUrl ]), [ [ "581/123/19", "https://example.com/renamed.pdf" ] ]);
+        assert.deepStrictEqual(replayedQuarantinedPages.map(quarantinedPage => [ quarantinedPage.url, quarantinedPage.pageNumber ]), [ [ "https://example.com/renamed.pdf", 2 ] ]);
+        assert.strictEqual(statistics.pageCount, 2);
+    });
+
+    it("parses the cached elements again when the parser changes", async () => {
+        let cache = createMemoryCache();
+        await parsePdfWithCache(cache, "https://example.com/register.pdf", pdf, "hash");
+
+        // Cache the applications under a different parser key (as though parsed by another
+        // version of the parser) so that only the elements of each page are found.
+
+        let otherCache: ParseCache = { ...cache, getParse: (contentHash, key) => cache.getParse(contentHash, key + "-other") };
+        let developmentApplications = await parsePdfWithCache(otherCache, "https://example.com/register.pdf", NotPdf, "hash");
+        assert.deepStrictEqual(developmentApplications.map(developmentApplication => developmentApplication.applicationNumber), [ "581/123/19" ]);
+        assert.strictEqual((await cache.getPages("hash", getCacheKeys(CoorongProfile).elementsKey)).length, 2);
+    });
+
+    it("derives only the addresses again when the address stage or reference data changes", async () => {
+        let cache = createMemoryCache();
+        await parsePdfWithCache(cache, "https://example.com/register.pdf", pdf, "hash");
+
+        // Make the cached applications stale (as though parsed using different reference data
+        // that could not format the address of the first page, so that both pages were rejected)
+        // and mark the cached details of the first page (to show that the page is not parsed
+        // again).
+
+        let { parserKey, addressKey } = getCacheKeys(CoorongProfile);
+        let cachedParse = await cache.getParse("hash", parserKey);
+        let parsedPages = cachedParse.parsedPages.map(parsedPage => (parsedPage.pageDetails === undefined) ? parsedPage : { ...parsedPage, pageDetails: { ...parsedPage.pageDetails, description: "Erect a cached verandah" } });
+        await cache.saveParse("hash", parserKey, { ...cachedParse, addressKey: "stale", parsedPages: parsedPages, developmentApplications: [], quarantinedPages: [ 1, 2 ].map(pageNumber => ({ url: "https://example.com/register.pdf", pageNumber: pageNumber, applicationNumber: "", status: <"rejected">"rejected", reasons: [ "The address is missing." ], elements: [] })) });
+        assert.strictEqual(await isPdfCached(cache, "hash"), true);
+
+        let quarantinedPages: QuarantinedPage[] = [];
+        let developmentApplications = await parsePdfWithCache(cache, "https://example.com/register.pdf", undefined, "hash", quarantinedPages);
+        assert.deepStrictEqual(developmentApplications.map(developmentApplication => [ developmentApplication.address, developmentApplication.description ]), [ [ "22 JEFFERSON COURT, WELLINGTON EAST SA 5263", "Erect a cached verandah" ] ]);
+        assert.deepStrictEqual(quarantinedPages.map(quarantinedPage => [ quarantinedPage.pageNumber, quarantinedPage.status ]), [ [ 2, "rejected" ] ]);
+        assert.ok(quarantinedPages[0].elements.length > 0);
+        assert.strictEqual((await cache.getParse("hash", parserKey)).addressKey, addressKey);
+    });
+
+    it("reports whether a PDF can be parsed without retrieving it", async () => {
+        let cache = createMemoryCache();
+        assert.strictEqual(await isPdfCached(cache, "hash"), false);
+        await parsePdfWithCache(cache, "https://example.com/register.pdf", pdf, "hash");
+        assert.strictEqual(await isPdfCached(cache, "hash"), true);
+        await assert.rejects(parsePdfWithCache(cache, "https://example.com/other.pdf", undefined, "other-hash"), /not cached/);
+    });
+});
@@ -0,0 +1,36 @@
+// Tests the selection of council profiles and the reading of a register page laid out differently
+// to the Coorong register page.
+
+"use strict";
+
+import * as assert from "assert";
+import { CoorongProfile, DefaultRegisterSelectors, getCouncilProfiles } from "../councils";
+import { parseRegisterPage } from "../register";
+
+describe("councils", () => {
+    describe("getCouncilProfiles", () => {
+        it("gets the profiles of a comma separated list of councils", () => {
+            assert.deepStrictEqual(getCouncilProfiles(" Coorong ,"), [ CoorongProfile ]);
+            assert.deepStrictEqual(getCouncilProfiles(""), []);
+        });
+
+        it("rejects an unknown council", () => {
+            assert.throws(() => getCouncilProfiles("coorong,nowhere"), /"nowhere" is not supported/);
+        });
+    });
+
+    describe("registerSelectors", () => {
+        it("reads a register page using the selectors of the profile", () => {
+            let body = `<html><body><table>
+                <tr class="document"><td><a class="document-link" href="/files/DA_Register_March_2019.pdf">Development Register March 2019</a></td><td class="document-date">2 April 2019</td></tr>
+                <tr class="document"><td><a class="document-link" href="/files/DA_Register_February_2019.pdf">Development Register February 2019</a></td><td class="document-date">4 March 2019</td></tr>
+            </table><a class="older" href="/register?page=2">Older</a></body></html>`;
+            let selectors = { ...DefaultRegisterSelectors, item: "tr.document", url: ".document-url", title: "a.document-link", date: ".document-date", nextPage: "a.older" };
+            let registerPage = parseRegisterPage(body, "https://www.example.sa.gov.au/register", selectors);
+            assert.deepStrictEqual(registerPage.documents.map(document => document.url), [ "https://www.example.sa.gov.au/files/DA_Register_March_2019.pdf", "https://www.example.sa.gov.au/files/DA_Register_February_2019.pdf" ]);
+            assert.strictEqual(registerPage.documents[0].title, "Development Register March 2019");
+            assert.strictEqual(registerPage.documents[0].periodStart, "2019-03-01");
+            assert.strictEqual(registerPage.nextPageUrl, "https://www.example.sa.gov.au/register?page=2");
+        });
+    });
+});
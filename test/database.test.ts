@@ -0,0 +1,177 @@
+// Tests the sqlite sink, the merging of the versions of an application saved from different PDFs
+// and the upgrading of the tables of an earlier version (against sqlite databases held in memory or
+// in a temporary directory).  The tests are skipped if the sqlite3 native module cannot be loaded
+// by the current version of Node.
+
+"use strict";
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseAddress, parseLegalDescription } from "../parser";
+
+// Creates a development application (as parsed from a PDF).
+
+function createApplication(applicationNumber: string, description: string) {
+    return {
+        council: "coorong",
+        applicationNumber: applicationNumber,
+        address: "22 JEFFERSON COURT, WELLINGTON EAST SA 5263",
+        description: description,
+        informationUrl: "https://example.com/register.pdf",
+        commentUrl: "mailto:council@coorong.sa.gov.au",
+        scrapeDate: "2019-03-10",
+        receivedDate: "2019-03-05",
+        legalDescription: "Lot 12 DP 34567",
+        parsedLegalDescription: parseLegalDescription("Lot 12 DP 34567"),
+        applicant: "J Smith",
+        totalDevelopmentCost: 12500,
+        referrals: [ "EPA" ],
+        decisions: [],
+        parsedAddress: parseAddress("22 Jefferson Ct Wellington East 5263")
+    };
+}
+
+describe("database", () => {
+    let databaseModule: typeof import("../database");
+    let database;
+
+    before(function() {
+        try {
+            databaseModule = require("../database");
+        } catch (error) {
+            console.log(`Skipping the database tests because sqlite3 could not be loaded: ${error.message.split("\n")[0]}`);
+            this.skip();
+        }
+    });
+
+    beforeEach(async () => {
+        database = await databaseModule.initializeDatabase(":memory:");
+    });
+
+    describe("createSqliteSink", () => {
+        it("saves the applications when the transaction is committed", async () => {
+            let sink = databaseModule.createSqliteSink(database);
+            await sink.begin("https://example.com/register.pdf");
+            assert.strictEqual(await sink.saveApplication(createApplication("581/123/19", "Erect a verandah")), "new");
+            await sink.saveQuarantinedPage({ url: "https://example.com/register.pdf", pageNumber: 3, applicationNumber: "", status: "rejected", reasons: [ "The address is missing." ], elements: [] });
+            await sink.commit();
+
+            let rows = await databaseModule.getSqlRows(database, "select [council_reference], [description], [legal_description], [council] from [data]", []);
+            assert.deepStrictEqual(rows.map(row => ({ ...row })), [ { council_reference: "581/123/19", description: "Erect a verandah", legal_description: "Lot 12 DP 34567", council: "coorong" } ]);
+            assert.strictEqual((await databaseModule.getSqlRow(database, "select [plan_number] from [legal_descriptions]", [])).plan_number, "34567");
+            assert.strictEqual((await databaseModule.getSqlRow(database, "select [referral] from [referrals]", [])).referral, "EPA");
+            assert.strictEqual((await databaseModule.getSqlRow(database, "select [page_number] from [quarantine]", [])).page_number, 3);
+        });
+
+        it("saves nothing when the transaction is rolled back", async () => {
+            let sink = databaseModule.createSqliteSink(database);
+            await sink.begin("https://example.com/register.pdf");
+            await sink.saveApplication(createApplication("581/123/19", "Erect a verandah"));
+            await sink.rollback();
+
+            for (let tableName of [ "data", "data_history", "addresses", "legal_descriptions", "application_details", "referrals" ])
+                assert.strictEqual((await databaseModule.getSqlRow(database, `select count(*) as [count] from [${tableName}]`, [])).count, 0, tableName);
+        });
+
+        it("reports unchanged and changed applications and records the history of changes", async () => {
+            let sink = databaseModule.createSqliteSink(database);
+            let statuses = [];
+            for (let description of [ "Erect a verandah", "Erect a verandah", "Erect a carport" ]) {
+                await sink.begin("https://example.com/register.pdf");
+                statuses.push(await sink.saveApplication(createApplication("581/123/19", description)));
+                await sink.commit();
+            }
+            assert.deepStrictEqual(statuses, [ "new", "unchanged", "changed" ]);
+            assert.deepStrictEqual((await databaseModule.getSqlRows(database, "select [description] from [data_history]", [])).map(row => row.description), [ "Erect a verandah", "Erect a carport" ]);
+        });
+
+        it("keeps applications with the same number from different councils apart", async () => {
+            let sink = databaseModule.createSqliteSink(database);
+            await sink.begin("https://example.com/register.pdf");
+            assert.strictEqual(await sink.saveApplication(createApplication("581/123/19", "Erect a verandah")), "new");
+            assert.strictEqual(await sink.saveApplication({ ...createApplication("581/123/19", "Erect a shed"), council: "other" }), "new");
+            await sink.commit();
+
+            let applications = await databaseModule.getExportedApplications(database);
+            assert.deepStrictEqual(applications.map(application => [ application.council, application.description, application.address_components.street_name ]), [ [ "coorong", "Erect a verandah", "JEFFERSON COURT" ], [ "other", "Erect a shed", "JEFFERSON COURT" ] ]);
+            for (let tableName of [ "addresses", "legal_descriptions", "application_details", "referrals" ])
+                assert.strictEqual((await databaseModule.getSqlRow(database, `select count(*) as [count] from [${tableName}]`, [])).count, 2, tableName);
+        });
+    });
+
+    describe("reconcileWithSavedSources", () => {
+        // Merges an application parsed from a PDF with the saved versions and saves the result.
+
+        async function reconcileAndSave(pdfUrl: string, developmentApplication) {
+            let application = await databaseModule.reconcileWithSavedSources(database, pdfUrl, { ...developmentApplication, informationUrl: pdfUrl });
+            let sink = databaseModule.createSqliteSink(database);
+            await sink.begin(pdfUrl);
+            let status = await sink.saveApplication(application);
+            await sink.commit();
+            return { application: application, status: status };
+        }
+
+        beforeEach(async () => {
+            await databaseModule.updateRegisterDocuments(database, [
+                { url: "https://example.com/january.pdf", title: "Development Register January 2019", publishDate: undefined, periodStart: "2019-01-01", periodEnd: "2019-01-31" },
+                { url: "https://example.com/february.pdf", title: "Development Register February 2019", publishDate: undefined, periodStart: "2019-02-01", periodEnd: "2019-02-28" }
+            ]);
+        });
+
+        it("merges the versions from different PDFs that print the application number differently", async () => {
+            let { application, status } = await reconcileAndSave("https://example.com/january.pdf", { ...createApplication("581/0123/2019", "Erect a verandah"), receivedDate: "" });
+            assert.strictEqual(status, "new");
+            assert.strictEqual(application.applicationNumber, "581/0123/2019");
+            assert.deepStrictEqual(application.conflicts, []);
+
+            ({ application, status } = await reconcileAndSave("https://example.com/february.pdf", createApplication("581/123/19", "Erect a shed")));
+            assert.strictEqual(status, "changed");
+            assert.strictEqual(application.applicationNumber, "581/0123/2019");  // the application number it was first saved with
+            assert.strictEqual(application.description, "Erect a shed");
+            assert.strictEqual(application.receivedDate, "2019-03-05");
+            assert.deepStrictEqual(application.conflicts.map(conflict => [ conflict.applicationNumber, conflict.field, conflict.keptValue, conflict.discardedValue ]), [ [ "581/0123/2019", "description", "Erect a shed", "Erect a verandah" ] ]);
+
+            assert.deepStrictEqual((await databaseModule.getSqlRows(database, "select [council_reference], [description] from [data]", [])).map(row => [ row.council_reference, row.description ]), [ [ "581/0123/2019", "Erect a shed" ] ]);
+            assert.deepStrictEqual((await databaseModule.getSqlRows(database, "select [council_reference], [application_key], [source_url] from [application_sources] order by [source_url]", [])).map(row => [ row.council_reference, row.application_key, row.source_url ]), [ [ "581/123/19", "581/123/19", "https://example.com/february.pdf" ], [ "581/0123/2019", "581/123/19", "https://example.com/january.pdf" ] ]);
+            assert.deepStrictEqual((await databaseModule.getSqlRows(database, "select [council_reference], [field], [kept_url], [discarded_url] from [conflicts]", [])).map(row => ({ ...row })), [ { council_reference: "581/0123/2019", field: "description", kept_url: "https://example.com/february.pdf", discarded_url: "https://example.com/january.pdf" } ]);
+        });
+
+        it("does not merge the versions of applications from different councils", async () => {
+            await reconcileAndSave("https://example.com/january.pdf", createApplication("581/123/19", "Erect a verandah"));
+            let { application } = await reconcileAndSave("https://example.com/february.pdf", { ...createApplication("581/123/19", "Erect a shed"), council: "other" });
+            assert.deepStrictEqual(application.conflicts, []);
+            assert.strictEqual((await databaseModule.getSqlRow(database, "select count(*) as [count] from [data]", [])).count, 2);
+        });
+    });
+
+    describe("initializeDatabase", () => {
+        it("adds the council to the primary key of the tables of a database created for a single council", async () => {
+            let databaseDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "database-"));
+            let databasePath = path.join(databaseDirectory, "data.sqlite");
+            try {
+                let sqlite3 = require("sqlite3");
+                let earlierDatabase = new sqlite3.Database(databasePath);
+                await databaseModule.runSql(earlierDatabase, "create table [data] ([council_reference] text primary key, [address] text, [description] text, [info_url] text, [comment_url] text, [date_scraped] text, [date_received] text, [legal_description] text)", []);
+                await databaseModule.runSql(earlierDatabase, "create table [addresses] ([council_reference] text primary key, [house_number] text, [street_name] text, [street_suffix] text, [suburb] text, [state] text, [post_code] text, [sources] text, [confidence] real, [is_low_confidence] integer)", []);
+                await databaseModule.runSql(earlierDatabase, "insert into [data] values ('581/123/19', '22 JEFFERSON COURT, WELLINGTON EAST SA 5263', 'Erect a verandah', 'https://example.com/register.pdf', '', '2019-03-10', '2019-03-05', '')", []);
+                await databaseModule.runSql(earlierDatabase, "insert into [addresses] values ('581/123/19', '22', 'JEFFERSON', 'COURT', 'WELLINGTON EAST', 'SA', '5263', '{}', 1, 0)", []);
+                await new Promise(resolve => earlierDatabase.close(resolve));
+
+                let upgradedDatabase = await databaseModule.initializeDatabase(databasePath);
+                for (let tableName of [ "data", "addresses" ]) {
+                    let columns = await databaseModule.getSqlRows(upgradedDatabase, `pragma table_info(${tableName})`, []);
+                    assert.deepStrictEqual(columns.filter(column => column.pk > 0).map(column => column.name).sort(), [ "council", "council_reference" ], tableName);
+                }
+                let applications = await databaseModule.getExportedApplications(upgradedDatabase);
+                assert.deepStrictEqual(applications.map(application => [ application.council, application.council_reference, application.address_components.suburb ]), [ [ "coorong", "581/123/19", "WELLINGTON EAST" ] ]);
+                await new Promise(resolve => (<any>upgradedDatabase).close(resolve));
+            } finally {
+                if (fs.existsSync(databasePath))
+                    fs.unlinkSync(databasePath);
+                fs.rmdirSync(databaseDirectory);
+            }
+        });
+    });
+});
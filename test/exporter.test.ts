@@ -0,0 +1,58 @@
+// Tests the formatting of exported development applications.
+
+"use strict";
+
+import * as assert from "assert";
+import { ExportedApplication, filterByDateScraped, formatAsNdjson, formatAsCsv, formatAsPlanningAlertsFeed, formatApplications } from "../exporter";
+
+// Creates an exported development application.
+
+function createApplication(councilReference: string, dateScraped: string, hasAddressComponents: boolean): ExportedApplication {
+    let application: ExportedApplication = {
+        council_reference: councilReference,
+        address: "22 JEFFERSON COURT, WELLINGTON EAST SA 5263",
+        description: "Erect a verandah, \"carport\" and shed",
+        info_url: "https://example.com/register.pdf",
+        comment_url: "mailto:council@coorong.sa.gov.au",
+        date_scraped: dateScraped,
+        date_received: "2019-03-05",
+        legal_description: "Lot 12 DP 34567",
+        council: "coorong"
+    };
+    if (hasAddressComponents)
+        application.address_components = { house_number: "22", street_name: "JEFFERSON COURT", street_suffix: "COURT", suburb: "WELLINGTON EAST", state: "SA", post_code: "5263", confidence: 0.85, is_low_confidence: false };
+    return application;
+}
+
+describe("exporter", () => {
+    let applications = [ createApplication("581/123/19", "2019-03-01", true), createApplication("581/124/19", "2019-03-10", false) ];
+
+    it("filters by the date scraped (inclusive)", () => {
+        assert.deepStrictEqual(filterByDateScraped(applications, "2019-03-10", undefined).map(application => application.council_reference), [ "581/124/19" ]);
+        assert.deepStrictEqual(filterByDateScraped(applications, undefined, "2019-03-01").map(application => application.council_reference), [ "581/123/19" ]);
+        assert.strictEqual(filterByDateScraped(applications, undefined, undefined).length, 2);
+    });
+
+    it("formats newline-delimited JSON", () => {
+        let lines = formatAsNdjson(applications).split("\n");
+        assert.strictEqual(lines.length, 3);
+        assert.deepStrictEqual(JSON.parse(lines[0]), applications[0]);
+        assert.strictEqual(lines[2], "");
+    });
+
+    it("formats CSV with quoted values and flattened address components", () => {
+        let lines = formatAsCsv(applications).split("\r\n");
+        assert.strictEqual(lines[0], "council_reference,address,description,info_url,comment_url,date_scraped,date_received,legal_description,council,address_house_number,address_street_name,address_street_suffix,address_suburb,address_state,address_post_code,address_confidence,address_is_low_confidence");
+        assert.strictEqual(lines[1], "581/123/19,\"22 JEFFERSON COURT, WELLINGTON EAST SA 5263\",\"Erect a verandah, \"\"carport\"\" and shed\",https://example.com/register.pdf,mailto:council@coorong.sa.gov.au,2019-03-01,2019-03-05,Lot 12 DP 34567,coorong,22,JEFFERSON COURT,COURT,WELLINGTON EAST,SA,5263,0.85,false");
+        assert.ok(lines[2].endsWith("Lot 12 DP 34567,coorong,,,,,,,,"));
+    });
+
+    it("formats a PlanningAlerts feed with only the PlanningAlerts fields", () => {
+        let feed = JSON.parse(formatAsPlanningAlertsFeed(applications));
+        assert.deepStrictEqual(Object.keys(feed[0]), [ "council_reference", "address", "description", "info_url", "comment_url", "date_scraped", "date_received" ]);
+    });
+
+    it("rejects an unsupported format", () => {
+        assert.throws(() => formatApplications(applications, "xml"), /not supported/);
+    });
+});
@@ -0,0 +1,137 @@
+// Tests the retrieval of URLs against a local HTTP server (standing in for the council web site).
+
+"use strict";
+
+import * as assert from "assert";
+import * as http from "http";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FetchOptions, DefaultFetchOptions, fetchUrl, readSnapshotIndex } from "../fetcher";
+
+// Fetch options that do not wait between requests (so that the tests run quickly).
+
+const TestFetchOptions: FetchOptions = { ...DefaultFetchOptions, retries: 2, retryDelay: 10, timeout: 200, politenessDelay: 0, politenessJitter: 0 };
+
+describe("fetcher", () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requestCounts: { [path: string]: number } = {};
+    let requestHeaders: http.IncomingHttpHeaders;
+
+    before(done => {
+        server = http.createServer((request, response) => {
+            let count = requestCounts[request.url] = (requestCounts[request.url] || 0) + 1;
+            requestHeaders = request.headers;
+            if (request.url === "/register") {
+                response.writeHead(200, { "Content-Type": "text/html" });
+                response.end("<html></html>");
+            } else if (request.url === "/flaky") {
+                response.writeHead((count < 3) ? 503 : 200);
+                response.end("recovered");
+            } else if (request.url === "/broken") {
+                response.writeHead(500);
+                response.end();
+            } else if (request.url === "/slow") {
+                if (count < 2)
+                    setTimeout(() => response.end("late"), 1000);
+                else
+                    response.end("on time");
+            } else if (request.url === "/document.pdf") {
+                if (request.headers["if-none-match"] === "\"v1\"") {
+                    response.writeHead(304, { "ETag": "\"v1\"" });
+                    response.end();
+                } else {
+                    response.writeHead(200, { "ETag": "\"v1\"", "Last-Modified": "Tue, 05 Mar 2019 00:00:00 GMT" });
+                    response.end(Buffer.from([ 0x25, 0x50, 0x44, 0x46 ]));
+                }
+            } else if (request.url === "/Register%E9.pdf") {
+                response.end(Buffer.from([ 0x25, 0x50, 0x44, 0x46 ]));
+            } else {
+                response.writeHead(404);
+                response.end();
+            }
+        });
+        server.listen(0, "127.0.0.1", () => {
+            baseUrl = `http://127.0.0.1:${(<any>server.address()).port}`;
+            done();
+        });
+    });
+
+    after(done => server.close(() => done()));
+
+    beforeEach(() => requestCounts = {});
+
+    it("retrieves text content", async () => {
+        let result = await fetchUrl(`${baseUrl}/register`, false, TestFetchOptions);
+        assert.strictEqual(result.content, "<html></html>");
+        assert.strictEqual(result.isNotModified, false);
+    });
+
+    it("retries server errors with backoff", async () => {
+        let result = await fetchUrl(`${baseUrl}/flaky`, false, TestFetchOptions);
+        assert.strictEqual(result.content, "recovered");
+        assert.strictEqual(requestCounts["/flaky"], 3);
+    });
+
+    it("gives up after the configured number of retries", async () => {
+        await assert.rejects(fetchUrl(`${baseUrl}/broken`, false, TestFetchOptions), /status code 500/);
+        assert.strictEqual(requestCounts["/broken"], 3);
+    });
+
+    it("does not retry client errors", async () => {
+        await assert.rejects(fetchUrl(`${baseUrl}/missing`, false, TestFetchOptions), /status code 404/);
+        assert.strictEqual(requestCounts["/missing"], 1);
+    });
+
+    it("does not retry an error that is not a transient network error", async () => {
+        await assert.rejects(fetchUrl("not a url", false, { ...TestFetchOptions, retryDelay: 60000 }), /Invalid URI/);
+    });
+
+    it("retries a request that times out", async () => {
+        let result = await fetchUrl(`${baseUrl}/slow`, false, TestFetchOptions);
+        assert.strictEqual(result.content, "on time");
+        assert.strictEqual(requestCounts["/slow"], 2);
+    });
+
+    it("makes conditional requests using the validators of an earlier response", async () => {
+        let result = await fetchUrl(`${baseUrl}/document.pdf`, true, TestFetchOptions);
+        assert.ok(Buffer.isBuffer(result.content));
+        assert.strictEqual(result.etag, "\"v1\"");
+        assert.strictEqual(result.lastModified, "Tue, 05 Mar 2019 00:00:00 GMT");
+
+        result = await fetchUrl(`${baseUrl}/document.pdf`, true, TestFetchOptions, { etag: result.etag, lastModified: result.lastModified });
+        assert.strictEqual(result.isNotModified, true);
+        assert.strictEqual(result.content, undefined);
+        assert.strictEqual(requestHeaders["if-modified-since"], "Tue, 05 Mar 2019 00:00:00 GMT");
+    });
+
+    it("records a snapshot and replays it without the server", async () => {
+        let snapshotDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "snapshot-"));
+        try {
+            await fetchUrl(`${baseUrl}/document.pdf`, true, { ...TestFetchOptions, snapshotMode: "record", snapshotDirectory: snapshotDirectory }, { etag: "\"v1\"" });
+            assert.deepStrictEqual(Object.keys(readSnapshotIndex(snapshotDirectory)), [ `${baseUrl}/document.pdf` ]);
+
+            let result = await fetchUrl(`${baseUrl}/document.pdf`, true, { ...TestFetchOptions, snapshotMode: "replay", snapshotDirectory: snapshotDirectory });
+            assert.deepStrictEqual(result.content, Buffer.from([ 0x25, 0x50, 0x44, 0x46 ]));
+            assert.strictEqual(requestCounts["/document.pdf"], 1);
+        } finally {
+            for (let fileName of fs.readdirSync(snapshotDirectory))
+                fs.unlinkSync(path.join(snapshotDirectory, fileName));
+            fs.rmdirSync(snapshotDirectory);
+        }
+    });
+
+    it("records a snapshot of a URL whose path is not validly encoded", async () => {
+        let snapshotDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "snapshot-"));
+        try {
+            await fetchUrl(`${baseUrl}/Register%E9.pdf`, true, { ...TestFetchOptions, snapshotMode: "record", snapshotDirectory: snapshotDirectory });
+            assert.ok(/-Register_E9\.pdf$/.test(readSnapshotIndex(snapshotDirectory)[`${baseUrl}/Register%E9.pdf`]));
+            assert.strictEqual(requestCounts["/Register%E9.pdf"], 1);
+        } finally {
+            for (let fileName of fs.readdirSync(snapshotDirectory))
+                fs.unlinkSync(path.join(snapshotDirectory, fileName));
+            fs.rmdirSync(snapshotDirectory);
+        }
+    });
+});
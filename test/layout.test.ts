@@ -0,0 +1,74 @@
+// Tests the location of fields on a page using page templates.
+
+"use strict";
+
+import * as assert from "assert";
+import { Element, PageTemplate, applyTemplate, getField, getText, selectTemplate } from "../layout";
+import { CoorongPageTemplate, CoorongRecivedDatePageTemplate, CoorongPageTemplates } from "../templates";
+
+// Creates an element (with the height that pdf.js reports for 10 point text).
+
+function createElement(text: string, x: number, y: number, width: number): Element {
+    return { text: text, x: x, y: y, width: width, height: 10 };
+}
+
+describe("layout", () => {
+    describe("applyTemplate", () => {
+        let template: PageTemplate = {
+            name: "test",
+            fields: {
+                number: { headings: [ "Number:", "No.:" ], reads: [ { direction: "right", extent: "element" } ] },
+                notes: { headings: [ "Notes" ], reads: [ { direction: "below", extent: "region", terminators: [ "owner", "total" ], padding: 1 } ] },
+                owner: { headings: [ "Owner" ], reads: [ { direction: "right", extent: "element" }, { direction: "below", extent: "region", lines: 1.5 } ] },
+                total: { headings: [ /^total/ ], reads: [ { direction: "right", extent: "element" } ], isRepeated: true }
+            }
+        };
+
+        it("reads a single element to the right of a heading alias", () => {
+            let layout = applyTemplate([ createElement("No. :", 20, 20, 40), createElement("123", 65, 20, 30), createElement("Other", 200, 20, 30) ], template);
+            assert.strictEqual(getText(getField(layout, "number").elements), "123");
+        });
+
+        it("bounds a region by the terminator headings to the right and below", () => {
+            let layout = applyTemplate([
+                createElement("Notes", 20, 50, 40), createElement("Owner", 200, 50, 40),
+                createElement("First line", 20, 65, 100), createElement("Owner name", 200, 65, 80),
+                createElement("Second line", 20, 77, 100),
+                createElement("Total A", 20, 110, 40)
+            ], template);
+            assert.deepStrictEqual(getField(layout, "notes").elements.map(element => element.text), [ "First line", "Second line" ]);
+        });
+
+        it("tries the next read when the first read finds nothing", () => {
+            let layout = applyTemplate([ createElement("Owner", 20, 50, 40), createElement("J Smith", 20, 63, 40), createElement("Too far", 20, 80, 40) ], template);
+            assert.strictEqual(getText(getField(layout, "owner").elements), "J Smith");
+        });
+
+        it("reads a repeated field once for every matching heading", () => {
+            let layout = applyTemplate([ createElement("Total A", 20, 50, 40), createElement("1", 65, 50, 10), createElement("Total B", 20, 70, 40), createElement("2", 65, 70, 10) ], template);
+            assert.deepStrictEqual(layout.fields["total"].map(field => [ field.heading.text, getText(field.elements) ]), [ [ "Total A", "1" ], [ "Total B", "2" ] ]);
+        });
+
+        it("omits fields whose heading is missing", () => {
+            assert.strictEqual(getField(applyTemplate([ createElement("123", 65, 20, 30) ], template), "number"), undefined);
+        });
+
+        it("follows the headings when the template shifts", () => {
+            let elements = [
+                createElement("Dev App No.", 60, 90, 60), createElement("581/123/19", 125, 90, 50), createElement("Erect a shed", 190, 90, 80),
+                createElement("Applicant", 60, 104, 45)
+            ];
+            let layout = applyTemplate(elements, CoorongPageTemplate);
+            assert.strictEqual(getText(getField(layout, "applicationNumber").elements), "581/123/19");
+            assert.strictEqual(getText(getField(layout, "description").elements), "Erect a shed");
+        });
+    });
+
+    describe("selectTemplate", () => {
+        it("selects the template variant matching the most headings", () => {
+            let elements = [ createElement("Dev App No.", 20, 50, 60), createElement("Application Reciveddate:", 20, 80, 120) ];
+            assert.strictEqual(selectTemplate(elements, CoorongPageTemplates), CoorongRecivedDatePageTemplate);
+            assert.strictEqual(selectTemplate([ createElement("Dev App No.", 20, 50, 60) ], CoorongPageTemplates), CoorongPageTemplate);
+        });
+    });
+});
@@ -0,0 +1,252 @@
+// Tests the parsing of development applications from the elements of a PDF page, the formatting
+// of addresses and the parsing of whole (generated) PDFs.  These tests do not use the network.
+
+"use strict";
+
+import * as assert from "assert";
+import { Element, QuarantinedPage, PdfStatistics, formatAddress, parseAddress, parseLegalDescription, parseApplicationElements, parsePdfPages, parsePdf, extractPdfPages, loadReferenceData } from "../parser";
+import { CoorongProfile } from "../councils";
+import { PdfText, createPdf } from "./pdf";
+
+// Creates an element (with the height that pdf.js reports for 10 point text).
+
+function createElement(text: string, x: number, y: number, width: number): Element {
+    return { text: text, x: x, y: y, width: width, height: 10 };
+}
+
+// Creates the elements of a page laid out in the same way as a page of a Coorong development
+// register PDF.  Any of the elements can be overridden or removed (by specifying null).
+
+function createPage(overrides: { [name: string]: Element | Element[] } = {}): Element[] {
+    let page: { [name: string]: Element | Element[] } = {
+        applicationNumberHeading: createElement("Dev App No.", 20, 50, 60),
+        applicationNumber: createElement("581/123/19", 85, 50, 50),
+        description: createElement("Erect a verandah", 150, 50, 80),
+        applicantHeading: createElement("Applicant", 20, 62, 45),
+        applicant: createElement("J Smith", 70, 62, 40),
+        receivedDateHeading: createElement("Application Received Date:", 20, 80, 120),
+        receivedDate: createElement("5/03/2019", 145, 80, 45),
+        propertyDetailsHeading: createElement("Property Details:", 20, 100, 80),
+        referralsHeading: createElement("Referrals", 300, 100, 45),
+        address: createElement("22 Jefferson CT 5263", 20, 115, 100),
+        referrals: [ createElement("EPA", 300, 115, 20), createElement("CFS", 300, 127, 20) ],
+        legalDescription: [ createElement("Lot 12 DP 34567 CT 5432/123", 20, 127, 130), createElement("Hundred of Seymour", 20, 139, 90) ],
+        totalDevelopmentCostsHeading: createElement("Total Development Costs:", 20, 170, 110),
+        totalDevelopmentCosts: createElement("$12,500.00", 135, 170, 50),
+        decisionHeading: createElement("Development Approval:", 20, 185, 100),
+        decisionDate: createElement("12/04/2019", 125, 185, 50)
+    };
+    Object.assign(page, overrides);
+
+    let elements: Element[] = [];
+    for (let name of Object.keys(page))
+        if (page[name] !== null)
+            elements = elements.concat(page[name]);
+    return elements.sort((a, b) => (a.y > b.y) ? 1 : ((a.y < b.y) ? -1 : ((a.x > b.x) ? 1 : ((a.x < b.x) ? -1 : 0))));
+}
+
+// Converts the elements of a page to the text to be drawn on a page of a generated PDF.
+
+function toPdfTexts(elements: Element[]): PdfText[] {
+    return elements.map(element => ({ text: element.text, x: element.x, y: element.y }));
+}
+
+describe("parser", () => {
+    before(() => loadReferenceData());
+
+    describe("formatAddress", () => {
+        it("prefers longer suburb and street name matches", () => {
+            assert.strictEqual(formatAddress("2,800 Woods Well RD COLEBATCH 5266"), "2800 WOODS WELL ROAD, COLEBATCH SA 5266");
+        });
+
+        it("adds the suburb of a street that has only one suburb", () => {
+            assert.strictEqual(formatAddress("22 Jefferson CT 5263"), "22 JEFFERSON COURT, WELLINGTON EAST SA 5263");
+        });
+
+        it("removes the comma from house numbers larger than 1000", () => {
+            assert.strictEqual(formatAddress("4,665 Princes HWY MENINGIE 5264"), "4665 PRINCES HIGHWAY, MENINGIE SA 5264");
+            assert.strictEqual(formatAddress("11,287 Princes HWY SALT CREEK 5264"), "11287 PRINCES HIGHWAY, SALT CREEK SA 5264");
+        });
+
+        it("corrects a misspelt suburb name", () => {
+            assert.strictEqual(formatAddress("3 Albert Ct Meningee 5264"), "3 ALBERT COURT, MENINGIE SA 5264");
+        });
+
+        it("falls back to the original address when the suburb is unknown", () => {
+            assert.strictEqual(formatAddress("12 Nowhere Lane SOMEWHERE 5000"), "12 Nowhere Lane SOMEWHERE SA 5000");
+        });
+
+        it("discards addresses that are only a legal description", () => {
+            assert.strictEqual(formatAddress("LOT: 12 DP: 34567"), "");
+            assert.strictEqual(formatAddress("No Residential Address"), "");
+        });
+    });
+
+    describe("parseAddress", () => {
+        it("records how each part of the address was determined", () => {
+            let parsedAddress = parseAddress("3 Albert Ct Meningee 5264");
+            assert.strictEqual(parsedAddress.houseNumber.value, "3");
+            assert.deepStrictEqual(parsedAddress.streetName, { value: "ALBERT COURT", source: "street-name-match", editDistance: 0 });
+            assert.deepStrictEqual(parsedAddress.streetSuffix, { value: "COURT", source: "suffix-abbreviation" });
+            assert.deepStrictEqual(parsedAddress.suburb, { value: "MENINGIE", source: "suburb-name-match", editDistance: 1 });
+            assert.deepStrictEqual(parsedAddress.state, { value: "SA", source: "default" });
+            assert.deepStrictEqual(parsedAddress.postCode, { value: "5264", source: "address" });
+            assert.strictEqual(parsedAddress.isLowConfidence, false);
+        });
+
+        it("accepts an address that is only a post code, state or suburb", () => {
+            assert.strictEqual(parseAddress("5263").text, "SA 5263");
+            assert.deepStrictEqual(parseAddress("SA 5263").state, { value: "SA", source: "address" });
+            assert.strictEqual(parseAddress("MENINGIE 5264").text, "MENINGIE SA 5264");
+            assert.strictEqual(parseAddress("Meningie").text, "MENINGIE SA 5264");
+            assert.strictEqual(parseAddress("").text, "");
+        });
+
+        it("flags fallback addresses as low confidence", () => {
+            let parsedAddress = parseAddress("12 Nowhere Lane SOMEWHERE 5000");
+            assert.strictEqual(parsedAddress.isFallback, true);
+            assert.strictEqual(parsedAddress.isLowConfidence, true);
+        });
+    });
+
+    describe("parseLegalDescription", () => {
+        it("parses and normalises the parts of a legal description", () => {
+            let legalDescription = parseLegalDescription("LOT: 12 DP: 34567 CT: 5432/123 Hundred: COLEBACH");
+            assert.strictEqual(legalDescription.text, "Lot 12 DP 34567 CT 5432/123 Hundred of COLEBATCH");
+            assert.strictEqual(legalDescription.titleVolume, "5432");
+            assert.strictEqual(legalDescription.titleFolio, "123");
+        });
+    });
+
+    describe("parseApplicationElements", () => {
+        it("parses all fields of a page", () => {
+            let developmentApplication = parseApplicationElements(createPage(), "https://example.com/register.pdf");
+            assert.strictEqual(developmentApplication.applicationNumber, "581/123/19");
+            assert.strictEqual(developmentApplication.description, "Erect a verandah");
+            assert.strictEqual(developmentApplication.receivedDate, "2019-03-05");
+            assert.strictEqual(developmentApplication.address, "22 JEFFERSON COURT, WELLINGTON EAST SA 5263");
+            assert.strictEqual(developmentApplication.legalDescription, "Lot 12 DP 34567 CT 5432/123 Hundred of Seymour");
+            assert.strictEqual(developmentApplication.parsedLegalDescription.text, "Lot 12 DP 34567 CT 5432/123 Hundred of SEYMOUR");
+            assert.strictEqual(developmentApplication.informationUrl, "https://example.com/register.pdf");
+            assert.strictEqual(developmentApplication.applicant, "J Smith");
+            assert.strictEqual(developmentApplication.totalDevelopmentCost, 12500);
+            assert.deepStrictEqual(developmentApplication.referrals, [ "EPA", "CFS" ]);
+            assert.deepStrictEqual(developmentApplication.decisions, [ { decision: "Development Approval", date: "2019-04-12" } ]);
+        });
+
+        it("uses the comment URL and name of the council profile", () => {
+            let profile = { ...CoorongProfile, name: "example", commentUrl: "mailto:council@example.sa.gov.au" };
+            let developmentApplication = parseApplicationElements(createPage(), "", [], profile);
+            assert.strictEqual(developmentApplication.council, "example");
+            assert.strictEqual(developmentApplication.commentUrl, "mailto:council@example.sa.gov.au");
+        });
+
+        it("accepts the misspelt \"Application Recived Date:\" heading", () => {
+            let developmentApplication = parseApplicationElements(createPage({ receivedDateHeading: createElement("Application Recived Date:", 20, 80, 120) }), "");
+            assert.strictEqual(developmentApplication.receivedDate, "2019-03-05");
+        });
+
+        it("groups address elements within 5 units vertically into the same row", () => {
+            let developmentApplication = parseApplicationElements(createPage({ address: [ createElement("22 Jefferson", 20, 115, 60), createElement("CT 5263", 85, 118, 40) ] }), "");
+            assert.strictEqual(developmentApplication.address, "22 JEFFERSON COURT, WELLINGTON EAST SA 5263");
+        });
+
+        it("bounds the description by the \"Applicant\" heading", () => {
+            let developmentApplication = parseApplicationElements(createPage({ description: [ createElement("Erect a", 150, 50, 40), createElement("verandah", 150, 56, 40) ] }), "");
+            assert.strictEqual(developmentApplication.description, "Erect a verandah");
+        });
+
+        it("reads an applicant split into several elements", () => {
+            let developmentApplication = parseApplicationElements(createPage({ applicant: [ createElement("J & M", 70, 62, 30), createElement("Smith Pty", 104, 62, 45), createElement("Ltd", 153, 62, 15) ] }), "");
+            assert.strictEqual(developmentApplication.applicant, "J & M Smith Pty Ltd");
+        });
+
+        it("derives the address from the hundred when there is no street address", () => {
+            let developmentApplication = parseApplicationElements(createPage({ address: createElement("LOT: 12 DP: 34567", 20, 115, 100), legalDescription: createElement("Hundred of Colebatch", 20, 127, 90) }), "");
+            assert.strictEqual(developmentApplication.address, "COLEBATCH SA 5266");
+            assert.strictEqual(developmentApplication.parsedAddress.isLowConfidence, true);
+        });
+
+        it("ignores a page without the \"Dev App No.\" heading", () => {
+            assert.strictEqual(parseApplicationElements(createPage({ applicationNumberHeading: null }), ""), undefined);
+        });
+
+        it("reports a missing \"Property Details:\" heading instead of throwing an error", () => {
+            let problems: string[] = [];
+            assert.strictEqual(parseApplicationElements(createPage({ propertyDetailsHeading: null }), "", problems), undefined);
+            assert.deepStrictEqual(problems, [ "The \"Property Details:\" heading is missing." ]);
+        });
+
+        it("partially parses a page without the \"Application Received Date:\" heading", () => {
+            let problems: string[] = [];
+            let developmentApplication = parseApplicationElements(createPage({ receivedDateHeading: null }), "", problems);
+            assert.strictEqual(developmentApplication.receivedDate, "");
+            assert.deepStrictEqual(problems, [ "The \"Application Received Date:\" heading is missing." ]);
+        });
+
+        it("ignores a page without an application number", () => {
+            assert.strictEqual(parseApplicationElements(createPage({ applicationNumber: null }), ""), undefined);
+        });
+
+        it("ignores a page without an address", () => {
+            assert.strictEqual(parseApplicationElements(createPage({ address: null, legalDescription: null }), ""), undefined);
+        });
+    });
+
+    describe("parsePdfPages", () => {
+        it("merges an application that is repeated on several pages", () => {
+            let pages = [
+                createPage({ applicationNumber: createElement("581/0123/2019", 85, 50, 60), referrals: null }),
+                createPage({ description: createElement("Erect a shed", 150, 50, 60) })
+            ];
+            let developmentApplications = parsePdfPages("https://example.com/register.pdf", pages);
+            assert.strictEqual(developmentApplications.length, 1);
+            assert.strictEqual(developmentApplications[0].applicationNumber, "581/0123/2019");  // as printed on the first page
+            assert.strictEqual(developmentApplications[0].description, "Erect a verandah");
+            assert.deepStrictEqual(developmentApplications[0].referrals, [ "EPA", "CFS" ]);
+        });
+    });
+
+    describe("parsePdf", () => {
+        it("parses each page of a generated PDF and ignores duplicate applications", async () => {
+            let pdf = createPdf([
+                toPdfTexts(createPage()),
+                toPdfTexts(createPage({ applicationNumber: createElement("581/124/19", 85, 50, 50), address: createElement("2,800 Woods Well RD COLEBATCH 5266", 20, 115, 170) })),
+                toPdfTexts(createPage()),
+                toPdfTexts(createPage({ applicationNumberHeading: null }))
+            ]);
+            let quarantinedPages: QuarantinedPage[] = [];
+            let developmentApplications = await parsePdf("https://example.com/register.pdf", pdf, quarantinedPages);
+            assert.deepStrictEqual(developmentApplications.map(developmentApplication => developmentApplication.applicationNumber), [ "581/123/19", "581/124/19" ]);
+            assert.deepStrictEqual(developmentApplications.map(developmentApplication => developmentApplication.address), [ "22 JEFFERSON COURT, WELLINGTON EAST SA 5263", "2800 WOODS WELL ROAD, COLEBATCH SA 5266" ]);
+            assert.strictEqual(developmentApplications[0].receivedDate, "2019-03-05");
+            assert.deepStrictEqual(quarantinedPages.map(quarantinedPage => [ quarantinedPage.pageNumber, quarantinedPage.status ]), [ [ 4, "rejected" ] ]);
+        });
+
+        it("reloads the PDF when the heap grows beyond the memory budget", async () => {
+            let pdf = createPdf([
+                toPdfTexts(createPage()),
+                toPdfTexts(createPage({ applicationNumber: createElement("581/124/19", 85, 50, 50) })),
+                toPdfTexts(createPage({ applicationNumber: createElement("581/125/19", 85, 50, 50) }))
+            ]);
+            let statistics = <PdfStatistics>{};
+            let pages = await extractPdfPages(pdf, 0, statistics, -Infinity);  // any heap counts as growth
+            assert.strictEqual(pages.length, 3);
+            assert.strictEqual(statistics.pageCount, 3);
+            assert.strictEqual(statistics.reloadCount, 2);
+        });
+
+        it("does not reload the PDF before every page when the heap stays above the memory budget", async () => {
+            let pdf = createPdf([
+                toPdfTexts(createPage()),
+                toPdfTexts(createPage({ applicationNumber: createElement("581/124/19", 85, 50, 50) })),
+                toPdfTexts(createPage({ applicationNumber: createElement("581/125/19", 85, 50, 50) }))
+            ]);
+            let statistics = <PdfStatistics>{};
+            let developmentApplications = await parsePdf("https://example.com/register.pdf", pdf, [], 1, CoorongProfile, statistics);
+            assert.deepStrictEqual(developmentApplications.map(developmentApplication => developmentApplication.applicationNumber), [ "581/123/19", "581/124/19", "581/125/19" ]);
+            assert.strictEqual(statistics.pageCount, 3);
+            assert.strictEqual(statistics.reloadCount, 0);
+        });
+    });
+});
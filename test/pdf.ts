@@ -0,0 +1,57 @@
+// Generates small PDF documents for testing (so that the PDF parsing can be tested without
+// downloading any PDFs from the council web site).
+
+"use strict";
+
+// A piece of text to be drawn on a page of a generated PDF.  The co-ordinates are measured from
+// the top left corner of the page (as they are in the elements extracted from a PDF).
+
+export interface PdfText {
+    text: string,
+    x: number,
+    y: number,
+    fontSize?: number
+}
+
+const PageWidth = 842;
+const PageHeight = 595;
+
+// Escapes the characters that have a special meaning in a PDF string.
+
+function escapePdfString(text: string) {
+    return text.replace(/[\\()]/g, character => "\\" + character);
+}
+
+// Creates a PDF with one page for each array of text (all drawn in Helvetica).
+
+export function createPdf(pages: PdfText[][]): Buffer {
+    let objects: string[] = [];
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(`<< /Type /Pages /Kids [${pages.map((page, index) => `${3 + index * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+    let fontObjectNumber = 3 + pages.length * 2;
+
+    for (let page of pages) {
+        let contentObjectNumber = objects.length + 2;
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PageWidth} ${PageHeight}] /Contents ${contentObjectNumber} 0 R /Resources << /Font << /F1 ${fontObjectNumber} 0 R >> >> >>`);
+        let content = page.map(text => `BT /F1 ${text.fontSize || 10} Tf ${text.x} ${PageHeight - text.y} Td (${escapePdfString(text.text)}) Tj ET`).join("\n");
+        objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+    }
+
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+
+    // Write the objects followed by the cross-reference table (which records the byte offset of
+    // each object).
+
+    let pdf = "%PDF-1.4\n";
+    let offsets: number[] = [];
+    objects.forEach((object, index) => {
+        offsets.push(Buffer.byteLength(pdf, "latin1"));
+        pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    let crossReferenceOffset = Buffer.byteLength(pdf, "latin1");
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${crossReferenceOffset}\n%%EOF\n`;
+    return Buffer.from(pdf, "latin1");
+}
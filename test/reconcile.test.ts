@@ -0,0 +1,72 @@
+// Tests the normalisation of application numbers and the merging of the versions of an
+// application parsed from several PDFs.
+
+"use strict";
+
+import * as assert from "assert";
+import { ApplicationSource, normaliseApplicationNumber, reconcileApplication } from "../reconcile";
+
+// Creates a version of a development application parsed from the specified PDF.
+
+function createSource(url: string, periodEnd: string, overrides: { [name: string]: any } = {}): ApplicationSource {
+    return {
+        url: url,
+        periodEnd: periodEnd,
+        publishDate: undefined,
+        application: {
+            applicationNumber: "581/123/19",
+            address: "22 JEFFERSON COURT, WELLINGTON EAST SA 5263",
+            parsedAddress: { text: "22 JEFFERSON COURT, WELLINGTON EAST SA 5263" },
+            description: "Erect a verandah",
+            informationUrl: url,
+            scrapeDate: "2019-03-10",
+            receivedDate: "2019-03-05",
+            legalDescription: "Lot 12 DP 34567",
+            applicant: "J Smith",
+            referrals: [],
+            ...overrides
+        }
+    };
+}
+
+describe("reconcile", () => {
+    describe("normaliseApplicationNumber", () => {
+        it("normalises spacing, leading zeros and year suffixes", () => {
+            assert.strictEqual(normaliseApplicationNumber("581 / 0123 / 2019"), "581/123/19");
+            assert.strictEqual(normaliseApplicationNumber("581/123/19"), "581/123/19");
+            assert.strictEqual(normaliseApplicationNumber("581/1/05"), "581/1/05");
+            assert.strictEqual(normaliseApplicationNumber("581\\123\\19"), "581/123/19");
+            assert.strictEqual(normaliseApplicationNumber("la 581/12"), "LA581/12");
+        });
+    });
+
+    describe("reconcileApplication", () => {
+        it("prefers the newest document and fills empty fields from older documents", () => {
+            let older = createSource("https://example.com/january.pdf", "2019-01-31", { applicant: "A Jones", referrals: [ "EPA" ] });
+            let newer = createSource("https://example.com/february.pdf", "2019-02-28", { description: "Erect a verandah and shed", receivedDate: "", applicant: "", scrapeDate: "2019-03-01" });
+            let { application, conflicts } = reconcileApplication([ older, newer ]);
+            assert.strictEqual(application.informationUrl, "https://example.com/february.pdf");
+            assert.strictEqual(application.description, "Erect a verandah and shed");
+            assert.strictEqual(application.receivedDate, "2019-03-05");
+            assert.strictEqual(application.applicant, "A Jones");
+            assert.deepStrictEqual(application.referrals, [ "EPA" ]);
+            assert.strictEqual(application.scrapeDate, "2019-03-10");
+            assert.deepStrictEqual(conflicts, [ { applicationNumber: "581/123/19", field: "description", keptValue: "Erect a verandah and shed", keptUrl: "https://example.com/february.pdf", discardedValue: "Erect a verandah", discardedUrl: "https://example.com/january.pdf" } ]);
+        });
+
+        it("does not depend on the order of the documents", () => {
+            let older = createSource("https://example.com/january.pdf", "2019-01-31", { address: "1 OTHER STREET, MENINGIE SA 5264", parsedAddress: { text: "1 OTHER STREET, MENINGIE SA 5264" } });
+            let newer = createSource("https://example.com/february.pdf", "2019-02-28");
+            assert.deepStrictEqual(reconcileApplication([ older, newer ]), reconcileApplication([ newer, older ]));
+            assert.strictEqual(reconcileApplication([ older, newer ]).application.parsedAddress.text, "22 JEFFERSON COURT, WELLINGTON EAST SA 5263");
+        });
+
+        it("treats \"No description provided\" as empty", () => {
+            let older = createSource("https://example.com/january.pdf", "2019-01-31");
+            let newer = createSource("https://example.com/february.pdf", "2019-02-28", { description: "No description provided" });
+            let { application, conflicts } = reconcileApplication([ older, newer ]);
+            assert.strictEqual(application.description, "Erect a verandah");
+            assert.deepStrictEqual(conflicts, []);
+        });
+    });
+});
@@ -0,0 +1,73 @@
+// Tests the validation of the reference data files and the proposal of new street and suburb
+// names.
+
+"use strict";
+
+import * as assert from "assert";
+import { parseReferenceData, loadReferenceData, findSuburbName, expandStreetSuffix, getStreetSuburbNames, proposeGazetteerEntries } from "../reference";
+
+describe("reference", () => {
+    describe("parseReferenceData", () => {
+        it("reports malformed, duplicate and conflicting lines instead of throwing an error", () => {
+            let problems = [];
+            let referenceData = parseReferenceData({
+                streetNames: "Jefferson Court,Wellington East\nJEFFERSON COURT,WELLINGTON EAST\nMain Street\nHigh Street,Nowhere\n",
+                streetSuffixes: "St,Street\nCt,Court\r\nst,Street\nCt,Circuit\n",
+                suburbNames: "WELLINGTON EAST,WELLINGTON EAST SA 5259\n\nMENINGIE,5264\n",
+                hundredNames: "Seymour\nSEYMOUR\n"
+            }, problems);
+
+            assert.deepStrictEqual(referenceData.streetNames, { "JEFFERSON COURT": [ "WELLINGTON EAST" ], "HIGH STREET": [ "NOWHERE" ] });
+            assert.deepStrictEqual(referenceData.streetSuffixes, { "ST": "STREET", "CT": "COURT" });
+            assert.deepStrictEqual(referenceData.suburbNames, { "WELLINGTON EAST": "WELLINGTON EAST SA 5259" });
+            assert.deepStrictEqual(referenceData.hundredNames, [ "SEYMOUR" ]);
+            assert.deepStrictEqual(problems.map(problem => [ problem.fileName, problem.lineNumber, problem.kind ]), [
+                [ "suburbnames.txt", 3, "malformed" ],
+                [ "streetnames.txt", 2, "duplicate" ],
+                [ "streetnames.txt", 3, "malformed" ],
+                [ "streetnames.txt", 4, "unknown-suburb" ],
+                [ "streetsuffixes.txt", 3, "duplicate" ],
+                [ "streetsuffixes.txt", 4, "conflict" ],
+                [ "hundrednames.txt", 2, "duplicate" ]
+            ]);
+        });
+    });
+
+    describe("lookups", () => {
+        before(() => loadReferenceData());
+
+        it("finds names allowing for spelling errors", () => {
+            assert.strictEqual(findSuburbName("Meningee"), "MENINGIE");
+            assert.strictEqual(findSuburbName("Somewhere"), undefined);
+        });
+
+        it("expands street suffixes", () => {
+            assert.deepStrictEqual(expandStreetSuffix("Ct"), { value: "COURT", isAbbreviation: true });
+            assert.deepStrictEqual(expandStreetSuffix("court"), { value: "COURT", isAbbreviation: false });
+            assert.strictEqual(expandStreetSuffix("Nowhere"), undefined);
+        });
+
+        it("gets the suburbs of a street", () => {
+            assert.deepStrictEqual(getStreetSuburbNames("JEFFERSON COURT"), [ "WELLINGTON EAST" ]);
+            assert.deepStrictEqual(getStreetSuburbNames("NOWHERE LANE"), []);
+        });
+    });
+
+    describe("proposeGazetteerEntries", () => {
+        before(() => loadReferenceData());
+
+        it("proposes streets and suburbs from fallback addresses", () => {
+            let proposals = proposeGazetteerEntries([
+                { councilReference: "581/1/19", address: "12 Nowhere Lane SOMEWHERE SA 5000" },
+                { councilReference: "581/2/19", address: "14 Nowhere LN SOMEWHERE SA 5000" },
+                { councilReference: "581/3/19", address: "3 Quiet Rd Meningee SA 5264" },
+                { councilReference: "581/4/19", address: "Somewhere without a suffix SA 5000" }
+            ]);
+            assert.deepStrictEqual(proposals, [
+                { fileName: "streetnames.txt", line: "NOWHERE LANE,SOMEWHERE", count: 2, councilReferences: [ "581/1/19", "581/2/19" ] },
+                { fileName: "suburbnames.txt", line: "SOMEWHERE,SOMEWHERE SA 5000", count: 2, councilReferences: [ "581/1/19", "581/2/19" ] },
+                { fileName: "streetnames.txt", line: "QUIET ROAD,MENINGIE", count: 1, councilReferences: [ "581/3/19" ] }
+            ]);
+        });
+    });
+});
@@ -0,0 +1,146 @@
+// Tests the parsing of the register page and the inference of the period covered by each PDF.
+
+"use strict";
+
+import * as assert from "assert";
+import { RegisterDocument, inferPeriod, parseRegisterPage, sortRegisterDocuments, isInPeriod, selectPdfUrls } from "../register";
+
+const PageUrl = "https://www.coorong.sa.gov.au/council-services/building-and-development/development-register?num_ranks=200";
+
+// Creates a register page listing the specified results (along with an optional link to the
+// next page of results).
+
+function createRegisterPage(results: { title: string, url: string, date?: string }[], nextPageHref?: string) {
+    let items = results.map(result => `
+        <li class="result-item">
+            <h3 class="result-item__title"><a href="${result.url}">${result.title}</a></h3>
+            <div class="result-item__url">${result.url}</div>
+            ${(result.date === undefined) ? "" : `<div class="result-item__date">Published ${result.date}</div>`}
+        </li>`);
+    let pagination = (nextPageHref === undefined) ? "" : `<ul class="pagination"><li class="pagination__next"><a href="${nextPageHref}">Next</a></li></ul>`;
+    return `<html><body><ul class="results">${items.join("")}</ul>${pagination}</body></html>`;
+}
+
+describe("register", () => {
+    describe("inferPeriod", () => {
+        it("infers a single month", () => {
+            assert.deepStrictEqual(inferPeriod("Development Register January 2019"), { periodStart: "2019-01-01", periodEnd: "2019-01-31" });
+            assert.deepStrictEqual(inferPeriod("/webdata/resources/files/DA_Register_Feb-2019.pdf"), { periodStart: "2019-02-01", periodEnd: "2019-02-28" });
+        });
+
+        it("infers a range of months", () => {
+            assert.deepStrictEqual(inferPeriod("Development Register January to March 2019"), { periodStart: "2019-01-01", periodEnd: "2019-03-31" });
+            assert.deepStrictEqual(inferPeriod("Development Register November to February 2019"), { periodStart: "2018-11-01", periodEnd: "2019-02-28" });
+            assert.deepStrictEqual(inferPeriod("Development Register Nov 2018 - Jan 2019"), { periodStart: "2018-11-01", periodEnd: "2019-01-31" });
+        });
+
+        it("infers a financial year", () => {
+            assert.deepStrictEqual(inferPeriod("Development Register 2018-19"), { periodStart: "2018-07-01", periodEnd: "2019-06-30" });
+            assert.deepStrictEqual(inferPeriod("Development Register 2017/2018"), { periodStart: "2017-07-01", periodEnd: "2018-06-30" });
+        });
+
+        it("infers a calendar year", () => {
+            assert.deepStrictEqual(inferPeriod("Development Register 2016"), { periodStart: "2016-01-01", periodEnd: "2016-12-31" });
+        });
+
+        it("does not decode a title containing a percent sign", () => {
+            assert.deepStrictEqual(inferPeriod("Register 100% complete 2019"), { periodStart: "2019-01-01", periodEnd: "2019-12-31" });
+        });
+
+        it("returns an undefined period when there is no date", () => {
+            assert.deepStrictEqual(inferPeriod("Development Register"), { periodStart: undefined, periodEnd: undefined });
+        });
+    });
+
+    describe("parseRegisterPage", () => {
+        it("reads the title, publish date and period of each PDF", () => {
+            let body = createRegisterPage([
+                { title: "Development Register February 2019", url: "https://www.coorong.sa.gov.au/webdata/resources/files/Register_Feb_2019.pdf", date: "25 February 2019" },
+                { title: "Council Meeting Minutes", url: "https://www.coorong.sa.gov.au/minutes" },
+                { title: "Development Register", url: "/webdata/resources/files/DA_Register_2018-19.pdf" }
+            ]);
+            let registerPage = parseRegisterPage(body, PageUrl);
+            assert.deepStrictEqual(registerPage.documents, [
+                { url: "https://www.coorong.sa.gov.au/webdata/resources/files/Register_Feb_2019.pdf", title: "Development Register February 2019", publishDate: "2019-02-25", periodStart: "2019-02-01", periodEnd: "2019-02-28" },
+                { url: "https://www.coorong.sa.gov.au/webdata/resources/files/DA_Register_2018-19.pdf", title: "Development Register", publishDate: undefined, periodStart: "2018-07-01", periodEnd: "2019-06-30" }
+            ]);
+            assert.strictEqual(registerPage.nextPageUrl, undefined);
+        });
+
+        it("infers the period from the decoded URL path, even when the path is not validly encoded", () => {
+            let body = createRegisterPage([
+                { title: "Development Register", url: "/files/DA%20Register%20March%202019.pdf" },
+                { title: "Development Register 100% complete", url: "/files/DA%20Register%ZZ%20April%202019.pdf" }
+            ]);
+            assert.deepStrictEqual(parseRegisterPage(body, PageUrl).documents.map(document => [ document.periodStart, document.periodEnd ]), [ [ "2019-03-01", "2019-03-31" ], [ "2019-04-01", "2019-04-30" ] ]);
+        });
+
+        it("resolves the link to the next page of results", () => {
+            let body = createRegisterPage([ { title: "Development Register March 2019", url: "https://www.coorong.sa.gov.au/Register_Mar_2019.pdf" } ], "?num_ranks=200&start_rank=201");
+            assert.strictEqual(parseRegisterPage(body, PageUrl).nextPageUrl, "https://www.coorong.sa.gov.au/council-services/building-and-development/development-register?num_ranks=200&start_rank=201");
+        });
+    });
+
+    describe("sortRegisterDocuments", () => {
+        it("orders the documents by period (most recent first)", () => {
+            let documents: RegisterDocument[] = [
+                { url: "a.pdf", title: "Development Register 2017", publishDate: undefined, periodStart: "2017-01-01", periodEnd: "2017-12-31" },
+                { url: "b.pdf", title: "Development Register", publishDate: undefined, periodStart: undefined, periodEnd: undefined },
+                { url: "c.pdf", title: "Development Register March 2019", publishDate: "2019-04-02", periodStart: "2019-03-01", periodEnd: "2019-03-31" },
+                { url: "d.pdf", title: "Development Register", publishDate: "2018-05-01", periodStart: undefined, periodEnd: undefined }
+            ];
+            assert.deepStrictEqual(sortRegisterDocuments(documents).map(document => document.url), [ "c.pdf", "d.pdf", "a.pdf", "b.pdf" ]);
+        });
+    });
+
+    describe("isInPeriod", () => {
+        let document: RegisterDocument = { url: "a.pdf", title: "Development Register 2018-19", publishDate: undefined, periodStart: "2018-07-01", periodEnd: "2019-06-30" };
+
+        it("matches a year, month or day that overlaps the period of the document", () => {
+            assert.strictEqual(isInPeriod(document, "2019"), true);
+            assert.strictEqual(isInPeriod(document, "2018-07"), true);
+            assert.strictEqual(isInPeriod(document, "2019-06-30"), true);
+            assert.strictEqual(isInPeriod(document, "2019-07"), false);
+            assert.strictEqual(isInPeriod(document, "2017"), false);
+        });
+
+        it("rejects an invalid period", () => {
+            assert.throws(() => isInPeriod(document, "2019-13"), /not valid/);
+            assert.throws(() => isInPeriod(document, "January"), /not valid/);
+        });
+    });
+
+    describe("selectPdfUrls", () => {
+        let documents: RegisterDocument[] = [ "d.pdf", "c.pdf", "b.pdf", "a.pdf" ].map((url, index) => ({ url: url, title: undefined, publishDate: undefined, periodStart: `2019-0${4 - index}-01`, periodEnd: `2019-0${4 - index}-28` }));
+
+        it("selects all or the latest PDFs", () => {
+            assert.deepStrictEqual(selectPdfUrls(documents, "all"), [ "d.pdf", "c.pdf", "b.pdf", "a.pdf" ]);
+            assert.deepStrictEqual(selectPdfUrls(documents, "latest:2"), [ "d.pdf", "c.pdf" ]);
+            assert.deepStrictEqual(selectPdfUrls(documents, "latest"), [ "d.pdf" ]);
+        });
+
+        it("selects the latest PDF and then the PDFs never parsed (most recent first)", () => {
+            assert.deepStrictEqual(selectPdfUrls(documents, "round-robin:3", { "d.pdf": "2019-05-01 10:00:00", "c.pdf": "2019-05-01 10:00:00" }), [ "d.pdf", "b.pdf", "a.pdf" ]);
+        });
+
+        it("selects the latest PDF and then the least recently parsed PDFs", () => {
+            let datesParsed = { "d.pdf": "2019-05-03 10:00:00", "c.pdf": "2019-05-03 10:00:00", "b.pdf": "2019-05-01 10:00:00", "a.pdf": "2019-05-02 10:00:00" };
+            assert.deepStrictEqual(selectPdfUrls(documents, "round-robin:2", datesParsed), [ "d.pdf", "b.pdf" ]);
+            assert.deepStrictEqual(selectPdfUrls(documents, "round-robin:3", datesParsed), [ "d.pdf", "b.pdf", "a.pdf" ]);
+            assert.deepStrictEqual(selectPdfUrls(documents, "round-robin:1", datesParsed), [ "d.pdf" ]);
+        });
+
+        it("selects a PDF by URL or period", () => {
+            assert.deepStrictEqual(selectPdfUrls(documents, "url:https://example.com/other.pdf"), [ "https://example.com/other.pdf" ]);
+            assert.deepStrictEqual(selectPdfUrls(documents, "period:2019-02"), [ "b.pdf" ]);
+        });
+
+        it("rejects an invalid selection", () => {
+            assert.throws(() => selectPdfUrls(documents, "latest:0"), /positive number/);
+            assert.throws(() => selectPdfUrls(documents, "round-robin:two"), /positive number/);
+            assert.throws(() => selectPdfUrls(documents, "url:"), /must specify a PDF URL/);
+            assert.throws(() => selectPdfUrls(documents, "period:"), /must specify a period/);
+            assert.throws(() => selectPdfUrls(documents, "newest"), /not supported/);
+        });
+    });
+});
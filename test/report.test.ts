@@ -0,0 +1,60 @@
+// Tests the gathering of the run report and the checking of the health thresholds.
+
+"use strict";
+
+import * as assert from "assert";
+import { DefaultHealthThresholds, createRunReport, addParsedPdf, addSavedApplications, finishRunReport, formatRunReport } from "../report";
+
+// Creates a parsed development application (with an address that was or was not formatted using
+// the fallback path).
+
+function createApplication(applicationNumber: string, isFallback: boolean, receivedDate: string = "2019-03-05") {
+    return { applicationNumber: applicationNumber, receivedDate: receivedDate, parsedAddress: { isFallback: isFallback } };
+}
+
+describe("report", () => {
+    it("totals the PDFs, pages and applications of a run", () => {
+        let report = createRunReport([ "coorong" ], "latest:1", new Date("2019-03-10T01:00:00Z"));
+        report.pdfsDiscovered = 3;
+        report.pdfsSelected = 1;
+        addParsedPdf(report, [ createApplication("581/1/19", false), createApplication("581/2/19", false), createApplication("581/3/19", false), createApplication("581/4/19", true, "") ], [
+            { url: "https://example.com/register.pdf", pageNumber: 5, applicationNumber: "", status: "rejected", reasons: [], elements: [] },
+            { url: "https://example.com/register.pdf", pageNumber: 6, applicationNumber: "581/4/19", status: "partial", reasons: [], elements: [] }
+        ], { pageCount: 6, reloadCount: 0, peakHeapUsed: 0, duration: 100 });
+        addSavedApplications(report, [ "new", "new", "changed", "unchanged" ]);
+        finishRunReport(report, DefaultHealthThresholds, new Date("2019-03-10T01:00:30Z"));
+
+        assert.strictEqual(report.duration, 30000);
+        assert.strictEqual(report.pagesParsed, 6);
+        assert.strictEqual(report.pagesRejected, 1);
+        assert.strictEqual(report.pagesPartial, 1);
+        assert.strictEqual(report.applicationsParsed, 4);
+        assert.deepStrictEqual([ report.applicationsNew, report.applicationsChanged, report.applicationsUnchanged ], [ 2, 1, 1 ]);
+        assert.strictEqual(report.fallbackRate, 0.25);
+        assert.strictEqual(report.missingReceivedDateRate, 0.25);
+        assert.deepStrictEqual(report.healthProblems, [
+            "25% of addresses were formatted using the fallback path (the maximum is 20%).",
+            "25% of applications have no received date (the maximum is 20%)."
+        ]);
+        assert.ok(formatRunReport(report).includes("Applications: 4 parsed, 2 new, 1 changed and 1 unchanged."));
+    });
+
+    it("flags a run that parsed no applications", () => {
+        let report = finishRunReport(createRunReport([ "coorong" ], "latest:1"));
+        assert.deepStrictEqual(report.healthProblems, [ "Only 0 application(s) were parsed (the minimum is 1)." ]);
+    });
+
+    it("accepts a run in which every selected PDF was not modified", () => {
+        let report = createRunReport([ "coorong" ], "latest:1");
+        report.pdfsSelected = 2;
+        report.pdfsNotModified = 2;
+        assert.deepStrictEqual(finishRunReport(report).healthProblems, []);
+    });
+
+    it("flags PDFs that could not be saved", () => {
+        let report = createRunReport([ "coorong" ], "latest:1");
+        addParsedPdf(report, [ createApplication("581/1/19", false) ], [], { pageCount: 1, reloadCount: 0, peakHeapUsed: 0, duration: 10 });
+        report.pdfsNotSaved = 1;
+        assert.deepStrictEqual(finishRunReport(report, { ...DefaultHealthThresholds, maximumFallbackRate: 1 }).healthProblems, [ "The applications from 1 PDF(s) could not be saved." ]);
+    });
+});
@@ -0,0 +1,142 @@
+// Tests complete scrapes, replaying a snapshot of a register page and generated PDFs (against a
+// sqlite database in a temporary directory).  The tests are skipped if the sqlite3 native module
+// cannot be loaded by the current version of Node.
+
+"use strict";
+
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CoorongProfile } from "../councils";
+import { PdfText, createPdf } from "./pdf";
+
+// Creates the text of a page laid out in the same way as a page of a Coorong development register
+// PDF.
+
+function createPageTexts(applicationNumber: string, description: string): PdfText[] {
+    return [
+        { text: "Dev App No.", x: 20, y: 50 },
+        { text: applicationNumber, x: 85, y: 50 },
+        { text: description, x: 150, y: 50 },
+        { text: "Applicant", x: 20, y: 62 },
+        { text: "J Smith", x: 70, y: 62 },
+        { text: "Application Received Date:", x: 20, y: 80 },
+        { text: "5/03/2019", x: 145, y: 80 },
+        { text: "Property Details:", x: 20, y: 100 },
+        { text: "Referrals", x: 300, y: 100 },
+        { text: "22 Jefferson CT 5263", x: 20, y: 115 },
+        { text: "Lot 12 DP 34567", x: 20, y: 127 },
+        { text: "Total Development Costs:", x: 20, y: 170 }
+    ];
+}
+
+// Creates the HTML of a register page that links to the specified PDFs.
+
+function createRegisterPage(results: { url: string, title: string }[]) {
+    let items = results.map(result => `
+        <li class="result-item">
+            <h3 class="result-item__title"><a href="${result.url}">${result.title}</a></h3>
+            <div class="result-item__url">${result.url}</div>
+        </li>`);
+    return `<html><body><ul>${items.join("")}</ul></body></html>`;
+}
+
+describe("scraper", () => {
+    let scraperModule: typeof import("../scraper");
+    let databaseModule: typeof import("../database");
+    let snapshotDirectory: string;
+
+    // Saves a snapshot of the register page and one PDF for each of January and February 2019
+    // (which print the number of the same application differently).
+
+    before(function() {
+        this.timeout(20000);
+        snapshotDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "snapshot-"));
+        let files: { [url: string]: [ string, string | Buffer ] } = {
+            [CoorongProfile.registerUrl]: [ "register.html", createRegisterPage([
+                { url: "https://example.com/january.pdf", title: "Development Register January 2019" },
+                { url: "https://example.com/february.pdf", title: "Development Register February 2019" }
+            ]) ],
+            "https://example.com/january.pdf": [ "january.pdf", createPdf([ createPageTexts("581/0123/2019", "Erect a verandah") ]) ],
+            "https://example.com/february.pdf": [ "february.pdf", createPdf([ createPageTexts("581/123/19", "Erect a shed") ]) ]
+        };
+        let index = {};
+        for (let url of Object.keys(files)) {
+            let [ fileName, content ] = files[url];
+            fs.writeFileSync(path.join(snapshotDirectory, fileName), content);
+            index[url] = fileName;
+        }
+        fs.writeFileSync(path.join(snapshotDirectory, "index.json"), JSON.stringify(index));
+
+        // The snapshot settings are read when the scraper is loaded.
+
+        process.env.MORPH_SNAPSHOT_MODE = "replay";
+        process.env.MORPH_SNAPSHOT_DIRECTORY = snapshotDirectory;
+        try {
+            scraperModule = require("../scraper");
+            databaseModule = require("../database");
+        } catch (error) {
+            console.log(`Skipping the scraper tests because sqlite3 could not be loaded: ${error.message.split("\n")[0]}`);
+            this.skip();
+        } finally {
+            delete process.env.MORPH_SNAPSHOT_MODE;
+            delete process.env.MORPH_SNAPSHOT_DIRECTORY;
+        }
+    });
+
+    after(() => {
+        for (let fileName of fs.readdirSync(snapshotDirectory))
+            fs.unlinkSync(path.join(snapshotDirectory, fileName));
+        fs.rmdirSync(snapshotDirectory);
+    });
+
+    it("summarises the applications by the application numbers that were saved", async function() {
+        this.timeout(20000);
+        let databaseDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "database-"));
+        let databasePath = path.join(databaseDirectory, "data.sqlite");
+        let log = console.log;
+        let messages: string[] = [];
+        console.log = (message?: any) => messages.push(String(message));
+        try {
+            let report = await scraperModule.scrape(databasePath, "all", [ CoorongProfile ]);
+            assert.strictEqual(report.applicationsParsed, 2);
+        } finally {
+            console.log = log;
+            if (fs.existsSync(databasePath))
+                fs.unlinkSync(databasePath);
+            fs.rmdirSync(databaseDirectory);
+        }
+
+        // The application is saved with the number printed in the PDF that was parsed first (the
+        // most recent), so the application from the other PDF (which merges to the same values)
+        // is listed with that number too.
+
+        assert.ok(messages.includes("    New: 581/123/19"), messages.join("\n"));
+        assert.ok(messages.includes("    Unchanged: 581/123/19"), messages.join("\n"));
+        assert.ok(!messages.some(message => message.includes("581/0123/2019") && /^    (New|Changed|Unchanged):/.test(message)), messages.join("\n"));
+    });
+
+    it("records a run in which a sink could not be opened", async function() {
+        this.timeout(20000);
+        let databaseDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "database-"));
+        let databasePath = path.join(databaseDirectory, "data.sqlite");
+        let log = console.log;
+        console.log = () => {};
+        process.env.MORPH_POSTGRES_URL = "postgres://scraper@127.0.0.1:1/planning";
+        try {
+            await assert.rejects(scraperModule.scrape(databasePath, "all", [ CoorongProfile ]), /ECONNREFUSED/);
+            let database = await databaseModule.initializeDatabase(databasePath);
+            let rows = await databaseModule.getSqlRows(database, "select [councils], [error] from [runs]", []);
+            await new Promise(resolve => (<any>database).close(resolve));
+            assert.strictEqual(rows.length, 1);
+            assert.ok(/ECONNREFUSED/.test(rows[0].error), rows[0].error);
+        } finally {
+            console.log = log;
+            delete process.env.MORPH_POSTGRES_URL;
+            if (fs.existsSync(databasePath))
+                fs.unlinkSync(databasePath);
+            fs.rmdirSync(databaseDirectory);
+        }
+    });
+});
@@ -0,0 +1,228 @@
+// Tests the Postgres and webhook sinks (against local stand-ins for a Postgres database and a
+// webhook consumer) and the transactional saving of a PDF to several sinks.
+
+"use strict";
+
+import * as assert from "assert";
+import * as http from "http";
+import { Sink, PostgresClient, DefaultWebhookOptions, createPostgresSink, createWebhookSink, saveToSinks } from "../sinks";
+
+// Creates a development application (as parsed from a PDF).
+
+function createApplication(applicationNumber: string, description: string) {
+    return {
+        applicationNumber: applicationNumber,
+        address: "22 JEFFERSON COURT, WELLINGTON EAST SA 5263",
+        description: description,
+        informationUrl: "https://example.com/register.pdf",
+        commentUrl: "mailto:council@coorong.sa.gov.au",
+        scrapeDate: "2019-03-10",
+        receivedDate: "2019-03-05",
+        legalDescription: "Lot 12 DP 34567",
+        applicant: "J Smith",
+        totalDevelopmentCost: 12500,
+        referrals: [ "EPA" ],
+        decisions: [],
+        parsedAddress: { confidence: 0.85, isLowConfidence: false },
+        council: "coorong"
+    };
+}
+
+// Creates an in-memory stand-in for a Postgres database that understands the statements issued by
+// the Postgres sink (including transactions).
+
+function createPostgresStandIn() {
+    let standIn = {
+        applications: {},
+        quarantine: {},
+        statements: [],
+        isEnded: false,
+        failOn: undefined
+    };
+    let savedState = undefined;
+    let client: PostgresClient = {
+        query: async (sql: string, parameters: any[] = []) => {
+            standIn.statements.push(sql.split(" ")[0]);
+            if (standIn.failOn !== undefined && sql.startsWith(standIn.failOn))
+                throw new Error("The stand-in database failed.");
+            if (sql === "begin")
+                savedState = JSON.stringify({ applications: standIn.applications, quarantine: standIn.quarantine });
+            else if (sql === "rollback")
+                Object.assign(standIn, JSON.parse(savedState));
+            else if (sql.startsWith("select") && sql.includes("from applications")) {
+                let existingRow = standIn.applications[`${parameters[0]}#${parameters[1]}`];
+                return { rows: (existingRow === undefined) ? [] : [ existingRow ] };
+            } else if (sql.startsWith("insert into applications")) {
+                let existingRow = standIn.applications[`${parameters[14]}#${parameters[0]}`];
+                standIn.applications[`${parameters[14]}#${parameters[0]}`] = { council_reference: parameters[0], address: parameters[1], description: parameters[2], date_scraped: (existingRow === undefined) ? parameters[5] : existingRow.date_scraped, date_received: parameters[6], legal_description: parameters[7], referrals: JSON.parse(parameters[10]), council: parameters[14] };
+            } else if (sql.startsWith("insert into quarantine"))
+                standIn.quarantine[`${parameters[0]}#${parameters[1]}`] = { status: parameters[3], reason: parameters[4] };
+            return { rows: [] };
+        },
+        end: async () => {
+            standIn.isEnded = true;
+        }
+    };
+    return { standIn: standIn, client: client };
+}
+
+describe("sinks", () => {
+    describe("createPostgresSink", () => {
+        it("inserts and updates applications in a transaction", async () => {
+            let { standIn, client } = createPostgresStandIn();
+            let sink = createPostgresSink(client);
+            await sink.open();
+
+            await sink.begin("https://example.com/register.pdf");
+            assert.strictEqual(await sink.saveApplication(createApplication("581/123/19", "Erect a verandah")), "new");
+            await sink.commit();
+
+            await sink.begin("https://example.com/register.pdf");
+            let changedApplication = { ...createApplication("581/123/19", "Erect a verandah and shed"), scrapeDate: "2019-03-11" };
+            assert.strictEqual(await sink.saveApplication(changedApplication), "changed");
+            assert.strictEqual(await sink.saveApplication(changedApplication), "unchanged");
+            await sink.commit();
+            await sink.close();
+
+            assert.deepStrictEqual(standIn.statements, [ "create", "alter", "select", "update", "alter", "create", "begin", "select", "insert", "commit", "begin", "select", "insert", "select", "insert", "commit" ]);
+            assert.strictEqual(standIn.applications["coorong#581/123/19"].description, "Erect a verandah and shed");
+            assert.strictEqual(standIn.applications["coorong#581/123/19"].date_scraped, "2019-03-10");
+            assert.deepStrictEqual(standIn.applications["coorong#581/123/19"].referrals, [ "EPA" ]);
+            assert.strictEqual(standIn.applications["coorong#581/123/19"].council, "coorong");
+            assert.strictEqual(standIn.isEnded, true);
+        });
+
+        it("keeps applications with the same number from different councils apart", async () => {
+            let { standIn, client } = createPostgresStandIn();
+            let sink = createPostgresSink(client);
+            await sink.begin("https://example.com/register.pdf");
+            assert.strictEqual(await sink.saveApplication(createApplication("581/123/19", "Erect a verandah")), "new");
+            assert.strictEqual(await sink.saveApplication({ ...createApplication("581/123/19", "Erect a shed"), council: "other" }), "new");
+            await sink.commit();
+            assert.deepStrictEqual(Object.keys(standIn.applications).sort(), [ "coorong#581/123/19", "other#581/123/19" ]);
+        });
+    });
+
+    describe("createWebhookSink", () => {
+        let server: http.Server;
+        let url: string;
+        let bodies: any[] = [];
+        let statusCode = 200;
+
+        before(done => {
+            server = http.createServer((request, response) => {
+                let chunks = [];
+                request.on("data", chunk => chunks.push(chunk));
+                request.on("end", () => {
+                    bodies.push({ method: request.method, contentType: request.headers["content-type"], body: JSON.parse(Buffer.concat(chunks).toString()) });
+                    response.writeHead(statusCode);
+                    response.end();
+                });
+            });
+            server.listen(0, "127.0.0.1", () => {
+                url = `http://127.0.0.1:${(<any>server.address()).port}/hook`;
+                done();
+            });
+        });
+
+        after(done => server.close(() => done()));
+
+        beforeEach(() => {
+            bodies = [];
+            statusCode = 200;
+        });
+
+        it("posts each committed PDF as a single batch", async () => {
+            let sink = createWebhookSink(url, { ...DefaultWebhookOptions, timeout: 1000 });
+            await sink.begin("https://example.com/register.pdf");
+            assert.strictEqual(await sink.saveApplication(createApplication("581/123/19", "Erect a verandah")), undefined);
+            await sink.saveApplication(createApplication("581/124/19", "Erect a shed"));
+            await sink.saveQuarantinedPage({ url: "https://example.com/register.pdf", pageNumber: 3, applicationNumber: "", status: "rejected", reasons: [ "The address is missing." ], elements: [] });
+            assert.strictEqual(bodies.length, 0);
+            await sink.commit();
+
+            assert.strictEqual(bodies.length, 1);
+            assert.strictEqual(bodies[0].method, "POST");
+            assert.strictEqual(bodies[0].contentType, "application/json");
+            assert.strictEqual(bodies[0].body.document_url, "https://example.com/register.pdf");
+            assert.deepStrictEqual(bodies[0].body.applications.map(application => application.council_reference), [ "581/123/19", "581/124/19" ]);
+            assert.strictEqual(bodies[0].body.applications[0].total_development_cost, 12500);
+            assert.strictEqual(bodies[0].body.applications[0].council, "coorong");
+            assert.deepStrictEqual(bodies[0].body.quarantined_pages, [ { pdf_url: "https://example.com/register.pdf", page_number: 3, council_reference: "", status: "rejected", reasons: [ "The address is missing." ] } ]);
+        });
+
+        it("does not post a rolled back batch", async () => {
+            let sink = createWebhookSink(url, { ...DefaultWebhookOptions, timeout: 1000 });
+            await sink.begin("https://example.com/register.pdf");
+            await sink.saveApplication(createApplication("581/123/19", "Erect a verandah"));
+            await sink.rollback();
+            assert.strictEqual(bodies.length, 0);
+        });
+
+        it("fails the commit when the webhook responds with an error", async () => {
+            statusCode = 500;
+            let sink = createWebhookSink(url, { ...DefaultWebhookOptions, timeout: 1000 });
+            await sink.begin("https://example.com/register.pdf");
+            await assert.rejects(sink.commit());
+        });
+    });
+
+    describe("saveToSinks", () => {
+        // Creates a sink that records the calls made to it (and optionally fails a call).
+
+        function createRecordingSink(name: string, calls: string[], failOn?: string, isDatabase: boolean = true): Sink {
+            let record = async (call: string) => {
+                calls.push(`${name}.${call}`);
+                if (call === failOn)
+                    throw new Error(`The ${name} sink failed.`);
+            };
+            return {
+                name: name,
+                isDatabase: isDatabase,
+                open: () => record("open"),
+                begin: () => record("begin"),
+                saveApplication: async () => {
+                    await record("saveApplication");
+                    return "new";
+                },
+                saveQuarantinedPage: () => record("saveQuarantinedPage"),
+                commit: () => record("commit"),
+                rollback: () => record("rollback"),
+                close: () => record("close")
+            };
+        }
+
+        it("saves to every sink and commits the primary sink last", async () => {
+            let calls: string[] = [];
+            let statuses = await saveToSinks([ createRecordingSink("primary", calls), createRecordingSink("other", calls) ], "https://example.com/register.pdf", [ createApplication("581/123/19", "Erect a verandah") ], []);
+            assert.deepStrictEqual(statuses, [ "new" ]);
+            assert.deepStrictEqual(calls, [ "primary.begin", "other.begin", "primary.saveApplication", "other.saveApplication", "other.commit", "primary.commit" ]);
+        });
+
+        it("rolls back every sink that has not committed when a sink fails", async () => {
+            let calls: string[] = [];
+            await assert.rejects(saveToSinks([ createRecordingSink("primary", calls), createRecordingSink("other", calls, "commit") ], "https://example.com/register.pdf", [ createApplication("581/123/19", "Erect a verandah") ], []), /other sink failed/);
+            assert.deepStrictEqual(calls.slice(-3), [ "other.commit", "primary.rollback", "other.rollback" ]);
+        });
+
+        it("commits the webhook only after every database has committed", async () => {
+            let calls: string[] = [];
+            await saveToSinks([ createRecordingSink("primary", calls), createRecordingSink("webhook", calls, undefined, false), createRecordingSink("other", calls) ], "https://example.com/register.pdf", [], []);
+            assert.deepStrictEqual(calls.slice(-3), [ "other.commit", "primary.commit", "webhook.commit" ]);
+        });
+
+        it("keeps the applications saved to the databases when the webhook fails", async () => {
+            let calls: string[] = [];
+            await assert.rejects(saveToSinks([ createRecordingSink("primary", calls), createRecordingSink("webhook", calls, "commit", false) ], "https://example.com/register.pdf", [ createApplication("581/123/19", "Erect a verandah") ], []), /webhook sink failed/);
+            assert.deepStrictEqual(calls.slice(-3), [ "primary.commit", "webhook.commit", "webhook.rollback" ]);
+        });
+
+        it("leaves the Postgres database unchanged when another sink fails", async () => {
+            let { standIn, client } = createPostgresStandIn();
+            let calls: string[] = [];
+            await assert.rejects(saveToSinks([ createPostgresSink(client), createRecordingSink("other", calls, "saveApplication") ], "https://example.com/register.pdf", [ createApplication("581/123/19", "Erect a verandah") ], []));
+            assert.deepStrictEqual(standIn.applications, {});
+            assert.strictEqual(standIn.statements[standIn.statements.length - 1], "rollback");
+        });
+    });
+});